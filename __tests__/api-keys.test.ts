@@ -0,0 +1,311 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import {
+  ApiKeyError,
+  apiKeySettings,
+  createApiKey,
+  effectiveScopes,
+  hashApiKey,
+  isApiKeyActive,
+  parseBearerToken,
+  RateLimiter,
+} from '@/lib/api-keys';
+import { pageSkip, sortOrder, summarizeSales } from '@/lib/api-v1';
+import { CreateApiKeyBody, V1ProductsQuery } from '@/lib/schemas';
+import { GET as listProducts } from '@/app/api/v1/products/route';
+import { PATCH as patchProduct } from '@/app/api/v1/products/[productId]/route';
+import { POST as postSale } from '@/app/api/v1/sales/route';
+import { recordAudit } from '@/lib/audit';
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn()
+}));
+
+jest.mock('@/lib/auth', () => ({
+  authOptions: {}
+}));
+
+jest.mock('@/lib/audit', () => ({
+  recordAudit: jest.fn()
+}));
+
+jest.mock('@/lib/webhooks', () => ({
+  ...jest.requireActual<object>('@/lib/webhooks'),
+  emitWebhookEvent: jest.fn()
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    apiKey: {
+      findUnique: jest.fn(),
+      update: jest.fn()
+    },
+    product: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn()
+    }
+  }
+}));
+
+import prisma from '@/lib/prisma';
+
+describe('API keys', () => {
+  it('creates prefixed keys and stores only their hash', () => {
+    const { key, hashedKey, prefix } = createApiKey();
+
+    expect(key).toMatch(/^mx_[0-9a-f]{48}$/);
+    expect(hashedKey).toBe(hashApiKey(key));
+    expect(hashedKey).not.toContain(key);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(createApiKey().key).not.toBe(key);
+  });
+
+  it('reads bearer tokens', () => {
+    expect(parseBearerToken('Bearer mx_abc')).toBe('mx_abc');
+    expect(parseBearerToken('bearer  mx_abc ')).toBe('mx_abc');
+    expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(parseBearerToken(null)).toBeNull();
+  });
+
+  it('only grants scopes the creator holds', () => {
+    const now = new Date('2024-01-01T00:00:00Z');
+    const body = CreateApiKeyBody.parse({ name: ' Sync ', scopes: ['MANAGE_SALES', 'MANAGE_SALES'], expiresInDays: 30 });
+
+    expect(apiKeySettings(body, ['MANAGE_SALES', 'VIEW_REPORTS'], now)).toEqual({
+      name: 'Sync',
+      scopes: ['MANAGE_SALES'],
+      expiresAt: new Date('2024-01-31T00:00:00Z'),
+      rateLimitPerMinute: 60,
+    });
+    expect(() => apiKeySettings({ name: 'Sync', scopes: ['MANAGE_EMPLOYEES'] }, ['MANAGE_SALES']))
+      .toThrow('You cannot grant scopes you do not hold: MANAGE_EMPLOYEES');
+    expect(() => apiKeySettings({ name: 'Sync', scopes: ['MANAGE_EMPLOYEES'] }, ['MANAGE_SALES'])).toThrow(ApiKeyError);
+  });
+
+  it('rejects key bodies without a name or with unknown scopes or limits', () => {
+    expect(CreateApiKeyBody.safeParse({ name: 'Sync', scopes: ['DROP_TABLES'] }).success).toBe(false);
+    expect(CreateApiKeyBody.safeParse({ name: 'Sync', scopes: [] }).error?.issues[0].message).toBe('Choose at least one scope');
+    expect(CreateApiKeyBody.safeParse({ name: ' ', scopes: ['MANAGE_SALES'] }).success).toBe(false);
+    expect(CreateApiKeyBody.safeParse({ name: 'Sync', scopes: ['MANAGE_SALES'], rateLimitPerMinute: 0 }).success).toBe(false);
+  });
+
+  it('drops scopes the creator has since lost and refuses revoked or expired keys', () => {
+    const now = new Date('2024-06-01T00:00:00Z');
+
+    expect(effectiveScopes(['MANAGE_SALES', 'MANAGE_INVENTORY'], ['MANAGE_SALES'])).toEqual(['MANAGE_SALES']);
+    expect(isApiKeyActive({ revokedAt: null, expiresAt: null }, now)).toBe(true);
+    expect(isApiKeyActive({ revokedAt: new Date('2024-05-01'), expiresAt: null }, now)).toBe(false);
+    expect(isApiKeyActive({ revokedAt: null, expiresAt: new Date('2024-05-31') }, now)).toBe(false);
+  });
+
+  it('limits requests per key within each minute', () => {
+    const limiter = new RateLimiter();
+    const start = 1_000_000;
+
+    expect(limiter.check('a', 2, start)).toEqual({ allowed: true, limit: 2, remaining: 1, resetAt: start + 60_000 });
+    expect(limiter.check('a', 2, start + 1).allowed).toBe(true);
+    expect(limiter.check('a', 2, start + 2)).toEqual(expect.objectContaining({ allowed: false, remaining: 0 }));
+    // Other keys have their own budget
+    expect(limiter.check('b', 2, start + 3).allowed).toBe(true);
+    expect(limiter.check('a', 2, start + 60_000)).toEqual(expect.objectContaining({ allowed: true, remaining: 1 }));
+  });
+});
+
+describe('API v1 queries', () => {
+  it('validates pagination and sorting', () => {
+    const query = V1ProductsQuery.parse({ page: '3', limit: '10', sort: '-name' });
+    expect(query).toEqual({ page: 3, limit: 10, sort: '-name' });
+    expect(pageSkip(query)).toBe(20);
+    expect(sortOrder(query.sort, 'createdAt')).toEqual({ name: 'desc' });
+    expect(sortOrder(undefined, 'createdAt')).toEqual({ createdAt: 'desc' });
+
+    expect(V1ProductsQuery.parse({})).toEqual({ page: 1, limit: 25 });
+    expect(V1ProductsQuery.safeParse({ limit: '500' }).success).toBe(false);
+    expect(V1ProductsQuery.safeParse({ page: '0' }).success).toBe(false);
+    expect(V1ProductsQuery.safeParse({ sort: 'hashedKey' }).success).toBe(false);
+  });
+
+  it('summarizes sales net of refunds and returned items', () => {
+    const summary = summarizeSales([
+      {
+        totalAmount: 30,
+        refundedAmount: 10,
+        items: [
+          { quantity: 3, returnedQuantity: 1, price: 10, productId: 'p1', productName: null, product: { name: 'Mug' } },
+        ],
+      },
+      {
+        totalAmount: 50,
+        refundedAmount: 0,
+        items: [
+          { quantity: 1, returnedQuantity: 0, price: 50, productId: 'p2', productName: null, product: { name: 'Lamp' } },
+        ],
+      },
+    ]);
+
+    expect(summary).toEqual({
+      revenue: 80,
+      refunds: 10,
+      netRevenue: 70,
+      tax: 0,
+      preTaxRevenue: 70,
+      salesCount: 2,
+      itemsSold: 3,
+      averageOrderValue: 35,
+      topProducts: [
+        { productId: 'p2', name: 'Lamp', quantity: 1, revenue: 50 },
+        { productId: 'p1', name: 'Mug', quantity: 2, revenue: 20 },
+      ],
+    });
+  });
+});
+
+describe('API v1 authentication', () => {
+  const { key, hashedKey } = createApiKey();
+  const storedKey = {
+    id: 'key-1',
+    hashedKey,
+    scopes: ['MANAGE_INVENTORY'],
+    rateLimitPerMinute: 2,
+    lastUsedAt: null,
+    expiresAt: null,
+    revokedAt: null,
+    user: {
+      id: 'employee-1',
+      name: 'Sam',
+      email: 'sam@example.com',
+      role: 'INVENTORY_MANAGER',
+      permissions: [],
+      businessId: 'owner-1',
+    },
+  };
+
+  const request = (authorization?: string) => new Request('http://localhost/api/v1/products?limit=10', {
+    headers: authorization ? { authorization } : {},
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.product.findMany as jest.Mock<any>).mockResolvedValue([]);
+    (prisma.product.count as jest.Mock<any>).mockResolvedValue(0);
+  });
+
+  it('rejects requests without a key or with an unknown key', async () => {
+    const missing = await listProducts(request());
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('WWW-Authenticate')).toBe('Bearer');
+
+    (prisma.apiKey.findUnique as jest.Mock<any>).mockResolvedValue(null);
+    expect((await listProducts(request('Bearer mx_unknown'))).status).toBe(401);
+  });
+
+  it("lists the key owner's business products and records when the key was used", async () => {
+    (prisma.apiKey.findUnique as jest.Mock<any>).mockResolvedValue({ ...storedKey, id: 'key-ok' });
+
+    const response = await listProducts(request(`Bearer ${key}`));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ data: [], pagination: { page: 1, limit: 10, total: 0, totalPages: 0 } });
+    expect(prisma.apiKey.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { hashedKey } }));
+    expect(prisma.product.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'owner-1' } }));
+    expect(prisma.apiKey.update).toHaveBeenCalledWith({
+      where: { id: 'key-ok' },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+  });
+
+  it('refuses keys without the scope for the request', async () => {
+    (prisma.apiKey.findUnique as jest.Mock<any>).mockResolvedValue({ ...storedKey, id: 'key-scope', scopes: ['VIEW_REPORTS'] });
+
+    const response = await listProducts(request(`Bearer ${key}`));
+
+    expect(response.status).toBe(403);
+    expect(prisma.product.findMany).not.toHaveBeenCalled();
+  });
+
+  it('answers 429 once a key uses up its rate limit', async () => {
+    (prisma.apiKey.findUnique as jest.Mock<any>).mockResolvedValue({ ...storedKey, id: 'key-limited' });
+
+    await listProducts(request(`Bearer ${key}`));
+    await listProducts(request(`Bearer ${key}`));
+    const response = await listProducts(request(`Bearer ${key}`));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+});
+
+describe('API v1 writes', () => {
+  const { key, hashedKey } = createApiKey();
+  const storedKey = {
+    id: 'key-writes',
+    hashedKey,
+    scopes: ['MANAGE_INVENTORY'],
+    rateLimitPerMinute: 60,
+    lastUsedAt: null,
+    expiresAt: null,
+    revokedAt: null,
+    user: {
+      id: 'employee-1',
+      name: 'Sam',
+      email: 'sam@example.com',
+      role: 'INVENTORY_MANAGER',
+      permissions: [],
+      businessId: 'owner-1',
+    },
+  };
+  const mug = { id: 'mug', userId: 'owner-1', sku: 'MUG-1', name: 'Mug', sellingPrice: 12, stockQuantity: 10 };
+
+  const send = (path: string, method: string, body: object) => new Request(`http://localhost${path}`, {
+    method,
+    headers: { authorization: `Bearer ${key}` },
+    body: JSON.stringify(body),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.apiKey.findUnique as jest.Mock<any>).mockResolvedValue(storedKey);
+    (prisma.product.findFirst as jest.Mock<any>).mockImplementation(({ where }: any) =>
+      Promise.resolve(where.id === mug.id && where.userId === mug.userId ? mug : null));
+    (prisma.product.update as jest.Mock<any>).mockImplementation(({ data }: any) =>
+      Promise.resolve({ ...mug, sellingPrice: data.sellingPrice ?? mug.sellingPrice }));
+  });
+
+  it("updates the key owner's products and audits the change as the key's user", async () => {
+    const response = await patchProduct(send('/api/v1/products/mug', 'PATCH', { sellingPrice: 14 }), {
+      params: { productId: 'mug' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ data: expect.objectContaining({ id: 'mug', sellingPrice: 14 }) });
+    expect(prisma.product.findFirst).toHaveBeenCalledWith({ where: { id: 'mug', userId: 'owner-1' } });
+    expect(recordAudit).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({ user: expect.objectContaining({ id: 'employee-1', ownerId: 'owner-1' }) }),
+      expect.objectContaining({ action: 'update', entityType: 'Product', entityId: 'mug' })
+    );
+  });
+
+  it('answers 404 for products of other businesses', async () => {
+    const response = await patchProduct(send('/api/v1/products/other', 'PATCH', { sellingPrice: 14 }), {
+      params: { productId: 'other' },
+    });
+
+    expect(response.status).toBe(404);
+    expect(prisma.product.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to record sales with a key that may only manage inventory', async () => {
+    const response = await postSale(send('/api/v1/sales', 'POST', {
+      items: [{ productId: 'mug', quantity: 1 }],
+      paymentMethod: 'CASH',
+      totalAmount: 12,
+    }));
+
+    expect(response.status).toBe(403);
+    expect(prisma.product.findFirst).not.toHaveBeenCalled();
+  });
+});
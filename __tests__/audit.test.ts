@@ -0,0 +1,108 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { diffChanges, recordAudit } from '@/lib/audit';
+
+describe('Audit log', () => {
+  const session = { user: { id: 'employee-1', ownerId: 'owner-1' } };
+
+  function mockClient() {
+    const create = jest.fn<(args: any) => Promise<unknown>>().mockResolvedValue({});
+    return { client: { auditEvent: { create } } as any, create };
+  }
+
+  it('diffs the fields that changed on an update', () => {
+    const before = { id: 'p1', name: 'Mug', sellingPrice: 10, stockQuantity: 5, updatedAt: new Date('2024-01-01') };
+    const after = { id: 'p1', name: 'Mug', sellingPrice: 12, stockQuantity: 5, updatedAt: new Date('2024-02-01') };
+
+    expect(diffChanges(before, after)).toEqual({
+      sellingPrice: { before: 10, after: 12 },
+    });
+  });
+
+  it('records every field on creates and deletes', () => {
+    const product = { id: 'p1', sku: 'MUG-1', color: null };
+
+    expect(diffChanges(null, product)).toEqual({
+      id: { before: null, after: 'p1' },
+      sku: { before: null, after: 'MUG-1' },
+    });
+    expect(diffChanges(product, null)).toEqual({
+      id: { before: 'p1', after: null },
+      sku: { before: 'MUG-1', after: null },
+    });
+  });
+
+  it('compares dates and string arrays by value and skips relations and secrets', () => {
+    const before = {
+      expectedAt: new Date('2024-03-01T00:00:00Z'),
+      permissions: ['MANAGE_SALES'],
+      hashedPassword: 'old',
+      lines: [{ id: 'l1' }],
+      supplier: { id: 's1' },
+    };
+    const after = {
+      expectedAt: new Date('2024-03-01T00:00:00Z'),
+      permissions: ['MANAGE_SALES', 'VIEW_REPORTS'],
+      hashedPassword: 'new',
+      lines: [{ id: 'l2' }],
+      supplier: { id: 's2' },
+    };
+
+    expect(diffChanges(before, after)).toEqual({
+      permissions: { before: ['MANAGE_SALES'], after: ['MANAGE_SALES', 'VIEW_REPORTS'] },
+    });
+  });
+
+  it('only compares the fields present on a partial update', () => {
+    expect(diffChanges({ name: 'Mug', isActive: true }, { isActive: false })).toEqual({
+      isActive: { before: true, after: false },
+    });
+  });
+
+  it('stores the actor and business with the diff', async () => {
+    const { client, create } = mockClient();
+
+    await recordAudit(client, session, {
+      action: 'update',
+      entityType: 'Sale',
+      entityId: 'sale-1',
+      before: { paymentStatus: 'COMPLETED' },
+      after: { paymentStatus: 'REFUNDED' },
+      summary: 'Refunded',
+    });
+
+    expect(create).toHaveBeenCalledWith({
+      data: {
+        action: 'update',
+        entityType: 'Sale',
+        entityId: 'sale-1',
+        summary: 'Refunded',
+        changes: { paymentStatus: { before: 'COMPLETED', after: 'REFUNDED' } },
+        businessId: 'owner-1',
+        actorId: 'employee-1',
+      },
+    });
+  });
+
+  it('skips updates that change nothing and never throws', async () => {
+    const { client, create } = mockClient();
+
+    await recordAudit(client, session, {
+      action: 'update',
+      entityType: 'Customer',
+      entityId: 'c1',
+      before: { name: 'Ada' },
+      after: { name: 'Ada' },
+    });
+    expect(create).not.toHaveBeenCalled();
+
+    create.mockRejectedValueOnce(new Error('database is down'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(recordAudit(client, session, {
+      action: 'delete',
+      entityType: 'Customer',
+      entityId: 'c1',
+      before: { name: 'Ada' },
+    })).resolves.toBeUndefined();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { NextResponse } from 'next/server';
+import { buildCustomerGrowth, loadCustomerGrowth } from '@/lib/analytics/customer-growth';
+import { GET as listCustomers, POST as createCustomer } from '@/app/api/customers/route';
+import { DELETE as deleteCustomer } from '@/app/api/customers/[customerId]/route';
+import { GET as customerGrowth } from '@/app/api/customers/growth/route';
+
+jest.mock('@/lib/authorize', () => ({
+  requirePermission: jest.fn(),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  recordAudit: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    customer: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    sale: {
+      groupBy: jest.fn(),
+    },
+  },
+}));
+
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+
+const session = { user: { id: 'employee-1', ownerId: 'owner-1' } };
+
+const firstPurchase = (customerId: string, firstPurchaseAt: string, purchaseCount = 1) => ({
+  customerId,
+  firstPurchaseAt: new Date(firstPurchaseAt),
+  purchaseCount,
+});
+
+describe('Customer growth', () => {
+  it('counts each customer once, in the period of their first purchase', () => {
+    const growth = buildCustomerGrowth([
+      firstPurchase('c3', '2024-03-02T10:00:00Z'),
+      firstPurchase('c1', '2024-01-15T10:00:00Z', 4),
+      firstPurchase('c2', '2024-01-31T18:00:00Z'),
+      firstPurchase('c4', '2024-03-20T10:00:00Z', 2),
+    ]);
+
+    expect(growth).toEqual([
+      { period: '2024-01', newCustomers: 2, repeatCustomers: 1, totalCustomers: 2 },
+      { period: '2024-03', newCustomers: 2, repeatCustomers: 1, totalCustomers: 4 },
+    ]);
+  });
+
+  it('groups by quarter and year', () => {
+    const purchases = [
+      firstPurchase('c1', '2023-11-01T10:00:00Z'),
+      firstPurchase('c2', '2024-02-01T10:00:00Z'),
+      firstPurchase('c3', '2024-05-01T10:00:00Z'),
+    ];
+
+    expect(buildCustomerGrowth(purchases, 'quarter').map(point => [point.period, point.totalCustomers]))
+      .toEqual([['2023-4', 1], ['2024-1', 2], ['2024-2', 3]]);
+    expect(buildCustomerGrowth(purchases, 'year').map(point => [point.period, point.newCustomers]))
+      .toEqual([['2023', 1], ['2024', 2]]);
+    expect(buildCustomerGrowth([])).toEqual([]);
+  });
+
+  it("reads the first sale of each of the business's customers", async () => {
+    (prisma.sale.groupBy as jest.Mock<any>).mockResolvedValue([
+      { customerId: 'c1', _min: { date: new Date('2024-01-15T10:00:00Z') }, _count: { _all: 3 } },
+      { customerId: 'c2', _min: { date: new Date('2024-02-03T10:00:00Z') }, _count: { _all: 1 } },
+    ]);
+
+    const growth = await loadCustomerGrowth(prisma as any, 'month', 'owner-1');
+
+    expect(prisma.sale.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      by: ['customerId'],
+      where: { customerId: { not: null }, userId: 'owner-1' },
+    }));
+    expect(growth.map(point => point.totalCustomers)).toEqual([1, 2]);
+  });
+});
+
+describe('Customer routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requirePermission as jest.Mock<any>).mockResolvedValue(session);
+  });
+
+  it("lists only the business's active customers", async () => {
+    (prisma.customer.findMany as jest.Mock<any>).mockResolvedValue([{ id: 'c1', name: 'Ada Lovelace' }]);
+    (prisma.customer.count as jest.Mock<any>).mockResolvedValue(1);
+
+    const response = await listCustomers(new Request('http://localhost/api/customers?search=ada'));
+
+    expect(await response.json()).toEqual({ customers: [{ id: 'c1', name: 'Ada Lovelace' }], total: 1, totalPages: 1 });
+    expect(prisma.customer.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ userId: 'owner-1', isActive: true }),
+    }));
+  });
+
+  it('creates a customer for the business and audits it', async () => {
+    (prisma.customer.findFirst as jest.Mock<any>).mockResolvedValue(null);
+    (prisma.customer.create as jest.Mock<any>).mockImplementation(({ data }: any) => Promise.resolve({ id: 'c1', ...data }));
+
+    const response = await createCustomer(new Request('http://localhost/api/customers', {
+      method: 'POST',
+      body: JSON.stringify({ name: '  Ada Lovelace ', email: 'ada@example.com' }),
+    }));
+
+    expect(response.status).toBe(201);
+    expect(prisma.customer.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ name: 'Ada Lovelace', email: 'ada@example.com', userId: 'owner-1' }),
+    });
+    expect(recordAudit).toHaveBeenCalledWith(prisma, session, expect.objectContaining({ action: 'create', entityId: 'c1' }));
+  });
+
+  it('refuses a customer without a name or with an email already in use', async () => {
+    const post = (body: object) => createCustomer(new Request('http://localhost/api/customers', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }));
+
+    expect((await post({ name: ' ' })).status).toBe(400);
+
+    (prisma.customer.findFirst as jest.Mock<any>).mockResolvedValue({ id: 'c1' });
+    const duplicate = await post({ name: 'Ada', email: 'ADA@example.com' });
+    expect(duplicate.status).toBe(400);
+    expect(await duplicate.json()).toEqual({ error: 'A customer with this email already exists' });
+    expect(prisma.customer.create).not.toHaveBeenCalled();
+  });
+
+  it('deactivates customers with sales instead of deleting them', async () => {
+    (prisma.customer.findFirst as jest.Mock<any>).mockResolvedValue({ id: 'c1', name: 'Ada', _count: { sales: 2 } });
+    (prisma.customer.update as jest.Mock<any>).mockResolvedValue({ id: 'c1', name: 'Ada', isActive: false });
+
+    const response = await deleteCustomer(new Request('http://localhost/api/customers/c1'), { params: { customerId: 'c1' } });
+
+    expect(await response.json()).toEqual({ message: 'Customer deactivated', deactivated: true });
+    expect(prisma.customer.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'c1', userId: 'owner-1' } }));
+    expect(prisma.customer.delete).not.toHaveBeenCalled();
+  });
+
+  it('serves customer growth for the business', async () => {
+    (prisma.sale.groupBy as jest.Mock<any>).mockResolvedValue([
+      { customerId: 'c1', _min: { date: new Date('2024-01-15T10:00:00Z') }, _count: { _all: 1 } },
+    ]);
+
+    const response = await customerGrowth(new Request('http://localhost/api/customers/growth?period=year'));
+
+    expect(await response.json()).toEqual({
+      period: 'year',
+      growth: [{ period: '2024', newCustomers: 1, repeatCustomers: 0, totalCustomers: 1 }],
+    });
+    expect((await customerGrowth(new Request('http://localhost/api/customers/growth?period=week'))).status).toBe(400);
+  });
+
+  it('stops at the permission check', async () => {
+    (requirePermission as jest.Mock<any>).mockResolvedValue(NextResponse.json({ error: 'Forbidden' }, { status: 403 }));
+
+    const response = await listCustomers(new Request('http://localhost/api/customers'));
+
+    expect(response.status).toBe(403);
+    expect(prisma.customer.findMany).not.toHaveBeenCalled();
+  });
+});
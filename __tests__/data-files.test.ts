@@ -0,0 +1,155 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  DataFileError,
+  dataFileFormat,
+  readJsonRows,
+  readWorkbook,
+  writeDataFile,
+} from '@/lib/data-files';
+import { productExportRows, PRODUCT_EXPORT_COLUMNS, saleExportRows } from '@/lib/exports';
+import { productListWhere, saleListOrderBy, saleListWhere } from '@/lib/list-queries';
+import { ReplenishmentCalculator } from '@/lib/analytics/replenishment';
+
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+describe('Data files', () => {
+  it('recognises supported file extensions', () => {
+    expect(dataFileFormat('Sales 2024.XLSX')).toBe('xlsx');
+    expect(dataFileFormat('products.json')).toBe('json');
+    expect(dataFileFormat('export.csv')).toBe('csv');
+    expect(dataFileFormat('legacy.xls')).toBeNull();
+  });
+
+  describe('readJsonRows', () => {
+    it('reads an array of records with headers in order of appearance', () => {
+      const sheet = readJsonRows(JSON.stringify([
+        { sku: 'S1', name: 'Mug' },
+        { sku: 'S2', price: 4.5, tags: ['kitchen'] },
+      ]));
+
+      expect(sheet.headers).toEqual(['sku', 'name', 'price', 'tags']);
+      expect(sheet.rows).toEqual([
+        { sku: 'S1', name: 'Mug', price: null, tags: null },
+        { sku: 'S2', name: null, price: 4.5, tags: '["kitchen"]' },
+      ]);
+    });
+
+    it('reads the one array inside a wrapper object', () => {
+      expect(readJsonRows('{"products": [{"sku": "S1"}], "count": 1}').rows).toEqual([{ sku: 'S1' }]);
+    });
+
+    it('rejects files that are not JSON or hold no records', () => {
+      expect(() => readJsonRows('sku,name')).toThrow(DataFileError);
+      expect(() => readJsonRows('[1, 2]')).toThrow('The JSON file must hold an array of records');
+      expect(() => readJsonRows('{"a": [], "b": []}')).toThrow(DataFileError);
+    });
+  });
+
+  describe('writeDataFile', () => {
+    const rows = [
+      { sku: 'S1', name: 'Mug, large', price: 4.5 },
+      { sku: 'S2', name: 'Tote', price: null },
+    ];
+
+    it('writes CSV with the columns in order and quotes where needed', async () => {
+      const csv = decode(await writeDataFile('csv', ['name', 'sku', 'price'], rows));
+      expect(csv.split(/\r?\n/)).toEqual(['name,sku,price', '"Mug, large",S1,4.5', 'Tote,S2,']);
+    });
+
+    it('keeps spreadsheets from running text in CSV cells as formulas', async () => {
+      const csv = decode(await writeDataFile('csv', ['name', 'note', 'change'], [
+        { name: '=HYPERLINK("http://example.com","Click")', note: '@SUM(A1)', change: -3 },
+        { name: '+1 mug', note: '-discount', change: 2 },
+      ]));
+
+      expect(csv.split(/\r?\n/)).toEqual([
+        'name,note,change',
+        `"'=HYPERLINK(""http://example.com"",""Click"")","'@SUM(A1)",-3`,
+        `"'+1 mug","'-discount",2`,
+      ]);
+    });
+
+    it('writes JSON as an array of records', async () => {
+      const json = JSON.parse(decode(await writeDataFile('json', ['sku', 'price'], rows)));
+      expect(json).toEqual([{ sku: 'S1', price: 4.5 }, { sku: 'S2', price: null }]);
+    });
+
+    it('writes workbooks that read back the same', async () => {
+      const data = await writeDataFile('xlsx', ['sku', 'name', 'price'], rows, 'products');
+      const sheets = await readWorkbook(toArrayBuffer(data));
+
+      expect(sheets).toEqual([{ name: 'products', headers: ['sku', 'name', 'price'], rows }]);
+    });
+  });
+
+  it('reports unreadable workbooks', async () => {
+    const data = new TextEncoder().encode('not a workbook');
+    await expect(readWorkbook(toArrayBuffer(data))).rejects.toThrow('The file is not a readable Excel workbook');
+  });
+});
+
+describe('Exports', () => {
+  it('uses the import column names for products', () => {
+    const [row] = productExportRows([{
+      sku: 'S1', name: 'Mug', description: null, category: 'Kitchen', unitCost: 2, sellingPrice: 4.5,
+      stockQuantity: 10, location: null, size: null, color: 'Blue',
+    }]);
+
+    expect(Object.keys(row)).toEqual(PRODUCT_EXPORT_COLUMNS);
+    expect(row).toEqual(expect.objectContaining({ sku: 'S1', sellingPrice: 4.5, color: 'Blue' }));
+  });
+
+  it('writes one row per sale line item, identified the way the import matches them', () => {
+    const rows = saleExportRows([{
+      id: 'sale-1',
+      date: new Date('2024-03-05T15:00:00Z'),
+      paymentMethod: 'CASH',
+      paymentStatus: 'COMPLETED',
+      customer: { name: 'Ada' },
+      items: [
+        { quantity: 3, price: 1.1, productId: 'p1', productName: null, product: { name: 'Mug' }, variant: { sku: 'MUG-BLUE' } },
+        { quantity: 1, price: 5, productId: 'p2', productName: 'Tote (old name)', product: { name: 'Tote' }, variant: null },
+      ],
+    }]);
+
+    expect(rows).toEqual([
+      expect.objectContaining({ date: '2024-03-05', productId: 'MUG-BLUE', productName: 'Mug', totalAmount: 3.3, externalOrderId: 'sale-1', customer: 'Ada' }),
+      expect.objectContaining({ productId: 'p2', productName: 'Tote (old name)', totalAmount: 5 }),
+    ]);
+  });
+});
+
+describe('List filters', () => {
+  it('filters products by category, stock status and search', async () => {
+    const lowStock = jest.spyOn(ReplenishmentCalculator.prototype, 'lowStockProductIds').mockResolvedValue(['p1', 'p2']);
+    const client = {} as PrismaClient;
+    const where = await productListWhere(client, 'owner-1', new URLSearchParams('category=Kitchen&status=low-stock&search=mug'));
+
+    expect(lowStock).toHaveBeenCalledWith('owner-1');
+    expect(where).toEqual({
+      userId: 'owner-1',
+      category: 'Kitchen',
+      id: { in: ['p1', 'p2'] },
+      OR: [
+        { name: { contains: 'mug', mode: 'insensitive' } },
+        { sku: { contains: 'mug', mode: 'insensitive' } },
+      ],
+    });
+    expect(await productListWhere(client, 'owner-1', new URLSearchParams('category=all&status=all'))).toEqual({ userId: 'owner-1' });
+    lowStock.mockRestore();
+  });
+
+  it('limits sales to the period and sorts by item count in memory', () => {
+    const now = new Date('2024-03-31T00:00:00Z');
+    const where = saleListWhere('owner-1', new URLSearchParams('period=week'), now);
+
+    expect(where).toEqual({ userId: 'owner-1', date: { gte: new Date('2024-03-24T00:00:00Z') } });
+    expect(saleListOrderBy(new URLSearchParams('sortKey=itemsCount'))).toBeNull();
+    expect(saleListOrderBy(new URLSearchParams('sortKey=totalAmount&sortDir=asc'))).toEqual({ totalAmount: 'asc' });
+  });
+});
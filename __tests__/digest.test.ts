@@ -0,0 +1,249 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import { addHours, subDays, startOfDay } from 'date-fns';
+import { getTopProducts } from '@/lib/analytics';
+import { PriceRecommendation, PriceRecommendationCalculator } from '@/lib/analytics/price-recommendations';
+import { ReplenishmentCalculator, ReplenishmentSuggestion } from '@/lib/analytics/replenishment';
+import { EmailMessage } from '@/lib/email';
+import {
+  buildDigest,
+  Digest,
+  digestPeriod,
+  dueDigestFrequencies,
+  renderDigestHtml,
+  renderDigestText,
+  sendDigests,
+} from '@/lib/digest';
+
+// The real module needs React's server-only cache()
+jest.mock('@/lib/analytics', () => ({
+  getTopProducts: jest.fn(),
+}));
+
+const mockedGetTopProducts = getTopProducts as unknown as jest.Mock<any>;
+
+function recommendation(overrides: Partial<PriceRecommendation> = {}): PriceRecommendation {
+  return {
+    productId: 'p1',
+    productName: 'Mug',
+    currentPrice: 12,
+    recommendedPrice: 14,
+    confidence: 'high',
+    potentialRevenue: 700,
+    currentRevenue: 600,
+    revenueDifference: 100,
+    percentageChange: 16.7,
+    ...overrides,
+  };
+}
+
+function mockClient(users: any[] = []) {
+  const yesterday = subDays(startOfDay(new Date()), 1);
+  const client = {
+    $queryRaw: jest.fn<any>().mockResolvedValue([{ '?column?': 1 }]),
+    sale: {
+      // Two sales yesterday, one from today that a daily digest leaves out
+      findMany: jest.fn<any>().mockResolvedValue([
+        { id: 's1', createdAt: addHours(yesterday, 9), totalAmount: 40, refundedAmount: 0 },
+        { id: 's2', createdAt: addHours(yesterday, 15), totalAmount: 25, refundedAmount: 5 },
+        { id: 's3', createdAt: new Date(), totalAmount: 99, refundedAmount: 0 },
+      ]),
+    },
+    businessProfile: {
+      findUnique: jest.fn<any>().mockResolvedValue({ businessName: 'Corner Café' }),
+    },
+    user: {
+      findMany: jest.fn<any>().mockResolvedValue(users),
+    },
+    notificationPreference: {
+      update: jest.fn<any>().mockResolvedValue({}),
+    },
+  };
+  return client as typeof client & PrismaClient;
+}
+
+function suggestion(overrides: Partial<ReplenishmentSuggestion> = {}): ReplenishmentSuggestion {
+  return {
+    productId: 'p1',
+    productName: 'Mug',
+    sku: 'MUG-1',
+    supplier: null,
+    stockQuantity: 40,
+    onOrder: 0,
+    dailyVelocity: 1,
+    daysOfCover: 40,
+    leadTimeDays: 7,
+    leadTimeSource: 'default',
+    safetyStockDays: 3,
+    safetyStockSource: 'default',
+    reorderPoint: 10,
+    suggestedOrderQuantity: 0,
+    status: 'ok',
+    ...overrides,
+  };
+}
+
+const digest: Digest = {
+  frequency: 'DAILY',
+  businessName: 'Corner <Café>',
+  period: { start: new Date(2026, 9, 18), end: new Date(2026, 9, 19) },
+  revenue: { total: 1234.5, orders: 1 },
+  lowStock: [{ id: 'p2', name: 'Tote', sku: 'TOTE-1', stockQuantity: 0 }],
+  topProducts: [],
+  priceRecommendations: [recommendation()],
+};
+
+beforeEach(() => {
+  mockedGetTopProducts.mockResolvedValue([
+    { id: 'p1', name: 'Mug', sku: 'MUG-1', image: null, quantitySold: 8, orderCount: 5 },
+  ]);
+  jest.spyOn(PriceRecommendationCalculator.prototype, 'getPriceRecommendations').mockResolvedValue([
+    recommendation({ productId: 'p4', productName: 'Poster', revenueDifference: 20 }),
+    recommendation(),
+    // Already at the recommended price
+    recommendation({ productId: 'p5', productName: 'Pin', recommendedPrice: 12, revenueDifference: 0 }),
+  ]);
+  jest.spyOn(ReplenishmentCalculator.prototype, 'calculateReplenishment').mockResolvedValue({
+    suggestions: [
+      suggestion({ productId: 'p2', productName: 'Tote', sku: 'TOTE-1', stockQuantity: 0, status: 'out_of_stock' }),
+      suggestion({ productId: 'p3', productName: 'Cap', sku: null, stockQuantity: 3, reorderPoint: 6, status: 'reorder' }),
+      suggestion(),
+    ],
+    summary: { productsAnalyzed: 3, outOfStock: 1, needsReorder: 2 },
+    timeRangeInDays: 30,
+    orderCoverDays: 30,
+  });
+  // RevenueOverTime logs each step of its analysis
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Digest schedule', () => {
+  it('sends weekly digests on Mondays along with the daily ones', () => {
+    expect(dueDigestFrequencies(new Date(2026, 9, 19, 7))).toEqual(['DAILY', 'WEEKLY']);
+    expect(dueDigestFrequencies(new Date(2026, 9, 20, 7))).toEqual(['DAILY']);
+  });
+
+  it('covers yesterday, or the seven days before today', () => {
+    const now = new Date(2026, 9, 19, 7, 30);
+
+    expect(digestPeriod('DAILY', now)).toEqual({ start: new Date(2026, 9, 18), end: new Date(2026, 9, 19) });
+    expect(digestPeriod('WEEKLY', now)).toEqual({ start: new Date(2026, 9, 12), end: new Date(2026, 9, 19) });
+  });
+});
+
+describe('Building a digest', () => {
+  it('collects revenue, low stock, top products and price recommendations for the business', async () => {
+    const client = mockClient();
+    const now = new Date();
+
+    const result = await buildDigest(client, 'owner-1', 'DAILY', now);
+
+    expect(result.businessName).toBe('Corner Café');
+    // Net of refunds, and without today's sale
+    expect(result.revenue).toEqual({ total: 60, orders: 2 });
+    // Judged against each product's reorder point, so the well-stocked Mug is left out
+    expect(result.lowStock).toEqual([
+      { id: 'p2', name: 'Tote', sku: 'TOTE-1', stockQuantity: 0 },
+      { id: 'p3', name: 'Cap', sku: null, stockQuantity: 3 },
+    ]);
+    expect(ReplenishmentCalculator.prototype.calculateReplenishment).toHaveBeenCalledWith('owner-1');
+    expect(mockedGetTopProducts).toHaveBeenCalledWith(5, 'owner-1', result.period.start, result.period.end);
+    expect(result.topProducts).toEqual([{ id: 'p1', name: 'Mug', sku: 'MUG-1', quantitySold: 8, orderCount: 5 }]);
+    expect(result.priceRecommendations.map(item => item.productName)).toEqual(['Mug', 'Poster']);
+  });
+
+  it('reports no revenue when there were no sales', async () => {
+    const client = mockClient();
+    client.sale.findMany.mockResolvedValue([]);
+
+    const result = await buildDigest(client, 'owner-1', 'WEEKLY');
+
+    expect(result.revenue).toEqual({ total: 0, orders: 0 });
+  });
+});
+
+describe('Rendering a digest', () => {
+  it('writes a plain-text version', () => {
+    const text = renderDigestText(digest, 'https://merchx.example.com');
+
+    expect(text).toContain('Revenue yesterday\n- $1,234.50 from 1 order');
+    expect(text).toContain('Low stock\n- Tote (TOTE-1): out of stock');
+    expect(text).toContain('Top products\nNo sales in this period.');
+    expect(text).toContain('- Mug: $12.00 → $14.00 (about $100.00 more revenue)');
+    expect(text).toContain('https://merchx.example.com/dashboard');
+  });
+
+  it('writes an HTML version with names escaped', () => {
+    const html = renderDigestHtml(digest);
+
+    expect(html).toContain('Corner &lt;Café&gt;');
+    expect(html).toContain('<li>Tote (TOTE-1): out of stock</li>');
+    expect(html).not.toContain('/dashboard');
+  });
+});
+
+describe('Sending digests', () => {
+  const owner = { id: 'owner-1', email: 'owner@example.com', role: 'ADMIN', permissions: [], businessId: null };
+  const manager = { id: 'manager-1', email: 'manager@example.com', role: 'MANAGER', permissions: [], businessId: 'owner-1' };
+
+  it('emails each opted-in user and remembers that it did', async () => {
+    const client = mockClient([owner, manager]);
+    const sent: EmailMessage[] = [];
+    const transport = { send: jest.fn(async (message: EmailMessage) => { sent.push(message); }) };
+    const now = new Date();
+
+    expect(await sendDigests(client, now, transport, ['DAILY'])).toEqual({ sent: 2, failed: 0 });
+
+    expect(client.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        email: { not: null },
+        notificationPreferences: {
+          digestFrequency: 'DAILY',
+          emailNotifications: true,
+          OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: startOfDay(now) } }],
+        },
+      },
+    }));
+    expect(sent.map(message => message.to)).toEqual(['owner@example.com', 'manager@example.com']);
+    expect(sent[0].subject).toMatch(/^Your daily summary for /);
+    expect(sent[0].html).toContain('<!DOCTYPE html>');
+    // Both work for the same business, so its digest is only built once
+    expect(client.businessProfile.findUnique).toHaveBeenCalledTimes(1);
+    expect(client.notificationPreference.update).toHaveBeenCalledWith({
+      where: { userId: 'owner-1' },
+      data: { lastDigestSentAt: now },
+    });
+  });
+
+  it('skips employees who cannot see analytics and keeps going when an email fails', async () => {
+    const client = mockClient([
+      owner,
+      { id: 'rep-1', email: 'rep@example.com', role: 'SALES_REP', permissions: [], businessId: 'owner-1' },
+      manager,
+    ]);
+    const transport = {
+      send: jest.fn(async (message: EmailMessage) => {
+        if (message.to === 'owner@example.com') throw new Error('mailbox full');
+      }),
+    };
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await sendDigests(client, new Date(), transport, ['WEEKLY'])).toEqual({ sent: 1, failed: 1 });
+    expect(transport.send.mock.calls.map(([message]) => message.to)).toEqual(['owner@example.com', 'manager@example.com']);
+    expect(client.notificationPreference.update).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+
+  it('sends nothing when email is not configured', async () => {
+    const client = mockClient([owner]);
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await sendDigests(client, new Date(), null)).toEqual({ sent: 0, failed: 0 });
+    expect(client.user.findMany).not.toHaveBeenCalled();
+    consoleWarn.mockRestore();
+  });
+});
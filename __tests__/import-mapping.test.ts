@@ -0,0 +1,141 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  applyMapping,
+  detectDateFormat,
+  guessMapping,
+  mappingFitsHeaders,
+  missingRequiredFields,
+  parseDate,
+  parseNumber,
+  sanitizeMapping,
+} from '@/lib/import-mapping';
+
+describe('Import column mapping', () => {
+  describe('guessMapping', () => {
+    it('matches common header names to sales fields', () => {
+      const mapping = guessMapping('salesHistory', ['Order Date', 'Item', 'Qty', 'Price Each', 'Order #']);
+
+      expect(mapping).toEqual({
+        date: 'Order Date',
+        productId: null,
+        productName: 'Item',
+        quantity: 'Qty',
+        unitPrice: 'Price Each',
+        totalAmount: null,
+        externalOrderId: 'Order #',
+      });
+    });
+
+    it('prefers exact field names over synonyms and uses each column once', () => {
+      const mapping = guessMapping('inventoryItems', ['Product', 'Name', 'Price', 'Qty']);
+
+      expect(mapping.name).toBe('Name');
+      expect(mapping.sellingPrice).toBe('Price');
+      expect(mapping.stockQuantity).toBe('Qty');
+      expect(mapping.category).toBeNull();
+    });
+
+    it('leaves required fields missing when nothing matches', () => {
+      const headers = ['When', 'Item', 'Qty', 'Price'];
+      const mapping = guessMapping('salesHistory', headers);
+
+      expect(missingRequiredFields('salesHistory', mapping, headers).map(field => field.key)).toEqual(['date']);
+    });
+  });
+
+  describe('saved mappings', () => {
+    it('drops unknown keys and rejects non-string columns', () => {
+      expect(sanitizeMapping('inventoryItems', { sku: 'Code', name: 'Title', extra: 'x' })).toEqual(
+        expect.objectContaining({ sku: 'Code', name: 'Title', color: null })
+      );
+      expect(sanitizeMapping('inventoryItems', { sku: 5 })).toBeNull();
+      expect(sanitizeMapping('inventoryItems', ['sku'])).toBeNull();
+    });
+
+    it('fits a file only when every mapped column is present', () => {
+      expect(mappingFitsHeaders({ sku: 'Code', name: null }, ['Code', 'Title'])).toBe(true);
+      expect(mappingFitsHeaders({ sku: 'Code', name: 'Name' }, ['Code', 'Title'])).toBe(false);
+    });
+  });
+
+  describe('parseNumber', () => {
+    it.each([
+      ['$1,234.50', 1234.5],
+      ['1.234,50 €', 1234.5],
+      ['12,5', 12.5],
+      ['1,234', 1234],
+      ['(12.00)', -12],
+      ['-3', -3],
+      [7, 7],
+    ])('reads %p as %p', (value, expected) => {
+      expect(parseNumber(value)).toBe(expected);
+    });
+
+    it('returns null for blanks and text', () => {
+      expect(parseNumber('')).toBeNull();
+      expect(parseNumber('n/a')).toBeNull();
+      expect(parseNumber(undefined)).toBeNull();
+    });
+  });
+
+  describe('dates', () => {
+    it('detects the day/month order from the values', () => {
+      expect(detectDateFormat(['2024-03-05'])).toBe('ymd');
+      expect(detectDateFormat(['03/05/2024', '04/06/2024'])).toBe('mdy');
+      expect(detectDateFormat(['03/05/2024', '25/06/2024'])).toBe('dmy');
+    });
+
+    it('reads numeric dates in the given order', () => {
+      expect(parseDate('03/05/2024', 'mdy')).toBe('2024-03-05');
+      expect(parseDate('03/05/2024', 'dmy')).toBe('2024-05-03');
+      expect(parseDate('5.3.24', 'dmy')).toBe('2024-03-05');
+      expect(parseDate('2024-03-05T10:30:00Z', 'dmy')).toBe('2024-03-05');
+    });
+
+    it('reads dates with month names', () => {
+      expect(parseDate('March 5, 2024')).toBe('2024-03-05');
+      expect(parseDate('5 Mar 2024')).toBe('2024-03-05');
+    });
+
+    it('rejects impossible dates', () => {
+      expect(parseDate('02/30/2024', 'mdy')).toBeNull();
+      expect(parseDate('not a date')).toBeNull();
+    });
+  });
+
+  describe('applyMapping', () => {
+    it('converts rows to our fields and works out a missing total', () => {
+      const rows = [{ Day: '31/03/2024', Item: ' Mug ', Qty: '2', 'Price Each': '$4.50', Order: 'A-1' }];
+      const mapping = guessMapping('salesHistory', Object.keys(rows[0]));
+
+      expect(applyMapping('salesHistory', rows, mapping)).toEqual([
+        {
+          date: '2024-03-31',
+          productId: '',
+          productName: 'Mug',
+          quantity: 2,
+          unitPrice: 4.5,
+          totalAmount: 9,
+          externalOrderId: 'A-1',
+        },
+      ]);
+    });
+
+    it('keeps unreadable required values so the row is reported, and drops optional ones', () => {
+      const rows = [{ sku: 'S1', name: 'Mug', stock: 'lots', cost: '2.999' }];
+      const mapping = { sku: 'sku', name: 'name', stockQuantity: 'stock', unitCost: 'cost' };
+
+      expect(applyMapping('inventoryItems', rows, mapping)[0]).toEqual(
+        expect.objectContaining({ sku: 'S1', stockQuantity: null, unitCost: 2.999, description: '' })
+      );
+
+      const sales = applyMapping('salesHistory', [{ d: '2024-01-01', p: 'Mug', q: 'two', u: '3' }], {
+        date: 'd',
+        productName: 'p',
+        quantity: 'q',
+        unitPrice: 'u',
+      });
+      expect(sales[0]).toEqual(expect.objectContaining({ quantity: 'two', totalAmount: null }));
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  assertAcceptable,
+  createInviteToken,
+  hashInviteToken,
+  inviteExpiry,
+  InviteError,
+  inviteIdentifier,
+  inviteIdFromIdentifier,
+  inviteStatus,
+  inviteUrl,
+} from '@/lib/invites';
+import { AcceptInviteBody, CreateInviteBody } from '@/lib/schemas';
+
+describe('Employee invites', () => {
+  const now = new Date('2024-03-01T12:00:00Z');
+
+  it('stores only a hash of the link token', () => {
+    const { token, hashedToken } = createInviteToken();
+
+    expect(token).toHaveLength(64);
+    expect(hashedToken).not.toBe(token);
+    expect(hashInviteToken(token)).toBe(hashedToken);
+    expect(createInviteToken().token).not.toBe(token);
+  });
+
+  it('maps invites to verification token identifiers and back', () => {
+    expect(inviteIdFromIdentifier(inviteIdentifier('inv_123'))).toBe('inv_123');
+    expect(inviteIdFromIdentifier('someone@example.com')).toBeNull();
+  });
+
+  it('expires pending invites after a week', () => {
+    const expiresAt = inviteExpiry(now);
+
+    expect(expiresAt.toISOString()).toBe('2024-03-08T12:00:00.000Z');
+    expect(inviteStatus({ status: 'PENDING', expiresAt }, now)).toBe('PENDING');
+    expect(inviteStatus({ status: 'PENDING', expiresAt }, new Date('2024-03-09T00:00:00Z'))).toBe('EXPIRED');
+    expect(inviteStatus({ status: 'ACCEPTED', expiresAt }, new Date('2024-03-09T00:00:00Z'))).toBe('ACCEPTED');
+  });
+
+  it('only accepts pending invites', () => {
+    const expiresAt = inviteExpiry(now);
+
+    expect(() => assertAcceptable({ status: 'PENDING', expiresAt }, now)).not.toThrow();
+    expect(() => assertAcceptable({ status: 'REVOKED', expiresAt }, now)).toThrow('This invitation is revoked');
+    expect(() => assertAcceptable({ status: 'ACCEPTED', expiresAt }, now)).toThrow(InviteError);
+    expect(() => assertAcceptable({ status: 'PENDING', expiresAt: now }, now)).toThrow('This invitation is expired');
+  });
+
+  it('validates the email and role being invited', () => {
+    expect(CreateInviteBody.parse({ email: ' New.Hire@Example.com ', role: 'INVENTORY_MANAGER' })).toEqual({
+      email: 'new.hire@example.com',
+      role: 'INVENTORY_MANAGER',
+    });
+    expect(CreateInviteBody.parse({ email: 'rep@example.com' }).role).toBe('SALES_REP');
+    expect(CreateInviteBody.safeParse({ email: 'not-an-email' }).success).toBe(false);
+    expect(CreateInviteBody.safeParse({ email: 'boss@example.com', role: 'ADMIN' }).success).toBe(false);
+  });
+
+  it('validates the name and password of the employee accepting', () => {
+    expect(AcceptInviteBody.parse({ token: 'abc', name: ' Jo ', password: 'long enough' }))
+      .toEqual({ token: 'abc', name: 'Jo', password: 'long enough' });
+    expect(AcceptInviteBody.safeParse({ token: 'abc', name: 'Jo', password: 'short' }).error?.issues[0])
+      .toEqual(expect.objectContaining({ path: ['password'], message: 'Password must be at least 8 characters' }));
+    // A password that is not a string must not reach the hashing
+    expect(AcceptInviteBody.safeParse({ token: 'abc', name: 'Jo', password: 123456789 }).error?.issues[0])
+      .toEqual(expect.objectContaining({ path: ['password'] }));
+    expect(AcceptInviteBody.safeParse({ name: 'Jo', password: 'long enough' }).success).toBe(false);
+  });
+
+  it('builds the acceptance link', () => {
+    expect(inviteUrl('https://shop.example.com/', 'abc')).toBe('https://shop.example.com/invite?token=abc');
+  });
+});
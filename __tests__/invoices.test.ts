@@ -0,0 +1,175 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ensureInvoice, formatInvoiceNumber, invoiceDueDate } from '@/lib/invoices';
+import { loadSaleDocument, renderInvoicePdf, renderReceiptHtml, SaleDocument } from '@/lib/sale-documents';
+
+const saleDate = new Date('2024-03-01T10:00:00Z');
+const invoiceSale = { id: 'sale-1', userId: 'owner-1', date: saleDate, paymentMethod: 'INVOICE' };
+
+function uniqueViolation() {
+  return new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+}
+
+function mockInvoiceClient(lastNumber: number | null) {
+  const client = {
+    invoice: {
+      findUnique: jest.fn<any>().mockResolvedValue(null),
+      findFirst: jest.fn<any>().mockResolvedValue(lastNumber === null ? null : { number: lastNumber }),
+      create: jest.fn<any>().mockImplementation(({ data }: any) => Promise.resolve({ id: 'inv-1', ...data })),
+    },
+  };
+  return client as typeof client & PrismaClient;
+}
+
+describe('Invoice numbering', () => {
+  it('formats numbers with a prefix and padding', () => {
+    expect(formatInvoiceNumber(7)).toBe('INV-00007');
+    expect(formatInvoiceNumber(123456)).toBe('INV-123456');
+  });
+
+  it('gives only sales paid by invoice a due date', () => {
+    expect(invoiceDueDate(invoiceSale)).toEqual(new Date('2024-03-31T10:00:00Z'));
+    expect(invoiceDueDate({ ...invoiceSale, paymentMethod: 'CASH' })).toBeNull();
+  });
+
+  it("issues the business's next number", async () => {
+    const client = mockInvoiceClient(41);
+
+    const invoice = await ensureInvoice(client, invoiceSale);
+
+    expect(client.invoice.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'owner-1' } }));
+    expect(invoice).toEqual(expect.objectContaining({ number: 42, saleId: 'sale-1', userId: 'owner-1' }));
+    expect(invoice.dueDate).toEqual(new Date('2024-03-31T10:00:00Z'));
+  });
+
+  it('takes a due date other than the usual terms', async () => {
+    const client = mockInvoiceClient(null);
+    const dueDate = new Date('2024-04-15T00:00:00Z');
+
+    expect((await ensureInvoice(client, invoiceSale, dueDate)).dueDate).toEqual(dueDate);
+  });
+
+  it('starts at 1 and keeps an invoice the sale already has', async () => {
+    const client = mockInvoiceClient(null);
+    expect((await ensureInvoice(client, invoiceSale)).number).toBe(1);
+
+    const existing = { id: 'inv-9', number: 9, saleId: 'sale-1' };
+    client.invoice.findUnique.mockResolvedValue(existing);
+    expect(await ensureInvoice(client, invoiceSale)).toBe(existing);
+  });
+
+  it('takes the following number when another request took this one', async () => {
+    const client = mockInvoiceClient(3);
+    client.invoice.findFirst.mockResolvedValueOnce({ number: 3 }).mockResolvedValueOnce({ number: 4 });
+    client.invoice.create.mockRejectedValueOnce(uniqueViolation());
+
+    const invoice = await ensureInvoice(client, invoiceSale);
+
+    expect(client.invoice.create).toHaveBeenCalledTimes(2);
+    expect(invoice.number).toBe(5);
+  });
+
+  it('gives up after repeated clashes and passes other errors on', async () => {
+    const clashing = mockInvoiceClient(3);
+    clashing.invoice.create.mockRejectedValue(uniqueViolation());
+    await expect(ensureInvoice(clashing, invoiceSale)).rejects.toThrow('Unique constraint failed');
+    expect(clashing.invoice.create).toHaveBeenCalledTimes(5);
+
+    const broken = mockInvoiceClient(3);
+    broken.invoice.create.mockRejectedValue(new Error('Connection lost'));
+    await expect(ensureInvoice(broken, invoiceSale)).rejects.toThrow('Connection lost');
+    expect(broken.invoice.create).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Sale documents', () => {
+  const document: SaleDocument = {
+    saleId: 'clx0000000sale0001',
+    reference: 'SALE0001',
+    date: saleDate,
+    paymentMethod: 'INVOICE',
+    paymentStatus: 'PENDING',
+    business: {
+      name: 'Bits & <Bobs>',
+      addressLines: ['1 Market Street', 'Springfield, IL 62701'],
+      phone: '555-0100',
+      website: null,
+      taxId: 'US-123',
+      logo: null,
+    },
+    customer: { name: 'Ada Lovelace', email: 'ada@example.com', phone: null, address: '12 St James Square' },
+    lines: [
+      { description: 'Tee (S / Red)', sku: 'TEE-S', quantity: 2, returnedQuantity: 1, unitPrice: 20, amount: 40 },
+      { description: 'Mug', sku: null, quantity: 1, returnedQuantity: 0, unitPrice: 12.5, amount: 12.5 },
+    ],
+    subtotal: 52.5,
+    discount: 0,
+    tax: 0,
+    total: 52.5,
+    refunded: 20,
+    invoice: { number: 'INV-00042', issuedAt: saleDate, dueDate: new Date('2024-03-31T10:00:00Z') },
+  };
+
+  it('loads the sale with its line items and business details', async () => {
+    const client = {
+      sale: {
+        findFirst: jest.fn<any>().mockResolvedValue({
+          id: 'clx0000000sale0001',
+          userId: 'owner-1',
+          date: saleDate,
+          paymentMethod: 'CASH',
+          paymentStatus: 'PAID',
+          subtotal: 32.5,
+          discountAmount: 2.5,
+          taxAmount: 2,
+          totalAmount: 32,
+          refundedAmount: 0,
+          customer: null,
+          invoice: null,
+          items: [
+            { productName: null, product: { name: 'Tee', sku: 'TEE' }, variant: { sku: 'TEE-S', size: 'S', color: null }, quantity: 1, returnedQuantity: 0, price: 20 },
+            { productName: 'Mug', product: { name: 'Mug', sku: null }, variant: null, quantity: 1, returnedQuantity: 0, price: 12.5 },
+          ],
+        }),
+      },
+      businessProfile: {
+        findUnique: jest.fn<any>().mockResolvedValue({ businessName: 'Bits', city: 'Springfield', state: 'IL', zipCode: '62701', country: 'USA' }),
+      },
+    };
+
+    const loaded = await loadSaleDocument(client as typeof client & PrismaClient, 'owner-1', 'clx0000000sale0001');
+
+    expect(client.sale.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'clx0000000sale0001', userId: 'owner-1' } }));
+    expect(loaded).toEqual(expect.objectContaining({
+      reference: 'SALE0001',
+      invoice: null,
+      business: expect.objectContaining({ name: 'Bits', addressLines: ['Springfield, IL 62701', 'USA'] }),
+    }));
+    expect(loaded?.lines.map(line => [line.description, line.sku])).toEqual([['Tee (S)', 'TEE-S'], ['Mug', null]]);
+
+    const receipt = renderReceiptHtml(loaded!);
+    expect(receipt).toContain('<span>Subtotal</span><span>$32.50</span>');
+    expect(receipt).toContain('<span>Discount</span><span>-$2.50</span>');
+    expect(receipt).toContain('<span>Tax</span><span>$2.00</span>');
+  });
+
+  it('renders a thermal receipt with escaped text', () => {
+    const html = renderReceiptHtml(document);
+
+    expect(html).toContain('size: 80mm auto');
+    expect(html).toContain('<h1>Bits &amp; &lt;Bobs&gt;</h1>');
+    expect(html).toContain('Tax ID US-123');
+    expect(html).toContain('INV-00042');
+    expect(html).toContain('1 returned');
+    expect(html).not.toContain('Subtotal');
+    expect(html).not.toContain('window.print');
+    expect(renderReceiptHtml(document, { autoPrint: true })).toContain('window.print');
+  });
+
+  it('renders the invoice as a PDF', async () => {
+    const pdf = await renderInvoicePdf(document);
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    await expect(renderInvoicePdf({ ...document, invoice: null })).rejects.toThrow('has no invoice');
+  });
+});
@@ -0,0 +1,220 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import { PrismaClient } from '@prisma/client';
+import { EmailMessage, emailTransportFromEnv, SmtpTransport } from '@/lib/email';
+import {
+  notificationChannels,
+  NotificationRecipient,
+  notify,
+  stockNotification,
+} from '@/lib/notifications';
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+// A local SMTP server standing in for a mail relay. It accepts every message and keeps it.
+let server: Server;
+let port: number;
+const mailbox: ReceivedMail[] = [];
+
+function handleSmtp(socket: Socket) {
+  let mail: ReceivedMail = { from: '', to: [], data: '' };
+  let readingData = false;
+  let buffer = '';
+
+  socket.write('220 localhost ESMTP test\r\n');
+  socket.on('data', chunk => {
+    buffer += chunk.toString();
+    let end: number;
+    while ((end = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      if (readingData) {
+        if (line === '.') {
+          readingData = false;
+          mailbox.push(mail);
+          mail = { from: '', to: [], data: '' };
+          socket.write('250 OK queued\r\n');
+        } else {
+          mail.data += `${line}\n`;
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === 'EHLO' || command === 'HELO') {
+        socket.write('250 localhost\r\n');
+      } else if (command === 'MAIL') {
+        mail.from = line.slice(10);
+        socket.write('250 OK\r\n');
+      } else if (command === 'RCPT') {
+        mail.to.push(line.slice(8));
+        socket.write('250 OK\r\n');
+      } else if (command === 'DATA') {
+        readingData = true;
+        socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+      } else if (command === 'QUIT') {
+        socket.end('221 Bye\r\n');
+      } else {
+        socket.write('250 OK\r\n');
+      }
+    }
+  });
+}
+
+beforeAll(async () => {
+  server = createServer(handleSmtp);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function recipient(overrides: Partial<NotificationRecipient> = {}): NotificationRecipient {
+  return {
+    id: 'owner-1',
+    email: 'owner@example.com',
+    role: 'ADMIN',
+    permissions: [],
+    businessId: null,
+    notificationPreferences: null,
+    ...overrides,
+  };
+}
+
+function mockClient(users: NotificationRecipient[]) {
+  const client = {
+    user: {
+      findMany: jest.fn<any>().mockResolvedValue(users),
+    },
+    notification: {
+      create: jest.fn<any>().mockImplementation(async ({ data }: any) => ({ id: `notification-${data.userId}`, ...data })),
+      update: jest.fn<any>().mockResolvedValue({}),
+    },
+  };
+  return client as typeof client & PrismaClient;
+}
+
+// Lets emails that notify() sends in the background finish
+const flush = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('Notification preferences', () => {
+  it('uses the inbox and email unless the user turned them off', () => {
+    expect(notificationChannels(recipient(), 'stock.low')).toEqual({ inbox: true, email: true });
+    expect(notificationChannels(recipient({ notificationPreferences: { inventoryAlerts: false } }), 'stock.low'))
+      .toEqual({ inbox: false, email: false });
+    expect(notificationChannels(recipient({ notificationPreferences: { emailNotifications: false } }), 'sale.created'))
+      .toEqual({ inbox: true, email: false });
+    expect(notificationChannels(recipient({ email: null }), 'payment.failed')).toEqual({ inbox: true, email: false });
+  });
+
+  it('only tells employees about what their permissions cover', () => {
+    const salesRep = recipient({ id: 'rep-1', role: 'SALES_REP', businessId: 'owner-1' });
+
+    expect(notificationChannels(salesRep, 'sale.created').inbox).toBe(true);
+    expect(notificationChannels(salesRep, 'stock.out').inbox).toBe(false);
+    // Import results only go to whoever ran the import
+    expect(notificationChannels(salesRep, 'import.completed').inbox).toBe(false);
+    expect(notificationChannels(salesRep, 'import.completed', true).inbox).toBe(true);
+  });
+
+  it('raises stock alerts when stock falls to the reorder point or runs out', () => {
+    const product = { id: 'p1', name: 'Mug', sku: 'MUG-1', stockQuantity: 4 };
+
+    expect(stockNotification(product, 10, 5)).toEqual(expect.objectContaining({
+      type: 'stock.low',
+      title: 'Mug is running low',
+      body: 'Only 4 of Mug (MUG-1) left in stock.',
+    }));
+    expect(stockNotification({ ...product, stockQuantity: 0 }, 4, 5)?.type).toBe('stock.out');
+    expect(stockNotification(product, 5, 5)).toBeNull();
+    expect(stockNotification({ ...product, stockQuantity: 20 }, 4, 5)).toBeNull();
+    expect(stockNotification(product, 10, 0)).toBeNull();
+  });
+});
+
+describe('Notification delivery', () => {
+  const event = { type: 'stock.low' as const, title: 'Mug is running low', body: 'Only 4 left.', link: '/inventory' };
+  // Loading Prisma reads a local .env, whose app URL would add a link to the emails
+  const appUrl = process.env.NEXTAUTH_URL;
+
+  beforeAll(() => {
+    delete process.env.NEXTAUTH_URL;
+  });
+
+  afterAll(() => {
+    if (appUrl !== undefined) {
+      process.env.NEXTAUTH_URL = appUrl;
+    }
+  });
+
+  it('fills the inbox of everyone who wants the event and emails those who asked for email', async () => {
+    const client = mockClient([
+      recipient(),
+      recipient({ id: 'manager-1', email: 'manager@example.com', role: 'INVENTORY_MANAGER', businessId: 'owner-1', notificationPreferences: { emailNotifications: false } }),
+      recipient({ id: 'rep-1', email: 'rep@example.com', role: 'SALES_REP', businessId: 'owner-1' }),
+    ]);
+    const sent: EmailMessage[] = [];
+    const transport = { send: jest.fn(async (message: EmailMessage) => { sent.push(message); }) };
+
+    expect(await notify(client, 'owner-1', event, transport)).toBe(2);
+    await flush();
+
+    expect(client.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { OR: [{ id: 'owner-1' }, { businessId: 'owner-1' }] },
+    }));
+    expect(client.notification.create.mock.calls.map(([args]: any) => args.data.userId)).toEqual(['owner-1', 'manager-1']);
+    expect(sent).toEqual([{ to: 'owner@example.com', subject: 'Mug is running low', text: 'Only 4 left.' }]);
+    expect(client.notification.update).toHaveBeenCalledWith({
+      where: { id: 'notification-owner-1' },
+      data: { emailedAt: expect.any(Date) },
+    });
+  });
+
+  it('keeps the inbox entry when the email cannot be sent', async () => {
+    const client = mockClient([recipient()]);
+    const transport = { send: jest.fn(async () => { throw new Error('relay refused'); }) };
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await notify(client, 'owner-1', event, transport)).toBe(1);
+    await flush();
+
+    expect(client.notification.create).toHaveBeenCalledTimes(1);
+    expect(client.notification.update).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('does not fail the caller when notifications cannot be saved', async () => {
+    const client = mockClient([]);
+    client.user.findMany.mockRejectedValue(new Error('database is down'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(notify(client, 'owner-1', event, null)).resolves.toBe(0);
+    consoleError.mockRestore();
+  });
+});
+
+describe('SMTP transport', () => {
+  it('sends mail through the SMTP server', async () => {
+    const transport = new SmtpTransport({ host: '127.0.0.1', port, secure: false, from: 'MerchX <alerts@example.com>' });
+
+    await transport.send({ to: 'owner@example.com', subject: 'Mug is running low', text: 'Only 4 left.' });
+
+    expect(mailbox).toHaveLength(1);
+    expect(mailbox[0].from).toContain('alerts@example.com');
+    expect(mailbox[0].to).toEqual(['<owner@example.com>']);
+    expect(mailbox[0].data).toContain('Subject: Mug is running low');
+    expect(mailbox[0].data).toContain('Only 4 left.');
+  });
+
+  it('is only configured when SMTP_HOST is set', () => {
+    expect(emailTransportFromEnv({ NODE_ENV: 'test' })).toBeNull();
+    expect(emailTransportFromEnv({ NODE_ENV: 'test', SMTP_HOST: 'smtp.example.com' })).toBeInstanceOf(SmtpTransport);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from '@jest/globals';
+import { NextResponse } from 'next/server';
+import { openApiDocument } from '@/lib/openapi';
+import {
+  AdjustInventoryBody,
+  CommitImportBody,
+  CreateProductBody,
+  CreateSaleBody,
+  CreateVariantBody,
+  TransferStockBody,
+  V1AnalyticsSummaryQuery,
+} from '@/lib/schemas';
+import { parseBody, parseQuery } from '@/lib/validation';
+
+const post = (body: string) => new Request('http://localhost/api/sales', { method: 'POST', body });
+
+describe('Request validation', () => {
+  it('returns the parsed body when it is valid', async () => {
+    const body = await parseBody(post(JSON.stringify({
+      items: [{ productId: 'p1', quantity: 2, price: 10 }],
+      paymentMethod: 'CASH',
+      totalAmount: 20,
+    })), CreateSaleBody);
+
+    // Items are priced on the server, so a price sent along is dropped
+    expect(body).toEqual({
+      items: [{ productId: 'p1', quantity: 2 }],
+      paymentMethod: 'CASH',
+      totalAmount: 20,
+    });
+  });
+
+  it('names the path of every invalid field', async () => {
+    const response = await parseBody(post(JSON.stringify({
+      items: [{ productId: 'p1', quantity: 0, price: 10 }],
+      paymentMethod: 'BARTER',
+    })), CreateSaleBody) as NextResponse;
+
+    expect(response.status).toBe(400);
+    const { error, issues } = await response.json();
+    expect(error).toBe('Invalid request body');
+    expect(issues.map((issue: { path: string }) => issue.path)).toEqual(['items.0.quantity', 'paymentMethod', 'totalAmount']);
+  });
+
+  it('refuses bodies that are not JSON', async () => {
+    const response = await parseBody(post('{"items": '), CreateSaleBody) as NextResponse;
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Invalid request body',
+      issues: [{ path: '', message: 'The request body must be valid JSON' }],
+    });
+  });
+
+  it('accepts numbers sent as strings by forms', () => {
+    expect(CreateProductBody.parse({ sku: 'MUG-1', name: 'Mug', sellingPrice: '12.50', leadTimeDays: '' }))
+      .toEqual({ sku: 'MUG-1', name: 'Mug', sellingPrice: 12.5, leadTimeDays: null });
+    expect(AdjustInventoryBody.safeParse({ productId: 'p1', quantity: 3, type: 'REMOVE' }).success).toBe(false);
+    expect(TransferStockBody.safeParse({ productId: 'p1', fromInventoryId: 'a', toInventoryId: 'a', quantity: 1 })
+      .error?.issues[0]).toEqual(expect.objectContaining({ path: ['toInventoryId'] }));
+  });
+
+  it('reads a missing body as empty only when the body is optional', async () => {
+    expect(await parseBody(post(''), CommitImportBody, { optional: true })).toEqual({ onConflict: 'skip' });
+    expect((await parseBody(post(''), CommitImportBody) as NextResponse).status).toBe(400);
+  });
+
+  it('needs a size or a color on a new variant', () => {
+    expect(CreateVariantBody.parse({ size: 'M', priceOverride: '', stockQuantity: '4' }))
+      .toEqual({ size: 'M', priceOverride: null, stockQuantity: 4 });
+    expect(CreateVariantBody.safeParse({ sku: 'MUG-1-M' }).error?.issues[0])
+      .toEqual(expect.objectContaining({ path: ['size'], message: 'A variant needs a size or a color' }));
+  });
+
+  it('checks query strings with the same format', async () => {
+    const response = parseQuery(
+      new Request('http://localhost/api/v1/analytics/summary?from=2024-06-01&to=2024-05-01'),
+      V1AnalyticsSummaryQuery
+    ) as NextResponse;
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Invalid query parameters',
+      issues: [{ path: 'from', message: 'from must be before to' }],
+    });
+  });
+});
+
+describe('OpenAPI document', () => {
+  const document = openApiDocument();
+
+  it('describes the validated routes with their schemas', () => {
+    expect(document.openapi).toBe('3.0.3');
+    expect(document.paths['/api/sales'].post?.requestBody).toEqual({
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateSaleBody' } } },
+    });
+    expect(document.paths['/api/inventory/adjust'].post).toBeDefined();
+    expect(document.paths['/api/products/{id}/variants/{variantId}'].put?.requestBody).toEqual({
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/UpdateVariantBody' } } },
+    });
+    expect(document.paths['/api/products'].put?.parameters).toEqual([
+      expect.objectContaining({ in: 'query', name: 'id', required: true }),
+    ]);
+    expect(document.components?.schemas?.CreateSaleBody).toEqual(expect.objectContaining({
+      required: ['items', 'paymentMethod', 'totalAmount'],
+    }));
+  });
+
+  it('documents the validation error format and how each route is authenticated', () => {
+    expect(document.paths['/api/products'].post?.responses['400']).toEqual({
+      description: expect.any(String),
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } },
+    });
+    expect(document.paths['/api/v1/products'].get?.security).toEqual([{ apiKey: [] }]);
+    expect(document.paths['/api/v1/products'].get?.parameters).toEqual(expect.arrayContaining([
+      expect.objectContaining({ in: 'query', name: 'limit' }),
+    ]));
+    expect(document.paths['/api/webhooks'].post?.security).toEqual([{ session: [] }]);
+    expect(document.paths['/api/auth/invite'].post?.security).toBeUndefined();
+    expect(document.components?.securitySchemes?.apiKey).toEqual(expect.objectContaining({ type: 'http', scheme: 'bearer' }));
+  });
+});
@@ -0,0 +1,483 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import Stripe from 'stripe';
+import {
+  FakePaymentGateway,
+  GatewayError,
+  getPaymentGateway,
+  paymentGatewayFromEnv,
+  StripeGateway,
+} from '@/lib/payment-gateway';
+import { saleChangeForEvent, startGatewayPayment, takesGatewayPayment } from '@/lib/card-payments';
+import { POST as paymentWebhook } from '@/app/api/payment/webhook/route';
+import { POST as returnItems } from '@/app/api/sales/[saleId]/returns/route';
+import { DELETE as deleteSale } from '@/app/api/sales/[saleId]/route';
+import { GET as loadCardPayment } from '@/app/api/sales/[saleId]/payment-intent/route';
+
+jest.mock('@/lib/authorize', () => ({
+  requirePermission: jest.fn<any>().mockResolvedValue({ user: { id: 'employee-1', name: 'Sam', ownerId: 'owner-1' } }),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    sale: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    saleItem: {
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    saleReturn: {
+      create: jest.fn(),
+    },
+    paymentConfig: {
+      findUnique: jest.fn(),
+    },
+    product: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    productVariant: {
+      update: jest.fn(),
+      findMany: jest.fn(),
+    },
+    inventoryChange: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    stockLevel: {
+      upsert: jest.fn(),
+    },
+    auditEvent: {
+      create: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+    },
+    notification: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+import prisma from '@/lib/prisma';
+
+describe('Fake payment gateway', () => {
+  it('creates one PaymentIntent per sale', async () => {
+    const gateway = new FakePaymentGateway('whsec_test');
+
+    const intent = await gateway.createPaymentIntent({ saleId: 'sale-1', ownerId: 'owner-1', amount: 49.99 });
+    expect(intent).toEqual({ id: 'fake_pi_1', clientSecret: 'fake_pi_1_secret', status: 'requires_payment_method' });
+    expect(await gateway.createPaymentIntent({ saleId: 'sale-1', ownerId: 'owner-1', amount: 49.99 })).toEqual(intent);
+    expect(gateway.intents.get('fake_pi_1')).toEqual(expect.objectContaining({ amount: 49.99 }));
+    await expect(gateway.createPaymentIntent({ saleId: 'sale-2', ownerId: 'owner-1', amount: 0 }))
+      .rejects.toThrow(GatewayError);
+  });
+
+  it('signs the webhooks it sends and refuses forged ones', async () => {
+    const gateway = new FakePaymentGateway('whsec_test');
+    await gateway.createPaymentIntent({ saleId: 'sale-1', ownerId: 'owner-1', amount: 20 });
+
+    const { payload, signature } = gateway.webhook('payment.refunded', 'fake_pi_1', { refundedAmount: 5 });
+    expect(gateway.parseWebhook(payload, signature))
+      .toEqual({ id: 'fake_evt_1', type: 'payment.refunded', paymentId: 'fake_pi_1', refundedAmount: 5 });
+
+    expect(() => gateway.parseWebhook(payload.replace('5', '20'), signature)).toThrow('Invalid webhook signature');
+    expect(() => new FakePaymentGateway('other').parseWebhook(payload, signature)).toThrow(GatewayError);
+  });
+
+  it('refunds paid intents once per key and never more than was paid', async () => {
+    const gateway = new FakePaymentGateway('whsec_test');
+    await gateway.createPaymentIntent({ saleId: 'sale-1', ownerId: 'owner-1', amount: 20 });
+
+    await expect(gateway.refundPayment({ paymentId: 'fake_pi_1', amount: 5, idempotencyKey: 'r1' }))
+      .rejects.toThrow('PaymentIntent fake_pi_1 has not been paid');
+
+    gateway.webhook('payment.succeeded', 'fake_pi_1');
+    const refund = await gateway.refundPayment({ paymentId: 'fake_pi_1', amount: 5, idempotencyKey: 'r1' });
+    expect(refund).toEqual({ id: 'fake_re_1', status: 'succeeded' });
+    expect(await gateway.refundPayment({ paymentId: 'fake_pi_1', amount: 5, idempotencyKey: 'r1' })).toEqual(refund);
+    expect(gateway.refundedAmount('fake_pi_1')).toBe(5);
+    await expect(gateway.refundPayment({ paymentId: 'fake_pi_1', amount: 15.01, idempotencyKey: 'r2' }))
+      .rejects.toThrow(GatewayError);
+
+    const { payload } = gateway.webhook('payment.refunded', 'fake_pi_1');
+    expect(JSON.parse(payload)).toEqual(expect.objectContaining({ refundedAmount: 5 }));
+  });
+
+  it('looks intents up and cancels them until they are paid', async () => {
+    const gateway = new FakePaymentGateway('whsec_test');
+    const intent = await gateway.createPaymentIntent({ saleId: 'sale-1', ownerId: 'owner-1', amount: 20 });
+    await gateway.createPaymentIntent({ saleId: 'sale-2', ownerId: 'owner-1', amount: 20 });
+
+    expect(await gateway.getPaymentIntent(intent.id)).toEqual(intent);
+    await expect(gateway.getPaymentIntent('fake_pi_unknown')).rejects.toThrow(GatewayError);
+
+    await gateway.cancelPaymentIntent(intent.id);
+    expect((await gateway.getPaymentIntent(intent.id)).status).toBe('canceled');
+
+    gateway.webhook('payment.succeeded', 'fake_pi_2');
+    await expect(gateway.cancelPaymentIntent('fake_pi_2')).rejects.toThrow('A PaymentIntent that has been paid cannot be canceled');
+  });
+
+  it('is chosen with PAYMENT_GATEWAY=fake, and Stripe when it has a key', () => {
+    expect(paymentGatewayFromEnv({ NODE_ENV: 'test' })).toBeNull();
+    expect(paymentGatewayFromEnv({ NODE_ENV: 'test', PAYMENT_GATEWAY: 'fake', STRIPE_WEBHOOK_SECRET: 'whsec_test' }))
+      .toBeInstanceOf(FakePaymentGateway);
+    expect(paymentGatewayFromEnv({ NODE_ENV: 'test', STRIPE_SECRET_KEY: 'sk_test_123', STRIPE_WEBHOOK_SECRET: 'whsec_test' }))
+      .toBeInstanceOf(StripeGateway);
+  });
+
+  it('needs a webhook secret to check webhooks against', () => {
+    expect(() => paymentGatewayFromEnv({ NODE_ENV: 'test', PAYMENT_GATEWAY: 'fake' }))
+      .toThrow('STRIPE_WEBHOOK_SECRET must be set to use the fake payment gateway');
+    // Stripe would take events signed with an empty secret
+    expect(() => paymentGatewayFromEnv({ NODE_ENV: 'test', STRIPE_SECRET_KEY: 'sk_test_123' }))
+      .toThrow('STRIPE_WEBHOOK_SECRET must be set to take card payments through Stripe');
+  });
+});
+
+describe('Stripe webhooks', () => {
+  const secret = 'whsec_test';
+  const gateway = new StripeGateway('sk_test_123', secret);
+  const stripe = new Stripe('sk_test_123', { apiVersion: '2023-10-16' });
+
+  const signed = (event: object) => {
+    const payload = JSON.stringify({ object: 'event', ...event });
+    return { payload, signature: stripe.webhooks.generateTestHeaderString({ payload, secret }) };
+  };
+
+  it('reads payment outcomes and refunds', () => {
+    const succeeded = signed({ id: 'evt_1', type: 'payment_intent.succeeded', data: { object: { id: 'pi_1', object: 'payment_intent' } } });
+    expect(gateway.parseWebhook(succeeded.payload, succeeded.signature))
+      .toEqual({ id: 'evt_1', type: 'payment.succeeded', paymentId: 'pi_1' });
+
+    const failed = signed({
+      id: 'evt_2',
+      type: 'payment_intent.payment_failed',
+      data: { object: { id: 'pi_1', object: 'payment_intent', last_payment_error: { message: 'Your card has insufficient funds.' } } },
+    });
+    expect(gateway.parseWebhook(failed.payload, failed.signature))
+      .toEqual({ id: 'evt_2', type: 'payment.failed', paymentId: 'pi_1', failureMessage: 'Your card has insufficient funds.' });
+
+    const refunded = signed({
+      id: 'evt_3',
+      type: 'charge.refunded',
+      data: { object: { id: 'ch_1', object: 'charge', payment_intent: 'pi_1', amount_refunded: 1250 } },
+    });
+    expect(gateway.parseWebhook(refunded.payload, refunded.signature))
+      .toEqual({ id: 'evt_3', type: 'payment.refunded', paymentId: 'pi_1', refundedAmount: 12.5 });
+  });
+
+  it('ignores other events and refuses bad signatures', () => {
+    const other = signed({ id: 'evt_4', type: 'customer.created', data: { object: { id: 'cus_1' } } });
+    expect(gateway.parseWebhook(other.payload, other.signature)).toBeNull();
+
+    expect(() => gateway.parseWebhook(other.payload, 't=1,v1=forged')).toThrow(GatewayError);
+    expect(() => gateway.parseWebhook(other.payload, null)).toThrow(GatewayError);
+  });
+});
+
+describe('Sale payment status from gateway events', () => {
+  const pending = { paymentStatus: 'PENDING', totalAmount: 40, refundedAmount: 0 };
+
+  it('completes or fails a pending sale', () => {
+    expect(saleChangeForEvent(pending, { id: 'e1', type: 'payment.succeeded', paymentId: 'pi_1' }))
+      .toEqual({ paymentStatus: 'COMPLETED' });
+    expect(saleChangeForEvent(pending, { id: 'e2', type: 'payment.failed', paymentId: 'pi_1', failureMessage: null }))
+      .toEqual({ paymentStatus: 'FAILED' });
+  });
+
+  it('never completes a sale that has failed', () => {
+    // Its items are back in stock by then
+    expect(saleChangeForEvent({ ...pending, paymentStatus: 'FAILED' }, { id: 'e1', type: 'payment.succeeded', paymentId: 'pi_1' }))
+      .toBeNull();
+  });
+
+  it('ignores repeated and out-of-date events', () => {
+    const completed = { ...pending, paymentStatus: 'COMPLETED' };
+    expect(saleChangeForEvent(completed, { id: 'e1', type: 'payment.succeeded', paymentId: 'pi_1' })).toBeNull();
+    expect(saleChangeForEvent(completed, { id: 'e2', type: 'payment.failed', paymentId: 'pi_1', failureMessage: null })).toBeNull();
+    expect(saleChangeForEvent({ ...completed, refundedAmount: 10 }, { id: 'e3', type: 'payment.refunded', paymentId: 'pi_1', refundedAmount: 10 }))
+      .toBeNull();
+  });
+
+  it('records refunds, partial and full', () => {
+    const completed = { ...pending, paymentStatus: 'COMPLETED' };
+    expect(saleChangeForEvent(completed, { id: 'e1', type: 'payment.refunded', paymentId: 'pi_1', refundedAmount: 10 }))
+      .toEqual({ paymentStatus: 'PARTIALLY_REFUNDED', refundedAmount: 10 });
+    expect(saleChangeForEvent(completed, { id: 'e2', type: 'payment.refunded', paymentId: 'pi_1', refundedAmount: 40 }))
+      .toEqual({ paymentStatus: 'REFUNDED', refundedAmount: 40 });
+  });
+
+  it('only takes card sales online for businesses that connected Stripe', () => {
+    const gateway = new FakePaymentGateway('whsec_test');
+    expect(takesGatewayPayment('CREDIT_CARD', { stripeConnected: true }, gateway)).toBe(true);
+    expect(takesGatewayPayment('STRIPE', { stripeConnected: true }, gateway)).toBe(true);
+    expect(takesGatewayPayment('CASH', { stripeConnected: true }, gateway)).toBe(false);
+    expect(takesGatewayPayment('CREDIT_CARD', { stripeConnected: false }, gateway)).toBe(false);
+    expect(takesGatewayPayment('CREDIT_CARD', null, gateway)).toBe(false);
+    expect(takesGatewayPayment('CREDIT_CARD', { stripeConnected: true }, null)).toBe(false);
+  });
+});
+
+describe('Card payment flow', () => {
+  let sale: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.PAYMENT_GATEWAY = 'fake';
+    process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test';
+    sale = {
+      id: 'sale-1',
+      userId: 'owner-1',
+      totalAmount: 64.92,
+      refundedAmount: 0,
+      paymentMethod: 'CREDIT_CARD',
+      paymentStatus: 'PENDING',
+      gatewayPaymentId: null,
+      createdById: 'employee-1',
+      customer: null,
+      items: [
+        { productId: 'mug', variantId: null, quantity: 2, returnedQuantity: 0, product: { stockQuantity: 8 } },
+        { productId: 'tee', variantId: 'tee-m', quantity: 1, returnedQuantity: 0, product: { stockQuantity: 3 } },
+      ],
+    };
+
+    (prisma.$transaction as jest.Mock<any>).mockImplementation((run: any) => run(prisma));
+    (prisma.productVariant.findMany as jest.Mock<any>).mockResolvedValue([{ stockQuantity: 4 }]);
+
+    (prisma.sale.findUnique as jest.Mock<any>).mockImplementation(({ where }: any) =>
+      Promise.resolve((where.id ? where.id === sale.id : where.gatewayPaymentId === sale.gatewayPaymentId) ? sale : null));
+    (prisma.sale.update as jest.Mock<any>).mockImplementation(({ data }: any) => {
+      sale = { ...sale, ...data };
+      return Promise.resolve(sale);
+    });
+    (prisma.user.findMany as jest.Mock<any>).mockResolvedValue([
+      { id: 'owner-1', email: null, role: 'ADMIN', permissions: [], businessId: null, notificationPreferences: null },
+    ]);
+    (prisma.notification.create as jest.Mock<any>).mockResolvedValue({});
+    (prisma.sale.findFirst as jest.Mock<any>).mockImplementation(() => Promise.resolve(sale));
+    (prisma.saleReturn.create as jest.Mock<any>).mockResolvedValue({ id: 'return-1', items: [] });
+    (prisma.paymentConfig.findUnique as jest.Mock<any>).mockResolvedValue({ stripeAccountId: 'acct_123' });
+  });
+
+  const returnOne = (saleId: string) => returnItems(
+    new Request(`http://localhost/api/sales/${saleId}/returns`, {
+      method: 'POST',
+      body: JSON.stringify({ items: [{ saleItemId: 'item-1', quantity: 1 }], restock: false }),
+    }),
+    { params: { saleId } }
+  );
+
+  const deliver = (webhook: { payload: string; signature: string }) => paymentWebhook(
+    new Request('http://localhost/api/payment/webhook', {
+      method: 'POST',
+      headers: { 'Stripe-Signature': webhook.signature },
+      body: webhook.payload,
+    })
+  );
+
+  it('takes a sale from pending to paid to refunded through the webhook', async () => {
+    const gateway = getPaymentGateway() as FakePaymentGateway;
+    expect(gateway).toBeInstanceOf(FakePaymentGateway);
+
+    const intent = await startGatewayPayment(prisma as unknown as PrismaClient, gateway, sale as any, 'acct_123');
+    expect(sale.gatewayPaymentId).toBe(intent.id);
+    expect(gateway.intents.get(intent.id)).toEqual(expect.objectContaining({ saleId: 'sale-1', amount: 64.92, accountId: 'acct_123' }));
+
+    const paid = await deliver(gateway.webhook('payment.succeeded', intent.id));
+    expect(paid.status).toBe(200);
+    expect(await paid.json()).toEqual({ received: true, saleId: 'sale-1', paymentStatus: 'COMPLETED' });
+    // The items left stock when the sale was made
+    expect(prisma.product.update).not.toHaveBeenCalled();
+
+    // Delivered again, nothing changes
+    await deliver(gateway.webhook('payment.succeeded', intent.id));
+    expect(prisma.sale.update).toHaveBeenCalledTimes(2);
+
+    await deliver(gateway.webhook('payment.refunded', intent.id, { refundedAmount: 20 }));
+    expect(sale).toEqual(expect.objectContaining({ paymentStatus: 'PARTIALLY_REFUNDED', refundedAmount: 20 }));
+
+    await deliver(gateway.webhook('payment.refunded', intent.id));
+    expect(sale).toEqual(expect.objectContaining({ paymentStatus: 'REFUNDED', refundedAmount: 64.92 }));
+  });
+
+  it('marks a declined payment failed and tells the business', async () => {
+    const gateway = getPaymentGateway() as FakePaymentGateway;
+    sale.id = 'sale-2';
+    const intent = await startGatewayPayment(prisma as unknown as PrismaClient, gateway, sale as any);
+
+    const response = await deliver(gateway.webhook('payment.failed', intent.id, { failureMessage: 'Your card was declined.' }));
+
+    expect(await response.json()).toEqual(expect.objectContaining({ paymentStatus: 'FAILED' }));
+    expect(prisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'payment.failed',
+        body: 'The CREDIT_CARD payment for sale #sale-2 failed: Your card was declined.',
+      }),
+    });
+    expect(prisma.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        entityType: 'Sale',
+        entityId: 'sale-2',
+        summary: 'Card payment failed: Your card was declined.',
+        businessId: 'owner-1',
+        actorId: 'employee-1',
+      }),
+    });
+  });
+
+  it('puts the items of a failed payment back in stock once', async () => {
+    const gateway = getPaymentGateway() as FakePaymentGateway;
+    sale.id = 'sale-3';
+    const intent = await startGatewayPayment(prisma as unknown as PrismaClient, gateway, sale as any);
+    // The sale was rung up at a location
+    (prisma.inventoryChange.findFirst as jest.Mock<any>).mockResolvedValueOnce({ inventoryId: 'front-store' });
+
+    await deliver(gateway.webhook('payment.failed', intent.id));
+
+    expect(prisma.inventoryChange.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { reference: 'Sale #sale-3', type: 'remove', inventoryId: { not: null } },
+    }));
+    expect(prisma.stockLevel.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { productId_inventoryId: { productId: 'mug', inventoryId: 'front-store' } },
+      update: { quantity: { increment: 2 } },
+    }));
+    expect(prisma.product.update).toHaveBeenCalledWith({ where: { id: 'mug' }, data: { stockQuantity: { increment: 2 } } });
+    expect(prisma.productVariant.update).toHaveBeenCalledWith({ where: { id: 'tee-m' }, data: { stockQuantity: { increment: 1 } } });
+    // The variant's product is summed up from its variants
+    expect(prisma.product.update).toHaveBeenCalledWith({ where: { id: 'tee' }, data: { stockQuantity: 4 } });
+    expect(prisma.inventoryChange.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        productId: 'tee',
+        variantId: 'tee-m',
+        userId: 'owner-1',
+        createdById: 'employee-1',
+        type: 'add',
+        inventoryId: 'front-store',
+        quantity: 1,
+        reason: 'Payment failed',
+        reference: 'Sale #sale-3',
+      }),
+    });
+
+    jest.clearAllMocks();
+    await deliver(gateway.webhook('payment.succeeded', intent.id));
+
+    expect(sale.paymentStatus).toBe('FAILED');
+    expect(prisma.product.update).not.toHaveBeenCalled();
+    expect(prisma.inventoryChange.create).not.toHaveBeenCalled();
+  });
+
+  it('refunds a return on the card and lets the webhook confirm it', async () => {
+    const gateway = getPaymentGateway() as FakePaymentGateway;
+    sale.id = 'sale-4';
+    sale.items = [{ id: 'item-1', productId: 'mug', variantId: null, quantity: 2, returnedQuantity: 0, price: 32.46 }];
+    const intent = await startGatewayPayment(prisma as unknown as PrismaClient, gateway, sale as any);
+    await deliver(gateway.webhook('payment.succeeded', intent.id));
+
+    const response = await returnOne('sale-4');
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual(expect.objectContaining({
+      refundAmount: 32.46,
+      paymentStatus: 'PARTIALLY_REFUNDED',
+      gatewayRefund: { id: expect.stringMatching(/^fake_re_/), status: 'succeeded' },
+    }));
+    expect(gateway.refundedAmount(intent.id)).toBe(32.46);
+    expect(Array.from(gateway.refunds.values())).toEqual([
+      expect.objectContaining({ paymentId: intent.id, accountId: 'acct_123', idempotencyKey: 'refund-sale-4-3246' }),
+    ]);
+    expect(sale).toEqual(expect.objectContaining({ paymentStatus: 'PARTIALLY_REFUNDED', refundedAmount: 32.46 }));
+
+    (prisma.sale.update as jest.Mock<any>).mockClear();
+    const confirmed = await deliver(gateway.webhook('payment.refunded', intent.id));
+
+    expect(await confirmed.json()).toEqual({ received: true, saleId: null, paymentStatus: null });
+    expect(prisma.sale.update).not.toHaveBeenCalled();
+  });
+
+  it('records no return when the gateway refuses the refund', async () => {
+    sale.id = 'sale-5';
+    sale.paymentStatus = 'COMPLETED';
+    sale.gatewayPaymentId = 'fake_pi_unknown';
+    sale.items = [{ id: 'item-1', productId: 'mug', variantId: null, quantity: 2, returnedQuantity: 0, price: 32.46 }];
+
+    const response = await returnOne('sale-5');
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Refund could not be made: PaymentIntent fake_pi_unknown has not been paid' });
+    expect(prisma.saleReturn.create).not.toHaveBeenCalled();
+    expect(prisma.sale.update).not.toHaveBeenCalled();
+  });
+
+  it('gives back the card form of a sale left to be paid later', async () => {
+    const gateway = getPaymentGateway() as FakePaymentGateway;
+    sale.id = 'sale-6';
+    const intent = await startGatewayPayment(prisma as unknown as PrismaClient, gateway, sale as any);
+
+    const response = await loadCardPayment(new Request('http://localhost/api/sales/sale-6/payment-intent'), { params: { saleId: 'sale-6' } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      saleId: 'sale-6',
+      amount: 64.92,
+      paymentIntent: { id: intent.id, clientSecret: intent.clientSecret, accountId: 'acct_123' },
+    });
+
+    sale.paymentStatus = 'COMPLETED';
+    const paid = await loadCardPayment(new Request('http://localhost/api/sales/sale-6/payment-intent'), { params: { saleId: 'sale-6' } });
+    expect(paid.status).toBe(409);
+  });
+
+  it('cancels the payment of a pending card sale before deleting it', async () => {
+    const gateway = getPaymentGateway() as FakePaymentGateway;
+    sale.id = 'sale-7';
+    const intent = await startGatewayPayment(prisma as unknown as PrismaClient, gateway, sale as any);
+
+    const response = await deleteSale(new Request('http://localhost/api/sales/sale-7', { method: 'DELETE' }) as any, { params: { saleId: 'sale-7' } });
+
+    expect(response.status).toBe(200);
+    expect(gateway.intents.get(intent.id)?.status).toBe('canceled');
+    expect(prisma.sale.delete).toHaveBeenCalledWith({ where: { id: 'sale-7' } });
+  });
+
+  it('refunds what was paid for a card sale before deleting it', async () => {
+    const gateway = getPaymentGateway() as FakePaymentGateway;
+    sale.id = 'sale-8';
+    const intent = await startGatewayPayment(prisma as unknown as PrismaClient, gateway, sale as any);
+    await deliver(gateway.webhook('payment.succeeded', intent.id));
+    sale.refundedAmount = 10;
+    await gateway.refundPayment({ paymentId: intent.id, amount: 10, idempotencyKey: 'earlier-return' });
+
+    const response = await deleteSale(new Request('http://localhost/api/sales/sale-8', { method: 'DELETE' }) as any, { params: { saleId: 'sale-8' } });
+
+    expect(response.status).toBe(200);
+    expect(gateway.refundedAmount(intent.id)).toBe(64.92);
+  });
+
+  it('keeps the sale when the gateway will not cancel its payment', async () => {
+    sale.id = 'sale-9';
+    sale.gatewayPaymentId = 'fake_pi_unknown';
+
+    const response = await deleteSale(new Request('http://localhost/api/sales/sale-9', { method: 'DELETE' }) as any, { params: { saleId: 'sale-9' } });
+
+    expect(response.status).toBe(502);
+    expect(prisma.sale.delete).not.toHaveBeenCalled();
+  });
+
+  it('refuses webhooks that are not signed by the gateway', async () => {
+    const forged = new FakePaymentGateway('not-the-secret').webhook('payment.succeeded', 'fake_pi_1');
+
+    const response = await deliver(forged);
+
+    expect(response.status).toBe(400);
+    expect(prisma.sale.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { POST as adjustInventory } from '@/app/api/inventory/adjust/route';
+import { PUT as updateAccess } from '@/app/api/employees/permissions/route';
+import { hasPermission, permissionsForPath, resolvePermissions } from '@/lib/permissions';
+import { ReplenishmentCalculator } from '@/lib/analytics/replenishment';
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn()
+}));
+
+jest.mock('@/lib/auth', () => ({
+  authOptions: {}
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn()
+    },
+    auditEvent: {
+      create: jest.fn()
+    },
+    product: {
+      findFirst: jest.fn(),
+      update: jest.fn()
+    },
+    inventoryChange: {
+      create: jest.fn()
+    },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations))
+  }
+}));
+
+import { getServerSession } from 'next-auth';
+import prisma from '@/lib/prisma';
+
+describe('Permissions', () => {
+  it('resolves role defaults plus individually granted permissions', () => {
+    expect(resolvePermissions({ role: 'SALES_REP', businessId: 'owner-1' })).toEqual([
+      'MANAGE_SALES',
+      'VIEW_REPORTS',
+    ]);
+    expect(
+      resolvePermissions({ role: 'SALES_REP', businessId: 'owner-1', permissions: ['MANAGE_INVENTORY', 'VIEW_DASHBOARD'] })
+    ).toEqual(['MANAGE_INVENTORY', 'MANAGE_SALES', 'VIEW_REPORTS']);
+  });
+
+  it('gives admins and business owners every permission', () => {
+    expect(resolvePermissions({ role: 'ADMIN' })).toHaveLength(6);
+    expect(resolvePermissions({ role: 'USER', businessId: null })).toHaveLength(6);
+    expect(resolvePermissions({ role: 'USER', businessId: 'owner-1' })).toEqual(['VIEW_REPORTS']);
+  });
+
+  it('matches the most specific restricted route', () => {
+    expect(permissionsForPath('/api/inventory/adjust')).toEqual(['MANAGE_INVENTORY']);
+    expect(permissionsForPath('/api/inventory/stats/by-category')).toEqual(['VIEW_REPORTS']);
+    expect(permissionsForPath('/api/sales-history/import')).toEqual(['MANAGE_SALES']);
+    expect(permissionsForPath('/api/inventory-reports')).toBeNull();
+    expect(hasPermission(['VIEW_REPORTS'], ['MANAGE_SALES', 'VIEW_REPORTS'])).toBe(true);
+  });
+});
+
+describe('Inventory adjust API authorization', () => {
+  const adjust = (body: object) =>
+    adjustInventory(
+      new NextRequest('http://localhost/api/inventory/adjust', {
+        method: 'POST',
+        body: JSON.stringify(body)
+      })
+    );
+
+  const signInAs = (user: object) => {
+    (getServerSession as jest.Mock).mockResolvedValue({ user: { id: 'employee-1' } } as never);
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+      id: 'employee-1',
+      name: 'Employee',
+      email: 'employee@example.com',
+      permissions: [],
+      businessId: 'owner-1',
+      ...user
+    } as never);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rejects requests without a session', async () => {
+    (getServerSession as jest.Mock).mockResolvedValue(null as never);
+
+    const response = await adjust({ productId: 'product-1', quantity: 1, type: 'INCREASE' });
+    expect(response.status).toBe(401);
+  });
+
+  it('forbids a sales rep from adjusting stock', async () => {
+    signInAs({ role: 'SALES_REP' });
+
+    const response = await adjust({ productId: 'product-1', quantity: 5, type: 'INCREASE' });
+    expect(response.status).toBe(403);
+    expect(prisma.product.findFirst).not.toHaveBeenCalled();
+    expect(prisma.inventoryChange.create).not.toHaveBeenCalled();
+  });
+
+  it('lets inventory managers through to validation', async () => {
+    signInAs({ role: 'INVENTORY_MANAGER' });
+
+    const response = await adjust({ quantity: 5, type: 'INCREASE' });
+    expect(response.status).toBe(400);
+
+    const data = await response.json();
+    expect(data.error).toBe('Invalid request body');
+    expect(data.issues).toEqual([expect.objectContaining({ path: 'productId' })]);
+  });
+
+  it('honours permissions granted to an individual sales rep', async () => {
+    signInAs({ role: 'SALES_REP', permissions: ['MANAGE_INVENTORY'] });
+
+    const response = await adjust({ quantity: 5, type: 'INCREASE' });
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('Business scoping', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getServerSession as jest.Mock).mockResolvedValue({ user: { id: 'employee-1' } } as never);
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+      id: 'employee-1',
+      name: 'Employee',
+      email: 'employee@example.com',
+      role: 'INVENTORY_MANAGER',
+      permissions: [],
+      businessId: 'owner-1'
+    } as never);
+    (prisma.product.findFirst as jest.Mock).mockResolvedValue({ id: 'product-1', stockQuantity: 10 } as never);
+    (prisma.product.update as jest.Mock).mockResolvedValue({ id: 'product-1', stockQuantity: 15 } as never);
+    (prisma.inventoryChange.create as jest.Mock).mockResolvedValue({ id: 'change-1' } as never);
+    jest.spyOn(ReplenishmentCalculator.prototype, 'reorderPoints').mockResolvedValue(new Map());
+  });
+
+  it("reads the owner's products and records which employee made the change", async () => {
+    const response = await adjustInventory(
+      new NextRequest('http://localhost/api/inventory/adjust', {
+        method: 'POST',
+        body: JSON.stringify({ productId: 'product-1', quantity: 5, type: 'INCREASE' })
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(prisma.product.findFirst).toHaveBeenCalledWith({
+      where: { id: 'product-1', userId: 'owner-1' }
+    });
+    expect(prisma.inventoryChange.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'owner-1', createdById: 'employee-1' })
+    });
+  });
+});
+
+describe('Employee access changes', () => {
+  const manager = {
+    id: 'manager-1',
+    name: 'Manager',
+    email: 'manager@example.com',
+    role: 'MANAGER',
+    permissions: ['MANAGE_EMPLOYEES'],
+    businessId: 'owner-1'
+  };
+  const rep = {
+    id: 'rep-1',
+    name: 'Rep',
+    email: 'rep@example.com',
+    role: 'SALES_REP',
+    permissions: [],
+    businessId: 'owner-1'
+  };
+
+  const put = (body: object) => updateAccess(
+    new Request('http://localhost/api/employees/permissions', { method: 'PUT', body: JSON.stringify(body) })
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getServerSession as jest.Mock).mockResolvedValue({ user: { id: 'manager-1' } } as never);
+    (prisma.user.findUnique as jest.Mock).mockImplementation((({ where }: any) =>
+      Promise.resolve([manager, rep].find(user => user.id === where.id) || null)) as any);
+    (prisma.user.update as jest.Mock).mockImplementation((({ data }: any) =>
+      Promise.resolve({ ...rep, ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) })) as any);
+  });
+
+  it('grants permissions the caller holds', async () => {
+    const response = await put({ employeeId: 'rep-1', permissions: ['MANAGE_INVENTORY'] });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(expect.objectContaining({
+      effectivePermissions: ['MANAGE_INVENTORY', 'MANAGE_SALES', 'VIEW_REPORTS']
+    }));
+  });
+
+  it('refuses to grant permissions the caller does not hold, directly or through a role', async () => {
+    const direct = await put({ employeeId: 'rep-1', permissions: ['MANAGE_EMPLOYEES', 'MANAGE_SETTINGS'] });
+    expect(direct.status).toBe(403);
+    expect(await direct.json()).toEqual({ error: 'You cannot grant permissions you do not hold: MANAGE_SETTINGS' });
+
+    const byRole = await put({ employeeId: 'rep-1', role: 'ADMIN' });
+    expect(byRole.status).toBe(403);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('does not let anyone change their own access', async () => {
+    const response = await put({ employeeId: 'manager-1', permissions: ['MANAGE_SETTINGS'] });
+
+    expect(response.status).toBe(403);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('checks the body against the schema', async () => {
+    const response = await put({ employeeId: 'rep-1', permissions: 'MANAGE_SALES' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).issues).toEqual([expect.objectContaining({ path: 'permissions' })]);
+  });
+});
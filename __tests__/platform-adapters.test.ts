@@ -0,0 +1,190 @@
+import { describe, expect, it } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import Papa from 'papaparse';
+import { ImportType } from '@/lib/import-mapping';
+import { adaptPlatformRows, detectPlatform, PlatformSource } from '@/lib/platform-adapters';
+
+function fixture(name: string) {
+  const text = readFileSync(join(__dirname, '..', 'sample_data', name), 'utf8');
+  const { data, meta } = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true });
+  return { headers: meta.fields || [], rows: data };
+}
+
+describe('Platform import adapters', () => {
+  describe('detectPlatform', () => {
+    const exports: [string, ImportType, PlatformSource][] = [
+      ['shopify_products.csv', 'inventoryItems', 'shopify'],
+      ['shopify_orders.csv', 'salesHistory', 'shopify'],
+      ['square_items.csv', 'inventoryItems', 'square'],
+      ['square_item_sales.csv', 'salesHistory', 'square'],
+      ['woocommerce_products.csv', 'inventoryItems', 'woocommerce'],
+      ['woocommerce_orders.csv', 'salesHistory', 'woocommerce'],
+    ];
+
+    it.each(exports)('recognises %s', (file, type, source) => {
+      expect(detectPlatform(type, fixture(file).headers)).toBe(source);
+    });
+
+    it('does not match our own templates or the wrong kind of export', () => {
+      expect(detectPlatform('inventoryItems', fixture('inventory_items.csv').headers)).toBeNull();
+      expect(detectPlatform('salesHistory', fixture('sales_history.csv').headers)).toBeNull();
+      expect(detectPlatform('salesHistory', fixture('shopify_products.csv').headers)).toBeNull();
+    });
+  });
+
+  describe('Shopify', () => {
+    it('turns product rows into one item per variant with the product images', () => {
+      const items = adaptPlatformRows('shopify', 'inventoryItems', fixture('shopify_products.csv').rows);
+
+      expect(items.map(item => item.sku)).toEqual(['TEE-S-BLK', 'TEE-M-BLK', 'TEE-M-WHT', 'POUR-01', 'TOTE-WAX']);
+      expect(items[0]).toEqual({
+        sku: 'TEE-S-BLK',
+        name: 'Organic Cotton Tee',
+        description: 'Soft organic cotton tee with a relaxed fit.',
+        category: 'T-Shirts',
+        unitCost: 9.5,
+        sellingPrice: 24,
+        stockQuantity: 14,
+        location: '',
+        size: 'S',
+        color: 'Black',
+        images: [
+          'https://cdn.shopify.com/s/files/1/tee-black.jpg',
+          'https://cdn.shopify.com/s/files/1/tee-front.jpg',
+          'https://cdn.shopify.com/s/files/1/tee-back.jpg',
+          'https://cdn.shopify.com/s/files/1/tee-detail.jpg',
+        ],
+      });
+      expect(items[2]).toEqual(expect.objectContaining({ size: 'M', color: 'White', sellingPrice: 26, stockQuantity: 0 }));
+      expect(items[3]).toEqual(expect.objectContaining({
+        name: 'Ceramic Pour-Over',
+        description: 'Hand-glazed ceramic coffee dripper & stand.',
+        category: 'Coffee Gear',
+        unitCost: 410,
+        sellingPrice: 1034,
+        size: '',
+        color: '',
+      }));
+      // Options we have no field for stay in the name
+      expect(items[4]).toEqual(expect.objectContaining({ name: 'Canvas Tote (Waxed)', unitCost: null }));
+    });
+
+    it('spreads multi-line orders over their lines and leaves out cancelled orders', () => {
+      const items = adaptPlatformRows('shopify', 'salesHistory', fixture('shopify_orders.csv').rows);
+
+      expect(items).toEqual([
+        {
+          date: '2024-03-05',
+          productId: 'TEE-S-BLK',
+          productName: 'Organic Cotton Tee - S / Black',
+          quantity: 2,
+          unitPrice: 24,
+          totalAmount: 48,
+          externalOrderId: '#1001',
+        },
+        expect.objectContaining({ date: '2024-03-05', productId: 'TEE-M-WHT', quantity: 1, totalAmount: 26, externalOrderId: '#1001' }),
+        expect.objectContaining({ date: '2024-03-07', productId: 'POUR-01', unitPrice: 1034, externalOrderId: '#1002' }),
+      ]);
+    });
+  });
+
+  describe('Square', () => {
+    it('reads variations, options and stock across locations, skipping archived items', () => {
+      const items = adaptPlatformRows('square', 'inventoryItems', fixture('square_items.csv').rows);
+
+      expect(items.map(item => item.sku)).toEqual(['HB-12', 'HB-32', 'HOOD-S-GRY', 'HOOD-L-GRY']);
+      expect(items[0]).toEqual(expect.objectContaining({
+        name: 'House Blend Coffee',
+        category: 'Coffee',
+        unitCost: 6.25,
+        sellingPrice: 16.5,
+        stockQuantity: 42,
+        size: '12 oz',
+        location: '',
+      }));
+      expect(items[2]).toEqual(expect.objectContaining({ name: 'Logo Hoodie', size: 'Small', color: 'Gray', stockQuantity: 3 }));
+      expect(items[3].stockQuantity).toBe(3);
+    });
+
+    it('reads item sales with the price point in the name and leaves out refunds', () => {
+      const items = adaptPlatformRows('square', 'salesHistory', fixture('square_item_sales.csv').rows);
+
+      expect(items).toEqual([
+        {
+          date: '2024-03-05',
+          productId: 'HB-12',
+          productName: 'House Blend Coffee (12 oz)',
+          quantity: 2,
+          unitPrice: 16.5,
+          totalAmount: 33,
+          externalOrderId: 'tx_9f8a1',
+        },
+        expect.objectContaining({ productName: 'Logo Hoodie', quantity: 1, totalAmount: 45, externalOrderId: 'tx_9f8a1' }),
+        expect.objectContaining({ date: '2024-03-18', productId: 'HB-32', unitPrice: 1038 }),
+      ]);
+    });
+  });
+
+  describe('WooCommerce', () => {
+    it('imports variations under their parent product and skips products without stock of their own', () => {
+      const items = adaptPlatformRows('woocommerce', 'inventoryItems', fixture('woocommerce_products.csv').rows);
+
+      expect(items.map(item => item.sku)).toEqual(['TSHIRT-BLUE-S', 'TSHIRT-RED-M', 'BEANIE-01']);
+      expect(items[0]).toEqual({
+        sku: 'TSHIRT-BLUE-S',
+        name: 'Vintage Tee',
+        description: 'Garment-dyed vintage tee.',
+        category: 'T-Shirts',
+        unitCost: 7.25,
+        sellingPrice: 19.99,
+        stockQuantity: 10,
+        location: '',
+        size: 'S',
+        color: 'Blue',
+        images: [
+          'https://shop.example.com/wp-content/uploads/tee-blue.jpg',
+          'https://shop.example.com/wp-content/uploads/tee-1.jpg',
+          'https://shop.example.com/wp-content/uploads/tee-2.jpg',
+        ],
+      });
+      // This variation refers to its parent by SKU
+      expect(items[1]).toEqual(expect.objectContaining({ name: 'Vintage Tee', size: 'M', color: 'Red', sellingPrice: 21.99 }));
+      expect(items[2]).toEqual(expect.objectContaining({
+        name: 'Wool Beanie',
+        description: 'Warm wool beanie',
+        category: 'Accessories',
+        unitCost: 5.1,
+        size: '',
+      }));
+    });
+
+    it('splits the line items of each order and leaves out cancelled orders', () => {
+      const items = adaptPlatformRows('woocommerce', 'salesHistory', fixture('woocommerce_orders.csv').rows);
+
+      expect(items).toEqual([
+        {
+          date: '2024-04-02',
+          productId: 'TSHIRT-BLUE-S',
+          productName: 'Vintage Tee - Blue, S',
+          quantity: 2,
+          unitPrice: 19.99,
+          totalAmount: 39.98,
+          externalOrderId: '2041',
+        },
+        expect.objectContaining({ productId: 'BEANIE-01', quantity: 1, totalAmount: 15, externalOrderId: '2041' }),
+        expect.objectContaining({ date: '2024-04-03', productId: 'TSHIRT-RED-M', unitPrice: 15.79, externalOrderId: '2042' }),
+      ]);
+    });
+
+    it('reads exports with one row per order line', () => {
+      const items = adaptPlatformRows('woocommerce', 'salesHistory', [
+        { order_number: '7', order_date: '2024-05-01 08:00:00', status: 'completed', item_name: 'Mug', item_sku: 'MUG', item_quantity: '3', item_total: '30.00' },
+      ]);
+
+      expect(items).toEqual([
+        { date: '2024-05-01', productId: 'MUG', productName: 'Mug', quantity: 3, unitPrice: 10, totalAmount: 30, externalOrderId: '7' },
+      ]);
+    });
+  });
+});
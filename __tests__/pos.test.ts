@@ -0,0 +1,165 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  cartReducer,
+  cartTotal,
+  cartTotals,
+  changeDue,
+  EMPTY_CART,
+  lookupScanCode,
+  overstockedLines,
+  parseScanInput,
+  PosCart,
+  saleRequestBody,
+  ScannedItem,
+} from '@/lib/pos';
+
+const mug: ScannedItem = { productId: 'p1', variantId: null, name: 'Mug', sku: 'MUG-1', price: 12.1, stockQuantity: 10, category: 'Kitchen' };
+const teeSmall: ScannedItem = { productId: 'p2', variantId: 'v1', name: 'Tee – S', sku: 'TEE-S', price: 20.2, stockQuantity: 2, category: 'Apparel' };
+const teeLarge: ScannedItem = { ...teeSmall, variantId: 'v2', name: 'Tee – L', sku: 'TEE-L' };
+
+function cartOf(...actions: Parameters<typeof cartReducer>[1][]): PosCart {
+  return actions.reduce(cartReducer, EMPTY_CART);
+}
+
+describe('Scanning', () => {
+  it('reads an optional quantity before the code', () => {
+    expect(parseScanInput(' MUG-1 ')).toEqual({ code: 'MUG-1', quantity: 1 });
+    expect(parseScanInput('3*MUG-1')).toEqual({ code: 'MUG-1', quantity: 3 });
+    expect(parseScanInput('12 * 0012345678905')).toEqual({ code: '0012345678905', quantity: 12 });
+    expect(parseScanInput('')).toBeNull();
+    expect(parseScanInput('0*MUG-1')).toBeNull();
+    expect(parseScanInput('5000*MUG-1')).toBeNull();
+  });
+});
+
+describe('POS cart', () => {
+  it('adds to the line of an item that is scanned again', () => {
+    const cart = cartOf(
+      { type: 'add', item: mug },
+      { type: 'add', item: teeSmall, quantity: 2 },
+      { type: 'add', item: mug, quantity: 2 },
+      { type: 'add', item: teeLarge }
+    );
+
+    expect(cart.lines.map(line => [line.name, line.quantity])).toEqual([['Mug', 3], ['Tee – S', 2], ['Tee – L', 1]]);
+    expect(cart.selected).toBe(2);
+  });
+
+  it('changes and removes lines', () => {
+    let cart = cartOf({ type: 'add', item: mug }, { type: 'add', item: teeSmall });
+
+    cart = cartReducer(cart, { type: 'setQuantity', index: 0, quantity: 4 });
+    expect(cart.lines[0].quantity).toBe(4);
+
+    // Zero removes the line, and the highlight stays on a line that exists
+    cart = cartReducer(cart, { type: 'setQuantity', index: 1, quantity: 0 });
+    expect(cart.lines.map(line => line.name)).toEqual(['Mug']);
+    expect(cart.selected).toBe(0);
+
+    cart = cartReducer(cart, { type: 'select', index: 5 });
+    expect(cart.selected).toBe(0);
+
+    expect(cartReducer(cart, { type: 'remove', index: 0 })).toEqual({ lines: [], selected: -1 });
+    expect(cartReducer(cart, { type: 'clear' })).toEqual(EMPTY_CART);
+  });
+
+  it('totals in cents and works out the change', () => {
+    const cart = cartOf({ type: 'add', item: mug, quantity: 3 }, { type: 'add', item: teeSmall });
+
+    expect(cartTotal(cart)).toBe(56.5);
+    expect(changeDue(56.5, 60)).toBe(3.5);
+    expect(changeDue(56.5, 56.5)).toBe(0);
+    expect(changeDue(56.5, 50)).toBeNull();
+  });
+
+  it('flags lines with more than is in stock', () => {
+    const cart = cartOf({ type: 'add', item: mug }, { type: 'add', item: teeSmall, quantity: 3 });
+
+    expect(overstockedLines(cart).map(line => line.name)).toEqual(['Tee – S']);
+  });
+
+  it('builds the POST /api/sales body', () => {
+    const cart = cartOf({ type: 'add', item: mug, quantity: 2 }, { type: 'add', item: teeSmall });
+
+    expect(saleRequestBody(cart, 'CASH')).toEqual({
+      items: [
+        { productId: 'p1', quantity: 2 },
+        { productId: 'p2', variantId: 'v1', quantity: 1 },
+      ],
+      paymentMethod: 'CASH',
+      totalAmount: 44.4,
+    });
+  });
+
+  it('charges tax and takes off the order discount in the total it sends', () => {
+    const cart = cartOf({ type: 'add', item: mug, quantity: 2 }, { type: 'add', item: teeSmall });
+    const rates = { defaultRate: 10, categories: { apparel: 0 } };
+    const discount = { type: 'FIXED' as const, value: 4.44 };
+
+    // 44.40 less 4.44 shared 2.42 / 2.02; only the mugs are taxed, 10% of 21.78
+    expect(cartTotals(cart, rates, discount)).toEqual(expect.objectContaining({
+      subtotal: 44.4,
+      discountAmount: 4.44,
+      taxAmount: 2.18,
+      totalAmount: 42.14,
+    }));
+    expect(saleRequestBody(cart, 'CARD', { rates, discount, customerId: 'c1' })).toEqual(expect.objectContaining({
+      discount,
+      totalAmount: 42.14,
+      customerId: 'c1',
+    }));
+  });
+});
+
+describe('Looking up scanned codes', () => {
+  const product = { id: 'p2', name: 'Tee', sku: 'TEE', sellingPrice: 20, stockQuantity: 5, category: 'Apparel' };
+  const variant = (id: string, size: string, overrides: object = {}) => ({
+    id, sku: null, size, color: null, priceOverride: null, stockQuantity: 1, ...overrides,
+  });
+
+  function mockClient(found: { variant?: unknown; product?: unknown }) {
+    const client = {
+      productVariant: { findFirst: jest.fn<any>().mockResolvedValue(found.variant ?? null) },
+      product: { findFirst: jest.fn<any>().mockResolvedValue(found.product ?? null) },
+    };
+    return client as typeof client & PrismaClient;
+  }
+
+  it("rings up a variant by its own SKU at its price", async () => {
+    const client = mockClient({ variant: { ...variant('v1', 'S', { sku: 'TEE-S', priceOverride: 22 }), product } });
+
+    const result = await lookupScanCode(client, 'owner-1', ' tee-s ');
+
+    expect(client.productVariant.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        sku: { equals: 'tee-s', mode: 'insensitive' },
+        isActive: true,
+        product: { userId: 'owner-1', isActive: true },
+      },
+    }));
+    expect(result).toEqual({
+      item: { productId: 'p2', variantId: 'v1', name: 'Tee – S', sku: 'TEE-S', price: 22, stockQuantity: 1, category: 'Apparel' },
+      options: [],
+    });
+  });
+
+  it('offers the variants when a product with several is scanned', async () => {
+    const client = mockClient({ product: { ...product, variants: [variant('v1', 'S'), variant('v2', 'L')] } });
+
+    const result = await lookupScanCode(client, 'owner-1', 'TEE');
+
+    expect(result.item).toBeNull();
+    expect(result.options.map(option => [option.variantId, option.name, option.sku, option.price])).toEqual([
+      ['v1', 'Tee – S', 'TEE', 20],
+      ['v2', 'Tee – L', 'TEE', 20],
+    ]);
+  });
+
+  it('rings up a product without variants, and finds nothing for unknown codes', async () => {
+    const found = await lookupScanCode(mockClient({ product: { ...product, variants: [] } }), 'owner-1', 'TEE');
+    expect(found.item).toEqual({ productId: 'p2', variantId: null, name: 'Tee', sku: 'TEE', price: 20, stockQuantity: 5, category: 'Apparel' });
+
+    expect(await lookupScanCode(mockClient({}), 'owner-1', 'NOPE')).toEqual({ item: null, options: [] });
+  });
+});
@@ -0,0 +1,270 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  assertLineVariants,
+  canReceive,
+  canTransition,
+  describeVariance,
+  formatPoNumber,
+  nextPoNumber,
+  parsePoSequence,
+  planReceipt,
+  PurchaseOrderError,
+} from '@/lib/purchase-orders';
+import { POST as receivePurchaseOrder } from '@/app/api/purchase-orders/[orderId]/receive/route';
+import { POST as createPurchaseOrder } from '@/app/api/purchase-orders/route';
+import { Prisma } from '@prisma/client';
+
+jest.mock('@/lib/authorize', () => ({
+  requirePermission: jest.fn<any>().mockResolvedValue({ user: { id: 'user-1', ownerId: 'owner-1' } }),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  recordAudit: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => {
+  const client: Record<string, any> = {
+    purchaseOrder: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+    purchaseOrderLine: { updateMany: jest.fn() },
+    supplier: { findFirst: jest.fn() },
+    product: { findMany: jest.fn(), update: jest.fn() },
+    productVariant: { update: jest.fn(), findMany: jest.fn() },
+    inventoryChange: { create: jest.fn() },
+  };
+  client.$transaction = jest.fn((run: any) => run(client));
+  return { __esModule: true, default: client };
+});
+
+import prisma from '@/lib/prisma';
+
+describe('Purchase order rules', () => {
+  const lines = [
+    { id: 'line-1', productId: 'product-1', quantityOrdered: 10, quantityReceived: 0 },
+    { id: 'line-2', productId: 'product-2', quantityOrdered: 5, quantityReceived: 2 },
+  ];
+
+  describe('status transitions', () => {
+    it('allows draft orders to be sent or cancelled', () => {
+      expect(canTransition('DRAFT', 'SENT')).toBe(true);
+      expect(canTransition('DRAFT', 'CANCELLED')).toBe(true);
+    });
+
+    it('does not allow received or cancelled orders to change', () => {
+      expect(canTransition('RECEIVED', 'SENT')).toBe(false);
+      expect(canTransition('CANCELLED', 'DRAFT')).toBe(false);
+    });
+
+    it('only receives against sent or partially received orders', () => {
+      expect(canReceive('SENT')).toBe(true);
+      expect(canReceive('PARTIALLY_RECEIVED')).toBe(true);
+      expect(canReceive('DRAFT')).toBe(false);
+      expect(canReceive('CANCELLED')).toBe(false);
+    });
+  });
+
+  describe('PO numbers', () => {
+    it('formats and parses sequential numbers', () => {
+      expect(formatPoNumber(42)).toBe('PO-000042');
+      expect(parsePoSequence('PO-000042')).toBe(42);
+      expect(parsePoSequence(undefined)).toBe(0);
+      expect(parsePoSequence('legacy-1')).toBe(0);
+    });
+
+    it('numbers a new order after the highest sequence used', () => {
+      expect(nextPoNumber([])).toBe('PO-000001');
+      expect(nextPoNumber(['PO-000009', 'legacy-1', 'PO-999999', 'PO-000010'])).toBe('PO-1000000');
+      expect(nextPoNumber(['PO-999999', 'PO-1000000'])).toBe('PO-1000001');
+    });
+  });
+
+  describe('planReceipt', () => {
+    it('marks the order partially received when lines are outstanding', () => {
+      const plan = planReceipt(lines, [{ lineId: 'line-1', quantity: 4 }]);
+
+      expect(plan.nextStatus).toBe('PARTIALLY_RECEIVED');
+      expect(plan.isComplete).toBe(false);
+      expect(plan.lines).toEqual([
+        {
+          lineId: 'line-1',
+          productId: 'product-1',
+          variantId: null,
+          quantity: 4,
+          quantityReceivedAfter: 4,
+          quantityOrdered: 10,
+          variance: -6,
+        },
+      ]);
+    });
+
+    it('marks the order received once every line is fully delivered', () => {
+      const plan = planReceipt(lines, [
+        { lineId: 'line-1', quantity: 10 },
+        { lineId: 'line-2', quantity: 3 },
+      ]);
+
+      expect(plan.nextStatus).toBe('RECEIVED');
+      expect(plan.isComplete).toBe(true);
+    });
+
+    it('accepts over-deliveries and reports the variance', () => {
+      const plan = planReceipt(lines, [
+        { lineId: 'line-1', quantity: 12 },
+        { lineId: 'line-2', quantity: 3 },
+      ]);
+
+      expect(plan.lines[0].variance).toBe(2);
+      expect(describeVariance(plan.lines[0])).toBe('Over-delivered by 2 (ordered 10, received 12)');
+      expect(describeVariance(plan.lines[1])).toBeNull();
+    });
+
+    it('closes short when requested', () => {
+      const plan = planReceipt(lines, [{ lineId: 'line-1', quantity: 8 }], true);
+
+      expect(plan.nextStatus).toBe('RECEIVED');
+      expect(plan.isComplete).toBe(false);
+      expect(describeVariance(plan.lines[0])).toBe('2 outstanding (ordered 10, received 8)');
+    });
+
+    it('combines repeated receipt lines for the same order line', () => {
+      const plan = planReceipt(lines, [
+        { lineId: 'line-2', quantity: 1 },
+        { lineId: 'line-2', quantity: 2 },
+      ]);
+
+      expect(plan.lines).toHaveLength(1);
+      expect(plan.lines[0].quantity).toBe(3);
+      expect(plan.lines[0].quantityReceivedAfter).toBe(5);
+    });
+
+    it('rejects unknown lines and invalid quantities', () => {
+      expect(() => planReceipt(lines, [{ lineId: 'missing', quantity: 1 }])).toThrow(PurchaseOrderError);
+      expect(() => planReceipt(lines, [{ lineId: 'line-1', quantity: 0 }])).toThrow(PurchaseOrderError);
+      expect(() => planReceipt(lines, [{ lineId: 'line-1', quantity: 1.5 }])).toThrow(PurchaseOrderError);
+      expect(() => planReceipt(lines, [])).toThrow(PurchaseOrderError);
+    });
+  });
+
+  describe('variants', () => {
+    const products = [
+      { id: 'product-1', name: 'Plain Mug', variants: [] },
+      { id: 'product-2', name: 'T-Shirt', variants: [{ id: 'variant-m' }, { id: 'variant-l' }] },
+    ];
+
+    it('needs a variant exactly for products that have them', () => {
+      expect(() => assertLineVariants([
+        { productId: 'product-1' },
+        { productId: 'product-2', variantId: 'variant-l' },
+      ], products)).not.toThrow();
+      expect(() => assertLineVariants([{ productId: 'product-2' }], products))
+        .toThrow('Choose which variant of T-Shirt is being ordered');
+      expect(() => assertLineVariants([{ productId: 'product-2', variantId: 'variant-xl' }], products))
+        .toThrow(PurchaseOrderError);
+      expect(() => assertLineVariants([{ productId: 'product-1', variantId: 'variant-m' }], products))
+        .toThrow('Variant variant-m not found for product Plain Mug');
+    });
+
+    it('carries the variant of each line into the receipt', () => {
+      const plan = planReceipt(
+        [{ id: 'line-1', productId: 'product-2', variantId: 'variant-m', quantityOrdered: 6, quantityReceived: 0 }],
+        [{ lineId: 'line-1', quantity: 6 }]
+      );
+
+      expect(plan.lines[0].variantId).toBe('variant-m');
+    });
+  });
+});
+
+describe('Receiving a purchase order', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.purchaseOrder.findFirst as jest.Mock<any>).mockResolvedValue({
+      id: 'po-1',
+      poNumber: 'PO-000001',
+      status: 'SENT',
+      lines: [
+        { id: 'line-1', productId: 'product-2', variantId: 'variant-m', quantityOrdered: 6, quantityReceived: 0 },
+        { id: 'line-2', productId: 'product-1', variantId: null, quantityOrdered: 4, quantityReceived: 0 },
+      ],
+    });
+    (prisma.purchaseOrder.update as jest.Mock<any>).mockResolvedValue({ id: 'po-1', lines: [] });
+    (prisma.purchaseOrderLine.updateMany as jest.Mock<any>).mockResolvedValue({ count: 1 });
+    (prisma.productVariant.findMany as jest.Mock<any>).mockResolvedValue([{ stockQuantity: 8 }, { stockQuantity: 3 }]);
+  });
+
+  it('checks the receipt lines before touching stock', async () => {
+    const response = await receivePurchaseOrder(new Request('http://localhost/api/purchase-orders/po-1/receive', {
+      method: 'POST',
+      body: JSON.stringify({ lines: [{ lineId: 'line-1', quantity: 1.5 }] }),
+    }), { params: { orderId: 'po-1' } });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).issues).toEqual([expect.objectContaining({ path: 'lines.0.quantity' })]);
+    expect(prisma.purchaseOrderLine.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('adds received units to the variant and keeps the product total in step', async () => {
+    const response = await receivePurchaseOrder(new Request('http://localhost/api/purchase-orders/po-1/receive', {
+      method: 'POST',
+      body: JSON.stringify({ lines: [{ lineId: 'line-1', quantity: 6 }, { lineId: 'line-2', quantity: 4 }] }),
+    }), { params: { orderId: 'po-1' } });
+
+    expect(response.status).toBe(200);
+    expect(prisma.purchaseOrderLine.updateMany).toHaveBeenCalledWith({
+      where: { id: 'line-1', quantityReceived: 0 },
+      data: { quantityReceived: { increment: 6 } },
+    });
+    expect(prisma.productVariant.update).toHaveBeenCalledWith({
+      where: { id: 'variant-m' },
+      data: { stockQuantity: { increment: 6 } },
+    });
+    expect(prisma.product.update).toHaveBeenCalledWith({ where: { id: 'product-2' }, data: { stockQuantity: 11 } });
+    expect(prisma.product.update).toHaveBeenCalledWith({
+      where: { id: 'product-1' },
+      data: { stockQuantity: { increment: 4 } },
+    });
+    expect(prisma.inventoryChange.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ productId: 'product-2', variantId: 'variant-m', quantity: 6 }),
+    });
+  });
+
+  it('refuses the receipt when goods were received against the line in between', async () => {
+    (prisma.purchaseOrderLine.updateMany as jest.Mock<any>).mockResolvedValue({ count: 0 });
+
+    const response = await receivePurchaseOrder(new Request('http://localhost/api/purchase-orders/po-1/receive', {
+      method: 'POST',
+      body: JSON.stringify({ lines: [{ lineId: 'line-2', quantity: 4 }] }),
+    }), { params: { orderId: 'po-1' } });
+
+    expect(response.status).toBe(409);
+    expect(prisma.product.update).not.toHaveBeenCalled();
+    expect(prisma.purchaseOrder.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('Creating a purchase order', () => {
+  const create = () => createPurchaseOrder(new Request('http://localhost/api/purchase-orders', {
+    method: 'POST',
+    body: JSON.stringify({ supplierId: 'supplier-1', lines: [{ productId: 'product-1', quantity: 5 }] }),
+  }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.supplier.findFirst as jest.Mock<any>).mockResolvedValue({ id: 'supplier-1', name: 'Acme' });
+    (prisma.product.findMany as jest.Mock<any>).mockResolvedValue([{ id: 'product-1', name: 'Mug', variants: [] }]);
+  });
+
+  it('takes the next number again when another order took it first', async () => {
+    (prisma.purchaseOrder.findMany as jest.Mock<any>)
+      .mockResolvedValueOnce([{ poNumber: 'PO-000007' }])
+      .mockResolvedValueOnce([{ poNumber: 'PO-000007' }, { poNumber: 'PO-000008' }]);
+    (prisma.purchaseOrder.create as jest.Mock<any>)
+      .mockRejectedValueOnce(new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' }))
+      .mockImplementation(({ data }: any) => Promise.resolve({ id: 'po-9', ...data }));
+
+    const response = await create();
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).poNumber).toBe('PO-000009');
+    expect(prisma.purchaseOrder.create).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  agingBucket,
+  balanceDue,
+  buildAgingReport,
+  dueDateOf,
+  loadAgingReport,
+  planPayment,
+  ReceivableSale,
+  sendOverdueReminders,
+  statusForPaidAmount,
+} from '@/lib/receivables';
+import { notificationChannels } from '@/lib/notifications';
+
+const now = new Date('2024-06-30T12:00:00Z');
+
+function sale(overrides: Partial<ReceivableSale> = {}): ReceivableSale {
+  return {
+    id: 'sale-1',
+    date: new Date('2024-06-10T09:00:00Z'),
+    totalAmount: 100,
+    refundedAmount: 0,
+    paymentStatus: 'PENDING',
+    payments: [],
+    invoice: { number: 42, dueDate: new Date('2024-07-10T09:00:00Z') },
+    ...overrides,
+  };
+}
+
+describe('Payments against a sale', () => {
+  it('leaves a sale partly paid until its payments add up to the total', () => {
+    const first = planPayment(sale(), 40);
+    expect(first).toEqual({ paidAmountAfter: 40, balanceAfter: 60, nextStatus: 'PARTIALLY_PAID' });
+
+    const last = planPayment(sale({ paymentStatus: 'PARTIALLY_PAID', payments: [{ amount: 40 }, { amount: 25.5 }] }), 34.5);
+    expect(last).toEqual({ paidAmountAfter: 100, balanceAfter: 0, nextStatus: 'PAID' });
+  });
+
+  it('refuses more than is owed and sales that are not waiting for payment', () => {
+    expect(() => planPayment(sale({ payments: [{ amount: 70 }] }), 30.01))
+      .toThrow('Payment of 30.01 is more than the 30.00 still owed');
+    expect(() => planPayment(sale({ paymentStatus: 'COMPLETED' }), 10))
+      .toThrow('Cannot record a payment against a sale that is COMPLETED');
+    expect(() => planPayment(sale(), 0)).toThrow('greater than 0');
+    expect(() => planPayment(sale({ gatewayPaymentId: 'pi_123' }), 10)).toThrow('being paid by card online');
+  });
+
+  it('works out the balance after payments and refunds, to the cent', () => {
+    expect(balanceDue(sale({ payments: [{ amount: 0.1 }, { amount: 0.2 }], totalAmount: 0.3 }))).toBe(0);
+    expect(balanceDue(sale({ refundedAmount: 20, payments: [{ amount: 30 }] }))).toBe(50);
+  });
+
+  it('goes back to pending when the only payment is removed', () => {
+    expect(statusForPaidAmount({ totalAmount: 100, refundedAmount: 0 }, 0)).toBe('PENDING');
+    expect(statusForPaidAmount({ totalAmount: 100, refundedAmount: 0 }, 60)).toBe('PARTIALLY_PAID');
+    expect(statusForPaidAmount({ totalAmount: 100, refundedAmount: 0 }, 100)).toBe('PAID');
+  });
+});
+
+describe('Aging report', () => {
+  it('puts each sale in a bucket by its age in days', () => {
+    expect([0, 30, 31, 60, 61, 90, 91, 400].map(agingBucket))
+      .toEqual(['0-30', '0-30', '31-60', '31-60', '61-90', '61-90', '90+', '90+']);
+  });
+
+  it('falls back to the usual payment terms without an invoice due date', () => {
+    expect(dueDateOf(sale({ invoice: null }))).toEqual(new Date('2024-07-10T09:00:00Z'));
+  });
+
+  it('totals the balances owed, overall, overdue and per bucket', () => {
+    const report = buildAgingReport([
+      sale(),
+      sale({
+        id: 'sale-2',
+        date: new Date('2024-04-20T09:00:00Z'),
+        paymentStatus: 'PARTIALLY_PAID',
+        payments: [{ amount: 25 }],
+        invoice: { number: 7, dueDate: new Date('2024-05-20T09:00:00Z') },
+      }),
+      sale({ id: 'sale-3', date: new Date('2024-01-02T09:00:00Z'), invoice: null }),
+    ], now);
+
+    expect(report.totalOutstanding).toBe(275);
+    expect(report.totalOverdue).toBe(175);
+    expect(report.buckets).toEqual([
+      { label: '0-30', count: 1, amount: 100 },
+      { label: '31-60', count: 0, amount: 0 },
+      { label: '61-90', count: 1, amount: 75 },
+      { label: '90+', count: 1, amount: 100 },
+    ]);
+    expect(report.sales.map(s => [s.saleId, s.invoiceNumber, s.daysOld, s.daysOverdue])).toEqual([
+      ['sale-3', null, 180, 150],
+      ['sale-2', 'INV-00007', 71, 41],
+      ['sale-1', 'INV-00042', 20, 0],
+    ]);
+  });
+
+  it("reads the business's open sales", async () => {
+    const client = { sale: { findMany: jest.fn<any>().mockResolvedValue([sale()]) } };
+
+    const report = await loadAgingReport(client as typeof client & PrismaClient, 'owner-1', now);
+
+    expect(client.sale.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'owner-1', paymentStatus: { in: ['PENDING', 'PARTIALLY_PAID'] }, gatewayPaymentId: null },
+    }));
+    expect(report.totalOutstanding).toBe(100);
+  });
+});
+
+describe('Overdue reminders', () => {
+  it('notifies the business about overdue sales and remembers when', async () => {
+    const overdue = {
+      ...sale({ id: 'sale-2', invoice: { number: 7, dueDate: new Date('2024-06-20T09:00:00Z') } }),
+      userId: 'owner-1',
+      customer: { id: 'c1', name: 'Ada Lovelace', email: null },
+    };
+    const client = {
+      sale: {
+        findMany: jest.fn<any>().mockResolvedValue([{ ...sale(), userId: 'owner-1' }, overdue]),
+        update: jest.fn<any>().mockResolvedValue({}),
+      },
+      user: {
+        findMany: jest.fn<any>().mockResolvedValue([
+          { id: 'owner-1', email: null, role: 'ADMIN', permissions: [], businessId: null, notificationPreferences: null },
+        ]),
+      },
+      notification: { create: jest.fn<any>().mockResolvedValue({}) },
+    };
+
+    const reminded = await sendOverdueReminders(client as typeof client & PrismaClient, now);
+
+    expect(reminded).toBe(1);
+    expect(client.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'owner-1',
+        type: 'payment.overdue',
+        title: 'Invoice INV-00007 is 10 days overdue',
+        body: '$100.00 of $100.00 is still owed by Ada Lovelace.',
+        link: '/receivables',
+      }),
+    });
+    expect(client.sale.update).toHaveBeenCalledWith({ where: { id: 'sale-2' }, data: { overdueNotifiedAt: now } });
+  });
+
+  it('follows the payment notification preference', () => {
+    const recipient = { id: 'u1', email: 'a@example.com', role: 'SALES_REP', permissions: [], businessId: 'owner-1' };
+
+    expect(notificationChannels({ ...recipient, notificationPreferences: null }, 'payment.overdue'))
+      .toEqual({ inbox: true, email: true });
+    expect(notificationChannels({ ...recipient, notificationPreferences: { paymentNotifications: false } }, 'payment.overdue'))
+      .toEqual({ inbox: false, email: false });
+    expect(notificationChannels({ ...recipient, role: 'INVENTORY_MANAGER', notificationPreferences: null }, 'payment.overdue').inbox)
+      .toBe(false);
+  });
+});
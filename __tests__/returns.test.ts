@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import { canReturn, netSaleAmount, planReturn, ReturnError } from '@/lib/returns';
+
+describe('Sale returns', () => {
+  const sale = {
+    totalAmount: 65,
+    refundedAmount: 0,
+    paymentStatus: 'COMPLETED',
+    items: [
+      { id: 'item-1', productId: 'shirt', variantId: 'shirt-m', quantity: 2, returnedQuantity: 0, price: 20 },
+      { id: 'item-2', productId: 'cap', variantId: null, quantity: 1, returnedQuantity: 0, price: 25 },
+    ],
+  };
+
+  it('refunds part of a sale', () => {
+    const plan = planReturn(sale, [{ saleItemId: 'item-1', quantity: 1 }]);
+
+    expect(plan.refundAmount).toBe(20);
+    expect(plan.refundedAmountAfter).toBe(20);
+    expect(plan.nextStatus).toBe('PARTIALLY_REFUNDED');
+    expect(plan.lines).toEqual([
+      { saleItemId: 'item-1', productId: 'shirt', variantId: 'shirt-m', quantity: 1, refundAmount: 20 },
+    ]);
+  });
+
+  it('marks the sale refunded once every item is returned', () => {
+    const plan = planReturn(
+      { ...sale, refundedAmount: 20, paymentStatus: 'PARTIALLY_REFUNDED', items: [
+        { ...sale.items[0], returnedQuantity: 1 },
+        sale.items[1],
+      ] },
+      [
+        { saleItemId: 'item-1', quantity: 1 },
+        { saleItemId: 'item-2', quantity: 1 },
+      ]
+    );
+
+    expect(plan.refundAmount).toBe(45);
+    expect(plan.refundedAmountAfter).toBe(65);
+    expect(plan.nextStatus).toBe('REFUNDED');
+  });
+
+  it('never refunds more than the sale total', () => {
+    const discounted = { ...sale, totalAmount: 50 };
+    const plan = planReturn(discounted, [
+      { saleItemId: 'item-1', quantity: 2 },
+      { saleItemId: 'item-2', quantity: 1 },
+    ]);
+
+    expect(plan.refundAmount).toBe(50);
+    expect(plan.nextStatus).toBe('REFUNDED');
+  });
+
+  it('rejects returning more than was sold or against closed sales', () => {
+    expect(() => planReturn(sale, [{ saleItemId: 'item-1', quantity: 3 }])).toThrow(ReturnError);
+    expect(() => planReturn(sale, [
+      { saleItemId: 'item-2', quantity: 1 },
+      { saleItemId: 'item-2', quantity: 1 },
+    ])).toThrow(ReturnError);
+    expect(() => planReturn(sale, [{ saleItemId: 'missing', quantity: 1 }])).toThrow(ReturnError);
+    expect(() => planReturn({ ...sale, paymentStatus: 'REFUNDED' }, [{ saleItemId: 'item-1', quantity: 1 }])).toThrow(ReturnError);
+    expect(canReturn('PENDING')).toBe(false);
+  });
+
+  it('reports net revenue after refunds', () => {
+    expect(netSaleAmount({ totalAmount: 65, refundedAmount: 20 })).toBe(45);
+    expect(netSaleAmount({ totalAmount: 65 })).toBe(65);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { PrismaClient } from '@prisma/client';
+import {
+  calculateSaleTotals,
+  loadTaxRates,
+  NO_TAX,
+  preTaxRevenue,
+  taxRateFor,
+  taxRatesFromList,
+  totalsMatch,
+} from '@/lib/sale-totals';
+import { planReturn } from '@/lib/returns';
+import { summarizeSales } from '@/lib/api-v1';
+
+const rates = { defaultRate: 8.25, categories: { groceries: 0, alcohol: 12 } };
+
+describe('Tax rates', () => {
+  it("uses a category's own rate and falls back to the default", () => {
+    expect(taxRateFor(rates, 'Groceries ')).toBe(0);
+    expect(taxRateFor(rates, 'alcohol')).toBe(12);
+    expect(taxRateFor(rates, 'Apparel')).toBe(8.25);
+    expect(taxRateFor(rates, null)).toBe(8.25);
+  });
+
+  it('reads the rates the business has set', async () => {
+    const client = {
+      taxRate: {
+        findMany: jest.fn<any>().mockResolvedValue([
+          { category: null, rate: 8.25 },
+          { category: 'Groceries', rate: 0 },
+        ]),
+      },
+    };
+
+    const loaded = await loadTaxRates(client as typeof client & PrismaClient, 'owner-1');
+
+    expect(client.taxRate.findMany).toHaveBeenCalledWith({ where: { userId: 'owner-1' } });
+    expect(loaded).toEqual({ defaultRate: 8.25, categories: { groceries: 0 } });
+    expect(taxRatesFromList({ defaultRate: 8.25, categories: [{ category: 'Groceries', rate: 0 }] })).toEqual(loaded);
+    expect(await loadTaxRates({ taxRate: { findMany: async () => [] } } as unknown as PrismaClient, 'owner-1')).toEqual(NO_TAX);
+  });
+});
+
+describe('Sale totals', () => {
+  it('charges each line tax at its category rate', () => {
+    const totals = calculateSaleTotals([
+      { price: 19.99, quantity: 3, category: 'Apparel' },
+      { price: 4.5, quantity: 2, category: 'Groceries' },
+    ], rates);
+
+    expect(totals.lines.map(line => [line.subtotal, line.taxRate, line.taxAmount, line.total])).toEqual([
+      [59.97, 8.25, 4.95, 64.92],
+      [9, 0, 0, 9],
+    ]);
+    expect(totals).toEqual(expect.objectContaining({ subtotal: 68.97, discountAmount: 0, taxAmount: 4.95, totalAmount: 73.92 }));
+  });
+
+  it('takes line discounts off before tax', () => {
+    const totals = calculateSaleTotals([
+      { price: 10, quantity: 4, discount: { type: 'PERCENTAGE', value: 25 } },
+      { price: 10, quantity: 1, discount: { type: 'FIXED', value: 15 } },
+      // Buy 2 get 1 free: 7 units pay for 5
+      { price: 3, quantity: 7, discount: { type: 'BUY_X_GET_Y', buy: 2, get: 1 } },
+    ], { defaultRate: 10, categories: {} });
+
+    expect(totals.lines.map(line => line.discountAmount)).toEqual([10, 10, 6]);
+    expect(totals.lines.map(line => line.taxAmount)).toEqual([3, 0, 1.5]);
+    expect(totals).toEqual(expect.objectContaining({ subtotal: 71, discountAmount: 26, taxAmount: 4.5, totalAmount: 49.5 }));
+  });
+
+  it('shares the order discount across the lines to the cent', () => {
+    const totals = calculateSaleTotals([
+      { price: 1, quantity: 1 },
+      { price: 1, quantity: 1 },
+      { price: 1, quantity: 1, category: 'Groceries' },
+    ], rates, { type: 'FIXED', value: 1 });
+
+    expect(totals.lines.map(line => line.discountAmount)).toEqual([0.34, 0.33, 0.33]);
+    expect(totals.discountAmount).toBe(1);
+    expect(totals.totalAmount).toBe(2.11);
+
+    const percent = calculateSaleTotals([{ price: 80, quantity: 1 }], NO_TAX, { type: 'PERCENTAGE', value: 12.5 });
+    expect(percent.totalAmount).toBe(70);
+  });
+
+  it('never discounts below zero', () => {
+    const totals = calculateSaleTotals([
+      { price: 5, quantity: 1, discount: { type: 'FIXED', value: 20 } },
+      { price: 5, quantity: 1 },
+    ], rates, { type: 'FIXED', value: 100 });
+
+    expect(totals).toEqual(expect.objectContaining({ subtotal: 10, discountAmount: 10, taxAmount: 0, totalAmount: 0 }));
+  });
+
+  it('matches a submitted total to the cent', () => {
+    const totals = calculateSaleTotals([{ price: 0.1, quantity: 3 }], NO_TAX);
+
+    expect(totalsMatch(0.3, totals)).toBe(true);
+    expect(totalsMatch(0.30000000000000004, totals)).toBe(true);
+    expect(totalsMatch(0.31, totals)).toBe(false);
+  });
+});
+
+describe('Revenue before tax', () => {
+  it('takes the tax out of sales and refunds alike', () => {
+    expect(preTaxRevenue({ totalAmount: 108, taxAmount: 8, refundedAmount: 0 })).toBe(100);
+    expect(preTaxRevenue({ totalAmount: 108, taxAmount: 8, refundedAmount: 54 })).toBe(50);
+    expect(preTaxRevenue({ totalAmount: 30, refundedAmount: 10 })).toBe(20);
+  });
+
+  it('is part of the analytics summary', () => {
+    const summary = summarizeSales([
+      { totalAmount: 108, refundedAmount: 0, taxAmount: 8, items: [] },
+      { totalAmount: 20, refundedAmount: 0, taxAmount: 0, items: [] },
+    ]);
+
+    expect(summary).toEqual(expect.objectContaining({ netRevenue: 128, tax: 8, preTaxRevenue: 120 }));
+  });
+});
+
+describe('Returns of discounted and taxed items', () => {
+  it('refunds what was paid for each unit', () => {
+    const plan = planReturn({
+      totalAmount: 39.6,
+      refundedAmount: 0,
+      paymentStatus: 'PAID',
+      items: [
+        // Two at 20 with 4 off the line, and 10% tax on the rest
+        { id: 'i1', productId: 'p1', quantity: 2, returnedQuantity: 0, price: 20, discountAmount: 4, taxAmount: 3.6 },
+      ],
+    }, [{ saleItemId: 'i1', quantity: 1 }]);
+
+    expect(plan.refundAmount).toBe(19.8);
+    expect(plan.nextStatus).toBe('PARTIALLY_REFUNDED');
+  });
+});
@@ -0,0 +1,271 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  classifyRows,
+  planProducts,
+  rowFingerprint,
+  runSalesHistoryImport,
+  validateSalesHistoryRows,
+} from '@/lib/sales-history-import';
+
+describe('Sales history import', () => {
+  const session = { user: { id: 'employee-1', ownerId: 'owner-1' } };
+
+  const rows = [
+    { date: '2024-03-01', productName: 'Mug', quantity: 2, unitPrice: 10, totalAmount: 20 },
+    { date: '2024-03-01', productName: 'MUG', quantity: 1, unitPrice: 12, totalAmount: 12 },
+    { date: '2024-03-02', productId: 'MUG-BLUE', productName: 'Blue Mug', quantity: 1, unitPrice: 12, totalAmount: 12 },
+    { date: '2024-03-02', productName: 'Tote Bag', quantity: 3, unitPrice: 5, totalAmount: 15 },
+    { date: '2024-03-02', productName: '', quantity: 1, unitPrice: 5, totalAmount: 5 },
+  ];
+
+  describe('fingerprints', () => {
+    const item = { date: '2024-03-01', productName: 'Mug', quantity: 2, unitPrice: 10, totalAmount: 20 };
+
+    it('are stable across imports and scoped to the business', () => {
+      expect(rowFingerprint('owner-1', item, '2024-03-01')).toBe(rowFingerprint('owner-1', { ...item }, '2024-03-01'));
+      expect(rowFingerprint('owner-1', item, '2024-03-01')).not.toBe(rowFingerprint('owner-2', item, '2024-03-01'));
+      expect(rowFingerprint('owner-1', item, '2024-03-01')).not.toBe(rowFingerprint('owner-1', { ...item, quantity: 3 }, '2024-03-01'));
+    });
+
+    it('identify order lines by order and product when there is an external order id', () => {
+      const line = { ...item, externalOrderId: '#1001' };
+
+      expect(rowFingerprint('owner-1', line, '2024-03-01')).toBe(rowFingerprint('owner-1', { ...line, quantity: 5 }, '2024-03-02'));
+    });
+
+    it('keep repeated identical rows in one file apart', () => {
+      const { valid } = validateSalesHistoryRows([item, item], 'owner-1');
+
+      expect(valid[0].fingerprint).not.toBe(valid[1].fingerprint);
+      expect(validateSalesHistoryRows([item, item], 'owner-1').valid[1].fingerprint).toBe(valid[1].fingerprint);
+    });
+  });
+
+  describe('classifyRows', () => {
+    it('splits rows into new, duplicate and conflicting', () => {
+      const { valid } = validateSalesHistoryRows([
+        { date: '2024-03-01', productName: 'Mug', quantity: 2, unitPrice: 10, totalAmount: 20, externalOrderId: '1' },
+        { date: '2024-03-01', productName: 'Mug', quantity: 4, unitPrice: 10, totalAmount: 40, externalOrderId: '2' },
+        { date: '2024-03-01', productName: 'Mug', quantity: 1, unitPrice: 10, totalAmount: 10, externalOrderId: '3' },
+      ], 'owner-1');
+      const imported = [
+        { id: 'line-1', saleId: 'sale-1', importFingerprint: valid[0].fingerprint, quantity: 2, price: 10 },
+        { id: 'line-2', saleId: 'sale-1', importFingerprint: valid[1].fingerprint, quantity: 3, price: 10 },
+      ];
+
+      const { newRows, duplicates, conflicts } = classifyRows(valid, imported);
+
+      expect(newRows.map(row => row.row)).toEqual([3]);
+      expect(duplicates.map(row => row.row)).toEqual([1]);
+      expect(conflicts).toEqual([{ row: valid[1], existing: imported[1] }]);
+    });
+  });
+
+  describe('planProducts', () => {
+    const { valid } = validateSalesHistoryRows(rows, 'owner-1');
+    const catalog = {
+      products: [{ id: 'mug-id', sku: 'MUG', name: 'Mug', sellingPrice: 10 }],
+      variants: [{ id: 'variant-blue', sku: 'MUG-BLUE', productId: 'mug-id' }],
+    };
+
+    it('groups rows by name and keeps the highest price', () => {
+      const mug = planProducts(valid, catalog).find(plan => plan.key === 'mug');
+
+      expect(mug).toMatchObject({
+        action: 'update',
+        productId: 'mug-id',
+        rows: [1, 2],
+        changes: { sellingPrice: { before: 10, after: 12 } },
+      });
+    });
+
+    it('matches a productId column against variant SKUs first', () => {
+      const blue = planProducts(valid, catalog).find(plan => plan.key === 'blue mug');
+
+      expect(blue).toMatchObject({ action: 'match', productId: 'mug-id', variantId: 'variant-blue', changes: null });
+    });
+
+    it('matches a productId column against product SKUs and lets it rename the product', () => {
+      const { valid: renamed } = validateSalesHistoryRows([
+        { date: '2024-03-01', productId: 'MUG', productName: 'Stoneware Mug', quantity: 1, unitPrice: 10, totalAmount: 10 },
+      ], 'owner-1');
+
+      expect(planProducts(renamed, catalog)).toEqual([expect.objectContaining({
+        action: 'update',
+        productId: 'mug-id',
+        changes: { name: { before: 'Mug', after: 'Stoneware Mug' } },
+      })]);
+    });
+
+    it('creates products that are not in the catalog', () => {
+      const tote = planProducts(valid, catalog).find(plan => plan.key === 'tote bag');
+
+      expect(tote).toMatchObject({ action: 'create', productId: null, rows: [4] });
+    });
+  });
+
+  describe('runSalesHistoryImport', () => {
+    function mockClient(claimed = 1, onConflict = 'skip') {
+      const tx = {
+        sale: {
+          create: jest.fn<(args: any) => Promise<any>>().mockImplementation(async ({ data }) => ({ id: `sale-${data.date.toISOString()}`, ...data })),
+          findUniqueOrThrow: jest.fn<(args: any) => Promise<any>>().mockResolvedValue({ id: 'old-sale', totalAmount: 50 }),
+          update: jest.fn<(args: any) => Promise<any>>().mockImplementation(async ({ data }) => ({ id: 'old-sale', ...data })),
+        },
+        saleItem: {
+          createMany: jest.fn<(args: any) => Promise<any>>().mockResolvedValue({ count: 1 }),
+          update: jest.fn<(args: any) => Promise<any>>().mockResolvedValue({}),
+        },
+        inventoryChange: {
+          create: jest.fn<(args: any) => Promise<any>>().mockResolvedValue({}),
+          createMany: jest.fn<(args: any) => Promise<any>>().mockResolvedValue({ count: 1 }),
+        },
+      };
+      const client = {
+        importJob: {
+          updateMany: jest.fn<(args: any) => Promise<any>>().mockResolvedValue({ count: claimed }),
+          findUniqueOrThrow: jest.fn<(args: any) => Promise<any>>().mockResolvedValue({ id: 'job-1', rows, onConflict }),
+          update: jest.fn<(args: any) => Promise<any>>().mockResolvedValue({}),
+        },
+        saleItem: {
+          findMany: jest.fn<(args: any) => Promise<any>>().mockResolvedValue([]),
+        },
+        product: {
+          findMany: jest.fn<(args: any) => Promise<any>>().mockResolvedValue([{ id: 'mug-id', sku: null, name: 'Mug', sellingPrice: 12 }]),
+          create: jest.fn<(args: any) => Promise<any>>().mockImplementation(async ({ data }) => ({ id: 'tote-id', ...data })),
+          findUnique: jest.fn(),
+          update: jest.fn(),
+        },
+        productVariant: {
+          findMany: jest.fn<(args: any) => Promise<any>>().mockResolvedValue([{ id: 'variant-blue', sku: 'MUG-BLUE', productId: 'mug-id' }]),
+        },
+        user: {
+          findMany: jest.fn<(args: any) => Promise<any>>().mockResolvedValue([
+            { id: 'employee-1', email: null, role: 'SALES_REP', permissions: [], businessId: 'owner-1', notificationPreferences: null },
+          ]),
+        },
+        notification: {
+          create: jest.fn<(args: any) => Promise<any>>().mockImplementation(async ({ data }) => ({ id: 'notification-1', ...data })),
+        },
+        $transaction: jest.fn(async (callback: (client: typeof tx) => Promise<unknown>) => callback(tx)),
+      };
+      return { client: client as any, tx };
+    }
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('writes one sale per day and records the result and row errors on the job', async () => {
+      const { client, tx } = mockClient();
+
+      await runSalesHistoryImport(client, session, 'job-1');
+
+      expect(client.importJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', businessId: 'owner-1', status: 'PENDING' },
+        data: { status: 'PROCESSING', startedAt: expect.any(Date) },
+      });
+      expect(client.product.create).toHaveBeenCalledTimes(1);
+      // The database assigns the id, and past sales say nothing about stock on hand
+      expect(client.product.create.mock.calls[0][0].data).toMatchObject({ name: 'Tote Bag', userId: 'owner-1', stockQuantity: 0 });
+      expect(client.product.create.mock.calls[0][0].data.id).toBeUndefined();
+      expect(client.product.update).not.toHaveBeenCalled();
+
+      expect(tx.sale.create).toHaveBeenCalledTimes(2);
+      expect(tx.saleItem.createMany.mock.calls[1][0].data).toEqual([
+        expect.objectContaining({ productId: 'mug-id', variantId: 'variant-blue', quantity: 1 }),
+        expect.objectContaining({ productId: 'tote-id', productName: 'Tote Bag', quantity: 3 }),
+      ]);
+
+      expect(client.importJob.update).toHaveBeenLastCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          processedRows: 5,
+          result: {
+            saleCount: 2,
+            itemCount: 4,
+            productsCreated: 1,
+            productsUpdated: 0,
+            newRows: 4,
+            duplicateRows: 0,
+            conflictRows: 0,
+            updatedRows: 0,
+          },
+          errors: [{ row: 5, reason: 'Missing product name' }],
+        }),
+      });
+      expect(client.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'import.completed',
+          body: 'Imported 4 line(s) into 2 sale(s); 1 row(s) could not be imported.',
+          userId: 'employee-1',
+        }),
+      });
+    });
+
+    it('skips rows imported before and updates conflicting ones when asked to', async () => {
+      const { client, tx } = mockClient(1, 'update');
+      const { valid } = validateSalesHistoryRows(rows, 'owner-1');
+      client.saleItem.findMany.mockResolvedValue([
+        // Rows 1 and 2 were imported before; row 4 was imported with a different quantity
+        { id: 'line-1', saleId: 'old-sale', importFingerprint: valid[0].fingerprint, quantity: 2, price: 10 },
+        { id: 'line-2', saleId: 'old-sale', importFingerprint: valid[1].fingerprint, quantity: 1, price: 12 },
+        { id: 'line-4', saleId: 'old-sale', importFingerprint: valid[3].fingerprint, quantity: 1, price: 5 },
+      ]);
+
+      await runSalesHistoryImport(client, session, 'job-1');
+
+      // Only row 3 is new
+      expect(tx.sale.create).toHaveBeenCalledTimes(1);
+      expect(tx.saleItem.createMany.mock.calls[0][0].data).toEqual([
+        expect.objectContaining({ productName: 'Blue Mug', importFingerprint: valid[2].fingerprint }),
+      ]);
+
+      expect(tx.saleItem.update).toHaveBeenCalledWith({ where: { id: 'line-4' }, data: { quantity: 3, price: 5 } });
+      expect(tx.sale.update).toHaveBeenCalledWith({ where: { id: 'old-sale' }, data: { totalAmount: 50 - 5 + 15 } });
+      expect(tx.inventoryChange.create.mock.calls[0][0].data).toMatchObject({ type: 'remove', quantity: 2 });
+
+      expect(client.importJob.update.mock.calls.at(-1)[0].data.result).toMatchObject({
+        newRows: 1,
+        duplicateRows: 2,
+        conflictRows: 1,
+        updatedRows: 1,
+      });
+    });
+
+    it('marks the job failed when the import cannot run', async () => {
+      const { client } = mockClient();
+      client.product.findMany.mockRejectedValue(new Error('Connection lost'));
+
+      await runSalesHistoryImport(client, session, 'job-1');
+
+      expect(client.importJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'FAILED', failureReason: 'Connection lost' }),
+      });
+    });
+
+    it('does not reject when the job cannot be claimed', async () => {
+      const { client } = mockClient();
+      client.importJob.updateMany.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(runSalesHistoryImport(client, session, 'job-1')).resolves.toBeUndefined();
+
+      expect(client.importJob.findUniqueOrThrow).not.toHaveBeenCalled();
+      expect(client.importJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'FAILED', failureReason: 'Connection lost' }),
+      });
+    });
+
+    it('does nothing when the job was already started', async () => {
+      const { client } = mockClient(0);
+
+      await runSalesHistoryImport(client, session, 'job-1');
+
+      expect(client.importJob.findUniqueOrThrow).not.toHaveBeenCalled();
+      expect(client.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
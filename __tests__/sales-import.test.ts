@@ -11,6 +11,10 @@ jest.mock('@/app/api/auth/[...nextauth]/auth-options', () => ({
   authOptions: {}
 }));
 
+jest.mock('@/lib/auth', () => ({
+  authOptions: {}
+}));
+
 jest.mock('@/lib/prisma', () => {
   return {
     __esModule: true,
@@ -19,52 +23,27 @@ jest.mock('@/lib/prisma', () => {
         findUnique: jest.fn()
       },
       product: {
-        findUnique: jest.fn(),
-        findFirst: jest.fn(),
-        create: jest.fn(),
-        update: jest.fn()
+        findMany: jest.fn()
       },
-      sale: {
-        create: jest.fn(),
-        findUnique: jest.fn(),
-        findMany: jest.fn(),
-        delete: jest.fn()
+      productVariant: {
+        findMany: jest.fn()
       },
       saleItem: {
-        create: jest.fn(),
         findMany: jest.fn()
       },
-      inventoryChange: {
+      importJob: {
         create: jest.fn()
-      },
-      $transaction: jest.fn(async (callback) => await callback({
-        sale: {
-          create: jest.fn().mockImplementation((data) => ({
-            id: 'mock-sale-id',
-            ...data.data
-          })),
-          findUnique: jest.fn().mockResolvedValue({
-            id: 'mock-sale-id',
-            items: []
-          })
-        },
-        saleItem: {
-          create: jest.fn().mockResolvedValue({
-            id: 'mock-sale-item-id',
-            productId: 'test-product-id',
-            saleId: 'mock-sale-id'
-          })
-        },
-        inventoryChange: {
-          create: jest.fn().mockResolvedValue({
-            id: 'mock-inventory-change-id'
-          })
-        }
-      }))
+      }
     }
   };
 });
 
+// The import itself runs after the response is sent; it is covered in sales-history-import.test.ts
+jest.mock('@/lib/sales-history-import', () => ({
+  ...(jest.requireActual('@/lib/sales-history-import') as object),
+  runSalesHistoryImport: jest.fn()
+}));
+
 // Mock getServerSession
 import { getServerSession } from 'next-auth';
 // Mock NextResponse
@@ -72,6 +51,7 @@ import { NextResponse } from 'next/server';
 
 // Import prisma client
 import prisma from '@/lib/prisma';
+import { runSalesHistoryImport } from '@/lib/sales-history-import';
 
 describe('Sales History Import API', () => {
   // Sample test data
@@ -125,69 +105,28 @@ describe('Sales History Import API', () => {
     // Mock user find
     (prisma.user.findUnique as jest.Mock).mockResolvedValue(testUser);
     
-    // Setup product finding behavior
-    (prisma.product.findFirst as jest.Mock).mockImplementation(({ where }) => {
-      // Return a mock product only for "Existing Product"
-      if (where.name.equals === 'Existing Product' || where.name.equals === 'existing product') {
-        return Promise.resolve({
-          id: 'existing-product-id',
-          name: 'Existing Product',
-          sellingPrice: 10.99,
-          userId: testUser.id
-        });
-      }
-      return Promise.resolve(null);
-    });
-    
-    // Setup product finding by ID
-    (prisma.product.findUnique as jest.Mock).mockImplementation(({ where }) => {
-      if (where.id === 'specific-product-id') {
-        return Promise.resolve({
-          id: 'specific-product-id',
-          name: 'Old Product Name',
-          sellingPrice: 19.99,
-          userId: testUser.id
-        });
-      }
-      return Promise.resolve(null);
-    });
-    
-    // Setup product update behavior
-    (prisma.product.update as jest.Mock).mockImplementation(({ where, data }) => {
-      return Promise.resolve({
-        id: where.id,
-        ...data,
-        userId: testUser.id
-      });
-    });
-    
-    // Setup product create behavior
-    (prisma.product.create as jest.Mock).mockImplementation(({ data }) => {
-      if (data.name === 'New Product' && data.id.includes('prod-')) {
-        return Promise.resolve({
-          id: data.id,
-          ...data
-        });
-      }
-      return Promise.resolve({
-        id: `new-product-${data.name.toLowerCase().replace(/\s+/g, '-')}`,
-        ...data
-      });
-    });
-    
-    // Setup sale find behavior for verification
-    (prisma.saleItem.findMany as jest.Mock).mockResolvedValue([
+    // Existing Product matches by name, Product With ID by its id
+    (prisma.product.findMany as jest.Mock<any>).mockResolvedValue([
       {
-        id: 'mock-sale-item-id-1',
-        productId: 'existing-product-id',
-        product: { name: 'Existing Product' }
+        id: 'existing-product-id',
+        name: 'Existing Product',
+        sellingPrice: 10.99
       },
       {
-        id: 'mock-sale-item-id-2',
-        productId: 'prod-new-product-123',
-        product: { name: 'New Product' }
+        id: 'specific-product-id',
+        name: 'Old Product Name',
+        sellingPrice: 19.99
       }
     ]);
+    (prisma.productVariant.findMany as jest.Mock<any>).mockResolvedValue([]);
+    (prisma.saleItem.findMany as jest.Mock<any>).mockResolvedValue([]);
+
+    (prisma.importJob.create as jest.Mock<any>).mockImplementation(({ data }: any) => {
+      return Promise.resolve({
+        id: 'import-job-id',
+        ...data
+      });
+    });
   });
 
   it('should handle authentication failure', async () => {
@@ -235,109 +174,112 @@ describe('Sales History Import API', () => {
     expect(responseData.error).toBe('No sales history data provided');
   });
 
-  it('should successfully process sales with new and existing products', async () => {
+  it('should preview new and updated products on a dry run without importing', async () => {
     const request = new NextRequest('http://localhost/api/sales-history/import', {
       method: 'POST',
-      body: JSON.stringify({ salesHistory: testSalesData })
+      body: JSON.stringify({ salesHistory: testSalesData, dryRun: true })
     });
     
     const response = await POST(request);
     expect(response.status).toBe(200);
     
     const responseData = await response.json();
-    expect(responseData.success).toBe(true);
-    
-    // Product creation and updates still happen, but we don't care about the count
-    // since our implementation continues on errors
-    expect(prisma.product.create).toHaveBeenCalledWith(
-      expect.objectContaining({
-        data: expect.objectContaining({
-          name: 'New Product',
-          sellingPrice: 15.99,
-          userId: testUser.id
-        })
-      })
-    );
-    
-    // Check product update for price change
-    expect(prisma.product.update).toHaveBeenCalledWith(
-      expect.objectContaining({
-        where: { id: 'existing-product-id' },
-        data: expect.objectContaining({
-          sellingPrice: 11.99
-        })
-      })
-    );
-    
-    // Check product update for product with ID (both name and price)
-    expect(prisma.product.update).toHaveBeenCalledWith(
-      expect.objectContaining({
-        where: { id: 'specific-product-id' },
-        data: expect.objectContaining({
+    expect(responseData.jobId).toBe('import-job-id');
+    expect(responseData.status).toBe('PREVIEW');
+    expect(responseData.preview).toEqual({
+      totalRows: 4,
+      validRows: 4,
+      newRows: 4,
+      duplicateRows: 0,
+      conflictRows: 0,
+      salesToCreate: 2,
+      productsToCreate: [{ name: 'New Product', sellingPrice: 15.99 }],
+      productsToUpdate: [
+        {
+          productId: 'existing-product-id',
+          name: 'existing product',
+          changes: { sellingPrice: { before: 10.99, after: 11.99 } }
+        },
+        {
+          productId: 'specific-product-id',
           name: 'Product With ID',
-          sellingPrice: 25.99
-        })
-      })
-    );
-  });
-
-  it('should handle failure in product creation', async () => {
-    // Mock product creation to fail
-    (prisma.product.create as jest.Mock).mockRejectedValue(
-      new Error('Database error during product creation')
-    );
-    
-    const request = new NextRequest('http://localhost/api/sales-history/import', {
-      method: 'POST',
-      body: JSON.stringify({ salesHistory: [testSalesData[1]] }) // Only the new product
+          changes: {
+            sellingPrice: { before: 19.99, after: 25.99 },
+            name: { before: 'Old Product Name', after: 'Product With ID' }
+          }
+        }
+      ],
+      errors: [],
+      conflicts: []
     });
     
-    // With our improved error handling, the import continues despite errors
-    const response = await POST(request);
-    expect(response.status).toBe(200);
-    
-    const responseData = await response.json();
-    expect(responseData.success).toBe(true);
-    expect(responseData.errors).toBeDefined();
+    // The preview is kept so it can be committed later, but nothing is imported yet
+    expect(prisma.importJob.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'salesHistory',
+        status: 'PREVIEW',
+        totalRows: 4,
+        businessId: testUser.id
+      })
+    });
+    expect(runSalesHistoryImport).not.toHaveBeenCalled();
   });
 
-  it('should handle missing product name', async () => {
+  it('should report invalid rows by row number instead of rejecting the file', async () => {
     const invalidData = [
+      testSalesData[0],
       {
         date: '2023-05-01',
         // Missing productName
         quantity: 2,
         unitPrice: 10.99,
         totalAmount: 21.98
+      },
+      {
+        date: 'not a date',
+        productName: 'New Product',
+        quantity: 0,
+        unitPrice: 15.99,
+        totalAmount: 0
       }
     ];
     
     const request = new NextRequest('http://localhost/api/sales-history/import', {
       method: 'POST',
-      body: JSON.stringify({ salesHistory: invalidData })
+      body: JSON.stringify({ salesHistory: invalidData, dryRun: true })
     });
     
     const response = await POST(request);
-    expect(response.status).toBe(400);
-    expect(await response.json()).toHaveProperty('error', 'Invalid sales history data');
+    expect(response.status).toBe(200);
+    
+    const { preview } = await response.json();
+    expect(preview.validRows).toBe(1);
+    expect(preview.errors).toEqual([
+      { row: 2, reason: 'Missing product name' },
+      { row: 3, reason: 'Invalid date "not a date"; Quantity must be a whole number greater than zero' }
+    ]);
   });
 
-  it('should handle duplicates in sales history', async () => {
-    const duplicateData = [
-      ...testSalesData,
-      testSalesData[0] // Duplicate the first item
-    ];
-    
+  it('should start the import in the background without a dry run', async () => {
     const request = new NextRequest('http://localhost/api/sales-history/import', {
       method: 'POST',
-      body: JSON.stringify({ salesHistory: duplicateData })
+      body: JSON.stringify({ salesHistory: testSalesData })
     });
     
     const response = await POST(request);
-    expect(response.status).toBe(200);
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({
+      jobId: 'import-job-id',
+      status: 'PENDING',
+      totalRows: 4
+    });
     
-    // Should still process successfully but only create/update each unique product once
-    const responseData = await response.json();
-    expect(responseData.success).toBe(true);
+    expect(runSalesHistoryImport).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({ user: expect.objectContaining({ ownerId: testUser.id }) }),
+      'import-job-id'
+    );
+    // Product matching happens in the job, not in the request
+    expect(prisma.product.findMany).not.toHaveBeenCalled();
   });
-}); 
\ No newline at end of file
+});
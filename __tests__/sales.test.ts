@@ -0,0 +1,272 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { POST as createSale } from '@/app/api/sales/route';
+import { PUT as updateSale } from '@/app/api/sales/[saleId]/route';
+import { POST as recordPayment } from '@/app/api/sales/[saleId]/payments/route';
+import { ReplenishmentCalculator } from '@/lib/analytics/replenishment';
+
+jest.mock('@/lib/authorize', () => ({
+  requirePermission: jest.fn<any>().mockResolvedValue({ user: { id: 'user-1', name: 'Sam', ownerId: 'owner-1' } }),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  recordAudit: jest.fn(),
+}));
+
+jest.mock('@/lib/webhooks', () => ({
+  emitWebhookEvent: jest.fn(),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  notify: jest.fn(),
+  stockNotification: jest.fn(() => null),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    product: { findFirst: jest.fn(), findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    productVariant: { findFirst: jest.fn(), update: jest.fn(), updateMany: jest.fn(), findMany: jest.fn() },
+    taxRate: { findMany: jest.fn() },
+    $transaction: jest.fn(),
+    sale: { create: jest.fn(), findUnique: jest.fn(), findFirst: jest.fn(), findUniqueOrThrow: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    payment: { create: jest.fn() },
+    inventoryChange: { create: jest.fn() },
+  },
+}));
+
+import prisma from '@/lib/prisma';
+
+const mug = { id: 'mug', userId: 'owner-1', name: 'Mug', category: null, sellingPrice: 12, stockQuantity: 10 };
+
+const post = (body: object) => createSale(new Request('http://localhost/api/sales', {
+  method: 'POST',
+  body: JSON.stringify(body),
+}));
+
+describe('POST /api/sales', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.taxRate.findMany as jest.Mock<any>).mockResolvedValue([]);
+    (prisma.$transaction as jest.Mock<any>).mockImplementation((run: any) => run(prisma));
+    (prisma.product.updateMany as jest.Mock<any>).mockResolvedValue({ count: 1 });
+    (prisma.productVariant.updateMany as jest.Mock<any>).mockResolvedValue({ count: 1 });
+    jest.spyOn(ReplenishmentCalculator.prototype, 'reorderPoints').mockResolvedValue(new Map([['mug', 4]]));
+    (prisma.product.findFirst as jest.Mock<any>).mockImplementation(({ where }: any) =>
+      Promise.resolve(where.id === mug.id && where.userId === mug.userId ? mug : null));
+    (prisma.sale.create as jest.Mock<any>).mockImplementation(({ data }: any) => Promise.resolve({
+      id: 'sale-1',
+      ...data,
+      items: data.items.create.map((item: any) => ({ ...item, product: mug })),
+    }));
+  });
+
+  it("only sells the business's own products", async () => {
+    const response = await post({
+      items: [{ productId: 'someone-elses-product', quantity: 1, price: 5 }],
+      paymentMethod: 'CASH',
+      totalAmount: 5,
+    });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Product someone-elses-product not found' });
+    expect(prisma.product.findFirst).toHaveBeenCalledWith({ where: { id: 'someone-elses-product', userId: 'owner-1' } });
+    expect(prisma.sale.create).not.toHaveBeenCalled();
+  });
+
+  it("looks variants up through the business's products", async () => {
+    (prisma.productVariant.findFirst as jest.Mock<any>).mockResolvedValue(null);
+
+    const response = await post({
+      items: [{ productId: 'mug', variantId: 'variant-1', quantity: 1, price: 12 }],
+      paymentMethod: 'CASH',
+      totalAmount: 12,
+    });
+
+    expect(response.status).toBe(404);
+    expect(prisma.productVariant.findFirst).toHaveBeenCalledWith({
+      where: { id: 'variant-1', productId: 'mug', isActive: true, product: { userId: 'owner-1' } },
+    });
+  });
+
+  it('sells at the price set on the product, whatever price is sent', async () => {
+    const cheap = await post({
+      items: [{ productId: 'mug', quantity: 2, price: 1 }],
+      paymentMethod: 'CASH',
+      totalAmount: 2,
+    });
+
+    expect(cheap.status).toBe(400);
+    expect(await cheap.json()).toEqual(expect.objectContaining({ totals: expect.objectContaining({ totalAmount: 24 }) }));
+    expect(prisma.sale.create).not.toHaveBeenCalled();
+
+    const response = await post({
+      items: [{ productId: 'mug', quantity: 2, price: 1 }],
+      paymentMethod: 'CASH',
+      totalAmount: 24,
+    });
+
+    expect(response.status).toBe(200);
+    const { data } = (prisma.sale.create as jest.Mock<any>).mock.calls[0][0] as any;
+    expect(data.items.create).toEqual([expect.objectContaining({ productId: 'mug', quantity: 2, price: 12 })]);
+    expect(data.totalAmount).toBe(24);
+  });
+
+  it("sells a variant at its price override", async () => {
+    (prisma.productVariant.findFirst as jest.Mock<any>).mockResolvedValue({ id: 'variant-1', productId: 'mug', stockQuantity: 5, priceOverride: 15 });
+    (prisma.productVariant.findMany as jest.Mock<any>).mockResolvedValue([{ stockQuantity: 4 }]);
+
+    const response = await post({
+      items: [{ productId: 'mug', variantId: 'variant-1', quantity: 1 }],
+      paymentMethod: 'CASH',
+      totalAmount: 15,
+    });
+
+    expect(response.status).toBe(200);
+    const { data } = (prisma.sale.create as jest.Mock<any>).mock.calls[0][0] as any;
+    expect(data.items.create).toEqual([expect.objectContaining({ variantId: 'variant-1', price: 15 })]);
+  });
+
+  it('records the sale and takes its stock', async () => {
+    const response = await post({
+      items: [{ productId: 'mug', quantity: 2, price: 12 }],
+      paymentMethod: 'CASH',
+      totalAmount: 24,
+    });
+
+    expect(response.status).toBe(200);
+    expect(prisma.product.updateMany).toHaveBeenCalledWith({
+      where: { id: 'mug', stockQuantity: { gte: 2 } },
+      data: { stockQuantity: { decrement: 2 } },
+    });
+    expect(ReplenishmentCalculator.prototype.reorderPoints).toHaveBeenCalledWith('owner-1', ['mug']);
+  });
+
+  it('checks lines for the same product against its stock together', async () => {
+    const response = await post({
+      items: [{ productId: 'mug', quantity: 6 }, { productId: 'mug', quantity: 6 }],
+      paymentMethod: 'CASH',
+      totalAmount: 144,
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Insufficient stock for product Mug' });
+    expect(prisma.sale.create).not.toHaveBeenCalled();
+
+    await post({
+      items: [{ productId: 'mug', quantity: 3 }, { productId: 'mug', quantity: 2 }],
+      paymentMethod: 'CASH',
+      totalAmount: 60,
+    });
+    expect(prisma.product.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.product.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'mug', stockQuantity: { gte: 5 } },
+    }));
+  });
+
+  it('refuses the sale when another sale took the stock first', async () => {
+    (prisma.product.updateMany as jest.Mock<any>).mockResolvedValue({ count: 0 });
+
+    const response = await post({
+      items: [{ productId: 'mug', quantity: 2 }],
+      paymentMethod: 'CASH',
+      totalAmount: 24,
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Insufficient stock for product Mug' });
+    expect(prisma.inventoryChange.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('PUT /api/sales/[saleId]', () => {
+  const put = (body: object) => updateSale(
+    new Request('http://localhost/api/sales/sale-1', { method: 'PUT', body: JSON.stringify(body) }) as any,
+    { params: { saleId: 'sale-1' } }
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('leaves the payment status of card sales paid online to the gateway', async () => {
+    (prisma.sale.findUnique as jest.Mock<any>).mockResolvedValue({
+      id: 'sale-1',
+      userId: 'owner-1',
+      paymentStatus: 'PENDING',
+      gatewayPaymentId: 'pi_1',
+    });
+
+    const response = await put({ paymentStatus: 'FAILED' });
+
+    expect(response.status).toBe(409);
+    expect(prisma.sale.update).not.toHaveBeenCalled();
+  });
+
+  it('leaves paid and refunded statuses to payments and returns', async () => {
+    for (const paymentStatus of ['PAID', 'PARTIALLY_PAID', 'REFUNDED', 'PARTIALLY_REFUNDED']) {
+      const response = await put({ paymentStatus });
+      expect(response.status).toBe(400);
+    }
+    expect(prisma.sale.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/sales/[saleId]/payments', () => {
+  const invoiced = {
+    id: 'sale-1',
+    userId: 'owner-1',
+    totalAmount: 30,
+    refundedAmount: 0,
+    paymentStatus: 'PENDING',
+    gatewayPaymentId: null,
+    updatedAt: new Date('2024-06-01T00:00:00Z'),
+    payments: [] as { amount: number }[],
+  };
+
+  const pay = (amount: number) => recordPayment(
+    new Request('http://localhost/api/sales/sale-1/payments', { method: 'POST', body: JSON.stringify({ amount, method: 'CASH' }) }),
+    { params: { saleId: 'sale-1' } }
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock<any>).mockImplementation((run: any) => run(prisma));
+    (prisma.sale.findFirst as jest.Mock<any>).mockResolvedValue(invoiced);
+    (prisma.sale.findUniqueOrThrow as jest.Mock<any>).mockResolvedValue(invoiced);
+    (prisma.payment.create as jest.Mock<any>).mockImplementation(({ data }: any) => Promise.resolve({ id: 'payment-1', ...data }));
+    (prisma.sale.updateMany as jest.Mock<any>).mockResolvedValue({ count: 1 });
+  });
+
+  it('only marks the sale paid if nothing changed it in between', async () => {
+    const response = await pay(30);
+
+    expect(response.status).toBe(201);
+    expect(prisma.sale.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sale-1', updatedAt: invoiced.updatedAt },
+      data: { paymentStatus: 'PAID' },
+    });
+  });
+
+  it('checks the balance against payments recorded since the sale was first read', async () => {
+    (prisma.sale.findUniqueOrThrow as jest.Mock<any>).mockResolvedValue({
+      ...invoiced,
+      paymentStatus: 'PARTIALLY_PAID',
+      payments: [{ amount: 25 }],
+    });
+
+    const response = await pay(10);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Payment of 10.00 is more than the 5.00 still owed' });
+    expect(prisma.payment.create).not.toHaveBeenCalled();
+  });
+
+  it('gives up when another payment lands first', async () => {
+    (prisma.sale.updateMany as jest.Mock<any>).mockResolvedValue({ count: 0 });
+
+    const response = await pay(30);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'The sale changed while the payment was being recorded; please try again' });
+  });
+});
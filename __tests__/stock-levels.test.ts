@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  applyAdjustment,
+  planTransfer,
+  quantityAt,
+  StockLevelError,
+  unassignedStock,
+} from '@/lib/stock-levels';
+import { POST as transferStock } from '@/app/api/inventory/transfer/route';
+import { POST as adjustInventory } from '@/app/api/inventory/adjust/route';
+import { ReplenishmentCalculator } from '@/lib/analytics/replenishment';
+
+jest.mock('@/lib/authorize', () => ({
+  requirePermission: jest.fn<any>().mockResolvedValue({ user: { id: 'user-1', ownerId: 'owner-1' } }),
+}));
+
+jest.mock('@/lib/audit', () => ({
+  recordAudit: jest.fn(),
+}));
+
+jest.mock('@/lib/webhooks', () => ({
+  ...jest.requireActual<object>('@/lib/webhooks'),
+  emitWebhookEvent: jest.fn(),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  notify: jest.fn(),
+  stockNotification: jest.fn(() => null),
+}));
+
+jest.mock('@/lib/prisma', () => {
+  const client: Record<string, any> = {
+    product: { findFirst: jest.fn(), findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    productVariant: { findFirst: jest.fn(), updateMany: jest.fn(), findMany: jest.fn() },
+    inventory: { findMany: jest.fn(), findFirst: jest.fn() },
+    stockLevel: { updateMany: jest.fn(), findUnique: jest.fn(), findUniqueOrThrow: jest.fn(), upsert: jest.fn() },
+    inventoryChange: { create: jest.fn() },
+  };
+  client.$transaction = jest.fn((run: any) => run(client));
+  return { __esModule: true, default: client };
+});
+
+import prisma from '@/lib/prisma';
+
+describe('Stock levels', () => {
+  const levels = [
+    { inventoryId: 'warehouse-a', quantity: 30 },
+    { inventoryId: 'warehouse-b', quantity: 5 },
+  ];
+
+  it('reports stock not allocated to any location', () => {
+    expect(unassignedStock(45, levels)).toBe(10);
+    expect(unassignedStock(20, levels)).toBe(0);
+    expect(quantityAt(levels, 'store-front')).toBe(0);
+  });
+
+  it('plans a transfer without changing the total', () => {
+    const plan = planTransfer(levels, 'warehouse-a', 'warehouse-b', 12);
+
+    expect(plan).toEqual({
+      fromInventoryId: 'warehouse-a',
+      toInventoryId: 'warehouse-b',
+      quantity: 12,
+      fromQuantityAfter: 18,
+      toQuantityAfter: 17,
+    });
+    expect(plan.fromQuantityAfter + plan.toQuantityAfter).toBe(35);
+  });
+
+  it('transfers into a location the product has not been stocked at yet', () => {
+    const plan = planTransfer(levels, 'warehouse-b', 'store-front', 5);
+
+    expect(plan.fromQuantityAfter).toBe(0);
+    expect(plan.toQuantityAfter).toBe(5);
+  });
+
+  it('rejects invalid transfers', () => {
+    expect(() => planTransfer(levels, 'warehouse-b', 'warehouse-a', 6)).toThrow(StockLevelError);
+    expect(() => planTransfer(levels, 'warehouse-a', 'warehouse-a', 1)).toThrow(StockLevelError);
+    expect(() => planTransfer(levels, 'warehouse-a', 'warehouse-b', 0)).toThrow(StockLevelError);
+    expect(() => planTransfer(levels, 'warehouse-a', '', 1)).toThrow(StockLevelError);
+  });
+
+  it('applies adjustments like the adjust endpoint', () => {
+    expect(applyAdjustment(5, 'INCREASE', 3)).toBe(8);
+    expect(applyAdjustment(5, 'DECREASE', 3)).toBe(2);
+    expect(applyAdjustment(5, 'ADJUSTMENT', 12)).toBe(12);
+    expect(() => applyAdjustment(2, 'DECREASE', 3)).toThrow('Insufficient stock available');
+  });
+});
+
+describe('Stock transfers', () => {
+  const transfer = (quantity: number) => transferStock(new Request('http://localhost/api/inventory/transfer', {
+    method: 'POST',
+    body: JSON.stringify({ productId: 'product-1', fromInventoryId: 'warehouse-a', toInventoryId: 'warehouse-b', quantity }),
+  }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.product.findFirst as jest.Mock<any>).mockResolvedValue({
+      id: 'product-1',
+      sku: 'MUG-1',
+      stockLevels: [
+        { id: 'level-a', inventoryId: 'warehouse-a', quantity: 30 },
+        { id: 'level-b', inventoryId: 'warehouse-b', quantity: 5 },
+      ],
+    });
+    (prisma.inventory.findMany as jest.Mock<any>).mockResolvedValue([
+      { id: 'warehouse-a', name: 'Warehouse A' },
+      { id: 'warehouse-b', name: 'Warehouse B' },
+    ]);
+  });
+
+  it('moves stock relative to what the locations hold when it is written', async () => {
+    (prisma.stockLevel.updateMany as jest.Mock<any>).mockResolvedValue({ count: 1 });
+    (prisma.stockLevel.findUniqueOrThrow as jest.Mock<any>).mockResolvedValue({ id: 'level-a', inventoryId: 'warehouse-a', quantity: 18 });
+    (prisma.stockLevel.upsert as jest.Mock<any>).mockResolvedValue({ id: 'level-b', inventoryId: 'warehouse-b', quantity: 15 });
+
+    const response = await transfer(10);
+
+    expect(response.status).toBe(200);
+    expect(prisma.stockLevel.updateMany).toHaveBeenCalledWith({
+      where: { productId: 'product-1', inventoryId: 'warehouse-a', quantity: { gte: 10 } },
+      data: { quantity: { decrement: 10 } },
+    });
+    expect(prisma.stockLevel.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: { quantity: { increment: 10 } },
+    }));
+  });
+
+  it('refuses the transfer when the source was emptied after it was checked', async () => {
+    (prisma.stockLevel.updateMany as jest.Mock<any>).mockResolvedValue({ count: 0 });
+    (prisma.stockLevel.findUnique as jest.Mock<any>).mockResolvedValue({ quantity: 4 });
+
+    const response = await transfer(10);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Only 4 available at the source location' });
+    expect(prisma.stockLevel.upsert).not.toHaveBeenCalled();
+    expect(prisma.inventoryChange.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('Adjusting stock at a location', () => {
+  const adjust = (type: string, quantity: number) => adjustInventory(new Request('http://localhost/api/inventory/adjust', {
+    method: 'POST',
+    body: JSON.stringify({ productId: 'tee', variantId: 'tee-m', inventoryId: 'warehouse-a', type, quantity }),
+  }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(ReplenishmentCalculator.prototype, 'reorderPoints').mockResolvedValue(new Map());
+    (prisma.product.findFirst as jest.Mock<any>).mockResolvedValue({ id: 'tee', sku: 'TEE', name: 'Tee', stockQuantity: 20 });
+    (prisma.productVariant.findFirst as jest.Mock<any>).mockResolvedValue({ id: 'tee-m', productId: 'tee', stockQuantity: 2 });
+    (prisma.productVariant.findMany as jest.Mock<any>).mockResolvedValue([{ stockQuantity: 0 }]);
+    (prisma.inventory.findFirst as jest.Mock<any>).mockResolvedValue({ id: 'warehouse-a', name: 'Warehouse A' });
+    // The location holds 10 of the product, across all its variants
+    (prisma.stockLevel.findUnique as jest.Mock<any>).mockResolvedValue({ id: 'level-a', quantity: 10 });
+    (prisma.stockLevel.upsert as jest.Mock<any>).mockResolvedValue({ id: 'level-a', quantity: 8 });
+  });
+
+  it("checks a decrease against the variant's own stock", async () => {
+    const response = await adjust('DECREASE', 5);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Insufficient stock available' });
+    expect(prisma.stockLevel.upsert).not.toHaveBeenCalled();
+  });
+
+  it('moves the variant by the change at the location while it has enough', async () => {
+    (prisma.productVariant.updateMany as jest.Mock<any>).mockResolvedValue({ count: 1 });
+
+    const response = await adjust('DECREASE', 2);
+
+    expect(response.status).toBe(200);
+    expect(prisma.productVariant.updateMany).toHaveBeenCalledWith({
+      where: { id: 'tee-m', stockQuantity: { gte: 2 } },
+      data: { stockQuantity: { increment: -2 } },
+    });
+  });
+
+  it('refuses the change when the variant was sold out in between', async () => {
+    (prisma.productVariant.updateMany as jest.Mock<any>).mockResolvedValue({ count: 0 });
+
+    const response = await adjust('DECREASE', 2);
+
+    expect(response.status).toBe(400);
+    expect(prisma.inventoryChange.create).not.toHaveBeenCalled();
+  });
+});
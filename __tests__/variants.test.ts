@@ -0,0 +1,101 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  effectivePrice,
+  groupInventoryRows,
+  matchesOptions,
+  stripVariantSuffix,
+  totalVariantStock,
+  variantLabel,
+} from '@/lib/variants';
+import { getProductGroupKey, splitProductsByVariant } from '@/lib/analytics/utils';
+
+describe('Product variants', () => {
+  describe('stripVariantSuffix', () => {
+    it('removes a suffix that matches the row options', () => {
+      expect(stripVariantSuffix('Cotton T-Shirt (Black)', { size: 'M', color: 'Black' })).toBe('Cotton T-Shirt');
+      expect(stripVariantSuffix('Cotton T-Shirt (M / Black)', { size: 'M', color: 'black' })).toBe('Cotton T-Shirt');
+    });
+
+    it('keeps a suffix that is part of the product name', () => {
+      expect(stripVariantSuffix('Gift Card (Digital)', { size: 'One Size', color: 'Black' })).toBe('Gift Card (Digital)');
+      expect(stripVariantSuffix('Canvas Tote Bag', { color: 'Natural' })).toBe('Canvas Tote Bag');
+    });
+  });
+
+  describe('groupInventoryRows', () => {
+    it('groups option rows under one parent and leaves plain rows alone', () => {
+      const groups = groupInventoryRows([
+        { sku: 'TS-M-BLK', name: 'Cotton T-Shirt (Black)', category: 'Apparel', size: 'M', color: 'Black' },
+        { sku: 'TS-L-WHT', name: 'Cotton T-Shirt (White)', category: 'Apparel', size: 'L', color: 'White' },
+        { sku: 'GIFT-1', name: 'Gift Card', category: 'Other' },
+        { sku: 'GIFT-2', name: 'Gift Card', category: 'Other' },
+        { sku: 'NONAME', name: '' },
+      ]);
+
+      expect(groups).toHaveLength(3);
+      expect(groups[0]).toMatchObject({ name: 'Cotton T-Shirt', hasVariants: true });
+      expect(groups[0].rows.map(row => row.sku)).toEqual(['TS-M-BLK', 'TS-L-WHT']);
+      expect(groups[1]).toMatchObject({ name: 'Gift Card', hasVariants: false });
+      expect(groups[2].rows[0].sku).toBe('GIFT-2');
+    });
+
+    it('keeps same-named products in different categories apart', () => {
+      const groups = groupInventoryRows([
+        { sku: 'A', name: 'Classic', category: 'Apparel', size: 'M' },
+        { sku: 'B', name: 'Classic', category: 'Accessories', size: 'One Size' },
+      ]);
+
+      expect(groups).toHaveLength(2);
+    });
+  });
+
+  describe('pricing and stock', () => {
+    it('uses the variant price override when set', () => {
+      expect(effectivePrice({ sellingPrice: 20 }, { priceOverride: 25 })).toBe(25);
+      expect(effectivePrice({ sellingPrice: 20 }, { priceOverride: null })).toBe(20);
+      expect(effectivePrice({ sellingPrice: 20 })).toBe(20);
+    });
+
+    it('sums variant stock and matches options case-insensitively', () => {
+      expect(totalVariantStock([{ stockQuantity: 3 }, { stockQuantity: 4 }, {}])).toBe(7);
+      expect(matchesOptions({ size: 'M', color: 'Black' }, { size: 'm', color: 'black ' })).toBe(true);
+      expect(matchesOptions({ size: 'M', color: null }, { size: 'M', color: 'Black' })).toBe(false);
+      expect(variantLabel({ size: 'M', color: 'Black' })).toBe('M / Black');
+    });
+  });
+
+  describe('analytics rollup', () => {
+    const product = { id: 'p1', name: 'Cotton T-Shirt', sellingPrice: 20 };
+    const variant = { id: 'v1', size: 'M', color: 'Black' };
+
+    it('reports sale items under the parent product by default', () => {
+      expect(getProductGroupKey({ product, variant })).toEqual({ id: 'p1', name: 'Cotton T-Shirt' });
+      expect(getProductGroupKey({ product, variant }, 'variant')).toEqual({ id: 'v1', name: 'Cotton T-Shirt (M / Black)' });
+      expect(getProductGroupKey({ product, variant: null }, 'variant')).toEqual({ id: 'p1', name: 'Cotton T-Shirt' });
+      expect(getProductGroupKey({ product: null })).toBeNull();
+    });
+
+    it('splits a product into per-variant entries for per-product calculators', () => {
+      const entries = splitProductsByVariant([
+        {
+          ...product,
+          variants: [
+            { ...variant, priceOverride: 24 },
+            { id: 'v2', size: 'L', color: 'Black', priceOverride: null },
+            { id: 'v3', size: 'S', color: 'Black', priceOverride: null },
+          ],
+          saleItems: [
+            { id: 's1', variantId: 'v1', quantity: 1, price: 24 },
+            { id: 's2', variantId: 'v2', quantity: 2, price: 20 },
+            { id: 's3', variantId: null, quantity: 1, price: 20 },
+          ],
+        },
+      ]);
+
+      expect(entries.map(entry => entry.id)).toEqual(['v1', 'v2', 'p1']);
+      expect(entries[0]).toMatchObject({ name: 'Cotton T-Shirt (M / Black)', sellingPrice: 24, parentProductId: 'p1' });
+      expect(entries[1].sellingPrice).toBe(20);
+      expect(entries[2].saleItems.map((item: any) => item.id)).toEqual(['s3']);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { PrismaClient } from '@prisma/client';
+import {
+  attemptDelivery,
+  emitWebhookEvent,
+  isPrivateAddress,
+  MAX_DELIVERY_ATTEMPTS,
+  retryDelay,
+  signWebhookPayload,
+  stockThresholdEvent,
+  verifyWebhookSignature,
+} from '@/lib/webhooks';
+import { CreateWebhookBody, UpdateWebhookBody } from '@/lib/schemas';
+
+interface ReceivedRequest {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+const SECRET = 'whsec_test';
+
+// A local endpoint standing in for another system. It answers with the next queued status.
+let server: Server;
+let receiverUrl: string;
+let received: ReceivedRequest[] = [];
+let statuses: number[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end(res.statusCode < 300 ? 'ok' : 'receiver is down');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function mockClient(delivery: { attempts: number }) {
+  const client = {
+    webhookSubscription: {
+      findMany: jest.fn<any>().mockResolvedValue([{ id: 'sub-1' }]),
+    },
+    webhookDelivery: {
+      create: jest.fn<any>().mockImplementation(async ({ data }: any) => ({ id: 'delivery-1', ...data })),
+      updateMany: jest.fn<any>().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest.fn<any>().mockResolvedValue({
+        id: 'delivery-1',
+        event: 'sale.created',
+        payload: { id: 'event-1', event: 'sale.created', data: { saleId: 'sale-1' } },
+        subscription: { url: receiverUrl, secret: SECRET },
+        ...delivery,
+      }),
+      update: jest.fn<any>().mockImplementation(async ({ data }: any) => data),
+    },
+  };
+  return client as typeof client & PrismaClient;
+}
+
+describe('Webhook signatures', () => {
+  const body = '{"event":"sale.created"}';
+  const now = new Date('2024-05-01T12:00:00Z');
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  it('accepts payloads signed with the secret', () => {
+    const header = signWebhookPayload(SECRET, body, timestamp);
+
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(SECRET, body, header, now)).toBe(true);
+  });
+
+  it('rejects other secrets, changed bodies and stale timestamps', () => {
+    const header = signWebhookPayload(SECRET, body, timestamp);
+
+    expect(verifyWebhookSignature('whsec_other', body, header, now)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body.replace('sale', 'fake'), header, now)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, header, new Date(now.getTime() + 10 * 60 * 1000))).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, null, now)).toBe(false);
+  });
+});
+
+describe('Webhook settings', () => {
+  it('validates URLs and events', () => {
+    const message = (body: unknown) => CreateWebhookBody.safeParse(body).error?.issues[0].message;
+
+    expect(CreateWebhookBody.parse({ url: 'https://example.com/hook', events: ['sale.created', 'sale.created'] }))
+      .toEqual({ url: 'https://example.com/hook', events: ['sale.created'], description: undefined });
+    expect(message({ url: 'ftp://example.com', events: ['sale.created'] })).toBe('The URL must start with https:// or http://');
+    expect(message({ url: 'not a url', events: ['sale.created'] })).toBe('A valid URL is required');
+    expect(message({ url: 'https://example.com', events: [] })).toBe('Choose at least one event');
+    expect(CreateWebhookBody.safeParse({ url: 'https://example.com', events: ['order.shipped'] }).success).toBe(false);
+    expect(UpdateWebhookBody.parse({ isActive: false, description: '  ' })).toEqual({ isActive: false, description: null });
+  });
+
+  it('refuses URLs on private and local networks unless they are allowed', () => {
+    const message = (url: string) => CreateWebhookBody.safeParse({ url, events: ['sale.created'] }).error?.issues[0].message;
+    const refused = 'The URL must not point to a private or local network address';
+
+    expect(message('http://169.254.169.254/latest/meta-data/')).toBe(refused);
+    expect(message('http://localhost:3000/hooks')).toBe(refused);
+    expect(message('http://127.0.0.1/hooks')).toBe(refused);
+    expect(message('http://2130706433/hooks')).toBe(refused);
+    expect(message('http://10.0.0.5/hooks')).toBe(refused);
+    expect(message('http://[::1]/hooks')).toBe(refused);
+    expect(message('http://[::ffff:127.0.0.1]/hooks')).toBe(refused);
+    expect(message('https://hooks.example.com/merchx')).toBeUndefined();
+
+    process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = 'true';
+    try {
+      expect(message('http://localhost:3000/hooks')).toBeUndefined();
+    } finally {
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS;
+    }
+  });
+
+  it('tells private addresses from public ones', () => {
+    expect(isPrivateAddress('192.168.1.20')).toBe(true);
+    expect(isPrivateAddress('172.20.0.1')).toBe(true);
+    expect(isPrivateAddress('fd12::1')).toBe(true);
+    expect(isPrivateAddress('fe80::1')).toBe(true);
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    expect(isPrivateAddress('172.32.0.1')).toBe(false);
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+  });
+
+  it('backs off between retries and gives up after the last', () => {
+    expect(retryDelay(1)).toBe(60 * 1000);
+    expect(retryDelay(2)).toBe(5 * 60 * 1000);
+    expect(retryDelay(MAX_DELIVERY_ATTEMPTS)).toBeNull();
+  });
+
+  it("reports stock crossing the product's reorder point", () => {
+    expect(stockThresholdEvent(10, 4, 5)).toBe('stock.low');
+    expect(stockThresholdEvent(4, 3, 5)).toBeNull();
+    expect(stockThresholdEvent(3, 0, 5)).toBe('stock.out');
+    expect(stockThresholdEvent(0, 20, 5)).toBe('stock.restocked');
+    expect(stockThresholdEvent(20, 15, 5)).toBeNull();
+    expect(stockThresholdEvent(20, 15, 18)).toBe('stock.low');
+  });
+
+  it('never calls a product that is not selling low, only out of stock', () => {
+    expect(stockThresholdEvent(10, 1, 0)).toBeNull();
+    expect(stockThresholdEvent(1, 0, 0)).toBe('stock.out');
+    expect(stockThresholdEvent(0, 1, 0)).toBe('stock.restocked');
+  });
+});
+
+describe('Webhook delivery', () => {
+  // The receiver is on this machine, which real deliveries refuse
+  beforeAll(() => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = 'true';
+  });
+
+  afterAll(() => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS;
+  });
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+  });
+
+  it('posts signed payloads the receiver can verify', async () => {
+    const client = mockClient({ attempts: 0 });
+
+    const result = await attemptDelivery(client, 'delivery-1');
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(JSON.parse(request.body)).toEqual({ id: 'event-1', event: 'sale.created', data: { saleId: 'sale-1' } });
+    expect(request.headers['x-webhook-event']).toBe('sale.created');
+    expect(request.headers['x-webhook-delivery']).toBe('delivery-1');
+    expect(verifyWebhookSignature(SECRET, request.body, request.headers['x-webhook-signature'] as string)).toBe(true);
+    expect(result).toEqual(expect.objectContaining({ status: 'SUCCEEDED', attempts: 1, responseStatus: 200, error: null }));
+  });
+
+  it('schedules a retry when the receiver fails', async () => {
+    statuses = [503];
+    const client = mockClient({ attempts: 0 });
+    const before = Date.now();
+
+    const result: any = await attemptDelivery(client, 'delivery-1');
+
+    expect(result).toEqual(expect.objectContaining({
+      status: 'PENDING',
+      attempts: 1,
+      responseStatus: 503,
+      responseBody: 'receiver is down',
+      error: 'Receiver answered 503',
+    }));
+    expect(result.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 60 * 1000);
+  });
+
+  it('gives up after the last attempt', async () => {
+    statuses = [500];
+    const client = mockClient({ attempts: MAX_DELIVERY_ATTEMPTS - 1 });
+
+    const result = await attemptDelivery(client, 'delivery-1');
+
+    expect(result).toEqual(expect.objectContaining({ status: 'FAILED', attempts: MAX_DELIVERY_ATTEMPTS, nextAttemptAt: null }));
+  });
+
+  it('refuses to send to private addresses unless they are allowed', async () => {
+    const client = mockClient({ attempts: 0 });
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS;
+
+    try {
+      const result = await attemptDelivery(client, 'delivery-1');
+
+      expect(received).toHaveLength(0);
+      expect(result).toEqual(expect.objectContaining({
+        status: 'PENDING',
+        responseStatus: null,
+        error: 'The webhook URL points to a private or local network address',
+      }));
+    } finally {
+      process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = 'true';
+    }
+  });
+
+  it('leaves deliveries another worker has claimed', async () => {
+    const client = mockClient({ attempts: 0 });
+    client.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await attemptDelivery(client, 'delivery-1')).toBeNull();
+    expect(received).toHaveLength(0);
+  });
+
+  it('queues events only for subscriptions that want them', async () => {
+    const client = mockClient({ attempts: 0 });
+
+    await emitWebhookEvent(client, 'owner-1', 'stock.low', { productId: 'p1', date: new Date('2024-05-01T00:00:00Z') });
+
+    expect(client.webhookSubscription.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'owner-1', isActive: true, events: { has: 'stock.low' } },
+    }));
+    expect(client.webhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        event: 'stock.low',
+        subscriptionId: 'sub-1',
+        payload: expect.objectContaining({ event: 'stock.low', data: { productId: 'p1', date: '2024-05-01T00:00:00.000Z' } }),
+      }),
+    });
+  });
+
+  it('does not fail the caller when events cannot be queued', async () => {
+    const client = mockClient({ attempts: 0 });
+    client.webhookSubscription.findMany.mockRejectedValue(new Error('database is down'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(emitWebhookEvent(client, 'owner-1', 'sale.created', {})).resolves.toBeUndefined();
+    consoleError.mockRestore();
+  });
+});
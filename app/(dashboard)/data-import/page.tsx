@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { ArrowLeft, Database, FileSpreadsheet, Upload } from 'lucide-react';
 import CsvUpload from '@/components/shared/CsvUpload';
+import ImportPreview, { SalesHistoryImportPreview } from '@/components/shared/ImportPreview';
+import { Progress } from '@/components/ui/progress';
 import Link from 'next/link';
 import PageHeader from '@/components/layout/PageHeader';
 
@@ -35,6 +37,18 @@ interface InventoryItem {
   color?: string;
 }
 
+interface ImportJobStatus {
+  status: 'PREVIEW' | 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  totalRows: number;
+  processedRows: number;
+  result: { saleCount: number; itemCount: number; duplicateRows: number; updatedRows: number } | null;
+  errors: { row: number; reason: string }[] | null;
+  failureReason: string | null;
+}
+
+// How often a running import is checked on
+const IMPORT_POLL_INTERVAL_MS = 1500;
+
 export default function DataImportPage() {
   const router = useRouter();
   
@@ -42,10 +56,17 @@ export default function DataImportPage() {
   const [salesHistory, setSalesHistory] = useState<SalesHistoryItem[]>([]);
   const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [salesImportJobId, setSalesImportJobId] = useState<string | null>(null);
+  const [salesPreview, setSalesPreview] = useState<SalesHistoryImportPreview | null>(null);
+  const [updateConflicts, setUpdateConflicts] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ processed: number; total: number } | null>(null);
   
   // Handle sales history data
   const handleSalesHistoryParsed = (data: any[]) => {
     setSalesHistory(data);
+    setSalesImportJobId(null);
+    setSalesPreview(null);
+    setUpdateConflicts(false);
   };
   
   // Handle inventory items data
@@ -53,8 +74,8 @@ export default function DataImportPage() {
     setInventoryItems(data);
   };
   
-  // Submit sales history to the server
-  const submitSalesHistory = async () => {
+  // Dry run: shows what the import would do before anything is written
+  const previewSalesHistory = async () => {
     if (salesHistory.length === 0) {
       toast.error('No sales history data to submit');
       return;
@@ -63,23 +84,88 @@ export default function DataImportPage() {
     setIsSubmitting(true);
     
     try {
-      // Make API call to save sales history
       const response = await fetch('/api/sales-history/import', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ salesHistory })
+        body: JSON.stringify({ salesHistory, dryRun: true })
       });
       
       if (!response.ok) {
-        throw new Error('Failed to import sales history');
+        throw new Error('Failed to preview sales history import');
       }
       
       const result = await response.json();
+      setSalesImportJobId(result.jobId);
+      setSalesPreview(result.preview);
+    } catch (error) {
+      console.error('Error previewing sales history import:', error);
+      toast.error('Failed to check the sales history file. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  // Polls an import job until it finishes
+  const waitForImportJob = async (jobId: string): Promise<ImportJobStatus> => {
+    while (true) {
+      await new Promise(resolve => setTimeout(resolve, IMPORT_POLL_INTERVAL_MS));
+      
+      const response = await fetch(`/api/sales-history/import/${jobId}`);
+      if (!response.ok) {
+        throw new Error('Failed to check import progress');
+      }
+      
+      const job: ImportJobStatus = await response.json();
+      setImportProgress({ processed: job.processedRows, total: job.totalRows });
+      
+      if (job.status === 'COMPLETED' || job.status === 'FAILED') {
+        return job;
+      }
+    }
+  };
+  
+  // Commit the previewed import and follow it until it is done
+  const submitSalesHistory = async () => {
+    if (!salesImportJobId) {
+      return;
+    }
+    
+    setIsSubmitting(true);
+    setImportProgress({ processed: 0, total: salesHistory.length });
+    
+    try {
+      const response = await fetch(`/api/sales-history/import/${salesImportJobId}/commit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ onConflict: updateConflicts ? 'update' : 'skip' })
+      });
+      
+      if (!response.ok) {
+        throw new Error('Failed to import sales history');
+      }
+      
+      const job = await waitForImportJob(salesImportJobId);
+      
+      if (job.status === 'FAILED') {
+        throw new Error(job.failureReason || 'Import failed');
+      }
       
-      toast.success(`Successfully imported ${result.count} sales records`);
+      const skipped = job.errors?.length || 0;
+      const duplicates = job.result?.duplicateRows || 0;
+      const updated = job.result?.updatedRows || 0;
+      toast.success(
+        `Imported ${job.result?.saleCount || 0} sales with ${job.result?.itemCount || 0} line items` +
+        (updated > 0 ? `, ${updated} rows updated` : '') +
+        (duplicates > 0 ? `, ${duplicates} already imported` : '') +
+        (skipped > 0 ? `, ${skipped} rows skipped` : '')
+      );
       setSalesHistory([]);
+      setSalesImportJobId(null);
+      setSalesPreview(null);
       
       // Redirect to analytics page
       setTimeout(() => {
@@ -90,6 +176,7 @@ export default function DataImportPage() {
       toast.error('Failed to import sales history. Please try again.');
     } finally {
       setIsSubmitting(false);
+      setImportProgress(null);
     }
   };
   
@@ -177,21 +264,68 @@ export default function DataImportPage() {
                         <h3 className="text-lg font-medium">
                           {salesHistory.length} Sales Records Ready to Import
                         </h3>
-                        <Button 
-                          onClick={submitSalesHistory}
-                          disabled={isSubmitting}
-                        >
-                          {isSubmitting ? (
-                            <>
-                              <span className="animate-spin h-4 w-4 mr-2 border-2 border-t-transparent rounded-full" />
-                              Importing...
-                            </>
-                          ) : (
-                            'Import Sales History'
-                          )}
-                        </Button>
+                        {salesPreview ? (
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              onClick={() => {
+                                setSalesImportJobId(null);
+                                setSalesPreview(null);
+                              }}
+                              disabled={isSubmitting}
+                            >
+                              Cancel
+                            </Button>
+                            <Button 
+                              onClick={submitSalesHistory}
+                              disabled={isSubmitting || (salesPreview.newRows === 0 && !(updateConflicts && salesPreview.conflictRows > 0))}
+                            >
+                              {isSubmitting ? (
+                                <>
+                                  <span className="animate-spin h-4 w-4 mr-2 border-2 border-t-transparent rounded-full" />
+                                  Importing...
+                                </>
+                              ) : (
+                                `Import ${salesPreview.newRows + (updateConflicts ? salesPreview.conflictRows : 0)} Rows`
+                              )}
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button 
+                            onClick={previewSalesHistory}
+                            disabled={isSubmitting}
+                          >
+                            {isSubmitting ? (
+                              <>
+                                <span className="animate-spin h-4 w-4 mr-2 border-2 border-t-transparent rounded-full" />
+                                Checking...
+                              </>
+                            ) : (
+                              'Preview Import'
+                            )}
+                          </Button>
+                        )}
                       </div>
                       
+                      {importProgress && (
+                        <div className="mb-4 space-y-2">
+                          <Progress value={importProgress.processed} max={importProgress.total} />
+                          <p className="text-sm text-muted-foreground">
+                            {importProgress.processed} of {importProgress.total} rows processed
+                          </p>
+                        </div>
+                      )}
+                      
+                      {salesPreview && (
+                        <div className="mb-6">
+                          <ImportPreview
+                            preview={salesPreview}
+                            updateConflicts={updateConflicts}
+                            onUpdateConflictsChange={setUpdateConflicts}
+                          />
+                        </div>
+                      )}
+                      
                       <div className="border rounded-md overflow-hidden">
                         <div className="overflow-x-auto">
                           <table className="w-full text-sm">
@@ -210,8 +344,8 @@ export default function DataImportPage() {
                                   <td className="px-4 py-2">{item.date}</td>
                                   <td className="px-4 py-2">{item.productName}</td>
                                   <td className="px-4 py-2">{item.quantity}</td>
-                                  <td className="px-4 py-2">${item.unitPrice.toFixed(2)}</td>
-                                  <td className="px-4 py-2">${item.totalAmount.toFixed(2)}</td>
+                                  <td className="px-4 py-2">${Number(item.unitPrice).toFixed(2)}</td>
+                                  <td className="px-4 py-2">${Number(item.totalAmount).toFixed(2)}</td>
                                 </tr>
                               ))}
                             </tbody>
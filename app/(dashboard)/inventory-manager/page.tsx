@@ -12,6 +12,7 @@ import DynamicDashboard, { ModuleConfig } from '@/components/features/DynamicDas
 import {
   BestSellingItemsWidget,
   LowStockItemsWidget,
+  ReorderSuggestionsWidget,
   PossibleNetIncomeWidget,
   HighestMarginItemsWidget,
   StatsSummaryCard
@@ -51,6 +52,18 @@ interface LowStockProduct {
   stockQuantity: number;
 }
 
+interface ReorderSuggestion {
+  productId: string;
+  productName: string;
+  supplier: { id: string; name: string } | null;
+  stockQuantity: number;
+  onOrder: number;
+  daysOfCover: number | null;
+  reorderPoint: number;
+  suggestedOrderQuantity: number;
+  status: 'out_of_stock' | 'reorder' | 'ok';
+}
+
 interface HighMarginProduct {
   id: string;
   name: string;
@@ -100,6 +113,7 @@ export default function InventoryManagerPage() {
   // State for widgets data
   const [topProducts, setTopProducts] = useState<TopProduct[]>([]);
   const [lowStockProducts, setLowStockProducts] = useState<LowStockProduct[]>([]);
+  const [reorderSuggestions, setReorderSuggestions] = useState<ReorderSuggestion[]>([]);
   const [highMarginProducts, setHighMarginProducts] = useState<HighMarginProduct[]>([]);
   const [possibleNetIncome, setPossibleNetIncome] = useState(0);
   
@@ -121,6 +135,13 @@ export default function InventoryManagerPage() {
           // Fetch inventory data
           const inventoryResponse = await fetch('/api/inventory');
           const inventoryData = await inventoryResponse.json();
+
+          // Fetch the products that have reached their reorder point
+          const replenishmentResponse = await fetch('/api/analytics/replenishment?status=needs_reorder');
+          const replenishmentData = replenishmentResponse.ok
+            ? await replenishmentResponse.json()
+            : { suggestions: [], summary: { needsReorder: 0 } };
+          const suggestions: ReorderSuggestion[] = replenishmentData.suggestions || [];
           
           // Calculate inventory metrics
           const products = productsData.products || [];
@@ -131,7 +152,7 @@ export default function InventoryManagerPage() {
           // Set inventory metrics
           setInventoryMetrics({
             totalProducts: totalProductCount,
-            lowStockCount: products.filter((p: Product) => (p.stockQuantity || 0) < 5).length,
+            lowStockCount: replenishmentData.summary?.needsReorder || 0,
             inventoryValue: totalInventoryValue,
             averageUnitCost: totalProductCount ? totalInventoryValue / totalProductCount : 0,
           });
@@ -141,15 +162,13 @@ export default function InventoryManagerPage() {
           
           // Set low stock products
           setLowStockProducts(
-            products
-              .filter((p: Product) => (p.stockQuantity || 0) < 5)
-              .slice(0, 5)
-              .map((p: Product) => ({
-                id: p.id,
-                name: p.name,
-                stockQuantity: p.stockQuantity || 0,
-              })) || []
+            suggestions.slice(0, 5).map(suggestion => ({
+              id: suggestion.productId,
+              name: suggestion.productName,
+              stockQuantity: suggestion.stockQuantity,
+            }))
           );
+          setReorderSuggestions(suggestions.slice(0, 10));
           
           // Set high margin products
           setHighMarginProducts(
@@ -241,6 +260,15 @@ export default function InventoryManagerPage() {
       minimizable: true,
       removable: true,
     },
+    {
+      id: 'reorder-suggestions',
+      title: 'Reorder Suggestions',
+      description: 'What to order, based on sales velocity and supplier lead times',
+      component: <ReorderSuggestionsWidget data={reorderSuggestions} />,
+      defaultSize: 'medium',
+      minimizable: true,
+      removable: true,
+    },
     {
       id: 'possible-net-income',
       title: 'Possible Net Income',
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Package, Layers } from 'lucide-react';
 import { toast } from 'sonner';
 import { DataTable, FilterValue, SortDirection } from '@/components/shared/DataTable';
+import ExportButton from '@/components/shared/ExportButton';
 import { productColumns, formatCurrency } from '@/components/shared/ColumnDefinitions';
 import { Product, ProductFilter } from '@/app/types/product';
 
@@ -28,15 +29,30 @@ export default function ProductsOverview({
   const [sortKey, setSortKey] = useState<string>("name");
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
   
+  // Filters and sort shared by the list and its export
+  const listParams = () => {
+    const params = new URLSearchParams({ sortKey, sortDir: sortDirection });
+    if (activeFilters.category && activeFilters.category !== 'all') params.set('category', activeFilters.category);
+    if (activeFilters.status && activeFilters.status !== 'all') params.set('status', activeFilters.status);
+    if (activeFilters.search) params.set('search', activeFilters.search);
+    return params;
+  };
+  const filterKey = JSON.stringify(activeFilters);
+  
   // Fetch products data
   useEffect(() => {
     fetchProducts();
-  }, [currentPage, pageSize, sortKey, sortDirection]);
+  }, [currentPage, pageSize, sortKey, sortDirection, filterKey]);
+  
+  // Filtered results start from the first page
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [filterKey]);
   
   const fetchProducts = async () => {
     try {
       setIsLoading(true);
-      const url = `/api/products?page=${currentPage}&limit=${pageSize}&sortKey=${sortKey}&sortDir=${sortDirection}`;
+      const url = `/api/products?page=${currentPage}&limit=${pageSize}&${listParams().toString()}`;
       console.log("Fetching products with URL:", url);
       const response = await fetch(url);
       if (!response.ok) throw new Error("Failed to fetch products");
@@ -179,7 +195,10 @@ export default function ProductsOverview({
       
       {/* Products Table */}
       <div>
-        <h2 className="text-lg font-semibold mb-4">All Products</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">All Products</h2>
+          <ExportButton endpoint="/api/products/export" params={listParams()} />
+        </div>
         <DataTable
           data={products}
           columns={productColumns}
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { ShoppingBag } from 'lucide-react';
 import { toast } from 'sonner';
 import { DataTable, FilterValue, SortDirection } from '@/components/shared/DataTable';
+import ExportButton from '@/components/shared/ExportButton';
 import { salesColumns, formatCurrency } from '@/components/shared/ColumnDefinitions';
 import { SaleRecord, SalesFilter } from '@/app/types/sale';
 
@@ -28,15 +29,29 @@ export default function SalesOverview({
   const [sortKey, setSortKey] = useState<string>("createdAt");
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
   
+  // Filters and sort shared by the list and its export
+  const listParams = () => {
+    const params = new URLSearchParams({ sortKey, sortDir: sortDirection });
+    if (activeFilters.period) params.set('period', activeFilters.period);
+    if (activeFilters.search) params.set('search', activeFilters.search);
+    return params;
+  };
+  const filterKey = JSON.stringify(activeFilters);
+  
   // Fetch sales data
   useEffect(() => {
     fetchSales();
-  }, [currentPage, pageSize, sortKey, sortDirection]);
+  }, [currentPage, pageSize, sortKey, sortDirection, filterKey]);
+  
+  // Filtered results start from the first page
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [filterKey]);
   
   const fetchSales = async () => {
     try {
       setIsLoading(true);
-      const url = `/api/sales?page=${currentPage}&limit=${pageSize}&sortKey=${sortKey}&sortDir=${sortDirection}`;
+      const url = `/api/sales?page=${currentPage}&limit=${pageSize}&${listParams().toString()}`;
       console.log("Fetching sales with URL:", url);
       const response = await fetch(url);
       if (!response.ok) throw new Error("Failed to fetch sales");
@@ -163,7 +178,10 @@ export default function SalesOverview({
       
       {/* Sales Table */}
       <div>
-        <h2 className="text-lg font-semibold mb-4">All Sales</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">All Sales</h2>
+          <ExportButton endpoint="/api/sales/export" params={listParams()} />
+        </div>
         <DataTable
           data={sales}
           columns={salesColumns}
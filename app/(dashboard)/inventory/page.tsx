@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { 
   PlusCircle, 
@@ -23,12 +24,14 @@ import CsvUpload from '@/components/shared/CsvUpload';
 import ProductManagementForm from '@/components/shared/ProductManagementForm';
 import ContentWrapper from '@/components/layout/ContentWrapper';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import CardPaymentDialog, { PendingCardPayment } from '@/components/features/pos/CardPaymentDialog';
 
 // Import external components and types
 import ProductsOverview from './ProductsOverview';
 import SalesOverview from './SalesOverview';
 import { ProductFilter } from '@/app/types/product';
 import { SalesFilter } from '@/app/types/sale';
+import { calculateSaleTotals, NO_TAX, TaxRates, taxRatesFromList } from '@/lib/sale-totals';
 
 // Define types for dashboard data
 interface SalesMetrics {
@@ -461,6 +464,9 @@ function ProductsLogs() {
   );
 }
 
+// Sentinel value for sales that are not attributed to a customer
+const WALK_IN_CUSTOMER = "walk-in";
+
 // Sales import, add, logs component implementations
 function SalesImport() {
   const [salesHistory, setSalesHistory] = useState<any[]>([]);
@@ -554,8 +560,8 @@ function SalesImport() {
                         <TableCell>{item.date}</TableCell>
                         <TableCell>{item.productName}</TableCell>
                         <TableCell className="text-right">{item.quantity}</TableCell>
-                        <TableCell className="text-right">${item.unitPrice.toFixed(2)}</TableCell>
-                        <TableCell className="text-right">${item.totalAmount.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">${Number(item.unitPrice).toFixed(2)}</TableCell>
+                        <TableCell className="text-right">${Number(item.totalAmount).toFixed(2)}</TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -581,16 +587,41 @@ function SalesAdd() {
   const [saleItems, setSaleItems] = useState<any[]>([]);
   const [paymentMethod, setPaymentMethod] = useState<string>("CASH");
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
-  const [totalAmount, setTotalAmount] = useState<number>(0);
+  const [taxRates, setTaxRates] = useState<TaxRates>(NO_TAX);
+  const [customers, setCustomers] = useState<any[]>([]);
+  const [selectedCustomer, setSelectedCustomer] = useState<string>(WALK_IN_CUSTOMER);
+  const [isAddingCustomer, setIsAddingCustomer] = useState<boolean>(false);
+  const [newCustomerName, setNewCustomerName] = useState<string>("");
+  const [newCustomerEmail, setNewCustomerEmail] = useState<string>("");
+  const [cardPayment, setCardPayment] = useState<PendingCardPayment | null>(null);
+
+  useEffect(() => {
+    fetchCustomers();
+    fetchTaxRates();
+  }, []);
 
   useEffect(() => {
     fetchProducts();
-    
-    // calculate total whenever sale items change
-    const total = saleItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    setTotalAmount(total);
   }, [saleItems]);
 
+  // Worked out with the tax rates the server will charge, so the total sent matches its own
+  const totals = calculateSaleTotals(
+    saleItems.map(item => ({ price: item.price, quantity: item.quantity, category: item.product?.category })),
+    taxRates
+  );
+  const totalAmount = totals.totalAmount;
+
+  const fetchTaxRates = async () => {
+    try {
+      const response = await fetch("/api/tax-rates");
+      if (!response.ok) throw new Error("Failed to fetch tax rates");
+      setTaxRates(taxRatesFromList(await response.json()));
+    } catch (error) {
+      console.error("Error fetching tax rates:", error);
+      toast.error("Failed to load tax rates");
+    }
+  };
+
   const fetchProducts = async () => {
     try {
       const response = await fetch("/api/products");
@@ -603,6 +634,54 @@ function SalesAdd() {
     }
   };
 
+  const fetchCustomers = async () => {
+    try {
+      const response = await fetch("/api/customers");
+      if (!response.ok) throw new Error("Failed to fetch customers");
+      const data = await response.json();
+      setCustomers(data.customers || []);
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      toast.error("Failed to load customers");
+    }
+  };
+
+  const handleCreateCustomer = async () => {
+    if (!newCustomerName.trim()) {
+      toast.error("Please enter a customer name");
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/customers", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name: newCustomerName,
+          email: newCustomerEmail || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to create customer");
+      }
+
+      const customer = await response.json();
+      setCustomers([...customers, customer].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedCustomer(customer.id);
+      setIsAddingCustomer(false);
+      setNewCustomerName("");
+      setNewCustomerEmail("");
+      toast.success(`Customer ${customer.name} added`);
+    } catch (error) {
+      console.error("Error creating customer:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create customer");
+    }
+  };
+
   const handleProductSelect = (value: string) => {
     setSelectedProduct(value);
   };
@@ -662,11 +741,11 @@ function SalesAdd() {
         body: JSON.stringify({
           items: saleItems.map(item => ({
             productId: item.productId,
-            quantity: item.quantity,
-            price: item.price
+            quantity: item.quantity
           })),
           paymentMethod,
           totalAmount,
+          customerId: selectedCustomer !== WALK_IN_CUSTOMER ? selectedCustomer : undefined,
         }),
       });
 
@@ -674,9 +753,23 @@ function SalesAdd() {
         throw new Error("Failed to create sale");
       }
 
-      toast.success("Sale completed successfully");
+      const sale = await response.json();
       setSaleItems([]);
       setPaymentMethod("CASH");
+      setSelectedCustomer(WALK_IN_CUSTOMER);
+
+      // Businesses that connected Stripe take card sales online; the card is entered next
+      if (sale.paymentIntent) {
+        setCardPayment({
+          saleId: sale.id,
+          amount: sale.totalAmount,
+          paymentId: sale.paymentIntent.id,
+          clientSecret: sale.paymentIntent.clientSecret,
+          accountId: sale.paymentIntent.accountId,
+        });
+        return;
+      }
+      toast.success("Sale completed successfully");
     } catch (error) {
       console.error("Error creating sale:", error);
       toast.error("Failed to complete sale");
@@ -685,10 +778,24 @@ function SalesAdd() {
     }
   };
   
+  const handleCardPaymentClosed = (paid: boolean) => {
+    setCardPayment(null);
+    if (paid) {
+      toast.success("Card payment received");
+    } else {
+      toast.warning("The sale stays pending until its card payment goes through. Take it later from the sales history.");
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="p-6 border rounded-lg">
-        <h2 className="text-xl font-semibold mb-4">Add New Sale</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Add New Sale</h2>
+          <Button variant="outline" asChild>
+            <Link href="/pos">Open Point of Sale</Link>
+          </Button>
+        </div>
         
         <div className="mb-6">
           <div className="grid grid-cols-12 gap-4 mb-4">
@@ -771,6 +878,58 @@ function SalesAdd() {
         </div>
         
         <div className="space-y-4">
+          <div>
+            <Label htmlFor="customer">Customer</Label>
+            <div className="flex gap-2">
+              <Select value={selectedCustomer} onValueChange={setSelectedCustomer}>
+                <SelectTrigger id="customer">
+                  <SelectValue placeholder="Select a customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WALK_IN_CUSTOMER}>Walk-in customer</SelectItem>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.name}{customer.email ? ` (${customer.email})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                type="button"
+                onClick={() => setIsAddingCustomer(!isAddingCustomer)}
+              >
+                {isAddingCustomer ? 'Cancel' : 'New Customer'}
+              </Button>
+            </div>
+            {isAddingCustomer && (
+              <div className="grid grid-cols-12 gap-4 mt-3">
+                <div className="col-span-5">
+                  <Label htmlFor="newCustomerName">Name</Label>
+                  <Input
+                    id="newCustomerName"
+                    value={newCustomerName}
+                    onChange={e => setNewCustomerName(e.target.value)}
+                  />
+                </div>
+                <div className="col-span-4">
+                  <Label htmlFor="newCustomerEmail">Email (optional)</Label>
+                  <Input
+                    id="newCustomerEmail"
+                    type="email"
+                    value={newCustomerEmail}
+                    onChange={e => setNewCustomerEmail(e.target.value)}
+                  />
+                </div>
+                <div className="col-span-3 flex items-end">
+                  <Button onClick={handleCreateCustomer} className="w-full" type="button">
+                    Save Customer
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+
           <div>
             <Label htmlFor="paymentMethod">Payment Method</Label>
             <Select value={paymentMethod} onValueChange={setPaymentMethod}>
@@ -787,8 +946,15 @@ function SalesAdd() {
           </div>
           
           <div className="flex items-center justify-between pt-4 border-t">
-            <div className="text-lg font-semibold">
-              Total: ${totalAmount.toFixed(2)}
+            <div>
+              {totals.taxAmount > 0 && (
+                <div className="text-sm text-muted-foreground">
+                  Subtotal ${totals.subtotal.toFixed(2)} + tax ${totals.taxAmount.toFixed(2)}
+                </div>
+              )}
+              <div className="text-lg font-semibold">
+                Total: ${totalAmount.toFixed(2)}
+              </div>
             </div>
             <Button 
               onClick={handleSubmit} 
@@ -806,6 +972,7 @@ function SalesAdd() {
           </div>
         </div>
       </div>
+      <CardPaymentDialog payment={cardPayment} onClose={handleCardPaymentClosed} />
     </div>
   );
 }
@@ -815,6 +982,7 @@ function SalesLogs() {
   const [loading, setLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [cardPayment, setCardPayment] = useState<PendingCardPayment | null>(null);
   
   useEffect(() => {
     fetchSales();
@@ -840,6 +1008,36 @@ function SalesLogs() {
     if (newPage < 1 || newPage > totalPages) return;
     setCurrentPage(newPage);
   };
+
+  // Card sales left to be paid later get their card form back from the gateway
+  const handleTakeCardPayment = async (saleId: string) => {
+    try {
+      const response = await fetch(`/api/sales/${saleId}/payment-intent`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load the card payment");
+      }
+
+      setCardPayment({
+        saleId: data.saleId,
+        amount: data.amount,
+        paymentId: data.paymentIntent.id,
+        clientSecret: data.paymentIntent.clientSecret,
+        accountId: data.paymentIntent.accountId,
+      });
+    } catch (error) {
+      console.error("Error loading card payment:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load the card payment");
+    }
+  };
+
+  const handleCardPaymentClosed = (paid: boolean) => {
+    setCardPayment(null);
+    if (paid) {
+      toast.success("Card payment received");
+      fetchSales();
+    }
+  };
   
   return (
     <div className="space-y-6">
@@ -867,16 +1065,18 @@ function SalesLogs() {
           <TableHeader>
             <TableRow>
               <TableHead>Date</TableHead>
+              <TableHead>Customer</TableHead>
               <TableHead>Items</TableHead>
               <TableHead>Payment Method</TableHead>
               <TableHead>Status</TableHead>
               <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Documents</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {loading ? (
               <TableRow>
-                <TableCell colSpan={5} className="h-24 text-center">
+                <TableCell colSpan={7} className="h-24 text-center">
                   <div className="flex justify-center items-center">
                     <span className="animate-spin h-5 w-5 mr-2 border-2 border-t-transparent rounded-full" />
                     Loading sales...
@@ -887,23 +1087,58 @@ function SalesLogs() {
               sales.map((sale) => (
                 <TableRow key={sale.id}>
                   <TableCell>{new Date(sale.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>{sale.customer?.name || 'Walk-in'}</TableCell>
                   <TableCell>{sale.items?.length || 0} items</TableCell>
                   <TableCell>{sale.paymentMethod}</TableCell>
                   <TableCell>
                     <span className={`text-xs px-2 py-0.5 rounded-full ${
                       sale.paymentStatus === 'PAID' ? 'bg-green-100 text-green-700' : 
-                      sale.paymentStatus === 'PENDING' ? 'bg-amber-100 text-amber-700' : 
+                      sale.paymentStatus === 'PENDING' || sale.paymentStatus === 'PARTIALLY_REFUNDED' ? 'bg-amber-100 text-amber-700' : 
                       'bg-red-100 text-red-700'
                     }`}>
                       {sale.paymentStatus}
                     </span>
                   </TableCell>
-                  <TableCell className="text-right">${sale.totalAmount?.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">
+                    ${sale.totalAmount?.toFixed(2)}
+                    {sale.refundedAmount ? (
+                      <div className="text-xs text-muted-foreground">
+                        -${sale.refundedAmount.toFixed(2)} refunded
+                      </div>
+                    ) : null}
+                  </TableCell>
+                  <TableCell className="text-right space-x-3 whitespace-nowrap">
+                    {sale.gatewayPaymentId && sale.paymentStatus === 'PENDING' && (
+                      <button
+                        type="button"
+                        onClick={() => handleTakeCardPayment(sale.id)}
+                        className="text-sm text-primary hover:underline"
+                      >
+                        Take card payment
+                      </button>
+                    )}
+                    <a
+                      href={`/api/sales/${sale.id}/receipt`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-sm text-primary hover:underline"
+                    >
+                      Receipt
+                    </a>
+                    <a
+                      href={`/api/sales/${sale.id}/invoice`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-sm text-primary hover:underline"
+                    >
+                      Invoice
+                    </a>
+                  </TableCell>
                 </TableRow>
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
                   No sales found
                 </TableCell>
               </TableRow>
@@ -935,6 +1170,7 @@ function SalesLogs() {
           </div>
         )}
       </div>
+      <CardPaymentDialog payment={cardPayment} onClose={handleCardPaymentClosed} />
     </div>
   );
 }
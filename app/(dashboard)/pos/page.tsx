@@ -0,0 +1,630 @@
+'use client';
+
+import React, { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Barcode, Loader2, Minus, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  cartQuantity,
+  cartReducer,
+  cartTotals,
+  changeDue,
+  EMPTY_CART,
+  lineTotal,
+  overstockedLines,
+  parseScanInput,
+  saleRequestBody,
+  ScannedItem,
+  ScanResult,
+} from '@/lib/pos';
+import { NO_TAX, OrderDiscount, TaxRates, taxRatesFromList } from '@/lib/sale-totals';
+import CardPaymentDialog, { PendingCardPayment } from '@/components/features/pos/CardPaymentDialog';
+
+const PAYMENT_OPTIONS = [
+  { value: 'CASH', label: 'Cash', hotkey: 'F6' },
+  { value: 'CREDIT_CARD', label: 'Credit card', hotkey: 'F7' },
+  { value: 'DEBIT_CARD', label: 'Debit card', hotkey: 'F8' },
+];
+
+const HOTKEYS = [
+  ['Enter', 'Add the scanned code (3*SKU adds three)'],
+  ['↑ ↓', 'Pick a line'],
+  ['+ −', 'Change its quantity'],
+  ['Del', 'Remove it'],
+  ['F2', 'Scan'],
+  ['F3', 'Order discount'],
+  ['F4', 'Cash tendered'],
+  ['F5', 'Exact cash'],
+  ['F6–F8', 'Payment method'],
+  ['F9', 'Complete sale'],
+  ['Esc', 'Clear the code, or cancel'],
+  ['F12', 'Void the sale'],
+];
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2
+  }).format(value);
+};
+
+interface CompletedSale {
+  id: string;
+  total: number;
+  tendered: number | null;
+  change: number | null;
+}
+
+// Errors from POST /api/sales come back as plain text or as { error, issues }
+async function responseError(response: Response, fallback: string): Promise<string> {
+  const text = await response.text();
+  try {
+    const data = JSON.parse(text);
+    return data.issues?.[0]?.message || data.error || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+export default function PointOfSalePage() {
+  const [cart, dispatch] = useReducer(cartReducer, EMPTY_CART);
+  const [code, setCode] = useState('');
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [options, setOptions] = useState<{ items: ScannedItem[]; quantity: number } | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState('CASH');
+  const [tendered, setTendered] = useState('');
+  const [discountType, setDiscountType] = useState<OrderDiscount['type']>('PERCENTAGE');
+  const [discountValue, setDiscountValue] = useState('');
+  const [taxRates, setTaxRates] = useState<TaxRates>(NO_TAX);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lastSale, setLastSale] = useState<CompletedSale | null>(null);
+  const [cardPayment, setCardPayment] = useState<PendingCardPayment | null>(null);
+  const scanRef = useRef<HTMLInputElement>(null);
+  const tenderedRef = useRef<HTMLInputElement>(null);
+  const discountRef = useRef<HTMLInputElement>(null);
+
+  const discountAmount = Number(discountValue);
+  const orderDiscount: OrderDiscount | null = discountValue.trim() !== '' && discountAmount > 0
+    ? { type: discountType, value: discountType === 'PERCENTAGE' ? Math.min(discountAmount, 100) : discountAmount }
+    : null;
+  const totals = cartTotals(cart, taxRates, orderDiscount);
+  const total = totals.totalAmount;
+  const tenderedAmount = tendered.trim() === '' ? null : Number(tendered);
+  const change = tenderedAmount !== null && !Number.isNaN(tenderedAmount) ? changeDue(total, tenderedAmount) : null;
+
+  const focusScan = useCallback(() => {
+    scanRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    focusScan();
+  }, [focusScan]);
+
+  // Totals are worked out here with the same rates the server will charge
+  useEffect(() => {
+    const fetchTaxRates = async () => {
+      try {
+        const response = await fetch('/api/tax-rates');
+        if (!response.ok) throw new Error('Failed to fetch tax rates');
+        setTaxRates(taxRatesFromList(await response.json()));
+      } catch (error) {
+        console.error('Error fetching tax rates:', error);
+        toast.error('Failed to load tax rates');
+      }
+    };
+
+    fetchTaxRates();
+  }, []);
+
+  const addItem = (item: ScannedItem, quantity: number) => {
+    dispatch({ type: 'add', item, quantity });
+    setLastSale(null);
+    if (item.stockQuantity <= 0) {
+      toast.warning(`${item.name} shows no stock left`);
+    }
+  };
+
+  const handleScan = async () => {
+    const scan = parseScanInput(code);
+    if (!scan) {
+      if (code.trim()) toast.error('Scan a code, or type a quantity and code like 3*SKU');
+      return;
+    }
+
+    setIsLookingUp(true);
+    try {
+      const response = await fetch(`/api/products/lookup?code=${encodeURIComponent(scan.code)}`);
+      if (!response.ok) {
+        throw new Error(await responseError(response, 'Failed to look up the code'));
+      }
+
+      const result: ScanResult = await response.json();
+      if (result.item) {
+        addItem(result.item, scan.quantity);
+      } else {
+        setOptions({ items: result.options, quantity: scan.quantity });
+      }
+      setCode('');
+    } catch (error) {
+      console.error('Error looking up scanned code:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to look up the code');
+      // Select the code so the next scan replaces it
+      scanRef.current?.select();
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const chooseOption = (index: number) => {
+    if (!options || !options.items[index]) return;
+    addItem(options.items[index], options.quantity);
+    setOptions(null);
+    focusScan();
+  };
+
+  const voidSale = () => {
+    if (cart.lines.length === 0) return;
+    if (!window.confirm('Void this sale and clear the cart?')) return;
+    dispatch({ type: 'clear' });
+    setTendered('');
+    setDiscountValue('');
+    focusScan();
+  };
+
+  const handleCheckout = async () => {
+    if (cart.lines.length === 0 || isSubmitting) {
+      return;
+    }
+
+    const overstocked = overstockedLines(cart);
+    if (overstocked.length > 0) {
+      toast.error(`Not enough stock of ${overstocked[0].name} (${overstocked[0].stockQuantity} left)`);
+      return;
+    }
+
+    if (paymentMethod === 'CASH' && (tenderedAmount === null || change === null)) {
+      toast.error('Enter the cash tendered; it must cover the total');
+      tenderedRef.current?.focus();
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/sales', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(saleRequestBody(cart, paymentMethod, { rates: taxRates, discount: orderDiscount })),
+      });
+
+      if (!response.ok) {
+        throw new Error(await responseError(response, 'Failed to complete sale'));
+      }
+
+      const sale = await response.json();
+      setLastSale({
+        id: sale.id,
+        total,
+        tendered: paymentMethod === 'CASH' ? tenderedAmount : null,
+        change: paymentMethod === 'CASH' ? change : null,
+      });
+      dispatch({ type: 'clear' });
+      setTendered('');
+      setDiscountValue('');
+      setPaymentMethod('CASH');
+
+      // Businesses that connected Stripe take card sales online; the card is entered next
+      if (sale.paymentIntent) {
+        setCardPayment({
+          saleId: sale.id,
+          amount: total,
+          paymentId: sale.paymentIntent.id,
+          clientSecret: sale.paymentIntent.clientSecret,
+          accountId: sale.paymentIntent.accountId,
+        });
+        return;
+      }
+      toast.success('Sale completed');
+    } catch (error) {
+      console.error('Error creating sale:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to complete sale');
+    } finally {
+      setIsSubmitting(false);
+      focusScan();
+    }
+  };
+
+  const handleCardPaymentClosed = (paid: boolean) => {
+    setCardPayment(null);
+    if (paid) {
+      toast.success('Card payment received');
+    } else {
+      toast.warning('The sale stays pending until its card payment goes through. Take it later from the sales history.');
+    }
+    focusScan();
+  };
+
+  // Hotkeys work wherever focus is, so the counter never needs the mouse
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const inScan = event.target === scanRef.current;
+    const inTendered = event.target === tenderedRef.current;
+    const codeEmpty = code.trim() === '';
+
+    // The card payment dialog has keys of its own
+    if (cardPayment) {
+      return;
+    }
+
+    if (options) {
+      const index = parseInt(event.key, 10);
+      if (!Number.isNaN(index) && index >= 1) {
+        event.preventDefault();
+        chooseOption(index - 1);
+      } else if (event.key === 'Escape') {
+        event.preventDefault();
+        setOptions(null);
+        focusScan();
+      }
+      return;
+    }
+
+    switch (event.key) {
+      case 'F2':
+        event.preventDefault();
+        focusScan();
+        return;
+      case 'F3':
+        event.preventDefault();
+        discountRef.current?.focus();
+        discountRef.current?.select();
+        return;
+      case 'F4':
+        event.preventDefault();
+        setPaymentMethod('CASH');
+        tenderedRef.current?.focus();
+        tenderedRef.current?.select();
+        return;
+      case 'F5':
+        event.preventDefault();
+        setPaymentMethod('CASH');
+        setTendered(total.toFixed(2));
+        return;
+      case 'F6':
+      case 'F7':
+      case 'F8':
+        event.preventDefault();
+        setPaymentMethod(PAYMENT_OPTIONS[Number(event.key.slice(1)) - 6].value);
+        return;
+      case 'F9':
+        event.preventDefault();
+        handleCheckout();
+        return;
+      case 'F12':
+        event.preventDefault();
+        voidSale();
+        return;
+      case 'Escape':
+        event.preventDefault();
+        setCode('');
+        focusScan();
+        return;
+      case 'Enter':
+        if (inScan) {
+          event.preventDefault();
+          if (codeEmpty) {
+            // A second Enter on an empty scan field goes on to payment
+            tenderedRef.current?.focus();
+          } else {
+            handleScan();
+          }
+        } else if (inTendered) {
+          event.preventDefault();
+          handleCheckout();
+        }
+        return;
+    }
+
+    // Line hotkeys only apply from the scan field, and not while a code is being typed
+    if (!inScan || !codeEmpty || cart.selected === -1) {
+      return;
+    }
+    const line = cart.lines[cart.selected];
+    if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      dispatch({ type: 'select', index: cart.selected + (event.key === 'ArrowUp' ? -1 : 1) });
+    } else if (event.key === '+' || event.key === '=') {
+      event.preventDefault();
+      dispatch({ type: 'setQuantity', index: cart.selected, quantity: line.quantity + 1 });
+    } else if (event.key === '-') {
+      event.preventDefault();
+      dispatch({ type: 'setQuantity', index: cart.selected, quantity: line.quantity - 1 });
+    } else if (event.key === 'Delete') {
+      event.preventDefault();
+      dispatch({ type: 'remove', index: cart.selected });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col bg-background" onKeyDown={handleKeyDown}>
+      <div className="flex items-center justify-between px-6 py-3 border-b border-border">
+        <h1 className="text-xl font-semibold">Point of Sale</h1>
+        <Link href="/inventory" className="flex items-center text-sm text-muted-foreground hover:text-foreground">
+          <X className="h-4 w-4 mr-1" />
+          Exit
+        </Link>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        <div className="flex flex-col flex-1 min-w-0 p-6 gap-4">
+          <div className="relative">
+            <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 h-6 w-6 text-muted-foreground" />
+            <Input
+              ref={scanRef}
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              placeholder="Scan a barcode or type a SKU"
+              aria-label="Scan a barcode or type a SKU"
+              autoComplete="off"
+              className="h-14 pl-12 text-lg"
+              disabled={isSubmitting}
+            />
+            {isLookingUp && (
+              <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-5 w-5 animate-spin text-muted-foreground" />
+            )}
+          </div>
+
+          {options && (
+            <div className="border rounded-md p-4" role="dialog" aria-label="Choose a variant">
+              <p className="text-sm font-medium mb-2">Which one? Press its number, or Esc to cancel.</p>
+              <ol className="grid gap-1">
+                {options.items.map((option, index) => (
+                  <li key={option.variantId || option.productId}>
+                    <button
+                      type="button"
+                      onClick={() => chooseOption(index)}
+                      className="w-full flex justify-between rounded px-3 py-2 text-left hover:bg-primary/5"
+                    >
+                      <span><span className="font-mono mr-2">{index + 1}</span>{option.name}</span>
+                      <span className="text-muted-foreground">{formatCurrency(option.price)} · {option.stockQuantity} in stock</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          <div className="flex-1 min-h-0 overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right w-[160px]">Quantity</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="w-[50px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cart.lines.length > 0 ? (
+                  cart.lines.map((line, index) => (
+                    <TableRow
+                      key={`${line.productId}:${line.variantId || ''}`}
+                      className={index === cart.selected ? 'bg-primary/10' : undefined}
+                      onClick={() => dispatch({ type: 'select', index })}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{line.name}</div>
+                        {line.sku && <div className="text-xs text-muted-foreground">{line.sku}</div>}
+                        {line.quantity > line.stockQuantity && (
+                          <div className="text-xs text-destructive">Only {line.stockQuantity} in stock</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.price)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            tabIndex={-1}
+                            aria-label={`One less ${line.name}`}
+                            onClick={() => dispatch({ type: 'setQuantity', index, quantity: line.quantity - 1 })}
+                          >
+                            <Minus className="h-4 w-4" />
+                          </Button>
+                          <Input
+                            type="number"
+                            min="1"
+                            value={line.quantity}
+                            aria-label={`Quantity of ${line.name}`}
+                            onChange={e => dispatch({ type: 'setQuantity', index, quantity: parseInt(e.target.value) || 0 })}
+                            className="w-16 text-right"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            tabIndex={-1}
+                            aria-label={`One more ${line.name}`}
+                            onClick={() => dispatch({ type: 'setQuantity', index, quantity: line.quantity + 1 })}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(lineTotal(line))}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          tabIndex={-1}
+                          aria-label={`Remove ${line.name}`}
+                          onClick={() => dispatch({ type: 'remove', index })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-10 text-muted-foreground">
+                      {lastSale ? (
+                        <span className="text-base">
+                          Sale of {formatCurrency(lastSale.total)} completed
+                          {lastSale.change !== null && (
+                            <> · Change due <span className="font-semibold text-foreground">{formatCurrency(lastSale.change)}</span></>
+                          )}
+                          {' · '}
+                          <a
+                            href={`/api/sales/${lastSale.id}/receipt?print=1`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-primary hover:underline"
+                          >
+                            Print receipt
+                          </a>
+                        </span>
+                      ) : (
+                        'Scan an item to start a sale'
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="w-96 shrink-0 border-l border-border p-6 flex flex-col gap-6 overflow-y-auto">
+          <div>
+            <div className="text-sm text-muted-foreground">
+              {cartQuantity(cart)} {cartQuantity(cart) === 1 ? 'item' : 'items'}
+            </div>
+            <div className="text-4xl font-bold">{formatCurrency(total)}</div>
+            {(totals.discountAmount > 0 || totals.taxAmount > 0) && (
+              <dl className="grid grid-cols-[1fr,auto] gap-x-3 mt-2 text-sm text-muted-foreground">
+                <dt>Subtotal</dt>
+                <dd className="text-right">{formatCurrency(totals.subtotal)}</dd>
+                {totals.discountAmount > 0 && (
+                  <>
+                    <dt>Discount</dt>
+                    <dd className="text-right">-{formatCurrency(totals.discountAmount)}</dd>
+                  </>
+                )}
+                <dt>Tax</dt>
+                <dd className="text-right">{formatCurrency(totals.taxAmount)}</dd>
+              </dl>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="discount">Order discount</Label>
+            <div className="flex gap-2 mt-2">
+              <Input
+                id="discount"
+                ref={discountRef}
+                type="number"
+                min="0"
+                step="0.01"
+                inputMode="decimal"
+                value={discountValue}
+                onChange={e => setDiscountValue(e.target.value)}
+                placeholder="None"
+              />
+              {(['PERCENTAGE', 'FIXED'] as const).map(type => (
+                <Button
+                  key={type}
+                  type="button"
+                  variant={discountType === type ? 'default' : 'outline'}
+                  onClick={() => setDiscountType(type)}
+                  aria-label={type === 'PERCENTAGE' ? 'Percent off' : 'Amount off'}
+                >
+                  {type === 'PERCENTAGE' ? '%' : '$'}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label>Payment method</Label>
+            <div className="grid grid-cols-3 gap-2 mt-2">
+              {PAYMENT_OPTIONS.map(option => (
+                <Button
+                  key={option.value}
+                  type="button"
+                  variant={paymentMethod === option.value ? 'default' : 'outline'}
+                  onClick={() => setPaymentMethod(option.value)}
+                  className="flex-col h-auto py-2"
+                >
+                  <span>{option.label}</span>
+                  <span className="text-xs opacity-70">{option.hotkey}</span>
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {paymentMethod === 'CASH' && (
+            <div>
+              <Label htmlFor="tendered">Cash tendered</Label>
+              <Input
+                id="tendered"
+                ref={tenderedRef}
+                type="number"
+                min="0"
+                step="0.01"
+                inputMode="decimal"
+                value={tendered}
+                onChange={e => setTendered(e.target.value)}
+                className="h-12 text-lg mt-2"
+              />
+              <div className="flex justify-between mt-3 text-lg">
+                <span>Change</span>
+                <span className="font-semibold">
+                  {tenderedAmount === null ? '—' : change === null ? 'Not enough' : formatCurrency(change)}
+                </span>
+              </div>
+            </div>
+          )}
+
+          <Button
+            onClick={handleCheckout}
+            disabled={cart.lines.length === 0 || isSubmitting}
+            className="h-14 text-lg"
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Processing...
+              </>
+            ) : (
+              'Complete sale (F9)'
+            )}
+          </Button>
+
+          <dl className="mt-auto grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs text-muted-foreground">
+            {HOTKEYS.map(([key, description]) => (
+              <React.Fragment key={key}>
+                <dt className="font-mono text-foreground/80">{key}</dt>
+                <dd>{description}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </div>
+      </div>
+
+      <CardPaymentDialog payment={cardPayment} onClose={handleCardPaymentClosed} />
+    </div>
+  );
+}
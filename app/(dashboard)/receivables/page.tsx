@@ -0,0 +1,313 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { FileText } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const PAYMENT_METHODS = [
+  { value: 'INVOICE', label: 'Bank transfer / cheque' },
+  { value: 'CASH', label: 'Cash' },
+  { value: 'CREDIT_CARD', label: 'Credit card' },
+  { value: 'DEBIT_CARD', label: 'Debit card' },
+  { value: 'PAYPAL', label: 'PayPal' },
+  { value: 'STRIPE', label: 'Stripe' },
+];
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2
+  }).format(value);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+interface Receivable {
+  saleId: string;
+  invoiceNumber: string | null;
+  customer: { id: string; name: string; email: string | null } | null;
+  date: string;
+  dueDate: string;
+  totalAmount: number;
+  paidAmount: number;
+  balanceDue: number;
+  daysOld: number;
+  daysOverdue: number;
+  bucket: string;
+}
+
+interface AgingReport {
+  asOf: string;
+  totalOutstanding: number;
+  totalOverdue: number;
+  buckets: { label: string; count: number; amount: number }[];
+  sales: Receivable[];
+}
+
+// Errors from the sales routes come back as plain text or as { error, issues }
+async function responseError(response: Response, fallback: string): Promise<string> {
+  const text = await response.text();
+  try {
+    const data = JSON.parse(text);
+    return data.issues?.[0]?.message || data.error || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+export default function ReceivablesPage() {
+  const [report, setReport] = useState<AgingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [bucket, setBucket] = useState<string | null>(null);
+  const [paying, setPaying] = useState<Receivable | null>(null);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState('INVOICE');
+  const [paidAt, setPaidAt] = useState('');
+  const [reference, setReference] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const response = await fetch('/api/receivables');
+      if (!response.ok) throw new Error('Failed to fetch receivables');
+      setReport(await response.json());
+    } catch (error) {
+      console.error('Error fetching receivables:', error);
+      toast.error('Failed to load receivables');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const openPayment = (sale: Receivable) => {
+    setPaying(sale);
+    setAmount(sale.balanceDue.toFixed(2));
+    setMethod('INVOICE');
+    setPaidAt(new Date().toISOString().slice(0, 10));
+    setReference('');
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!paying) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/sales/${paying.saleId}/payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount: Number(amount),
+          method,
+          paidAt: paidAt || undefined,
+          reference: reference.trim() || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        toast.error(await responseError(response, 'Failed to record payment'));
+        return;
+      }
+
+      const data = await response.json();
+      toast.success(data.paymentStatus === 'PAID'
+        ? 'Payment recorded; the sale is paid in full'
+        : `Payment recorded; ${formatCurrency(data.balanceDue)} still owed`);
+      setPaying(null);
+      fetchReport();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error('An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const sales = report?.sales.filter(sale => !bucket || sale.bucket === bucket) ?? [];
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Receivables</h1>
+        <p className="text-muted-foreground">
+          Sales still waiting for payment, by how long ago they were made.
+          {report && ` ${formatCurrency(report.totalOutstanding)} outstanding, ${formatCurrency(report.totalOverdue)} of it overdue.`}
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        {report?.buckets.map(b => (
+          <Card
+            key={b.label}
+            role="button"
+            onClick={() => setBucket(bucket === b.label ? null : b.label)}
+            className={`cursor-pointer ${bucket === b.label ? 'ring-2 ring-primary' : ''}`}
+          >
+            <CardHeader className="pb-2">
+              <CardDescription>{b.label} days</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(b.amount)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {b.count === 1 ? '1 sale' : `${b.count} sales`}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{bucket ? `Sales ${bucket} days old` : 'Open sales'}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sales.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground py-6">
+                    Nothing is owed.
+                  </TableCell>
+                </TableRow>
+              ) : sales.map(sale => (
+                <TableRow key={sale.saleId}>
+                  <TableCell>
+                    <a
+                      href={`/api/sales/${sale.saleId}/invoice`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center gap-1 text-primary hover:underline"
+                    >
+                      <FileText className="h-4 w-4" />
+                      {sale.invoiceNumber || 'Invoice'}
+                    </a>
+                  </TableCell>
+                  <TableCell>{sale.customer?.name || '—'}</TableCell>
+                  <TableCell>{formatDate(sale.date)}</TableCell>
+                  <TableCell>
+                    {formatDate(sale.dueDate)}
+                    {sale.daysOverdue > 0 && (
+                      <Badge variant="destructive" className="ml-2">{sale.daysOverdue}d overdue</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(sale.totalAmount)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(sale.paidAmount)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(sale.balanceDue)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="outline" onClick={() => openPayment(sale)}>
+                      Record payment
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={paying !== null} onOpenChange={(open) => !open && setPaying(null)}>
+        <DialogContent>
+          <form onSubmit={handleRecordPayment} className="grid gap-4">
+            <DialogHeader>
+              <DialogTitle>Record payment</DialogTitle>
+              <DialogDescription>
+                {paying && `${paying.invoiceNumber || 'Sale'}${paying.customer ? ` for ${paying.customer.name}` : ''}: ${formatCurrency(paying.balanceDue)} still owed.`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-2">
+              <Label htmlFor="paymentAmount">Amount</Label>
+              <Input
+                id="paymentAmount"
+                type="number"
+                min="0.01"
+                max={paying?.balanceDue}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="paymentMethod">Method</Label>
+              <Select value={method} onValueChange={setMethod}>
+                <SelectTrigger id="paymentMethod">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="paymentDate">Received on</Label>
+              <Input id="paymentDate" type="date" value={paidAt} onChange={(e) => setPaidAt(e.target.value)} />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="paymentReference">Reference</Label>
+              <Input
+                id="paymentReference"
+                placeholder="Cheque number or transfer reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setPaying(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : 'Record Payment'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
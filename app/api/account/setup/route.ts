@@ -1,16 +1,21 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { AccountSetupBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
 
 export async function POST(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
-    const body = await req.json();
+    const body = await parseBody(req, AccountSetupBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
     const {
       businessName,
       industry,
@@ -24,15 +29,14 @@ export async function POST(req: Request) {
       taxId,
     } = body;
 
-    // Validate required fields
-    if (!businessName) {
-      return new NextResponse("Business name is required", { status: 400 });
-    }
+    const existingProfile = await prisma.businessProfile.findUnique({
+      where: { userId: session.user.ownerId },
+    });
 
     // Create or update business profile
     const businessProfile = await prisma.businessProfile.upsert({
       where: {
-        userId: session.user.id,
+        userId: session.user.ownerId,
       },
       update: {
         businessName,
@@ -57,10 +61,18 @@ export async function POST(req: Request) {
         phone,
         website,
         taxId,
-        userId: session.user.id,
+        userId: session.user.ownerId,
       },
     });
 
+    await recordAudit(prisma, session, {
+      action: existingProfile ? 'update' : 'create',
+      entityType: 'BusinessProfile',
+      entityId: businessProfile.id,
+      before: existingProfile,
+      after: businessProfile,
+    });
+
     // Update onboarding status
     await prisma.onboarding.upsert({
       where: {
@@ -80,22 +92,22 @@ export async function POST(req: Request) {
     return NextResponse.json(businessProfile);
   } catch (error) {
     console.error("Error setting up account:", error);
-    return new NextResponse("Internal Server Error", { status: 500 });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 }
 
 export async function GET(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     // Get business profile and onboarding status
     const [businessProfile, onboarding] = await Promise.all([
       prisma.businessProfile.findUnique({
         where: {
-          userId: session.user.id,
+          userId: session.user.ownerId,
         },
       }),
       prisma.onboarding.findUnique({
@@ -111,6 +123,6 @@ export async function GET(req: Request) {
     });
   } catch (error) {
     console.error("Error fetching account setup:", error);
-    return new NextResponse("Internal Server Error", { status: 500 });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 } 
\ No newline at end of file
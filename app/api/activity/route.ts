@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import prisma from '@/lib/prisma';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorize';
+import { ReplenishmentCalculator } from '@/lib/analytics/replenishment';
 
 interface Activity {
   type: 'sale' | 'inventory' | 'alert';
@@ -14,15 +14,15 @@ interface Activity {
 
 export async function GET(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission('VIEW_REPORTS');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     // Get recent sales
     const recentSales = await prisma.sale.findMany({
       where: {
-        userId: session.user.id,
+        userId: session.user.ownerId,
       },
       orderBy: {
         createdAt: 'desc',
@@ -37,19 +37,11 @@ export async function GET(req: Request) {
       },
     });
 
-    // Get recent low stock alerts
-    const lowStockProducts = await prisma.product.findMany({
-      where: {
-        userId: session.user.id,
-        stockQuantity: {
-          lte: 10,
-        },
-      },
-      orderBy: {
-        stockQuantity: 'asc',
-      },
-      take: 5,
-    });
+    // Get the most urgent low stock alerts, judged against each product's reorder point
+    const replenishment = await new ReplenishmentCalculator(prisma).calculateReplenishment(session.user.ownerId);
+    const lowStockProducts = replenishment.suggestions
+      .filter(suggestion => suggestion.status !== 'ok')
+      .slice(0, 5);
 
     // Format activities
     const activities: Activity[] = [
@@ -64,7 +56,7 @@ export async function GET(req: Request) {
       ...lowStockProducts.map((product): Activity => ({
         type: 'alert',
         title: 'Low Stock Alert',
-        description: `${product.name} is running low (${product.stockQuantity} units remaining)`,
+        description: `${product.productName} is running low (${product.stockQuantity} units remaining)`,
         timestamp: new Date(),
         icon: 'AlertTriangle',
         color: 'red',
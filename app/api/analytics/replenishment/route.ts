@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { DEFAULT_ORDER_COVER_DAYS, ReplenishmentCalculator } from '@/lib/analytics/replenishment';
+import { DatabaseError } from '@/lib/analytics/utils';
+import { requirePermission } from '@/lib/authorize';
+
+// GET /api/analytics/replenishment - Reorder points and suggested order quantities per product
+// Query: timeRange (days of sales used for velocity, default 30), cover (days an order should last),
+// status (out_of_stock | reorder | ok | needs_reorder) and limit
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requirePermission(['MANAGE_INVENTORY', 'VIEW_ANALYTICS']);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const timeRangeInDays = parseInt(searchParams.get('timeRange') || '30', 10);
+    const orderCoverDays = parseInt(searchParams.get('cover') || String(DEFAULT_ORDER_COVER_DAYS), 10);
+    const status = searchParams.get('status');
+    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit') as string, 10) : undefined;
+
+    if (isNaN(timeRangeInDays) || timeRangeInDays <= 0 || isNaN(orderCoverDays) || orderCoverDays < 0) {
+      return NextResponse.json({ error: 'Invalid time range or cover days' }, { status: 400 });
+    }
+
+    const calculator = new ReplenishmentCalculator(prisma);
+    const results = await calculator.calculateReplenishment(
+      session.user.ownerId,
+      timeRangeInDays,
+      orderCoverDays
+    );
+
+    let suggestions = results.suggestions;
+    if (status === 'needs_reorder') {
+      suggestions = suggestions.filter(suggestion => suggestion.status !== 'ok');
+    } else if (status) {
+      suggestions = suggestions.filter(suggestion => suggestion.status === status);
+    }
+    if (limit && limit > 0) {
+      suggestions = suggestions.slice(0, limit);
+    }
+
+    return NextResponse.json({ ...results, suggestions });
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      return NextResponse.json({
+        error: 'Database connection error. Please try again later.'
+      }, { status: 503 });
+    }
+    console.error('Error calculating replenishment suggestions:', error);
+    return NextResponse.json({
+      error: 'Failed to calculate replenishment suggestions.'
+    }, { status: 500 });
+  }
+}
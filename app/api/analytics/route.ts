@@ -1,7 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import prisma from '@/lib/prisma';
-import { authOptions } from '@/lib/auth';
 import {
   ProjectedEarningsCalculator,
   DatabaseConnectionError,
@@ -15,6 +13,7 @@ import {
   RevenueOverTime,
   type RevenueDataPoint
 } from '@/lib/analytics/revenue-over-time';
+import { requirePermission } from '@/lib/authorize';
 
 // Function to generate mock price recommendations as fallback
 function getMockPriceRecommendations(): PriceRecommendation[] {
@@ -96,17 +95,17 @@ interface DailySalesItem {
 // GET /api/analytics - Get analytics data
 export async function GET(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    // Make sure user is logged in
-    if (!session?.user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const session = await requirePermission('VIEW_ANALYTICS');
+    if (session instanceof NextResponse) {
+      return session;
     }
     
     // Extract timeRange and confidence parameters from query string
     const { searchParams } = new URL(req.url);
     const timeRangeParam = searchParams.get("timeRange") || "30";
     const confidenceParam = searchParams.get("confidence") || "all";
+    // revenue=pre-tax reports revenue without the sales tax collected
+    const excludeTax = searchParams.get("revenue") === "pre-tax";
     
     // Validate confidence parameter
     const confidenceLevel = ['high', 'medium', 'low', 'all'].includes(confidenceParam as string) 
@@ -182,7 +181,9 @@ export async function GET(req: Request) {
       const revenueAnalyzer = new RevenueOverTime(prisma);
       const revenueTrends = await revenueAnalyzer.analyzeRevenue(
         timeRange,
-        session?.user?.id
+        session.user.ownerId,
+        false,
+        excludeTax
       );
       
       console.log(`[DEBUG API] Revenue trends analysis complete with ${revenueTrends.data.length} data points`);
@@ -238,7 +239,7 @@ export async function GET(req: Request) {
       const start = Date.now();
       const projectedEarningsData = await projectedEarningsCalculator.calculateProjectedEarnings(
         timeRange, 
-        session?.user?.id
+        session.user.ownerId
       );
       const end = Date.now();
       
@@ -305,7 +306,7 @@ export async function GET(req: Request) {
         recommendationsData = await priceCalculator.getPriceRecommendations(
           90, // We use 90 days of data for price analysis by default
           confidenceLevel as 'high' | 'medium' | 'low' | 'all',
-          session?.user?.id
+          session.user.ownerId
         );
         
         // Log recommendations for debugging
@@ -344,6 +345,7 @@ export async function GET(req: Request) {
     return NextResponse.json({
       totalSales,
       totalRevenue,
+      revenueIncludesTax: !excludeTax,
       averageOrderValue,
       topSellingProducts,
       salesByCategory,
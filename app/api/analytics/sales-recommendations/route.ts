@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SalesRecommendationCalculator, DatabaseConnectionError, InsufficientDataError } from '@/lib/analytics/sales-recommendations';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { getMockSalesRecommendations } from '@/lib/mock-data';
+import { requirePermission } from '@/lib/authorize';
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,6 +10,7 @@ export async function GET(request: NextRequest) {
     const timeRange = searchParams.get('timeRange');
     const confidenceLevel = searchParams.get('confidence') as 'high' | 'medium' | 'low' | null;
     const useMockData = searchParams.get('mock') === 'true'; // Allow forcing mock data
+    const rollup = searchParams.get('rollup') === 'variant' ? 'variant' : 'product';
     
     // Convert time range to days
     const timeRangeInDays = timeRange ? parseInt(timeRange, 10) : 90;
@@ -18,13 +18,12 @@ export async function GET(request: NextRequest) {
     // Check authentication only in production mode
     let userId = undefined;
     if (process.env.NODE_ENV === 'production' && !useMockData) {
-      const session = await getServerSession(authOptions);
-      
-      if (!session?.user) {
-        return NextResponse.json({ error: 'Unauthorized. Please log in to view sales recommendations.' }, { status: 401 });
+      const session = await requirePermission('VIEW_ANALYTICS');
+      if (session instanceof NextResponse) {
+        return session;
       }
       
-      userId = session.user.id;
+      userId = session.user.ownerId;
     }
     
     // In development or when forcing mock data, use mock data
@@ -39,7 +38,8 @@ export async function GET(request: NextRequest) {
       const results = await calculator.calculateSalesRecommendations(
         timeRangeInDays,
         userId,
-        confidenceLevel || 'medium'
+        confidenceLevel || 'medium',
+        rollup
       );
       
       return NextResponse.json(results);
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { API_KEY_SELECT } from '@/lib/api-keys';
+
+// DELETE /api/api-keys/[keyId] - Revoke an API key so requests with it are refused
+export async function DELETE(
+  req: Request,
+  { params }: { params: { keyId: string } }
+) {
+  try {
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const apiKey = await prisma.apiKey.findFirst({
+      where: {
+        id: params.keyId,
+        userId: session.user.id,
+      },
+      select: API_KEY_SELECT,
+    });
+
+    if (!apiKey) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    if (apiKey.revokedAt) {
+      return NextResponse.json(apiKey);
+    }
+
+    const revoked = await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { revokedAt: new Date() },
+      select: API_KEY_SELECT,
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'ApiKey',
+      entityId: revoked.id,
+      before: apiKey,
+      after: revoked,
+      summary: `Revoked the API key "${revoked.name}"`,
+    });
+
+    return NextResponse.json(revoked);
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { API_KEY_SELECT, ApiKeyError, apiKeySettings, createApiKey } from '@/lib/api-keys';
+import { CreateApiKeyBody } from '@/lib/schemas';
+import { parseBody, validationErrorResponse } from '@/lib/validation';
+
+// GET /api/api-keys - The signed-in user's API keys, including revoked ones
+export async function GET() {
+  try {
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { userId: session.user.id },
+      select: API_KEY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(apiKeys);
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/api-keys - Create an API key that acts as the signed-in user
+// Body: { name, scopes, expiresInDays?, rateLimitPerMinute? }
+export async function POST(req: Request) {
+  try {
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, CreateApiKeyBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    let settings;
+    try {
+      settings = apiKeySettings(body, session.user.permissions);
+    } catch (error) {
+      if (error instanceof ApiKeyError) {
+        return validationErrorResponse('Invalid request body', [{ path: 'scopes', message: error.message }]);
+      }
+      throw error;
+    }
+
+    const { key, hashedKey, prefix } = createApiKey();
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        ...settings,
+        prefix,
+        hashedKey,
+        userId: session.user.id,
+      },
+      select: API_KEY_SELECT,
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'create',
+      entityType: 'ApiKey',
+      entityId: apiKey.id,
+      after: apiKey,
+      summary: `Created the API key "${apiKey.name}" (${apiKey.scopes.join(', ')})`,
+    });
+
+    // The key itself is only returned here; it cannot be recovered later
+    return NextResponse.json({ apiKey, key }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+
+// GET /api/audit - List the business's audit trail, newest first
+// Filters: entityType, entityId, actorId, action, from, to (ISO dates); paged with page and limit
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '25')));
+
+    const where: Prisma.AuditEventWhereInput = {
+      businessId: session.user.ownerId,
+    };
+
+    const entityType = searchParams.get('entityType');
+    if (entityType) {
+      where.entityType = entityType;
+    }
+
+    const entityId = searchParams.get('entityId');
+    if (entityId) {
+      where.entityId = entityId;
+    }
+
+    const actorId = searchParams.get('actorId');
+    if (actorId) {
+      where.actorId = actorId;
+    }
+
+    const action = searchParams.get('action');
+    if (action) {
+      if (!['create', 'update', 'delete'].includes(action)) {
+        return NextResponse.json({ error: 'Invalid action filter' }, { status: 400 });
+      }
+      where.action = action;
+    }
+
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if (from || to) {
+      const fromDate = from ? new Date(from) : null;
+      const toDate = to ? new Date(to) : null;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+      }
+
+      where.createdAt = {
+        gte: fromDate || undefined,
+        lte: toDate || undefined,
+      };
+    }
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        include: {
+          actor: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      events,
+      total,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit events' },
+      { status: 500 }
+    );
+  }
+}
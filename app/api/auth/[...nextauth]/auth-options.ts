@@ -4,6 +4,7 @@ import { PrismaClient } from '@prisma/client';
 import { compare } from 'bcryptjs';
 import '../types'; // Import type augmentation
 import prisma from '@/lib/prisma'; // Use the singleton Prisma instance
+import { resolvePermissions } from '@/lib/permissions';
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -39,7 +40,7 @@ export const authOptions: NextAuthOptions = {
           email: user.email,
           name: user.name,
           role: user.role,
-          permissions: user.permissions || []
+          permissions: resolvePermissions(user)
         };
       },
     }),
@@ -0,0 +1,172 @@
+import { NextResponse } from 'next/server';
+import { hash } from 'bcryptjs';
+import prisma from '@/lib/prisma';
+import { recordAudit } from '@/lib/audit';
+import {
+  assertAcceptable,
+  hashInviteToken,
+  INVITEE_ONBOARDING_STEPS,
+  inviteIdFromIdentifier,
+  InviteError,
+} from '@/lib/invites';
+import { AcceptInviteBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// Looks up the invite a link token belongs to
+async function findInviteByToken(token: string | null | undefined) {
+  if (!token) {
+    throw new InviteError('Invitation token is required');
+  }
+
+  const verificationToken = await prisma.verificationToken.findUnique({
+    where: { token: hashInviteToken(token) },
+  });
+
+  const inviteId = verificationToken && inviteIdFromIdentifier(verificationToken.identifier);
+  if (!verificationToken || !inviteId) {
+    throw new InviteError('This invitation link is invalid or has already been used');
+  }
+
+  const invite = await prisma.employeeInvite.findUnique({
+    where: { id: inviteId },
+    include: {
+      business: {
+        select: {
+          name: true,
+          businessProfile: {
+            select: { businessName: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!invite) {
+    throw new InviteError('This invitation link is invalid or has already been used');
+  }
+
+  assertAcceptable(invite);
+
+  return { invite, verificationToken };
+}
+
+// GET /api/auth/invite?token= - Show who an invitation is for before accepting it
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { invite } = await findInviteByToken(searchParams.get('token'));
+
+    return NextResponse.json({
+      email: invite.email,
+      name: invite.name,
+      role: invite.role,
+      expiresAt: invite.expiresAt,
+      businessName: invite.business.businessProfile?.businessName || invite.business.name,
+    });
+  } catch (error) {
+    if (error instanceof InviteError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error loading invite:', error);
+    return NextResponse.json(
+      { error: 'Something went wrong' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/auth/invite - Accept an invitation and create the employee's account
+// Body: { token, name, password }
+export async function POST(request: Request) {
+  try {
+    const body = await parseBody(request, AcceptInviteBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { token, name, password } = body;
+
+    const { invite, verificationToken } = await findInviteByToken(token);
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: invite.email },
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'User already exists' },
+        { status: 400 }
+      );
+    }
+
+    const hashedPassword = await hash(password, 12);
+
+    const { employee: user, acceptedInvite } = await prisma.$transaction(async (tx) => {
+      // Deleting the token first makes the link single-use even if two requests race
+      await tx.verificationToken.delete({
+        where: { token: verificationToken.token },
+      });
+
+      const employee = await tx.user.create({
+        data: {
+          name,
+          email: invite.email,
+          hashedPassword,
+          role: invite.role,
+          businessId: invite.businessId,
+        },
+      });
+
+      // Employees work in the owner's store, so the owner setup wizard is skipped
+      await tx.onboarding.create({
+        data: {
+          userId: employee.id,
+          completed: true,
+          completedSteps: INVITEE_ONBOARDING_STEPS,
+        },
+      });
+
+      const acceptedInvite = await tx.employeeInvite.update({
+        where: { id: invite.id },
+        data: {
+          status: 'ACCEPTED',
+          acceptedAt: new Date(),
+          acceptedById: employee.id,
+        },
+      });
+
+      return { employee, acceptedInvite };
+    });
+
+    // The new employee is the actor; there is no signed-in session yet
+    await recordAudit(prisma, { user: { id: user.id, ownerId: invite.businessId } }, {
+      action: 'update',
+      entityType: 'EmployeeInvite',
+      entityId: invite.id,
+      before: invite,
+      after: acceptedInvite,
+      summary: `${user.email} accepted the invitation`,
+    });
+
+    return NextResponse.json(
+      {
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          businessId: user.businessId,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof InviteError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error accepting invite:', error);
+    return NextResponse.json(
+      { error: 'Something went wrong' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,56 +2,24 @@ import { NextResponse } from 'next/server';
 import { hash } from 'bcryptjs';
 import { Role } from '@prisma/client';
 import prisma from '@/app/api/prisma';
+import { ROLE_PERMISSIONS } from '@/lib/permissions';
 
 // Debug environment variables
 console.log("API Route - DATABASE_URL:", process.env.DATABASE_URL);
 
-// Map the frontend roles to database roles and assign default permissions
+// Map the frontend roles to database roles and their default permissions
 const getRoleAndPermissions = (role: string): { role: Role, permissions: string[] } => {
   switch (role) {
     case 'BUSINESS_ADMIN':
-      return {
-        role: 'ADMIN' as Role,
-        permissions: [
-          'MANAGE_INVENTORY', 
-          'MANAGE_SALES', 
-          'VIEW_REPORTS', 
-          'MANAGE_EMPLOYEES', 
-          'MANAGE_SETTINGS', 
-          'VIEW_ANALYTICS'
-        ]
-      };
+      return { role: 'ADMIN', permissions: ROLE_PERMISSIONS.ADMIN };
     case 'MANAGER':
-      return {
-        role: 'MANAGER' as Role,
-        permissions: [
-          'MANAGE_INVENTORY', 
-          'MANAGE_SALES', 
-          'VIEW_REPORTS', 
-          'VIEW_ANALYTICS'
-        ]
-      };
+      return { role: 'MANAGER', permissions: ROLE_PERMISSIONS.MANAGER };
     case 'SALES_REP':
-      return {
-        role: 'SALES_REP' as Role,
-        permissions: [
-          'MANAGE_SALES', 
-          'VIEW_REPORTS'
-        ]
-      };
+      return { role: 'SALES_REP', permissions: ROLE_PERMISSIONS.SALES_REP };
     case 'INVENTORY_MANAGER':
-      return {
-        role: 'INVENTORY_MANAGER' as Role,
-        permissions: [
-          'MANAGE_INVENTORY', 
-          'VIEW_REPORTS'
-        ]
-      };
+      return { role: 'INVENTORY_MANAGER', permissions: ROLE_PERMISSIONS.INVENTORY_MANAGER };
     default:
-      return {
-        role: 'USER' as Role,
-        permissions: ['VIEW_REPORTS']
-      };
+      return { role: 'USER', permissions: ROLE_PERMISSIONS.USER };
   }
 };
 
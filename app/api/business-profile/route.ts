@@ -1,19 +1,20 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { BusinessProfileBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
 
 // Get business profile for the current user
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
     
     const businessProfile = await prisma.businessProfile.findUnique({
-      where: { userId: session.user.id },
+      where: { userId: session.user.ownerId },
     });
     
     if (!businessProfile) {
@@ -34,17 +35,19 @@ export async function GET() {
 // Update business profile for the current user
 export async function PUT(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
     }
     
-    const data = await request.json();
-    
+    const data = await parseBody(request, BusinessProfileBody);
+    if (data instanceof NextResponse) {
+      return data;
+    }
+
     // Check if business profile exists
     const existingProfile = await prisma.businessProfile.findUnique({
-      where: { userId: session.user.id },
+      where: { userId: session.user.ownerId },
     });
     
     let businessProfile;
@@ -52,7 +55,7 @@ export async function PUT(request: Request) {
     if (existingProfile) {
       // Update existing profile
       businessProfile = await prisma.businessProfile.update({
-        where: { userId: session.user.id },
+        where: { userId: session.user.ownerId },
         data,
       });
     } else {
@@ -60,11 +63,19 @@ export async function PUT(request: Request) {
       businessProfile = await prisma.businessProfile.create({
         data: {
           ...data,
-          userId: session.user.id,
+          userId: session.user.ownerId,
         },
       });
     }
     
+    await recordAudit(prisma, session, {
+      action: existingProfile ? 'update' : 'create',
+      entityType: 'BusinessProfile',
+      entityId: businessProfile.id,
+      before: existingProfile,
+      after: businessProfile,
+    });
+
     return NextResponse.json(businessProfile);
   } catch (error) {
     console.error('Error updating business profile:', error);
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { parseBearerToken } from '@/lib/api-keys';
+import { sendDigests } from '@/lib/digest';
+
+// GET /api/cron/digests - Email the daily digests, and the weekly ones on Mondays. Call it once
+// each morning from a scheduler with "Authorization: Bearer <CRON_SECRET>".
+export async function GET(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || parseBearerToken(req.headers.get('authorization')) !== cronSecret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await sendDigests(prisma);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error sending digests:', error);
+    return NextResponse.json(
+      { error: 'Failed to send digests' },
+      { status: 500 }
+    );
+  }
+}
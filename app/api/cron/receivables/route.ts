@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { parseBearerToken } from '@/lib/api-keys';
+import { sendOverdueReminders } from '@/lib/receivables';
+
+// GET /api/cron/receivables - Notify businesses about overdue sales. Call it once a day from a
+// scheduler with "Authorization: Bearer <CRON_SECRET>".
+export async function GET(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || parseBearerToken(req.headers.get('authorization')) !== cronSecret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const reminded = await sendOverdueReminders(prisma);
+    return NextResponse.json({ reminded });
+  } catch (error) {
+    console.error('Error sending overdue reminders:', error);
+    return NextResponse.json(
+      { error: 'Failed to send overdue reminders' },
+      { status: 500 }
+    );
+  }
+}
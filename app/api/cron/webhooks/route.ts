@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { parseBearerToken } from '@/lib/api-keys';
+import { retryDueDeliveries } from '@/lib/webhooks';
+
+// GET /api/cron/webhooks - Retry webhook deliveries that are due. Call it every minute from a
+// scheduler with "Authorization: Bearer <CRON_SECRET>".
+export async function GET(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || parseBearerToken(req.headers.get('authorization')) !== cronSecret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const attempted = await retryDueDeliveries(prisma);
+    return NextResponse.json({ attempted });
+  } catch (error) {
+    console.error('Error retrying webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
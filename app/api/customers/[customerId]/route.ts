@@ -0,0 +1,206 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { UpdateCustomerBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// GET /api/customers/[customerId] - Get a customer with purchase summary
+export async function GET(
+  req: Request,
+  { params }: { params: { customerId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const customer = await prisma.customer.findFirst({
+      where: {
+        id: params.customerId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        sales: {
+          orderBy: { date: 'desc' },
+          take: 10,
+          include: {
+            items: true,
+          },
+        },
+      },
+    });
+
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    const purchaseStats = await prisma.sale.aggregate({
+      where: { customerId: customer.id },
+      _count: { _all: true },
+      _sum: { totalAmount: true },
+      _min: { date: true },
+      _max: { date: true },
+    });
+
+    return NextResponse.json({
+      ...customer,
+      stats: {
+        totalOrders: purchaseStats._count._all,
+        totalSpent: purchaseStats._sum.totalAmount || 0,
+        firstPurchaseAt: purchaseStats._min.date,
+        lastPurchaseAt: purchaseStats._max.date,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching customer:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch customer' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/customers/[customerId] - Update a customer
+export async function PUT(
+  req: Request,
+  { params }: { params: { customerId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const existingCustomer = await prisma.customer.findFirst({
+      where: {
+        id: params.customerId,
+        userId: session.user.ownerId,
+      },
+    });
+
+    if (!existingCustomer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    const data = await parseBody(req, UpdateCustomerBody);
+    if (data instanceof NextResponse) {
+      return data;
+    }
+
+    // Check if email is being changed to one that is already in use
+    if (data.email && data.email !== existingCustomer.email) {
+      const duplicateEmail = await prisma.customer.findFirst({
+        where: {
+          email: { equals: data.email, mode: 'insensitive' },
+          userId: session.user.ownerId,
+          id: { not: existingCustomer.id },
+        },
+      });
+
+      if (duplicateEmail) {
+        return NextResponse.json(
+          { error: 'A customer with this email already exists' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const customer = await prisma.customer.update({
+      where: { id: existingCustomer.id },
+      data: {
+        name: data.name,
+        email: data.email !== undefined ? data.email || null : undefined,
+        phone: data.phone !== undefined ? data.phone || null : undefined,
+        address: data.address !== undefined ? data.address || null : undefined,
+        notes: data.notes !== undefined ? data.notes || null : undefined,
+        isActive: data.isActive,
+      },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'Customer',
+      entityId: customer.id,
+      before: existingCustomer,
+      after: customer,
+    });
+
+    return NextResponse.json(customer);
+  } catch (error) {
+    console.error('Error updating customer:', error);
+    return NextResponse.json(
+      { error: 'Failed to update customer' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/customers/[customerId] - Delete a customer
+// Customers with purchase history are deactivated instead so sales keep their attribution
+export async function DELETE(
+  req: Request,
+  { params }: { params: { customerId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const existingCustomer = await prisma.customer.findFirst({
+      where: {
+        id: params.customerId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        _count: {
+          select: { sales: true },
+        },
+      },
+    });
+
+    if (!existingCustomer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    if (existingCustomer._count.sales > 0) {
+      const deactivated = await prisma.customer.update({
+        where: { id: existingCustomer.id },
+        data: { isActive: false },
+      });
+
+      await recordAudit(prisma, session, {
+        action: 'update',
+        entityType: 'Customer',
+        entityId: deactivated.id,
+        before: existingCustomer,
+        after: deactivated,
+        summary: `Deactivated customer ${deactivated.name}`,
+      });
+
+      return NextResponse.json({ message: 'Customer deactivated', deactivated: true });
+    }
+
+    await prisma.customer.delete({
+      where: { id: existingCustomer.id },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'delete',
+      entityType: 'Customer',
+      entityId: existingCustomer.id,
+      before: existingCustomer,
+      summary: `Deleted customer ${existingCustomer.name}`,
+    });
+
+    return NextResponse.json({ message: 'Customer deleted successfully', deactivated: false });
+  } catch (error) {
+    console.error('Error deleting customer:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete customer' },
+      { status: 500 }
+    );
+  }
+}
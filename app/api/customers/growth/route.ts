@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import {
+  CUSTOMER_GROWTH_PERIODS,
+  CustomerGrowthPeriod,
+  loadCustomerGrowth,
+} from '@/lib/analytics/customer-growth';
+
+// GET /api/customers/growth - New and total customers per period, by first purchase
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission(['MANAGE_SALES', 'VIEW_ANALYTICS']);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const period = (searchParams.get('period') || 'month') as CustomerGrowthPeriod;
+    if (!CUSTOMER_GROWTH_PERIODS.includes(period)) {
+      return NextResponse.json(
+        { error: `period must be one of ${CUSTOMER_GROWTH_PERIODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const growth = await loadCustomerGrowth(prisma, period, session.user.ownerId);
+
+    return NextResponse.json({ period, growth });
+  } catch (error) {
+    console.error('Error fetching customer growth:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch customer growth' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { CreateCustomerBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// GET /api/customers - List customers with optional search and pagination
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const search = searchParams.get('search')?.trim();
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    const whereClause: any = {
+      userId: session.user.ownerId,
+    };
+
+    if (!includeInactive) {
+      whereClause.isActive = true;
+    }
+
+    if (search) {
+      whereClause.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+        { phone: { contains: search } },
+      ];
+    }
+
+    const customers = await prisma.customer.findMany({
+      where: whereClause,
+      include: {
+        _count: {
+          select: { sales: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const total = await prisma.customer.count({
+      where: whereClause,
+    });
+
+    return NextResponse.json({
+      customers,
+      total,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (error) {
+    console.error('Error fetching customers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch customers' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/customers - Create a new customer
+export async function POST(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, CreateCustomerBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { name, email, phone, address, notes } = body;
+
+    // Email is optional, but must be unique within this store when provided
+    if (email) {
+      const existingCustomer = await prisma.customer.findFirst({
+        where: {
+          email: { equals: email, mode: 'insensitive' },
+          userId: session.user.ownerId,
+        },
+      });
+
+      if (existingCustomer) {
+        return NextResponse.json(
+          { error: 'A customer with this email already exists' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const customer = await prisma.customer.create({
+      data: {
+        name,
+        email: email || null,
+        phone: phone || null,
+        address: address || null,
+        notes: notes || null,
+        userId: session.user.ownerId,
+      },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'create',
+      entityType: 'Customer',
+      entityId: customer.id,
+      after: customer,
+      summary: `Created customer ${customer.name}`,
+    });
+
+    return NextResponse.json(customer, { status: 201 });
+  } catch (error) {
+    console.error('Error creating customer:', error);
+    return NextResponse.json(
+      { error: 'Failed to create customer' },
+      { status: 500 }
+    );
+  }
+}
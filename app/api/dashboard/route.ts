@@ -1,33 +1,50 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { RevenueOverTime } from '@/lib/analytics/revenue-over-time';
 import { ProjectedEarningsCalculator } from '@/lib/analytics/projected-earnings';
+import { ReplenishmentCalculator, stockStatus } from '@/lib/analytics/replenishment';
+import { requirePermission } from '@/lib/authorize';
 
 export async function GET(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    // Make sure user is logged in
-    if (!session?.user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const session = await requirePermission('VIEW_REPORTS');
+    if (session instanceof NextResponse) {
+      return session;
     }
     
-    const userId = session.user.id;
+    const userId = session.user.ownerId;
+    
+    // Optional location filter for the low stock count
+    const { searchParams } = new URL(req.url);
+    const inventoryId = searchParams.get('inventoryId');
     
     // Get total products count
     const totalProducts = await prisma.product.count({
       where: { userId: userId as string }
     });
     
-    // Get low stock items count (items with quantity less than 10)
-    const lowStockCount = await prisma.product.count({
-      where: { 
-        userId: userId as string,
-        stockQuantity: { lt: 10 }
-      }
-    });
+    // Low stock follows each product's reorder point rather than a fixed quantity
+    // With a location, judge the quantity at that location against it instead of the product total
+    const replenishment = await new ReplenishmentCalculator(prisma).calculateReplenishment(userId);
+    let lowStockIds = replenishment.suggestions
+      .filter(suggestion => suggestion.status !== 'ok')
+      .map(suggestion => suggestion.productId);
+    if (inventoryId) {
+      const levels = await prisma.stockLevel.findMany({
+        where: {
+          inventoryId,
+          product: { userId }
+        },
+        select: { productId: true, quantity: true }
+      });
+      const quantities = new Map(levels.map(level => [level.productId, level.quantity]));
+      // Suggestions are already sorted most urgent first
+      lowStockIds = replenishment.suggestions
+        .filter(suggestion => quantities.has(suggestion.productId) &&
+          stockStatus(quantities.get(suggestion.productId) || 0, suggestion.reorderPoint) !== 'ok')
+        .map(suggestion => suggestion.productId);
+    }
+    const lowStockCount = lowStockIds.length;
     
     // Calculate inventory value (price * quantity for each product)
     const inventoryValue = await prisma.product.findMany({
@@ -51,11 +68,13 @@ export async function GET(req: Request) {
     const revenueResult = await prisma.sale.aggregate({
       where: { userId: userId as string },
       _sum: {
-        totalAmount: true
+        totalAmount: true,
+        refundedAmount: true
       }
     });
     
-    const totalRevenue = revenueResult._sum?.totalAmount || 0;
+    // Net of refunds from returns
+    const totalRevenue = (revenueResult._sum?.totalAmount || 0) - (revenueResult._sum?.refundedAmount || 0);
     
     // Use RevenueOverTime class to get weekly trend
     let weeklyTrend = 0;
@@ -136,26 +155,21 @@ export async function GET(req: Request) {
       take: 5
     });
     
-    // Get low stock products (for displaying in the UI)
+    // Get low stock products (for displaying in the UI), most urgent first
+    const shownLowStockIds = lowStockIds.slice(0, 5);
     const lowStockProducts = await prisma.product.findMany({
-      where: { 
+      where: {
         userId: userId as string,
-        stockQuantity: { 
-          lt: 10, 
-          gt: 0 
-        }
-      },
-      orderBy: {
-        stockQuantity: 'asc'
+        id: { in: shownLowStockIds }
       },
       select: {
         id: true,
         name: true,
         sellingPrice: true,
         stockQuantity: true
-      },
-      take: 5
+      }
     });
+    lowStockProducts.sort((a, b) => shownLowStockIds.indexOf(a.id) - shownLowStockIds.indexOf(b.id));
     
     return NextResponse.json({
       totalProducts,
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { inviteIdentifier, inviteStatus } from '@/lib/invites';
+
+// DELETE /api/employees/invites/[inviteId] - Revoke an invitation so its link stops working
+export async function DELETE(
+  req: Request,
+  { params }: { params: { inviteId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_EMPLOYEES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const invite = await prisma.employeeInvite.findFirst({
+      where: {
+        id: params.inviteId,
+        businessId: session.user.ownerId,
+      },
+    });
+
+    if (!invite) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    if (invite.status === 'ACCEPTED') {
+      return NextResponse.json(
+        { error: 'This invitation has already been accepted' },
+        { status: 400 }
+      );
+    }
+
+    const revoked = await prisma.$transaction(async (tx) => {
+      await tx.verificationToken.deleteMany({
+        where: { identifier: inviteIdentifier(invite.id) },
+      });
+
+      return tx.employeeInvite.update({
+        where: { id: invite.id },
+        data: {
+          status: 'REVOKED',
+          revokedAt: invite.revokedAt ?? new Date(),
+        },
+      });
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'EmployeeInvite',
+      entityId: revoked.id,
+      before: invite,
+      after: revoked,
+      summary: `Revoked the invitation for ${revoked.email}`,
+    });
+
+    return NextResponse.json({ ...revoked, status: inviteStatus(revoked) });
+  } catch (error) {
+    console.error('Error revoking invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke invite' },
+      { status: 500 }
+    );
+  }
+}
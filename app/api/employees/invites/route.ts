@@ -0,0 +1,146 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import {
+  createInviteToken,
+  inviteExpiry,
+  inviteIdentifier,
+  inviteStatus,
+  inviteUrl,
+} from '@/lib/invites';
+import { CreateInviteBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// GET /api/employees/invites - List the business's invitations
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_EMPLOYEES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status');
+
+    const invites = await prisma.employeeInvite.findMany({
+      where: {
+        businessId: session.user.ownerId,
+      },
+      include: {
+        invitedBy: {
+          select: { id: true, name: true },
+        },
+        acceptedBy: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // Expiry is worked out on read, so filter after computing each status
+    const withStatus = invites.map(invite => ({ ...invite, status: inviteStatus(invite) }));
+
+    return NextResponse.json(
+      status ? withStatus.filter(invite => invite.status === status) : withStatus
+    );
+  } catch (error) {
+    console.error('Error fetching invites:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invites' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/employees/invites - Invite someone to join the business
+// Body: { email, name?, role? }
+export async function POST(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_EMPLOYEES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const invite = await parseBody(req, CreateInviteBody);
+    if (invite instanceof NextResponse) {
+      return invite;
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: invite.email },
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'A user with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    const pendingInvite = await prisma.employeeInvite.findFirst({
+      where: {
+        businessId: session.user.ownerId,
+        email: invite.email,
+        status: 'PENDING',
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    if (pendingInvite) {
+      return NextResponse.json(
+        { error: 'This person already has a pending invitation' },
+        { status: 409 }
+      );
+    }
+
+    const { token, hashedToken } = createInviteToken();
+    const expiresAt = inviteExpiry();
+
+    const created = await prisma.$transaction(async (tx) => {
+      const employeeInvite = await tx.employeeInvite.create({
+        data: {
+          email: invite.email,
+          name: invite.name || null,
+          role: invite.role,
+          expiresAt,
+          businessId: session.user.ownerId,
+          invitedById: session.user.id,
+        },
+      });
+
+      await tx.verificationToken.create({
+        data: {
+          identifier: inviteIdentifier(employeeInvite.id),
+          token: hashedToken,
+          expires: expiresAt,
+        },
+      });
+
+      return employeeInvite;
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'create',
+      entityType: 'EmployeeInvite',
+      entityId: created.id,
+      after: created,
+      summary: `Invited ${created.email} as ${created.role}`,
+    });
+
+    // The raw token is only returned here; it cannot be recovered later
+    return NextResponse.json(
+      {
+        invite: created,
+        inviteUrl: inviteUrl(process.env.NEXTAUTH_URL || new URL(req.url).origin, token),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to create invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,18 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { PrismaClient } from '@prisma/client';
-import { authOptions } from '../../auth/[...nextauth]/auth-options';
-
-const prisma = new PrismaClient();
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { resolvePermissions } from '@/lib/permissions';
+import { UpdateEmployeeAccessBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
 
 // Get employee role info
 export async function GET(request: Request) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check authorization
+    const session = await requirePermission('MANAGE_EMPLOYEES');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     // Get query parameters
@@ -28,31 +26,11 @@ export async function GET(request: Request) {
       );
     }
 
-    // Get current user
-    const currentUser = await prisma.user.findUnique({
-      where: { id: session.user.id }
-    });
-
-    if (!currentUser) {
-      return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404 }
-      );
-    }
-
-    // Check if current user is a business admin
-    if (currentUser.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Only business admins can manage employees' },
-        { status: 403 }
-      );
-    }
-
     // Get employee
     const employee = await prisma.user.findUnique({
-      where: { 
+      where: {
         id: employeeId,
-        businessId: currentUser.id // Make sure the employee belongs to this admin
+        businessId: session.user.ownerId // Make sure the employee belongs to this business
       }
     });
 
@@ -68,7 +46,9 @@ export async function GET(request: Request) {
       employeeId: employee.id,
       name: employee.name,
       email: employee.email,
-      role: employee.role
+      role: employee.role,
+      permissions: employee.permissions,
+      effectivePermissions: resolvePermissions(employee)
     });
   } catch (error) {
     console.error('Error getting employee info:', error);
@@ -79,75 +59,79 @@ export async function GET(request: Request) {
   }
 }
 
-// Update role for an employee
+// Update role and individually granted permissions for an employee
 export async function PUT(request: Request) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session || !session.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Check authorization
+    const session = await requirePermission('MANAGE_EMPLOYEES');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
-    // Get request body
-    const { employeeId, role } = await request.json();
-
-    if (!employeeId || !role) {
-      return NextResponse.json(
-        { error: 'Employee ID and role are required' },
-        { status: 400 }
-      );
+    const body = await parseBody(request, UpdateEmployeeAccessBody);
+    if (body instanceof NextResponse) {
+      return body;
     }
+    const { employeeId, role, permissions } = body;
 
-    // Validate role
-    if (role !== 'USER' && role !== 'ADMIN') {
+    // Nobody raises their own access
+    if (employeeId === session.user.id) {
       return NextResponse.json(
-        { error: 'Invalid role' },
-        { status: 400 }
+        { error: 'You cannot change your own role or permissions' },
+        { status: 403 }
       );
     }
 
-    // Get current user
-    const currentUser = await prisma.user.findUnique({
-      where: { id: session.user.id }
+    // Get employee
+    const employee = await prisma.user.findUnique({
+      where: {
+        id: employeeId,
+        businessId: session.user.ownerId // Make sure the employee belongs to this business
+      }
     });
 
-    if (!currentUser) {
+    if (!employee) {
       return NextResponse.json(
-        { error: 'User not found' },
+        { error: 'Employee not found or not associated with your business' },
         { status: 404 }
       );
     }
 
-    // Check if current user is a business admin
-    if (currentUser.role !== 'ADMIN') {
+    // Only admins can hand out the admin role
+    if (role === 'ADMIN' && session.user.role !== 'ADMIN') {
       return NextResponse.json(
-        { error: 'Only business admins can manage employees' },
+        { error: 'Only business admins can make other users admins' },
         { status: 403 }
       );
     }
 
-    // Get employee
-    const employee = await prisma.user.findUnique({
-      where: { 
-        id: employeeId,
-        businessId: currentUser.id // Make sure the employee belongs to this admin
-      }
-    });
-
-    if (!employee) {
+    // Whatever the new role and permissions add must already be the caller's own
+    const before = resolvePermissions(employee);
+    const after = resolvePermissions({ ...employee, role: role ?? employee.role, permissions: permissions ?? employee.permissions });
+    const notHeld = after.filter(permission => !before.includes(permission) && !session.user.permissions.includes(permission));
+    if (notHeld.length > 0) {
       return NextResponse.json(
-        { error: 'Employee not found or not associated with your business' },
-        { status: 404 }
+        { error: `You cannot grant permissions you do not hold: ${notHeld.join(', ')}` },
+        { status: 403 }
       );
     }
 
-    // Update employee role
+    // Update employee role and permissions
     const updatedEmployee = await prisma.user.update({
       where: { id: employeeId },
-      data: { role }
+      data: {
+        role,
+        permissions: permissions ? Array.from(new Set<string>(permissions)) : undefined
+      }
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'User',
+      entityId: updatedEmployee.id,
+      before: employee,
+      after: updatedEmployee,
+      summary: `Changed access for ${updatedEmployee.email}`,
     });
 
     // Return updated employee
@@ -155,7 +139,9 @@ export async function PUT(request: Request) {
       employeeId: updatedEmployee.id,
       name: updatedEmployee.name,
       email: updatedEmployee.email,
-      role: updatedEmployee.role
+      role: updatedEmployee.role,
+      permissions: updatedEmployee.permissions,
+      effectivePermissions: resolvePermissions(updatedEmployee)
     });
   } catch (error) {
     console.error('Error updating employee role:', error);
@@ -164,4 +150,4 @@ export async function PUT(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
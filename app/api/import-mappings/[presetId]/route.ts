@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { hasPermission } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { IMPORT_PERMISSIONS, ImportType } from '@/lib/import-mapping';
+
+// DELETE /api/import-mappings/[presetId] - Remove a saved column mapping
+export async function DELETE(
+  req: Request,
+  { params }: { params: { presetId: string } }
+) {
+  try {
+    const session = await requirePermission(['MANAGE_SALES', 'MANAGE_INVENTORY']);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const preset = await prisma.importMappingPreset.findFirst({
+      where: {
+        id: params.presetId,
+        businessId: session.user.ownerId,
+      },
+    });
+
+    if (!preset) {
+      return NextResponse.json({ error: 'Import mapping not found' }, { status: 404 });
+    }
+
+    const required = IMPORT_PERMISSIONS[preset.type as ImportType];
+    if (!required || !hasPermission(session.user.permissions, required)) {
+      return NextResponse.json(
+        { error: 'You do not have permission to perform this action' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.importMappingPreset.delete({
+      where: { id: preset.id },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'delete',
+      entityType: 'ImportMappingPreset',
+      entityId: preset.id,
+      before: { ...preset, mapping: JSON.stringify(preset.mapping) },
+      summary: `Deleted import mapping ${preset.name}`,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting import mapping:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete import mapping' },
+      { status: 500 }
+    );
+  }
+}
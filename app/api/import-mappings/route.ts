@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { hasPermission } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import {
+  IMPORT_PERMISSIONS,
+  IMPORT_TYPES,
+  ImportType,
+  missingRequiredFields,
+  sanitizeMapping,
+} from '@/lib/import-mapping';
+import { SaveImportMappingBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// GET /api/import-mappings?type=salesHistory - Saved column mappings for one kind of import
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission(['MANAGE_SALES', 'MANAGE_INVENTORY']);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const type = searchParams.get('type') as ImportType;
+
+    if (!IMPORT_TYPES.includes(type)) {
+      return NextResponse.json({ error: 'Invalid import type' }, { status: 400 });
+    }
+
+    if (!hasPermission(session.user.permissions, IMPORT_PERMISSIONS[type])) {
+      return NextResponse.json(
+        { error: 'You do not have permission to perform this action' },
+        { status: 403 }
+      );
+    }
+
+    const presets = await prisma.importMappingPreset.findMany({
+      where: {
+        businessId: session.user.ownerId,
+        type,
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json(presets);
+  } catch (error) {
+    console.error('Error fetching import mappings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import mappings' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/import-mappings - Save a column mapping under a name, replacing one with the same name
+export async function POST(req: Request) {
+  try {
+    const session = await requirePermission(['MANAGE_SALES', 'MANAGE_INVENTORY']);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, SaveImportMappingBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { type, name, dateFormat } = body;
+
+    if (!hasPermission(session.user.permissions, IMPORT_PERMISSIONS[type])) {
+      return NextResponse.json(
+        { error: 'You do not have permission to perform this action' },
+        { status: 403 }
+      );
+    }
+
+    const mapping = sanitizeMapping(type, body.mapping);
+    if (!mapping) {
+      return NextResponse.json({ error: 'Mapping must assign a column name or nothing to each field' }, { status: 400 });
+    }
+
+    const missing = missingRequiredFields(type, mapping, Object.values(mapping).filter((h): h is string => !!h));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Map a column to ${missing.map(field => field.label).join(', ')} before saving` },
+        { status: 400 }
+      );
+    }
+
+    const existingPreset = await prisma.importMappingPreset.findUnique({
+      where: {
+        businessId_type_name: {
+          businessId: session.user.ownerId,
+          type,
+          name,
+        },
+      },
+    });
+
+    const preset = existingPreset
+      ? await prisma.importMappingPreset.update({
+          where: { id: existingPreset.id },
+          data: { mapping: mapping as Prisma.InputJsonValue, dateFormat },
+        })
+      : await prisma.importMappingPreset.create({
+          data: {
+            name,
+            type,
+            mapping: mapping as Prisma.InputJsonValue,
+            dateFormat,
+            businessId: session.user.ownerId,
+          },
+        });
+
+    await recordAudit(prisma, session, {
+      action: existingPreset ? 'update' : 'create',
+      entityType: 'ImportMappingPreset',
+      entityId: preset.id,
+      before: existingPreset ? { ...existingPreset, mapping: JSON.stringify(existingPreset.mapping) } : null,
+      after: { ...preset, mapping: JSON.stringify(preset.mapping) },
+      summary: `${existingPreset ? 'Updated' : 'Saved'} import mapping ${preset.name}`,
+    });
+
+    return NextResponse.json(preset, { status: existingPreset ? 200 : 201 });
+  } catch (error) {
+    console.error('Error saving import mapping:', error);
+    return NextResponse.json(
+      { error: 'Failed to save import mapping' },
+      { status: 500 }
+    );
+  }
+}
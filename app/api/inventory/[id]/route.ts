@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import prisma from '@/lib/prisma';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
 
 // DELETE /api/inventory/[id] - Delete a product
 export async function DELETE(
@@ -9,24 +9,16 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
-    });
-
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     // Verify the product belongs to the user
     const product = await prisma.product.findFirst({
       where: {
         id: params.id,
-        userId: user.id,
+        userId: session.user.ownerId,
       },
     });
 
@@ -41,6 +33,14 @@ export async function DELETE(
       },
     });
 
+    await recordAudit(prisma, session, {
+      action: 'delete',
+      entityType: 'Product',
+      entityId: product.id,
+      before: product,
+      summary: `Deleted product ${product.sku}`,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting product:', error);
@@ -1,22 +1,13 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import prisma from '@/lib/prisma';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorize';
 
 // GET /api/inventory/history - Get inventory changes with pagination
 export async function GET(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
-    });
-
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     // Get pagination parameters from URL
@@ -24,10 +15,16 @@ export async function GET(req: Request) {
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
     const skip = (page - 1) * limit;
+    const inventoryId = searchParams.get('inventoryId');
+
+    const whereClause: any = { userId: session.user.ownerId };
+    if (inventoryId) {
+      whereClause.inventoryId = inventoryId;
+    }
 
     // Fetch inventory changes with product details and pagination
     const changes = await prisma.inventoryChange.findMany({
-      where: { userId: user.id },
+      where: whereClause,
       include: {
         product: {
           select: {
@@ -36,6 +33,18 @@ export async function GET(req: Request) {
             sku: true,
           },
         },
+        inventory: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
       orderBy: {
         createdAt: 'desc',
@@ -46,7 +55,7 @@ export async function GET(req: Request) {
 
     // Get total count for pagination
     const total = await prisma.inventoryChange.count({
-      where: { userId: user.id },
+      where: whereClause,
     });
 
     return NextResponse.json({
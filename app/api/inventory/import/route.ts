@@ -1,63 +1,71 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/auth-options';
 import prisma from '@/lib/prisma';
+import {
+  groupInventoryRows,
+  InventoryImportGroup,
+  InventoryImportRow,
+  matchesOptions,
+  syncProductStock,
+} from '@/lib/variants';
+import { requirePermission } from '@/lib/authorize';
+import { AuditActor, recordAudit } from '@/lib/audit';
+import { adaptPlatformRows } from '@/lib/platform-adapters';
+import { notify } from '@/lib/notifications';
+import { InventoryImportBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
 
-interface InventoryItem {
-  sku: string;
-  name: string;
-  description?: string;
-  category?: string;
-  unitCost?: number;
-  sellingPrice?: number;
-  stockQuantity?: number;
-  location?: string;
-  size?: string;
-  color?: string;
+// Image URLs from an import, stored the way product forms store uploaded images
+function importedImages(images: string[] | undefined, alt: string) {
+  return images && images.length > 0 ? images.map(url => ({ url, alt })) : undefined;
 }
 
 export async function POST(request: Request) {
   try {
     // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
-    // Get the user ID
-    const user = await prisma.user.findUnique({
-      where: {
-        email: session.user.email as string,
-      },
-    });
-
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    const body = await parseBody(request, InventoryImportBody);
+    if (body instanceof NextResponse) {
+      return body;
     }
 
-    // Parse the request body
-    const body = await request.json();
-    const { inventoryItems } = body as { inventoryItems: InventoryItem[] };
+    // Product exports from Shopify, Square or WooCommerce can be sent as they are
+    const inventoryItems: InventoryImportRow[] | undefined = body.source
+      ? adaptPlatformRows(body.source, 'inventoryItems', body.rows || [])
+      : body.inventoryItems;
 
-    if (!inventoryItems || !Array.isArray(inventoryItems) || inventoryItems.length === 0) {
+    if (!inventoryItems || inventoryItems.length === 0) {
       return NextResponse.json({ error: 'No inventory items provided' }, { status: 400 });
     }
 
+    // Rows with a size or color are grouped under one parent product with a variant per row
+    const groups = groupInventoryRows(inventoryItems);
+
     // Process each inventory item
     const createdItems = [];
-    for (const item of inventoryItems) {
-      // validate required fields
-      if (!item.name) {
-        continue; // skip invalid entries
+    let variantCount = 0;
+    for (const group of groups) {
+      if (group.hasVariants) {
+        try {
+          variantCount += await importVariantGroup(group, session);
+        } catch (err) {
+          console.error('Error importing product variants:', err);
+        }
+        continue;
       }
 
+      const item = group.rows[0];
+
       // check if the item with the same SKU already exists
       // if so, update it instead of creating a new one
       if (item.sku) {
         const existingItem = await prisma.product.findFirst({
           where: {
             sku: item.sku,
-            userId: user.id,
+            userId: session.user.ownerId,
           },
         });
 
@@ -71,15 +79,26 @@ export async function POST(request: Request) {
               name: item.name,
               description: item.description || existingItem.description,
               category: item.category || existingItem.category,
-              unitCost: item.unitCost !== undefined ? item.unitCost : existingItem.unitCost,
-              sellingPrice: item.sellingPrice !== undefined ? item.sellingPrice : existingItem.sellingPrice,
-              stockQuantity: item.stockQuantity !== undefined ? item.stockQuantity : existingItem.stockQuantity,
+              // Blank cells keep what the product already has
+              unitCost: item.unitCost ?? existingItem.unitCost,
+              sellingPrice: item.sellingPrice ?? existingItem.sellingPrice,
+              stockQuantity: item.stockQuantity ?? existingItem.stockQuantity,
               location: item.location || existingItem.location,
               size: item.size || existingItem.size,
               color: item.color || existingItem.color,
+              imagesJson: importedImages(item.images, item.name),
             },
           });
 
+          await recordAudit(prisma, session, {
+            action: 'update',
+            entityType: 'Product',
+            entityId: updatedItem.id,
+            before: existingItem,
+            after: updatedItem,
+            summary: `Updated product ${updatedItem.sku} from inventory import`,
+          });
+
           createdItems.push(updatedItem);
           continue;
         }
@@ -99,10 +118,19 @@ export async function POST(request: Request) {
             location: item.location || null,
             size: item.size || null,
             color: item.color || null,
-            userId: user.id,
+            imagesJson: importedImages(item.images, item.name),
+            userId: session.user.ownerId,
           },
         });
 
+        await recordAudit(prisma, session, {
+          action: 'create',
+          entityType: 'Product',
+          entityId: newProduct.id,
+          after: newProduct,
+          summary: `Created product ${newProduct.sku} from inventory import`,
+        });
+
         createdItems.push(newProduct);
       } catch (err) {
         console.error('Error creating product:', err);
@@ -110,10 +138,20 @@ export async function POST(request: Request) {
       }
     }
 
+    await notify(prisma, session.user.ownerId, {
+      type: 'import.completed',
+      title: 'Inventory import finished',
+      body: `Imported ${createdItems.length + variantCount} of ${inventoryItems.length} inventory rows.`,
+      link: '/inventory',
+      data: { count: createdItems.length + variantCount, rows: inventoryItems.length },
+      userIds: [session.user.id],
+    });
+
     return NextResponse.json({
       success: true,
-      message: `Imported ${createdItems.length} inventory items`,
-      count: createdItems.length,
+      message: `Imported ${createdItems.length + variantCount} inventory items`,
+      count: createdItems.length + variantCount,
+      variantCount,
     });
   } catch (error) {
     console.error('Error importing inventory items:', error);
@@ -122,4 +160,111 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
+
+// Create or update the parent product for a group of variant rows, then upsert each variant.
+// Returns the number of variant rows imported.
+async function importVariantGroup(group: InventoryImportGroup, session: AuditActor): Promise<number> {
+  const userId = session.user.ownerId;
+  const firstRow = group.rows[0];
+
+  let parent = await prisma.product.findFirst({
+    where: {
+      name: { equals: group.name, mode: 'insensitive' },
+      category: group.category || null,
+      userId,
+    },
+    include: { variants: true },
+  });
+
+  if (!parent) {
+    parent = await prisma.product.create({
+      data: {
+        name: group.name,
+        description: firstRow.description || null,
+        category: group.category || null,
+        unitCost: firstRow.unitCost || null,
+        sellingPrice: firstRow.sellingPrice || null,
+        location: firstRow.location || null,
+        imagesJson: importedImages(group.rows.find(row => row.images?.length)?.images, group.name),
+        userId,
+      },
+      include: { variants: true },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'create',
+      entityType: 'Product',
+      entityId: parent.id,
+      after: parent,
+      summary: `Created product ${parent.name} from inventory import`,
+    });
+  }
+
+  const parentPrice = parent.sellingPrice;
+  let imported = 0;
+
+  for (const row of group.rows) {
+    // a variant SKU is unique per user, so match on it first and fall back to the option combination
+    const existingVariant = (row.sku
+      ? await prisma.productVariant.findFirst({
+          where: {
+            sku: row.sku,
+            product: { userId },
+          },
+        })
+      : null) || parent.variants.find(variant => matchesOptions(variant, row));
+
+    const priceOverride = typeof row.sellingPrice === 'number' && row.sellingPrice !== parentPrice
+      ? row.sellingPrice
+      : null;
+
+    if (existingVariant) {
+      const updatedVariant = await prisma.productVariant.update({
+        where: { id: existingVariant.id },
+        data: {
+          sku: row.sku || existingVariant.sku,
+          size: row.size || existingVariant.size,
+          color: row.color || existingVariant.color,
+          priceOverride: typeof row.sellingPrice === 'number' ? priceOverride : existingVariant.priceOverride,
+          stockQuantity: row.stockQuantity ?? existingVariant.stockQuantity,
+        },
+      });
+
+      await recordAudit(prisma, session, {
+        action: 'update',
+        entityType: 'ProductVariant',
+        entityId: updatedVariant.id,
+        before: existingVariant,
+        after: updatedVariant,
+        summary: `Updated variant of ${parent.name} from inventory import`,
+      });
+    } else {
+      const createdVariant = await prisma.productVariant.create({
+        data: {
+          sku: row.sku || `SKU-${Math.random().toString(36).substring(2, 8).toUpperCase()}`,
+          size: row.size || null,
+          color: row.color || null,
+          priceOverride,
+          stockQuantity: row.stockQuantity || 0,
+          productId: parent.id,
+        },
+      });
+
+      await recordAudit(prisma, session, {
+        action: 'create',
+        entityType: 'ProductVariant',
+        entityId: createdVariant.id,
+        after: createdVariant,
+        summary: `Added variant to ${parent.name} from inventory import`,
+      });
+    }
+
+    imported++;
+  }
+
+  // keep the parent total in step with its variants
+  await syncProductStock(prisma, parent.id);
+
+  return imported;
+}
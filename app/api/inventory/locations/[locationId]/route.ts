@@ -0,0 +1,162 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { UpdateLocationBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// GET /api/inventory/locations/[locationId] - Get a location with the stock held there
+export async function GET(
+  req: Request,
+  { params }: { params: { locationId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const inventory = await prisma.inventory.findFirst({
+      where: {
+        id: params.locationId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        stockLevels: {
+          include: {
+            product: {
+              select: { id: true, name: true, sku: true, category: true },
+            },
+          },
+          orderBy: { quantity: 'asc' },
+        },
+      },
+    });
+
+    if (!inventory) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(inventory);
+  } catch (error) {
+    console.error('Error fetching inventory location:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch inventory location' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/inventory/locations/[locationId] - Update a location
+export async function PUT(
+  req: Request,
+  { params }: { params: { locationId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const existingLocation = await prisma.inventory.findFirst({
+      where: {
+        id: params.locationId,
+        userId: session.user.ownerId,
+      },
+    });
+
+    if (!existingLocation) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    const data = await parseBody(req, UpdateLocationBody);
+    if (data instanceof NextResponse) {
+      return data;
+    }
+
+    const inventory = await prisma.inventory.update({
+      where: { id: existingLocation.id },
+      data: {
+        name: data.name,
+        type: data.type !== undefined ? data.type || null : undefined,
+        location: data.location !== undefined ? data.location || null : undefined,
+        isActive: data.isActive,
+      },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'Inventory',
+      entityId: inventory.id,
+      before: existingLocation,
+      after: inventory,
+    });
+
+    return NextResponse.json(inventory);
+  } catch (error) {
+    console.error('Error updating inventory location:', error);
+    return NextResponse.json(
+      { error: 'Failed to update inventory location' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/inventory/locations/[locationId] - Deactivate a location
+// Stock has to be transferred out first so totals per location stay accurate
+export async function DELETE(
+  req: Request,
+  { params }: { params: { locationId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const existingLocation = await prisma.inventory.findFirst({
+      where: {
+        id: params.locationId,
+        userId: session.user.ownerId,
+      },
+    });
+
+    if (!existingLocation) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    const heldStock = await prisma.stockLevel.aggregate({
+      where: { inventoryId: existingLocation.id },
+      _sum: { quantity: true },
+    });
+
+    if ((heldStock._sum.quantity || 0) > 0) {
+      return NextResponse.json(
+        { error: 'This location still holds stock. Transfer it to another location first.' },
+        { status: 400 }
+      );
+    }
+
+    const deactivated = await prisma.inventory.update({
+      where: { id: existingLocation.id },
+      data: { isActive: false },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'Inventory',
+      entityId: deactivated.id,
+      before: existingLocation,
+      after: deactivated,
+      summary: `Deactivated location ${deactivated.name}`,
+    });
+
+    return NextResponse.json({ message: 'Location deactivated' });
+  } catch (error) {
+    console.error('Error deleting inventory location:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete inventory location' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { CreateLocationBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// GET /api/inventory/locations - List inventory locations with their stock totals
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    const locations = await prisma.inventory.findMany({
+      where: {
+        userId: session.user.ownerId,
+        ...(includeInactive ? {} : { isActive: true }),
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const totals = await prisma.stockLevel.groupBy({
+      by: ['inventoryId'],
+      where: {
+        inventoryId: { in: locations.map(location => location.id) },
+      },
+      _sum: { quantity: true },
+      _count: { _all: true },
+    });
+
+    const totalsByLocation = new Map(totals.map(total => [total.inventoryId, total]));
+
+    return NextResponse.json({
+      locations: locations.map(location => ({
+        ...location,
+        totalQuantity: totalsByLocation.get(location.id)?._sum.quantity || 0,
+        productCount: totalsByLocation.get(location.id)?._count._all || 0,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching inventory locations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch inventory locations' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/inventory/locations - Create an inventory location
+export async function POST(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, CreateLocationBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { name, type, location } = body;
+
+    const existingLocation = await prisma.inventory.findFirst({
+      where: {
+        name: { equals: name, mode: 'insensitive' },
+        userId: session.user.ownerId,
+        isActive: true,
+      },
+    });
+
+    if (existingLocation) {
+      return NextResponse.json(
+        { error: 'A location with this name already exists' },
+        { status: 400 }
+      );
+    }
+
+    const inventory = await prisma.inventory.create({
+      data: {
+        name,
+        type: type || null,
+        location: location || null,
+        userId: session.user.ownerId,
+      },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'create',
+      entityType: 'Inventory',
+      entityId: inventory.id,
+      after: inventory,
+      summary: `Created location ${inventory.name}`,
+    });
+
+    return NextResponse.json(inventory, { status: 201 });
+  } catch (error) {
+    console.error('Error creating inventory location:', error);
+    return NextResponse.json(
+      { error: 'Failed to create inventory location' },
+      { status: 500 }
+    );
+  }
+}
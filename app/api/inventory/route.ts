@@ -1,26 +1,20 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import prisma from '@/lib/prisma';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { CreateProductBody, ReplaceInventoryProductBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
 
 // GET /api/inventory - Get all products
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
-    });
-
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     const products = await prisma.product.findMany({
-      where: { userId: user.id },
+      where: { userId: session.user.ownerId },
       include: {
         images: true,
         documents: true,
@@ -40,20 +34,15 @@ export async function GET() {
 // POST /api/inventory - Create a new product
 export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
-    });
-
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    const data = await parseBody(request, CreateProductBody);
+    if (data instanceof NextResponse) {
+      return data;
     }
-
-    const data = await request.json();
     const {
       sku,
       name,
@@ -76,25 +65,25 @@ export async function POST(request: Request) {
           sku,
           name,
           description: description || "",
-          unitCost: typeof unitCost === 'string' ? parseFloat(unitCost) : (unitCost || 0),
-          sellingPrice: typeof sellingPrice === 'string' ? parseFloat(sellingPrice) : (sellingPrice || 0),
-          stockQuantity: typeof stockQuantity === 'string' ? parseInt(stockQuantity.toString()) : (stockQuantity || 0),
+          unitCost: unitCost ?? 0,
+          sellingPrice: sellingPrice ?? 0,
+          stockQuantity: stockQuantity ?? 0,
           location: location || "",
           category: category || "",
           size: size || "",
           color: color || "",
-          userId: user.id,
+          userId: session.user.ownerId,
           images: {
-            create: Array.isArray(images) && images.length > 0
-              ? images.map((url: string) => ({
+            create: images && images.length > 0
+              ? images.map(url => ({
                   url,
                   alt: name,
                 }))
               : [],
           },
           documents: {
-            create: Array.isArray(documents) && documents.length > 0
-              ? documents.map((url: string) => ({
+            create: documents && documents.length > 0
+              ? documents.map(url => ({
                   url,
                   name: url.split('/').pop() || 'Document',
                   type: url.split('.').pop() || 'unknown',
@@ -108,6 +97,14 @@ export async function POST(request: Request) {
         },
       });
 
+      await recordAudit(prisma, session, {
+        action: 'create',
+        entityType: 'Product',
+        entityId: product.id,
+        after: product,
+        summary: `Created product ${product.sku}`,
+      });
+
       return NextResponse.json(product);
     } catch (dbError) {
       console.error("Database error creating product:", dbError);
@@ -128,20 +125,15 @@ export async function POST(request: Request) {
 // PUT /api/inventory - Update a product
 export async function PUT(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
-    });
-
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    const data = await parseBody(request, ReplaceInventoryProductBody);
+    if (data instanceof NextResponse) {
+      return data;
     }
-
-    const data = await request.json();
     const {
       id,
       sku,
@@ -162,7 +154,7 @@ export async function PUT(request: Request) {
     const existingProduct = await prisma.product.findFirst({
       where: {
         id,
-        userId: user.id,
+        userId: session.user.ownerId,
       },
     });
 
@@ -186,21 +178,21 @@ export async function PUT(request: Request) {
         sku,
         name,
         description,
-        unitCost: parseFloat(unitCost),
-        sellingPrice: parseFloat(sellingPrice),
-        stockQuantity: parseInt(stockQuantity),
+        unitCost,
+        sellingPrice,
+        stockQuantity,
         location,
         category,
         size,
         color,
         images: {
-          create: images?.map((url: string) => ({
+          create: images?.map(url => ({
             url,
             alt: name,
           })) || [],
         },
         documents: {
-          create: documents?.map((url: string) => ({
+          create: documents?.map(url => ({
             url,
             name: url.split('/').pop() || 'Document',
             type: url.split('.').pop() || 'unknown',
@@ -213,6 +205,15 @@ export async function PUT(request: Request) {
       },
     });
 
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'Product',
+      entityId: product.id,
+      before: existingProduct,
+      after: product,
+      summary: `Updated product ${product.sku}`,
+    });
+
     return NextResponse.json(product);
   } catch (error) {
     console.error('Error updating product:', error);
@@ -1,29 +1,43 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
 
 export async function GET(request: Request) {
   try {
     // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission('VIEW_REPORTS');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     // Get the user ID
-    const userId = session.user.id;
+    const userId = session.user.ownerId;
+
+    // Optional location filter - counts only the stock held at that location
+    const { searchParams } = new URL(request.url);
+    const inventoryId = searchParams.get('inventoryId');
 
     // Get all products for this user
-    const products = await prisma.product.findMany({
-      where: {
-        userId: userId,
-      },
-      select: {
-        category: true,
-        stockQuantity: true,
-      },
-    });
+    const products = inventoryId
+      ? (await prisma.stockLevel.findMany({
+          where: {
+            inventoryId,
+            product: { userId },
+          },
+          select: {
+            quantity: true,
+            product: { select: { category: true } },
+          },
+        })).map((level) => ({ category: level.product.category, stockQuantity: level.quantity }))
+      : await prisma.product.findMany({
+          where: {
+            userId: userId,
+          },
+          select: {
+            category: true,
+            stockQuantity: true,
+          },
+        });
 
     // Group by category and sum quantities
     const categoriesMap = new Map<string, number>();
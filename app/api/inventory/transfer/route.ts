@@ -0,0 +1,171 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import prisma from '@/lib/prisma';
+import { planTransfer, StockLevelError } from '@/lib/stock-levels';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { TransferStockBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// POST /api/inventory/transfer - Move stock of a product between two locations
+// Writes a "remove" change at the source and an "add" change at the destination
+// sharing the same transfer reference. The product total does not change.
+export async function POST(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, TransferStockBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { productId, fromInventoryId, toInventoryId, quantity, notes } = body;
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: productId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        stockLevels: true,
+      },
+    });
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const locations = await prisma.inventory.findMany({
+      where: {
+        id: { in: [fromInventoryId, toInventoryId].filter(Boolean) },
+        userId: session.user.ownerId,
+        isActive: true,
+      },
+    });
+
+    if (fromInventoryId && toInventoryId && fromInventoryId !== toInventoryId && locations.length !== 2) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    let plan;
+    try {
+      plan = planTransfer(product.stockLevels, fromInventoryId, toInventoryId, quantity);
+    } catch (error) {
+      if (error instanceof StockLevelError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const reference = `Transfer #${randomUUID().slice(0, 8)}`;
+    const fromName = locations.find(location => location.id === plan.fromInventoryId)?.name;
+    const toName = locations.find(location => location.id === plan.toInventoryId)?.name;
+
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        // Move the units relative to what is stored now, so a sale or transfer that landed after
+        // the plan was made is kept. The source must still hold enough when the write happens.
+        const moved = await tx.stockLevel.updateMany({
+          where: {
+            productId: product.id,
+            inventoryId: plan.fromInventoryId,
+            quantity: { gte: plan.quantity },
+          },
+          data: { quantity: { decrement: plan.quantity } },
+        });
+
+        if (moved.count === 0) {
+          const current = await tx.stockLevel.findUnique({
+            where: {
+              productId_inventoryId: { productId: product.id, inventoryId: plan.fromInventoryId },
+            },
+          });
+          throw new StockLevelError(`Only ${current?.quantity || 0} available at the source location`);
+        }
+
+        const fromLevel = await tx.stockLevel.findUniqueOrThrow({
+          where: {
+            productId_inventoryId: { productId: product.id, inventoryId: plan.fromInventoryId },
+          },
+        });
+
+        const toLevel = await tx.stockLevel.upsert({
+          where: {
+            productId_inventoryId: { productId: product.id, inventoryId: plan.toInventoryId },
+          },
+          create: {
+            productId: product.id,
+            inventoryId: plan.toInventoryId,
+            quantity: plan.quantity,
+          },
+          update: { quantity: { increment: plan.quantity } },
+        });
+
+        const outgoing = await tx.inventoryChange.create({
+          data: {
+            type: 'remove',
+            quantity: plan.quantity,
+            reason: 'Transfer',
+            reference,
+            notes: notes || `Transferred to ${toName}`,
+            productId: product.id,
+            inventoryId: plan.fromInventoryId,
+            userId: session.user.ownerId,
+            createdById: session.user.id,
+          },
+        });
+
+        const incoming = await tx.inventoryChange.create({
+          data: {
+            type: 'add',
+            quantity: plan.quantity,
+            reason: 'Transfer',
+            reference,
+            notes: notes || `Transferred from ${fromName}`,
+            productId: product.id,
+            inventoryId: plan.toInventoryId,
+            userId: session.user.ownerId,
+            createdById: session.user.id,
+          },
+        });
+
+        return { fromLevel, toLevel, changes: [outgoing, incoming] };
+      });
+    } catch (error) {
+      if (error instanceof StockLevelError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const levelBefore = (inventoryId: string) =>
+      product.stockLevels.find(level => level.inventoryId === inventoryId) || null;
+
+    for (const level of [result.fromLevel, result.toLevel]) {
+      const before = levelBefore(level.inventoryId);
+      await recordAudit(prisma, session, {
+        action: before ? 'update' : 'create',
+        entityType: 'StockLevel',
+        entityId: level.id,
+        before,
+        after: level,
+        summary: `${reference}: ${plan.quantity} of ${product.sku} from ${fromName} to ${toName}`,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      reference,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error transferring inventory:', error);
+    return NextResponse.json(
+      { error: 'Failed to transfer inventory' },
+      { status: 500 }
+    );
+  }
+}
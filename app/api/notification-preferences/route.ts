@@ -1,15 +1,15 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorize';
+import { NotificationPreferencesBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
 
 // Get notification preferences for the current user
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
     
     const notificationPreferences = await prisma.notificationPreference.findMany({
@@ -25,7 +25,8 @@ export async function GET() {
         orderUpdates: true,
         inventoryAlerts: true,
         paymentNotifications: true,
-        marketingEmails: false
+        marketingEmails: false,
+        digestFrequency: 'NONE'
       });
     }
     
@@ -42,13 +43,15 @@ export async function GET() {
 // Update notification preferences for the current user
 export async function PUT(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
     
-    const data = await request.json();
+    const data = await parseBody(request, NotificationPreferencesBody);
+    if (data instanceof NextResponse) {
+      return data;
+    }
     
     // Check if notification preferences exist
     const existingPrefs = await prisma.notificationPreference.findFirst({
@@ -67,14 +70,7 @@ export async function PUT(request: Request) {
       // Create new preferences
       notificationPreferences = await prisma.notificationPreference.create({
         data: {
-          // Only include valid fields
-          emailNotifications: data.emailNotifications,
-          smsNotifications: data.smsNotifications,
-          pushNotifications: data.pushNotifications,
-          orderUpdates: data.orderUpdates,
-          inventoryAlerts: data.inventoryAlerts,
-          paymentNotifications: data.paymentNotifications,
-          marketingEmails: data.marketingEmails,
+          ...data,
           userId: session.user.id,
         },
       });
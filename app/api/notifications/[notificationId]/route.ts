@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { UpdateNotificationBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// PATCH /api/notifications/[notificationId] - Mark a notification as read or unread
+// Body: { read: boolean }
+export async function PATCH(
+  req: Request,
+  { params }: { params: { notificationId: string } }
+) {
+  try {
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, UpdateNotificationBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const notification = await prisma.notification.findFirst({
+      where: {
+        id: params.notificationId,
+        userId: session.user.id,
+      },
+    });
+
+    if (!notification) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 });
+    }
+
+    const updated = await prisma.notification.update({
+      where: { id: notification.id },
+      // Keep the first read time when it is marked read again
+      data: { readAt: body.read ? notification.readAt || new Date() : null },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating notification:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notification' },
+      { status: 500 }
+    );
+  }
+}
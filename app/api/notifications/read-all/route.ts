@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+
+// POST /api/notifications/read-all - Mark every unread notification of the signed-in user as read
+export async function POST() {
+  try {
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: session.user.id, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return NextResponse.json({ updated: count });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark notifications as read' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { NotificationsQuery } from '@/lib/schemas';
+import { parseQuery } from '@/lib/validation';
+
+// GET /api/notifications - The signed-in user's notification inbox, newest first
+// Query: page, limit and unread=true for unread notifications only
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const query = parseQuery(req, NotificationsQuery);
+    if (query instanceof NextResponse) {
+      return query;
+    }
+
+    const where: Prisma.NotificationWhereInput = { userId: session.user.id };
+    if (query.unread === 'true') {
+      where.readAt = null;
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.notification.count({ where }),
+      prisma.notification.count({ where: { userId: session.user.id, readAt: null } }),
+    ]);
+
+    return NextResponse.json({
+      notifications,
+      total,
+      totalPages: Math.ceil(total / query.limit),
+      unreadCount,
+    });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    );
+  }
+}
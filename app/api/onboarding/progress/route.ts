@@ -1,8 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import prisma from '@/lib/prisma';
-import { authOptions } from '@/lib/auth';
 import { StepId } from '@/app/hooks/useOnboardingAutomata';
+import { requirePermission } from '@/lib/authorize';
 
 export async function POST(request: Request) {
   try {
@@ -40,12 +39,9 @@ export async function POST(request: Request) {
     }
     
     // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'You must be signed in to save progress' },
-        { status: 401 }
-      );
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     // Get user ID from session
@@ -1,18 +1,13 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
 import prisma from '@/lib/prisma';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorize';
 
 export async function POST(request: Request) {
   try {
     // Get user session
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
     
     // Get step information from request
@@ -27,7 +22,7 @@ export async function POST(request: Request) {
     
     // Get user
     const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
+      where: { id: session.user.id },
       include: { onboarding: true }
     });
     
@@ -1,15 +1,13 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import prisma from '@/lib/prisma';
-import { authOptions } from '@/lib/auth';
 import { getDataKeyForStep } from '@/app/services/OnboardingAutomata';
+import { requirePermission } from '@/lib/authorize';
 
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
     
     // Check user's onboarding status from the onboarding table
@@ -33,10 +31,9 @@ export async function GET() {
 
 export async function PUT(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
     
     const { complete } = await request.json();
@@ -68,14 +65,9 @@ export async function PUT(request: Request) {
 export async function GET_OLD(request: Request) {
   try {
     // Get the current session
-    const session = await getServerSession(authOptions);
-    
-    // Check authentication
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'You must be signed in to access onboarding status' },
-        { status: 401 }
-      );
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
     
     const userId = session.user.id;
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { openApiDocument } from '@/lib/openapi';
+
+// GET /api/openapi.json - OpenAPI 3 description of the API, built from the shared request schemas
+export async function GET() {
+  try {
+    return NextResponse.json(openApiDocument());
+  } catch (error) {
+    console.error('Error generating OpenAPI document:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate OpenAPI document' },
+      { status: 500 }
+    );
+  }
+}
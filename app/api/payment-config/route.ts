@@ -1,19 +1,20 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { PaymentSettingsBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
 
 // Get payment configuration for the current user
 export async function GET() {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
     
     const paymentConfig = await prisma.paymentConfig.findUnique({
-      where: { userId: session.user.id },
+      where: { userId: session.user.ownerId },
     });
     
     if (!paymentConfig) {
@@ -40,17 +41,19 @@ export async function GET() {
 // Update payment configuration for the current user
 export async function PUT(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
     }
     
-    const data = await request.json();
+    const data = await parseBody(request, PaymentSettingsBody);
+    if (data instanceof NextResponse) {
+      return data;
+    }
     
     // Check if payment config exists
     const existingConfig = await prisma.paymentConfig.findUnique({
-      where: { userId: session.user.id },
+      where: { userId: session.user.ownerId },
     });
     
     let paymentConfig;
@@ -58,7 +61,7 @@ export async function PUT(request: Request) {
     if (existingConfig) {
       // Update existing config
       paymentConfig = await prisma.paymentConfig.update({
-        where: { userId: session.user.id },
+        where: { userId: session.user.ownerId },
         data,
       });
     } else {
@@ -66,11 +69,19 @@ export async function PUT(request: Request) {
       paymentConfig = await prisma.paymentConfig.create({
         data: {
           ...data,
-          userId: session.user.id,
+          userId: session.user.ownerId,
         },
       });
     }
     
+    await recordAudit(prisma, session, {
+      action: existingConfig ? 'update' : 'create',
+      entityType: 'PaymentConfig',
+      entityId: paymentConfig.id,
+      before: existingConfig,
+      after: paymentConfig,
+    });
+
     return NextResponse.json(paymentConfig);
   } catch (error) {
     console.error('Error updating payment configuration:', error);
@@ -1,16 +1,21 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { PaymentConfigBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
 
 export async function POST(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
-    const body = await req.json();
+    const body = await parseBody(req, PaymentConfigBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
     const {
       acceptCash,
       acceptCardPayments,
@@ -19,10 +24,14 @@ export async function POST(req: Request) {
       stripeAccountId,
     } = body;
 
+    const existingConfig = await prisma.paymentConfig.findUnique({
+      where: { userId: session.user.ownerId },
+    });
+
     // Create or update payment configuration
     const paymentConfig = await prisma.paymentConfig.upsert({
       where: {
-        userId: session.user.id,
+        userId: session.user.ownerId,
       },
       update: {
         acceptCash,
@@ -39,33 +48,41 @@ export async function POST(req: Request) {
         stripeEnabled,
         stripeAccountId,
         stripeConnected: stripeEnabled && !!stripeAccountId,
-        userId: session.user.id,
+        userId: session.user.ownerId,
       },
     });
 
+    await recordAudit(prisma, session, {
+      action: existingConfig ? 'update' : 'create',
+      entityType: 'PaymentConfig',
+      entityId: paymentConfig.id,
+      before: existingConfig,
+      after: paymentConfig,
+    });
+
     return NextResponse.json(paymentConfig);
   } catch (error) {
     console.error("Error updating payment configuration:", error);
-    return new NextResponse("Internal Server Error", { status: 500 });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 }
 
 export async function GET(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     const paymentConfig = await prisma.paymentConfig.findUnique({
       where: {
-        userId: session.user.id,
+        userId: session.user.ownerId,
       },
     });
 
     return NextResponse.json(paymentConfig);
   } catch (error) {
     console.error("Error fetching payment configuration:", error);
-    return new NextResponse("Internal Server Error", { status: 500 });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 } 
\ No newline at end of file
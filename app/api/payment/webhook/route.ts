@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { applyGatewayEvent } from '@/lib/card-payments';
+import { GatewayError, getPaymentGateway } from '@/lib/payment-gateway';
+
+// POST /api/payment/webhook - Events from the payment gateway about card payments: succeeded,
+// failed and refunded. Authenticated by the gateway's signature rather than a session.
+export async function POST(req: Request) {
+  const gateway = getPaymentGateway();
+  if (!gateway) {
+    return NextResponse.json({ error: 'Card payments are not configured' }, { status: 404 });
+  }
+
+  // The signature covers the exact bytes sent, so the body is read as text
+  const payload = await req.text();
+
+  let event;
+  try {
+    event = gateway.parseWebhook(payload, req.headers.get(gateway.signatureHeader));
+  } catch (error) {
+    if (error instanceof GatewayError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error reading payment webhook:', error);
+    return NextResponse.json({ error: 'Invalid webhook' }, { status: 400 });
+  }
+
+  // Events the app does not act on are acknowledged so the gateway stops sending them
+  if (!event) {
+    return NextResponse.json({ received: true });
+  }
+
+  try {
+    const sale = await applyGatewayEvent(prisma, event);
+    return NextResponse.json({
+      received: true,
+      saleId: sale?.id ?? null,
+      paymentStatus: sale?.paymentStatus ?? null,
+    });
+  } catch (error) {
+    // A 500 makes the gateway retry the event later
+    console.error('Error applying payment webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply payment webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,39 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { requirePermission } from "@/lib/authorize";
+import { recordAudit } from "@/lib/audit";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { parseReplenishmentSettings, ReplenishmentSettingsError } from "@/lib/analytics/replenishment";
+import { ReplaceProductBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
 
 export async function GET(
   req: Request,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission(["MANAGE_INVENTORY", "MANAGE_SALES"]);
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     const product = await prisma.product.findUnique({
       where: {
         id: params.id,
-        userId: session.user.id,
+        userId: session.user.ownerId,
       },
       include: {
         images: true,
         documents: true,
+        variants: {
+          where: { isActive: true },
+          orderBy: { createdAt: 'asc' },
+        },
       }
     });
 
     if (!product) {
-      return new NextResponse("Product not found", { status: 404 });
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
     }
 
     // Transform the product to include image and document URLs as arrays
@@ -38,7 +46,7 @@ export async function GET(
     return NextResponse.json(transformedProduct);
   } catch (error) {
     console.error("Error fetching product:", error);
-    return new NextResponse("Internal Server Error", { status: 500 });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 }
 
@@ -47,14 +55,16 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission("MANAGE_INVENTORY");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const data = await parseBody(req, ReplaceProductBody);
+    if (data instanceof NextResponse) {
+      return data;
     }
 
-    // Parse the request body as JSON
-    const data = await req.json();
-    
     const {
       sku,
       name,
@@ -70,21 +80,51 @@ export async function PUT(
       documents = []
     } = data;
 
-    // Validate required fields
-    if (!sku || !name || unitCost === undefined || sellingPrice === undefined || stockQuantity === undefined) {
-      return new NextResponse("Missing required fields", { status: 400 });
-    }
-
-    // Check if SKU is unique (excluding current product)
+    // Check if SKU is unique within the business (excluding current product)
     const existingProduct = await prisma.product.findFirst({
       where: {
         sku,
+        userId: session.user.ownerId,
         id: { not: params.id },
       },
     });
 
     if (existingProduct) {
-      return new NextResponse("SKU already exists", { status: 400 });
+      return NextResponse.json({ error: "SKU already exists" }, { status: 400 });
+    }
+
+    const previousProduct = await prisma.product.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.ownerId,
+      },
+    });
+
+    if (!previousProduct) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+
+    let replenishment;
+    try {
+      replenishment = parseReplenishmentSettings(data);
+    } catch (error) {
+      if (error instanceof ReplenishmentSettingsError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (replenishment.supplierId) {
+      const supplier = await prisma.supplier.findFirst({
+        where: {
+          id: replenishment.supplierId,
+          userId: session.user.ownerId,
+        },
+      });
+
+      if (!supplier) {
+        return NextResponse.json({ error: "Supplier not found" }, { status: 404 });
+      }
     }
 
     // Update the product with a transaction to handle images and documents
@@ -102,7 +142,7 @@ export async function PUT(
       const product = await tx.product.update({
         where: {
           id: params.id,
-          userId: session.user.id,
+          userId: session.user.ownerId,
         },
         data: {
           sku,
@@ -115,16 +155,19 @@ export async function PUT(
           category,
           size,
           color,
+          leadTimeDays: replenishment.leadTimeDays,
+          safetyStockDays: replenishment.safetyStockDays,
+          supplierId: replenishment.supplierId,
           // Create new images
           images: {
-            create: images.map((url: string) => ({
+            create: images.map(url => ({
               url,
               alt: name
             }))
           },
           // Create new documents
           documents: {
-            create: documents.map((url: string) => ({
+            create: documents.map(url => ({
               url,
               name: `Document for ${name}`,
               type: 'document'
@@ -140,6 +183,15 @@ export async function PUT(
       return product;
     });
 
+    await recordAudit(prisma, session, {
+      action: "update",
+      entityType: "Product",
+      entityId: params.id,
+      before: previousProduct,
+      after: updatedProduct,
+      summary: `Updated product ${updatedProduct.sku}`,
+    });
+
     // Transform the updated product to include image and document URLs as arrays
     const transformedProduct = {
       ...updatedProduct,
@@ -147,10 +199,12 @@ export async function PUT(
       documents: updatedProduct.documents.map(doc => doc.url)
     };
 
+    await emitWebhookEvent(prisma, session.user.ownerId, "product.updated", transformedProduct);
+
     return NextResponse.json(transformedProduct);
   } catch (error) {
     console.error("Error updating product:", error);
-    return new NextResponse("Internal Server Error", { status: 500 });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 }
 
@@ -159,9 +213,20 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission("MANAGE_INVENTORY");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.ownerId,
+      },
+    });
+
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
     }
 
     // Delete with a transaction to clean up related records
@@ -185,14 +250,23 @@ export async function DELETE(
       await tx.product.delete({
         where: {
           id: params.id,
-          userId: session.user.id,
+          userId: session.user.ownerId,
         }
       });
     });
 
+    await recordAudit(prisma, session, {
+      action: "delete",
+      entityType: "Product",
+      entityId: params.id,
+      before: product,
+      summary: `Deleted product ${product.sku}`,
+    });
+    await emitWebhookEvent(prisma, session.user.ownerId, "product.deleted", product);
+
     return new NextResponse(null, { status: 204 });
   } catch (error) {
     console.error("Error deleting product:", error);
-    return new NextResponse("Internal Server Error", { status: 500 });
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 } 
\ No newline at end of file
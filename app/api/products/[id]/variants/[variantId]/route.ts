@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { syncProductStock } from "@/lib/variants";
+import { requirePermission } from "@/lib/authorize";
+import { recordAudit } from "@/lib/audit";
+import { UpdateVariantBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// Looks up a variant, making sure its parent product belongs to the user
+async function findVariant(productId: string, variantId: string, userId: string) {
+  return prisma.productVariant.findFirst({
+    where: {
+      id: variantId,
+      productId,
+      product: { userId },
+    },
+    include: {
+      _count: {
+        select: { saleItems: true },
+      },
+    },
+  });
+}
+
+// PUT /api/products/[id]/variants/[variantId] - Update a variant
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string; variantId: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_INVENTORY");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const existingVariant = await findVariant(params.id, params.variantId, session.user.ownerId);
+    if (!existingVariant) {
+      return NextResponse.json({ error: "Variant not found" }, { status: 404 });
+    }
+
+    const data = await parseBody(req, UpdateVariantBody);
+    if (data instanceof NextResponse) {
+      return data;
+    }
+
+    if (data.sku && data.sku !== existingVariant.sku) {
+      const duplicateSku = await prisma.productVariant.findFirst({
+        where: {
+          sku: data.sku,
+          id: { not: existingVariant.id },
+          product: { userId: session.user.ownerId },
+        },
+      });
+
+      if (duplicateSku) {
+        return NextResponse.json({ error: "A variant with this SKU already exists" }, { status: 400 });
+      }
+    }
+
+    const variant = await prisma.$transaction(async (tx) => {
+      const updated = await tx.productVariant.update({
+        where: { id: existingVariant.id },
+        data: {
+          sku: data.sku !== undefined ? data.sku || null : undefined,
+          size: data.size !== undefined ? data.size || null : undefined,
+          color: data.color !== undefined ? data.color || null : undefined,
+          priceOverride: data.priceOverride,
+          // A cleared stock field keeps the current count
+          stockQuantity: data.stockQuantity ?? undefined,
+          isActive: data.isActive,
+        },
+      });
+
+      await syncProductStock(tx, existingVariant.productId);
+
+      return updated;
+    });
+
+    await recordAudit(prisma, session, {
+      action: "update",
+      entityType: "ProductVariant",
+      entityId: variant.id,
+      before: existingVariant,
+      after: variant,
+    });
+
+    return NextResponse.json(variant);
+  } catch (error) {
+    console.error("Error updating product variant:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/products/[id]/variants/[variantId] - Delete a variant
+// Variants that appear on sales are deactivated instead so sale history keeps its detail
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string; variantId: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_INVENTORY");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const existingVariant = await findVariant(params.id, params.variantId, session.user.ownerId);
+    if (!existingVariant) {
+      return NextResponse.json({ error: "Variant not found" }, { status: 404 });
+    }
+
+    const deactivated = existingVariant._count.saleItems > 0;
+
+    await prisma.$transaction(async (tx) => {
+      if (deactivated) {
+        await tx.productVariant.update({
+          where: { id: existingVariant.id },
+          data: { isActive: false },
+        });
+      } else {
+        await tx.productVariant.delete({
+          where: { id: existingVariant.id },
+        });
+      }
+
+      await syncProductStock(tx, existingVariant.productId);
+    });
+
+    await recordAudit(prisma, session, deactivated
+      ? {
+          action: "update",
+          entityType: "ProductVariant",
+          entityId: existingVariant.id,
+          before: existingVariant,
+          after: { isActive: false },
+          summary: "Deactivated variant that appears on sales",
+        }
+      : {
+          action: "delete",
+          entityType: "ProductVariant",
+          entityId: existingVariant.id,
+          before: existingVariant,
+        });
+
+    return NextResponse.json({ success: true, deactivated });
+  } catch (error) {
+    console.error("Error deleting product variant:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
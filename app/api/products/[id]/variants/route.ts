@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { matchesOptions, syncProductStock } from "@/lib/variants";
+import { requirePermission } from "@/lib/authorize";
+import { recordAudit } from "@/lib/audit";
+import { CreateVariantBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// GET /api/products/[id]/variants - List the variants of a product
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission(["MANAGE_INVENTORY", "MANAGE_SALES"]);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const includeInactive = searchParams.get("includeInactive") === "true";
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.ownerId,
+      },
+      include: {
+        variants: {
+          where: includeInactive ? undefined : { isActive: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ variants: product.variants });
+  } catch (error) {
+    console.error("Error fetching product variants:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST /api/products/[id]/variants - Add a size/color variant to a product
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_INVENTORY");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.ownerId,
+      },
+      include: {
+        variants: {
+          where: { isActive: true },
+        },
+      },
+    });
+
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+
+    const body = await parseBody(req, CreateVariantBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { sku, size, color, priceOverride, stockQuantity } = body;
+
+    if (product.variants.some(variant => matchesOptions(variant, { size, color }))) {
+      return NextResponse.json({ error: "A variant with this size and color already exists" }, { status: 400 });
+    }
+
+    if (sku) {
+      const duplicateSku = await prisma.productVariant.findFirst({
+        where: {
+          sku,
+          product: { userId: session.user.ownerId },
+        },
+      });
+
+      if (duplicateSku) {
+        return NextResponse.json({ error: "A variant with this SKU already exists" }, { status: 400 });
+      }
+    }
+
+    const variant = await prisma.$transaction(async (tx) => {
+      const created = await tx.productVariant.create({
+        data: {
+          sku: sku || null,
+          size: size || null,
+          color: color || null,
+          priceOverride: priceOverride ?? null,
+          stockQuantity: stockQuantity ?? 0,
+          productId: product.id,
+        },
+      });
+
+      await syncProductStock(tx, product.id);
+
+      return created;
+    });
+
+    await recordAudit(prisma, session, {
+      action: "create",
+      entityType: "ProductVariant",
+      entityId: variant.id,
+      after: variant,
+      summary: `Added variant to ${product.sku}`,
+    });
+
+    return NextResponse.json(variant, { status: 201 });
+  } catch (error) {
+    console.error("Error creating product variant:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { DATA_FILE_FORMATS, DataFileFormat } from '@/lib/data-files';
+import { exportResponse, PRODUCT_EXPORT_COLUMNS, productExportRows } from '@/lib/exports';
+import { productListOrderBy, productListWhere } from '@/lib/list-queries';
+
+// GET /api/products/export?format=csv|xlsx|json - Download every product matching the list filters
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission(['MANAGE_INVENTORY', 'MANAGE_SALES']);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const format = (searchParams.get('format') || 'csv') as DataFileFormat;
+
+    if (!DATA_FILE_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${DATA_FILE_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const products = await prisma.product.findMany({
+      where: await productListWhere(prisma, session.user.ownerId, searchParams),
+      orderBy: productListOrderBy(searchParams),
+    });
+
+    return exportResponse(format, 'products', PRODUCT_EXPORT_COLUMNS, productExportRows(products));
+  } catch (error) {
+    console.error('Error exporting products:', error);
+    return NextResponse.json(
+      { error: 'Failed to export products' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { lookupScanCode } from '@/lib/pos';
+import { ScanLookupQuery } from '@/lib/schemas';
+import { parseQuery } from '@/lib/validation';
+
+// GET /api/products/lookup - What a scanned or typed code rings up at the point of sale
+// Query: code
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const query = parseQuery(req, ScanLookupQuery);
+    if (query instanceof NextResponse) {
+      return query;
+    }
+
+    const result = await lookupScanCode(prisma, session.user.ownerId, query.code);
+    if (!result.item && result.options.length === 0) {
+      return NextResponse.json(
+        { error: `No product has the code ${query.code}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error looking up scanned code:', error);
+    return NextResponse.json(
+      { error: 'Failed to look up the code' },
+      { status: 500 }
+    );
+  }
+}
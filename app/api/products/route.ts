@@ -1,51 +1,39 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
+import { Prisma } from '@prisma/client';
 import prisma from "@/lib/prisma";
 import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 import { existsSync } from 'fs';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { parseReplenishmentSettings, ReplenishmentSettingsError } from '@/lib/analytics/replenishment';
+import { productListOrderBy, productListWhere } from '@/lib/list-queries';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { findSupplier, updateProduct } from '@/lib/products';
+import { CreateProductBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
 
 // Get all products with pagination
 export async function GET(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission(['MANAGE_INVENTORY', 'MANAGE_SALES']);
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     const { searchParams } = new URL(req.url);
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "10");
-    const sortKey = searchParams.get("sortKey") || "createdAt";
-    const sortDir = searchParams.get("sortDir") || "desc";
-
-    // Build the orderBy object dynamically based on the sortKey
-    const orderBy: any = {};
-    
-    // Only set orderBy if sortKey is not empty
-    if (sortKey && sortKey.trim() !== "") {
-      // Handle special cases for fields not directly in the database schema
-      if (sortKey === "price") {
-        // Map 'price' to 'sellingPrice' which exists in the database
-        orderBy["sellingPrice"] = sortDir;
-        console.log("Products API - Special case: Mapping price sorting to sellingPrice:", orderBy);
-      } else {
-        // Standard field sorting
-        orderBy[sortKey] = sortDir;
-        console.log("Products API - Standard sorting by:", orderBy);
-      }
-    } else {
-      // Default sort
-      orderBy["createdAt"] = "desc"; 
-      console.log("Products API - Default sorting by createdAt desc");
-    }
-
-    console.log("Products API - Final orderBy:", orderBy);
+    const where = await productListWhere(prisma, session.user.ownerId, searchParams);
+    const orderBy = productListOrderBy(searchParams);
 
     const products = await prisma.product.findMany({
-      where: {
-        userId: session.user.id,
+      where,
+      include: {
+        variants: {
+          where: { isActive: true },
+          orderBy: { createdAt: 'asc' },
+        },
       },
       orderBy,
       skip: (page - 1) * limit,
@@ -53,9 +41,7 @@ export async function GET(req: Request) {
     });
 
     const total = await prisma.product.count({
-      where: {
-        userId: session.user.id,
-      },
+      where,
     });
 
     return NextResponse.json({
@@ -85,13 +71,16 @@ async function ensureUploadDirectories() {
 // Create a new product
 export async function POST(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const data = await parseBody(req, CreateProductBody);
+    if (data instanceof NextResponse) {
+      return data;
     }
 
-    const data = await req.json();
-    
     const {
       sku,
       name,
@@ -107,15 +96,25 @@ export async function POST(req: Request) {
       documents = []
     } = data;
 
-    if (!sku || !name) {
-      return new NextResponse("SKU and name are required", { status: 400 });
+    let replenishment;
+    try {
+      replenishment = parseReplenishmentSettings(data);
+    } catch (error) {
+      if (error instanceof ReplenishmentSettingsError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (replenishment.supplierId && !(await findSupplier(replenishment.supplierId, session.user.ownerId))) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
     }
 
     // Check unique SKU for this user
     const existingProduct = await prisma.product.findFirst({
       where: { 
         sku,
-        userId: session.user.id
+        userId: session.user.ownerId
       },
     });
 
@@ -142,18 +141,30 @@ export async function POST(req: Request) {
           sku,
           name,
           description: description || null,
-          unitCost: unitCost !== undefined ? parseFloat(String(unitCost)) : undefined,
-          sellingPrice: sellingPrice !== undefined ? parseFloat(String(sellingPrice)) : undefined,
-          stockQuantity: stockQuantity !== undefined ? parseInt(String(stockQuantity)) : undefined,
+          unitCost,
+          sellingPrice,
+          stockQuantity,
           location: location || undefined,
           category: category || undefined,
           size: size || undefined,
           color: color || null,
-          userId: session.user.id,
-          imagesJson: images.length > 0 ? imagesData : null,
+          leadTimeDays: replenishment.leadTimeDays ?? null,
+          safetyStockDays: replenishment.safetyStockDays ?? null,
+          supplierId: replenishment.supplierId ?? null,
+          userId: session.user.ownerId,
+          imagesJson: images.length > 0 ? imagesData : Prisma.DbNull,
         }
       });
 
+      await recordAudit(prisma, session, {
+        action: 'create',
+        entityType: 'Product',
+        entityId: product.id,
+        after: product,
+        summary: `Created product ${product.sku}`,
+      });
+      await emitWebhookEvent(prisma, session.user.ownerId, 'product.created', product);
+
       return NextResponse.json(product);
     } catch (error: any) {
       // Handle SKU unique constraint errors
@@ -170,96 +181,27 @@ export async function POST(req: Request) {
 
 // Update a product
 export async function PUT(req: Request) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+  const session = await requirePermission('MANAGE_INVENTORY');
+  if (session instanceof NextResponse) {
+    return session;
+  }
 
-    const { searchParams } = new URL(req.url);
-    const id = searchParams.get('id');
-    
-    if (!id) {
-      return NextResponse.json({ error: 'Product ID is required' }, { status: 400 });
-    }
-    
-    const data = await req.json();
-    
-    const existingProduct = await prisma.product.findFirst({
-      where: {
-        id,
-        userId: session.user.id
-      },
-    });
-    
-    if (!existingProduct) {
-      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
-    }
-    
-    // Check if SKU is being changed and already exists
-    if (data.sku && data.sku !== existingProduct.sku) {
-      const duplicateSku = await prisma.product.findFirst({
-        where: {
-          sku: data.sku,
-          userId: session.user.id,
-          id: { not: id }
-        },
-      });
-      
-      if (duplicateSku) {
-        return NextResponse.json({ error: "This SKU is already in use in your inventory. Please use a different SKU." }, { status: 400 });
-      }
-    }
-    
-    // Prepare images as JSON if provided
-    let imagesJson = undefined;
-    if (data.images && Array.isArray(data.images)) {
-      const imagesData = data.images.map((url: string) => ({
-        url,
-        alt: data.name || existingProduct.name
-      }));
-      imagesJson = imagesData.length > 0 ? imagesData : null;
-    }
-    
-    try {
-      const updatedProduct = await prisma.product.update({
-        where: {
-          id,
-        },
-        data: {
-          name: data.name !== undefined ? data.name : undefined,
-          description: data.description !== undefined ? data.description : undefined,
-          unitCost: data.unitCost !== undefined ? parseFloat(String(data.unitCost)) : undefined,
-          sellingPrice: data.sellingPrice !== undefined ? parseFloat(String(data.sellingPrice)) : undefined,
-          stockQuantity: data.stockQuantity !== undefined ? parseInt(String(data.stockQuantity)) : undefined,
-          sku: data.sku !== undefined ? data.sku : undefined,
-          category: data.category !== undefined ? data.category : undefined,
-          size: data.size !== undefined ? data.size : undefined,
-          color: data.color !== undefined ? data.color : undefined,
-          location: data.location !== undefined ? data.location : undefined,
-          imagesJson: imagesJson
-        }
-      });
-      
-      return NextResponse.json(updatedProduct);
-    } catch (error: any) {
-      if (error.code === 'P2002' && error.meta?.target?.includes('sku')) {
-        return NextResponse.json({ error: "This SKU is already in use in your inventory. Please use a different SKU." }, { status: 400 });
-      }
-      throw error;
-    }
-  } catch (error) {
-    console.error('Error updating product:', error);
-    return NextResponse.json({ error: 'Failed to update product' }, { status: 500 });
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get('id');
+
+  if (!id) {
+    return NextResponse.json({ error: 'Product ID is required' }, { status: 400 });
   }
+
+  return updateProduct(req, session, id);
 }
 
 // Delete a product
 export async function DELETE(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     const { searchParams } = new URL(req.url);
@@ -273,7 +215,7 @@ export async function DELETE(req: Request) {
     const existingProduct = await prisma.product.findFirst({
       where: {
         id,
-        userId: session.user.id
+        userId: session.user.ownerId
       },
     });
     
@@ -287,7 +229,16 @@ export async function DELETE(req: Request) {
         id
       },
     });
-    
+
+    await recordAudit(prisma, session, {
+      action: 'delete',
+      entityType: 'Product',
+      entityId: id,
+      before: existingProduct,
+      summary: `Deleted product ${existingProduct.sku}`,
+    });
+    await emitWebhookEvent(prisma, session.user.ownerId, 'product.deleted', existingProduct);
+
     return NextResponse.json({ message: 'Product deleted successfully' });
   } catch (error) {
     console.error('Error deleting product:', error);
@@ -0,0 +1,177 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import {
+  canReceive,
+  describeVariance,
+  planReceipt,
+  PurchaseOrderError,
+  PurchaseOrderStatus,
+} from '@/lib/purchase-orders';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { syncProductStock } from '@/lib/variants';
+import { ReceivePurchaseOrderBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// POST /api/purchase-orders/[orderId]/receive - Receive goods into stock
+// Body: { lines: [{ lineId, quantity }], closeShort?: boolean, inventoryId?: string }
+export async function POST(
+  req: Request,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const purchaseOrder = await prisma.purchaseOrder.findFirst({
+      where: {
+        id: params.orderId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        lines: true,
+      },
+    });
+
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    if (!canReceive(purchaseOrder.status as PurchaseOrderStatus)) {
+      return NextResponse.json(
+        { error: `Cannot receive against a purchase order that is ${purchaseOrder.status}` },
+        { status: 400 }
+      );
+    }
+
+    const body = await parseBody(req, ReceivePurchaseOrderBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { lines, closeShort, inventoryId } = body;
+
+    // Goods can be received straight into a location
+    if (inventoryId) {
+      const location = await prisma.inventory.findFirst({
+        where: {
+          id: inventoryId,
+          userId: session.user.ownerId,
+          isActive: true,
+        },
+      });
+
+      if (!location) {
+        return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+      }
+    }
+
+    let plan;
+    try {
+      plan = planReceipt(purchaseOrder.lines, lines, Boolean(closeShort));
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        for (const line of plan.lines) {
+          // The plan was worked out from the quantities read above, so it only applies while
+          // nothing else was received against the line in the meantime
+          const received = await tx.purchaseOrderLine.updateMany({
+            where: { id: line.lineId, quantityReceived: line.quantityReceivedAfter - line.quantity },
+            data: { quantityReceived: { increment: line.quantity } },
+          });
+          if (received.count === 0) {
+            throw new PurchaseOrderError('Goods were received against this order at the same time; reload it and try again');
+          }
+
+          // A product with variants gets its stock from them, so the units go to the variant
+          if (line.variantId) {
+            await tx.productVariant.update({
+              where: { id: line.variantId },
+              data: { stockQuantity: { increment: line.quantity } },
+            });
+            await syncProductStock(tx, line.productId);
+          } else {
+            await tx.product.update({
+              where: { id: line.productId },
+              data: { stockQuantity: { increment: line.quantity } },
+            });
+          }
+
+          if (inventoryId) {
+            await tx.stockLevel.upsert({
+              where: {
+                productId_inventoryId: { productId: line.productId, inventoryId },
+              },
+              create: { productId: line.productId, inventoryId, quantity: line.quantity },
+              update: { quantity: { increment: line.quantity } },
+            });
+          }
+
+          await tx.inventoryChange.create({
+            data: {
+              type: 'add',
+              quantity: line.quantity,
+              reason: 'Purchase order receipt',
+              reference: purchaseOrder.poNumber,
+              notes: describeVariance(line),
+              productId: line.productId,
+              variantId: line.variantId,
+              inventoryId: inventoryId || null,
+              userId: session.user.ownerId,
+              createdById: session.user.id,
+            },
+          });
+        }
+
+        return tx.purchaseOrder.update({
+          where: { id: purchaseOrder.id },
+          data: {
+            status: plan.nextStatus,
+            receivedAt: plan.nextStatus === 'RECEIVED' ? new Date() : undefined,
+          },
+          include: {
+            lines: true,
+          },
+        });
+      });
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      throw error;
+    }
+
+    const unitsReceived = (orderLines: { quantityReceived: number }[]) =>
+      orderLines.reduce((sum, line) => sum + line.quantityReceived, 0);
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'PurchaseOrder',
+      entityId: purchaseOrder.id,
+      before: { ...purchaseOrder, unitsReceived: unitsReceived(purchaseOrder.lines) },
+      after: { ...result, unitsReceived: unitsReceived(result.lines) },
+      summary: `Received ${plan.lines.reduce((sum, line) => sum + line.quantity, 0)} unit(s) against ${purchaseOrder.poNumber}`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      purchaseOrder: result,
+      received: plan.lines,
+      isComplete: plan.isComplete,
+    });
+  } catch (error) {
+    console.error('Error receiving purchase order:', error);
+    return NextResponse.json(
+      { error: 'Failed to receive purchase order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import {
+  assertLineVariants,
+  canTransition,
+  PurchaseOrderError,
+  PurchaseOrderStatus,
+} from '@/lib/purchase-orders';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { UpdatePurchaseOrderBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// GET /api/purchase-orders/[orderId] - Get a purchase order with its lines
+export async function GET(
+  req: Request,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const purchaseOrder = await prisma.purchaseOrder.findFirst({
+      where: {
+        id: params.orderId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        supplier: true,
+        lines: {
+          include: {
+            product: {
+              select: { id: true, name: true, sku: true, stockQuantity: true },
+            },
+            variant: {
+              select: { id: true, sku: true, size: true, color: true, stockQuantity: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(purchaseOrder);
+  } catch (error) {
+    console.error('Error fetching purchase order:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch purchase order' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/purchase-orders/[orderId] - Update a purchase order or change its status
+// Lines can only be edited while the order is still a draft
+export async function PUT(
+  req: Request,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const existingOrder = await prisma.purchaseOrder.findFirst({
+      where: {
+        id: params.orderId,
+        userId: session.user.ownerId,
+      },
+    });
+
+    if (!existingOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const body = await parseBody(req, UpdatePurchaseOrderBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { status, expectedAt, notes, lines } = body;
+    const currentStatus = existingOrder.status as PurchaseOrderStatus;
+
+    if (status && status !== currentStatus && !canTransition(currentStatus, status)) {
+      return NextResponse.json(
+        { error: `Cannot change status from ${currentStatus} to ${status}` },
+        { status: 400 }
+      );
+    }
+
+    if (lines !== undefined) {
+      if (currentStatus !== 'DRAFT') {
+        return NextResponse.json(
+          { error: 'Lines can only be changed on draft purchase orders' },
+          { status: 400 }
+        );
+      }
+
+      const productIds = Array.from(new Set(lines.map(line => line.productId)));
+      const products = await prisma.product.findMany({
+        where: {
+          id: { in: productIds },
+          userId: session.user.ownerId,
+        },
+        select: {
+          id: true,
+          name: true,
+          variants: { where: { isActive: true }, select: { id: true } },
+        },
+      });
+
+      if (products.length !== productIds.length) {
+        return NextResponse.json({ error: 'One or more products were not found' }, { status: 404 });
+      }
+
+      try {
+        assertLineVariants(lines, products);
+      } catch (error) {
+        if (error instanceof PurchaseOrderError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
+    const purchaseOrder = await prisma.$transaction(async (tx) => {
+      if (lines !== undefined) {
+        await tx.purchaseOrderLine.deleteMany({
+          where: { purchaseOrderId: existingOrder.id },
+        });
+
+        await tx.purchaseOrderLine.createMany({
+          data: lines.map(line => ({
+            purchaseOrderId: existingOrder.id,
+            productId: line.productId,
+            variantId: line.variantId || null,
+            quantityOrdered: line.quantity,
+            unitCost: line.unitCost ?? null,
+          })),
+        });
+      }
+
+      return tx.purchaseOrder.update({
+        where: { id: existingOrder.id },
+        data: {
+          status: status || undefined,
+          orderedAt: status === 'SENT' ? new Date() : undefined,
+          receivedAt: status === 'RECEIVED' ? new Date() : undefined,
+          expectedAt,
+          notes: notes !== undefined ? notes || null : undefined,
+        },
+        include: {
+          supplier: true,
+          lines: true,
+        },
+      });
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'PurchaseOrder',
+      entityId: purchaseOrder.id,
+      before: existingOrder,
+      after: purchaseOrder,
+      summary: lines !== undefined ? `Replaced the lines on ${purchaseOrder.poNumber}` : undefined,
+    });
+
+    return NextResponse.json(purchaseOrder);
+  } catch (error) {
+    console.error('Error updating purchase order:', error);
+    return NextResponse.json(
+      { error: 'Failed to update purchase order' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/purchase-orders/[orderId] - Delete a draft purchase order
+export async function DELETE(
+  req: Request,
+  { params }: { params: { orderId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const existingOrder = await prisma.purchaseOrder.findFirst({
+      where: {
+        id: params.orderId,
+        userId: session.user.ownerId,
+      },
+    });
+
+    if (!existingOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    if (existingOrder.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: 'Only draft purchase orders can be deleted. Cancel it instead.' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.purchaseOrder.delete({
+      where: { id: existingOrder.id },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'delete',
+      entityType: 'PurchaseOrder',
+      entityId: existingOrder.id,
+      before: existingOrder,
+      summary: `Deleted ${existingOrder.poNumber}`,
+    });
+
+    return NextResponse.json({ message: 'Purchase order deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting purchase order:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete purchase order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import {
+  assertLineVariants,
+  nextPoNumber,
+  PURCHASE_ORDER_STATUSES,
+  PurchaseOrderError,
+  PurchaseOrderStatus,
+} from '@/lib/purchase-orders';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { CreatePurchaseOrderBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// Attempts at taking the next PO number before giving up, when other orders are created at the same time
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+// GET /api/purchase-orders - List purchase orders, optionally filtered by status or supplier
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get('status');
+    const supplierId = searchParams.get('supplierId');
+
+    const whereClause: any = {
+      userId: session.user.ownerId,
+    };
+
+    if (status) {
+      if (!PURCHASE_ORDER_STATUSES.includes(status as PurchaseOrderStatus)) {
+        return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+      }
+      whereClause.status = status;
+    }
+
+    if (supplierId) {
+      whereClause.supplierId = supplierId;
+    }
+
+    const purchaseOrders = await prisma.purchaseOrder.findMany({
+      where: whereClause,
+      include: {
+        supplier: {
+          select: { id: true, name: true },
+        },
+        lines: {
+          include: {
+            product: {
+              select: { id: true, name: true, sku: true },
+            },
+            variant: {
+              select: { id: true, sku: true, size: true, color: true },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ purchaseOrders });
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch purchase orders' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/purchase-orders - Create a draft purchase order
+export async function POST(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, CreatePurchaseOrderBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { supplierId, expectedAt, notes, lines } = body;
+
+    const supplier = await prisma.supplier.findFirst({
+      where: {
+        id: supplierId,
+        userId: session.user.ownerId,
+        isActive: true,
+      },
+    });
+
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    // Make sure every product belongs to this user
+    const productIds = Array.from(new Set(lines.map(line => line.productId)));
+    const products = await prisma.product.findMany({
+      where: {
+        id: { in: productIds },
+        userId: session.user.ownerId,
+      },
+      select: {
+        id: true,
+        name: true,
+        variants: { where: { isActive: true }, select: { id: true } },
+      },
+    });
+
+    if (products.length !== productIds.length) {
+      return NextResponse.json({ error: 'One or more products were not found' }, { status: 404 });
+    }
+
+    try {
+      assertLineVariants(lines, products);
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    // Two orders created at once can pick the same number; the loser of the unique constraint
+    // tries again with the next one
+    let purchaseOrder;
+    for (let attempt = 1; ; attempt++) {
+      const orders = await prisma.purchaseOrder.findMany({
+        where: { userId: session.user.ownerId },
+        select: { poNumber: true },
+      });
+
+      try {
+        purchaseOrder = await prisma.purchaseOrder.create({
+          data: {
+            poNumber: nextPoNumber(orders.map(order => order.poNumber)),
+            expectedAt: expectedAt ?? null,
+            notes: notes || null,
+            userId: session.user.ownerId,
+            supplierId: supplier.id,
+            lines: {
+              create: lines.map(line => ({
+                productId: line.productId,
+                variantId: line.variantId || null,
+                quantityOrdered: line.quantity,
+                unitCost: line.unitCost ?? null,
+              })),
+            },
+          },
+          include: {
+            supplier: true,
+            lines: true,
+          },
+        });
+        break;
+      } catch (error) {
+        const numberTaken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!numberTaken || attempt >= MAX_NUMBERING_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+
+    await recordAudit(prisma, session, {
+      action: 'create',
+      entityType: 'PurchaseOrder',
+      entityId: purchaseOrder.id,
+      after: purchaseOrder,
+      summary: `Created ${purchaseOrder.poNumber} for ${supplier.name}`,
+    });
+
+    return NextResponse.json(purchaseOrder, { status: 201 });
+  } catch (error) {
+    console.error('Error creating purchase order:', error);
+    return NextResponse.json(
+      { error: 'Failed to create purchase order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { loadAgingReport } from '@/lib/receivables';
+
+// GET /api/receivables - What customers still owe, aged 0-30, 31-60, 61-90 and 90+ days since the sale
+export async function GET() {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const report = await loadAgingReport(prisma, session.user.ownerId);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error building aging report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build aging report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { runSalesHistoryImport } from '@/lib/sales-history-import';
+import { CommitImportBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// POST /api/sales-history/import/[jobId]/commit - Run an import that was previewed with a dry run
+// Body (optional): { onConflict: "skip" | "update" } for rows imported before with other values
+export async function POST(
+  req: Request,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    // The body may be left out altogether
+    const body = await parseBody(req, CommitImportBody, { optional: true });
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { onConflict } = body;
+
+    const job = await prisma.importJob.findFirst({
+      where: {
+        id: params.jobId,
+        businessId: session.user.ownerId,
+        type: 'salesHistory',
+      },
+    });
+
+    if (!job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+    }
+
+    // Only move it on if it is still a preview, so a double click cannot import twice
+    const queued = await prisma.importJob.updateMany({
+      where: { id: job.id, status: 'PREVIEW' },
+      data: { status: 'PENDING', onConflict },
+    });
+
+    if (queued.count === 0) {
+      return NextResponse.json(
+        { error: 'This import has already been started' },
+        { status: 409 }
+      );
+    }
+
+    // Not awaited: large files would otherwise outlast the request
+    void runSalesHistoryImport(prisma, session, job.id);
+
+    return NextResponse.json(
+      { jobId: job.id, status: 'PENDING', totalRows: job.totalRows },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error starting import job:', error);
+    return NextResponse.json(
+      { error: 'Failed to start import' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+
+// GET /api/sales-history/import/[jobId] - Status, progress and row errors of an import job
+export async function GET(
+  req: Request,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    // The uploaded rows are left out; they can be large and the client already has them
+    const job = await prisma.importJob.findFirst({
+      where: {
+        id: params.jobId,
+        businessId: session.user.ownerId,
+        type: 'salesHistory',
+      },
+      select: {
+        id: true,
+        status: true,
+        totalRows: true,
+        processedRows: true,
+        preview: true,
+        result: true,
+        errors: true,
+        failureReason: true,
+        startedAt: true,
+        completedAt: true,
+        createdAt: true,
+      },
+    });
+
+    if (!job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Error fetching import job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requirePermission } from "@/lib/authorize";
+import { loadSaleDocument, renderInvoicePdf } from "@/lib/sale-documents";
+
+// GET /api/sales/[saleId]/invoice - The sale's invoice as an A4 PDF. The first request issues
+// the invoice with the business's next number; later ones return the same invoice.
+// Query: download=1 to save the file instead of opening it
+export async function GET(
+  req: Request,
+  { params }: { params: { saleId: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_SALES");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const document = await loadSaleDocument(prisma, session.user.ownerId, params.saleId, { invoice: true });
+    if (!document) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    const pdf = await renderInvoicePdf(document);
+    const { searchParams } = new URL(req.url);
+    const disposition = searchParams.get("download") === "1" ? "attachment" : "inline";
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${disposition}; filename="${document.invoice!.number}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering invoice:", error);
+    return NextResponse.json({ error: "Failed to render invoice" }, { status: 500 });
+  }
+}
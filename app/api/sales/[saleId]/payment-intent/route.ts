@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requirePermission } from "@/lib/authorize";
+import { pendingPaymentIntent } from "@/lib/card-payments";
+import { GatewayError, getPaymentGateway } from "@/lib/payment-gateway";
+
+// GET /api/sales/[saleId]/payment-intent - The PaymentIntent of a card sale still waiting to be
+// paid online, to take the card for a sale that was left to be paid later
+export async function GET(
+  req: Request,
+  { params }: { params: { saleId: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_SALES");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const sale = await prisma.sale.findFirst({
+      where: {
+        id: params.saleId,
+        userId: session.user.ownerId,
+      },
+    });
+
+    if (!sale) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    if (!sale.gatewayPaymentId || sale.paymentStatus !== "PENDING") {
+      return NextResponse.json({ error: "This sale is not waiting for a card payment" }, { status: 409 });
+    }
+
+    const gateway = getPaymentGateway();
+    if (!gateway) {
+      return NextResponse.json({ error: "Card payments are not configured" }, { status: 502 });
+    }
+
+    try {
+      const paymentIntent = await pendingPaymentIntent(prisma, gateway, { ...sale, gatewayPaymentId: sale.gatewayPaymentId });
+      return NextResponse.json({ saleId: sale.id, amount: sale.totalAmount, paymentIntent });
+    } catch (error) {
+      if (error instanceof GatewayError) {
+        return NextResponse.json({ error: `Card payment could not be loaded: ${error.message}` }, { status: 502 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error loading card payment:", error);
+    return NextResponse.json({ error: "Failed to load card payment" }, { status: 500 });
+  }
+}
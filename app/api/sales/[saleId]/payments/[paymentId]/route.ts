@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requirePermission } from "@/lib/authorize";
+import { recordAudit } from "@/lib/audit";
+import { OPEN_PAYMENT_STATUSES, paidAmount, statusForPaidAmount } from "@/lib/receivables";
+
+// DELETE /api/sales/[saleId]/payments/[paymentId] - Remove a payment recorded by mistake; the
+// sale is waiting for that amount again
+export async function DELETE(
+  req: Request,
+  { params }: { params: { saleId: string; paymentId: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_SALES");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const sale = await prisma.sale.findFirst({
+      where: {
+        id: params.saleId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        payments: true,
+      },
+    });
+
+    const payment = sale?.payments.find(p => p.id === params.paymentId);
+    if (!sale || !payment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    // Once goods have been returned the sale's status is about the refund, not the payments
+    if (![...OPEN_PAYMENT_STATUSES, "PAID"].includes(sale.paymentStatus)) {
+      return NextResponse.json({ error: `Cannot remove a payment from a sale that is ${sale.paymentStatus}` }, { status: 400 });
+    }
+
+    const paidAfter = paidAmount(sale) - payment.amount;
+    const nextStatus = statusForPaidAmount(sale, paidAfter);
+
+    await prisma.$transaction([
+      prisma.payment.delete({ where: { id: payment.id } }),
+      prisma.sale.update({
+        where: { id: sale.id },
+        data: { paymentStatus: nextStatus },
+      }),
+    ]);
+
+    await recordAudit(prisma, session, {
+      action: "update",
+      entityType: "Sale",
+      entityId: sale.id,
+      before: { paymentStatus: sale.paymentStatus, payment },
+      after: { paymentStatus: nextStatus },
+      summary: `Removed a ${payment.method} payment of ${payment.amount}`,
+    });
+
+    return NextResponse.json({ success: true, paymentStatus: nextStatus });
+  } catch (error) {
+    console.error("[SALE_PAYMENT_DELETE]", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requirePermission } from "@/lib/authorize";
+import { recordAudit } from "@/lib/audit";
+import { balanceDue, dueDateOf, OPEN_PAYMENT_STATUSES, paidAmount, PaymentError, planPayment } from "@/lib/receivables";
+import { RecordPaymentBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// GET /api/sales/[saleId]/payments - List the payments made against a sale, with what is still owed
+export async function GET(
+  req: Request,
+  { params }: { params: { saleId: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_SALES");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const sale = await prisma.sale.findFirst({
+      where: {
+        id: params.saleId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        payments: {
+          orderBy: { paidAt: "desc" },
+        },
+        invoice: true,
+      },
+    });
+
+    if (!sale) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      payments: sale.payments,
+      paymentStatus: sale.paymentStatus,
+      totalAmount: sale.totalAmount,
+      paidAmount: paidAmount(sale),
+      balanceDue: OPEN_PAYMENT_STATUSES.includes(sale.paymentStatus) ? balanceDue(sale) : 0,
+      dueDate: OPEN_PAYMENT_STATUSES.includes(sale.paymentStatus) ? dueDateOf(sale) : null,
+    });
+  } catch (error) {
+    console.error("[SALE_PAYMENTS_GET]", error);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
+
+// POST /api/sales/[saleId]/payments - Record a payment against a sale that is not paid in full
+// Body: { amount, method, paidAt?, reference?, note? }
+export async function POST(
+  req: Request,
+  { params }: { params: { saleId: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_SALES");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, RecordPaymentBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const sale = await prisma.sale.findFirst({
+      where: {
+        id: params.saleId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        payments: true,
+      },
+    });
+
+    if (!sale) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        // Planned on the sale as it is now, and only written if no other payment or change
+        // landed in between, so two payments at once can never add up to more than is owed
+        const current = await tx.sale.findUniqueOrThrow({
+          where: { id: sale.id },
+          include: { payments: true },
+        });
+        const plan = planPayment(current, body.amount);
+
+        const created = await tx.payment.create({
+          data: {
+            amount: body.amount,
+            method: body.method,
+            reference: body.reference || null,
+            note: body.note || null,
+            paidAt: body.paidAt,
+            saleId: sale.id,
+            userId: session.user.ownerId,
+            createdById: session.user.id,
+          },
+        });
+
+        const updated = await tx.sale.updateMany({
+          where: { id: sale.id, updatedAt: current.updatedAt },
+          data: { paymentStatus: plan.nextStatus },
+        });
+        if (updated.count === 0) {
+          throw new PaymentError("The sale changed while the payment was being recorded; please try again");
+        }
+
+        return { payment: created, plan };
+      });
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    const { payment, plan } = result;
+
+    await recordAudit(prisma, session, {
+      action: "update",
+      entityType: "Sale",
+      entityId: sale.id,
+      before: { paymentStatus: sale.paymentStatus, paidAmount: paidAmount(sale) },
+      after: { paymentStatus: plan.nextStatus, paidAmount: plan.paidAmountAfter },
+      summary: `Recorded a ${body.method} payment of ${body.amount}`,
+    });
+
+    return NextResponse.json(
+      {
+        payment,
+        paidAmount: plan.paidAmountAfter,
+        balanceDue: plan.balanceAfter,
+        paymentStatus: plan.nextStatus,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("[SALE_PAYMENTS_POST]", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal error" },
+      { status: 500 }
+    );
+  }
+}
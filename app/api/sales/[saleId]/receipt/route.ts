@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { requirePermission } from "@/lib/authorize";
+import { loadSaleDocument, renderReceiptHtml } from "@/lib/sale-documents";
+
+// GET /api/sales/[saleId]/receipt - The sale's receipt as a page for 80mm thermal printers
+// Query: print=1 to open the print dialog as soon as it loads
+export async function GET(
+  req: Request,
+  { params }: { params: { saleId: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_SALES");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const document = await loadSaleDocument(prisma, session.user.ownerId, params.saleId);
+    if (!document) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const html = renderReceiptHtml(document, { autoPrint: searchParams.get("print") === "1" });
+
+    return new NextResponse(html, {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("Error rendering receipt:", error);
+    return NextResponse.json({ error: "Failed to render receipt" }, { status: 500 });
+  }
+}
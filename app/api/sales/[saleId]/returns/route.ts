@@ -0,0 +1,243 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { planReturn, ReturnError } from "@/lib/returns";
+import { syncProductStock } from "@/lib/variants";
+import { restockLocation, saleLocation } from "@/lib/stock-levels";
+import { requirePermission } from "@/lib/authorize";
+import { recordAudit } from "@/lib/audit";
+import { CreateReturnBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+import { refundGatewayPayment } from "@/lib/card-payments";
+import { GatewayError, getPaymentGateway } from "@/lib/payment-gateway";
+
+// GET /api/sales/[saleId]/returns - List the returns made against a sale
+export async function GET(
+  req: Request,
+  { params }: { params: { saleId: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_SALES");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const sale = await prisma.sale.findFirst({
+      where: {
+        id: params.saleId,
+        userId: session.user.ownerId,
+      },
+      select: { id: true },
+    });
+
+    if (!sale) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    const returns = await prisma.saleReturn.findMany({
+      where: { saleId: sale.id },
+      include: {
+        items: {
+          include: {
+            saleItem: {
+              include: {
+                product: {
+                  select: { id: true, name: true },
+                },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ returns });
+  } catch (error) {
+    console.error("[SALE_RETURNS_GET]", error);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
+
+// POST /api/sales/[saleId]/returns - Return and refund some or all items of a sale
+// Body: { items: [{ saleItemId, quantity }], restock?: boolean, reason?: string }
+// Card sales paid online are refunded through the payment gateway before the return is recorded.
+export async function POST(
+  req: Request,
+  { params }: { params: { saleId: string } }
+) {
+  try {
+    const session = await requirePermission("MANAGE_SALES");
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const sale = await prisma.sale.findFirst({
+      where: {
+        id: params.saleId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        items: true,
+      },
+    });
+
+    if (!sale) {
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    const body = await parseBody(req, CreateReturnBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { items, restock, reason } = body;
+
+    let plan;
+    try {
+      plan = planReturn(sale, items);
+    } catch (error) {
+      if (error instanceof ReturnError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    let gatewayRefund = null;
+    if (sale.gatewayPaymentId && plan.refundAmount > 0) {
+      const gateway = getPaymentGateway();
+      if (!gateway) {
+        return NextResponse.json({ error: "Card payments are not configured, so the refund cannot be made" }, { status: 502 });
+      }
+
+      try {
+        gatewayRefund = await refundGatewayPayment(
+          prisma,
+          gateway,
+          { ...sale, gatewayPaymentId: sale.gatewayPaymentId },
+          plan.refundAmount,
+          plan.refundedAmountAfter
+        );
+      } catch (error) {
+        if (error instanceof GatewayError) {
+          return NextResponse.json({ error: `Refund could not be made: ${error.message}` }, { status: 502 });
+        }
+        throw error;
+      }
+    }
+
+    const saleReturn = await prisma.$transaction(async (tx) => {
+      const created = await tx.saleReturn.create({
+        data: {
+          saleId: sale.id,
+          userId: session.user.id,
+          refundAmount: plan.refundAmount,
+          reason: reason || null,
+          restocked: restock,
+          items: {
+            create: plan.lines.map((line) => ({
+              saleItemId: line.saleItemId,
+              quantity: line.quantity,
+              refundAmount: line.refundAmount,
+            })),
+          },
+        },
+        include: {
+          items: true,
+        },
+      });
+
+      // Restocked goods go back to the location they were sold from
+      const inventoryId = restock ? await saleLocation(tx, sale.id) : null;
+      for (const line of plan.lines) {
+        await tx.saleItem.update({
+          where: { id: line.saleItemId },
+          data: {
+            returnedQuantity: {
+              increment: line.quantity,
+            },
+          },
+        });
+
+        if (!restock) {
+          continue;
+        }
+
+        if (line.variantId) {
+          await tx.productVariant.update({
+            where: { id: line.variantId },
+            data: {
+              stockQuantity: {
+                increment: line.quantity,
+              },
+            },
+          });
+          await syncProductStock(tx, line.productId);
+        } else {
+          await tx.product.update({
+            where: { id: line.productId },
+            data: {
+              stockQuantity: {
+                increment: line.quantity,
+              },
+            },
+          });
+        }
+        if (inventoryId) {
+          await restockLocation(tx, line.productId, inventoryId, line.quantity);
+        }
+
+        await tx.inventoryChange.create({
+          data: {
+            productId: line.productId,
+            variantId: line.variantId,
+            inventoryId,
+            userId: session.user.ownerId,
+            createdById: session.user.id,
+            type: "add",
+            quantity: line.quantity,
+            reason: reason ? `Return: ${reason}` : "Return",
+            reference: `Sale #${sale.id}`,
+          },
+        });
+      }
+
+      await tx.sale.update({
+        where: { id: sale.id },
+        data: {
+          refundedAmount: plan.refundedAmountAfter,
+          paymentStatus: plan.nextStatus,
+        },
+      });
+
+      return created;
+    });
+
+    await recordAudit(prisma, session, {
+      action: "update",
+      entityType: "Sale",
+      entityId: sale.id,
+      before: sale,
+      after: {
+        refundedAmount: plan.refundedAmountAfter,
+        paymentStatus: plan.nextStatus,
+      },
+      summary: `Returned ${plan.lines.reduce((sum, line) => sum + line.quantity, 0)} item(s) for a refund of ${plan.refundAmount}`,
+    });
+
+    return NextResponse.json(
+      {
+        return: saleReturn,
+        refundAmount: plan.refundAmount,
+        refundedAmount: plan.refundedAmountAfter,
+        paymentStatus: plan.nextStatus,
+        gatewayRefund,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("[SALE_RETURNS_POST]", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal error" },
+      { status: 500 }
+    );
+  }
+}
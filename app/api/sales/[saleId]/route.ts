@@ -1,32 +1,54 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { syncProductStock } from "@/lib/variants";
+import { restockLocation, saleLocation } from "@/lib/stock-levels";
+import { requirePermission } from "@/lib/authorize";
+import { recordAudit } from "@/lib/audit";
+import { notify } from "@/lib/notifications";
+import { ensureInvoice } from "@/lib/invoices";
+import { UpdateSaleBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+import { releaseGatewayPayment } from "@/lib/card-payments";
+import { GatewayError, getPaymentGateway } from "@/lib/payment-gateway";
+
+// Payment statuses of sales whose items are still out of stock
+const RESTOCKED_ON_DELETE = ["COMPLETED", "PAID", "PENDING", "PARTIALLY_PAID", "PARTIALLY_REFUNDED"];
 
 export async function PUT(
   req: NextRequest,
   { params }: { params: { saleId: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission("MANAGE_SALES");
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     const saleId = params.saleId;
-    const body = await req.json();
-    const { paymentMethod, paymentStatus, totalAmount } = body;
+    const body = await parseBody(req, UpdateSaleBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { paymentMethod, paymentStatus, customerId, dueDate } = body;
 
     // Check if sale exists and belongs to user
     const existingSale = await prisma.sale.findUnique({
       where: {
         id: saleId,
-        userId: session.user.id,
+        userId: session.user.ownerId,
       },
     });
 
     if (!existingSale) {
-      return new NextResponse("Sale not found", { status: 404 });
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    // The payment gateway's webhooks own the status of card sales paid online
+    if (paymentStatus && paymentStatus !== existingSale.paymentStatus && existingSale.gatewayPaymentId) {
+      return NextResponse.json(
+        { error: "The payment status of a card sale paid online is set by the payment gateway" },
+        { status: 409 }
+      );
     }
 
     // Update the sale
@@ -40,8 +62,31 @@ export async function PUT(
       updateData.paymentStatus = paymentStatus;
     }
     
-    if (totalAmount !== undefined) {
-      updateData.totalAmount = totalAmount;
+    // Allow attaching, changing or clearing (null) the customer
+    if (customerId !== undefined) {
+      if (customerId) {
+        const customer = await prisma.customer.findFirst({
+          where: {
+            id: customerId,
+            userId: session.user.ownerId,
+          },
+        });
+
+        if (!customer) {
+          return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+        }
+      }
+
+      updateData.customerId = customerId || null;
+    }
+
+    // The due date lives on the invoice, which is issued now if the sale has none yet
+    if (dueDate) {
+      const invoice = await ensureInvoice(prisma, existingSale, dueDate);
+      await prisma.invoice.update({
+        where: { id: invoice.id },
+        data: { dueDate },
+      });
     }
 
     const updatedSale = await prisma.sale.update({
@@ -50,6 +95,7 @@ export async function PUT(
       },
       data: updateData,
       include: {
+        customer: true,
         items: {
           include: {
             product: true,
@@ -58,11 +104,30 @@ export async function PUT(
       },
     });
 
+    await recordAudit(prisma, session, {
+      action: "update",
+      entityType: "Sale",
+      entityId: saleId,
+      before: existingSale,
+      after: updatedSale,
+    });
+
+    if (updatedSale.paymentStatus === "FAILED" && existingSale.paymentStatus !== "FAILED") {
+      await notify(prisma, session.user.ownerId, {
+        type: "payment.failed",
+        title: `Payment failed for a sale of $${updatedSale.totalAmount.toFixed(2)}`,
+        body: `The ${updatedSale.paymentMethod} payment for sale #${updatedSale.id} failed` +
+          (updatedSale.customer ? ` (customer: ${updatedSale.customer.name}).` : "."),
+        link: "/sales-manager",
+        data: { saleId: updatedSale.id, totalAmount: updatedSale.totalAmount },
+      });
+    }
+
     return NextResponse.json(updatedSale);
   } catch (error) {
     console.error("[SALE_PUT]", error);
-    return new NextResponse(
-      error instanceof Error ? error.message : "Internal error",
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal error" },
       { status: 500 }
     );
   }
@@ -73,9 +138,9 @@ export async function DELETE(
   { params }: { params: { saleId: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission("MANAGE_SALES");
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     const saleId = params.saleId;
@@ -84,7 +149,7 @@ export async function DELETE(
     const existingSale = await prisma.sale.findUnique({
       where: {
         id: saleId,
-        userId: session.user.id,
+        userId: session.user.ownerId,
       },
       include: {
         items: true,
@@ -92,14 +157,56 @@ export async function DELETE(
     });
 
     if (!existingSale) {
-      return new NextResponse("Sale not found", { status: 404 });
+      return NextResponse.json({ error: "Sale not found" }, { status: 404 });
+    }
+
+    // A card sale paid online is canceled or refunded with the gateway first, so no money is
+    // taken for a sale that no longer exists
+    if (existingSale.gatewayPaymentId) {
+      const gateway = getPaymentGateway();
+      if (!gateway) {
+        return NextResponse.json({ error: "Card payments are not configured, so the card payment cannot be canceled" }, { status: 502 });
+      }
+
+      try {
+        await releaseGatewayPayment(prisma, gateway, { ...existingSale, gatewayPaymentId: existingSale.gatewayPaymentId });
+      } catch (error) {
+        if (error instanceof GatewayError) {
+          return NextResponse.json({ error: `Card payment could not be canceled: ${error.message}` }, { status: 502 });
+        }
+        throw error;
+      }
     }
 
     // Begin transaction to restore stock and delete sale
     await prisma.$transaction(async (tx) => {
-      // Restore product stock quantities if payment was completed
-      if (existingSale.paymentStatus === "COMPLETED") {
+      // Restore product stock quantities unless the sale was cancelled, failed or refunded.
+      // Quantities already handled by a return are not restocked a second time.
+      if (RESTOCKED_ON_DELETE.includes(existingSale.paymentStatus)) {
+        // Goods that left a location go back there
+        const inventoryId = await saleLocation(tx, saleId);
         for (const item of existingSale.items) {
+          const quantityToRestock = item.quantity - item.returnedQuantity;
+          if (quantityToRestock <= 0) {
+            continue;
+          }
+          if (inventoryId) {
+            await restockLocation(tx, item.productId, inventoryId, quantityToRestock);
+          }
+
+          if (item.variantId) {
+            await tx.productVariant.update({
+              where: { id: item.variantId },
+              data: {
+                stockQuantity: {
+                  increment: quantityToRestock,
+                },
+              },
+            });
+            await syncProductStock(tx, item.productId);
+            continue;
+          }
+
           const product = await tx.product.findUnique({
             where: { id: item.productId },
           });
@@ -109,7 +216,7 @@ export async function DELETE(
               where: { id: item.productId },
               data: {
                 stockQuantity: {
-                  increment: item.quantity,
+                  increment: quantityToRestock,
                 },
               },
             });
@@ -132,11 +239,19 @@ export async function DELETE(
       });
     });
 
+    await recordAudit(prisma, session, {
+      action: "delete",
+      entityType: "Sale",
+      entityId: saleId,
+      before: existingSale,
+      summary: `Deleted sale of ${existingSale.items.length} item(s) for ${existingSale.totalAmount}`,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("[SALE_DELETE]", error);
-    return new NextResponse(
-      error instanceof Error ? error.message : "Internal error",
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal error" },
       { status: 500 }
     );
   }
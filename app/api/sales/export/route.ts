@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { DATA_FILE_FORMATS, DataFileFormat } from '@/lib/data-files';
+import { exportResponse, SALE_EXPORT_COLUMNS, saleExportRows } from '@/lib/exports';
+import { saleListOrderBy, saleListWhere } from '@/lib/list-queries';
+
+// GET /api/sales/export?format=csv|xlsx|json - Download the line items of every sale matching the list filters
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const format = (searchParams.get('format') || 'csv') as DataFileFormat;
+
+    if (!DATA_FILE_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${DATA_FILE_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const orderBy = saleListOrderBy(searchParams);
+    const sales = await prisma.sale.findMany({
+      where: saleListWhere(session.user.ownerId, searchParams),
+      include: {
+        customer: { select: { name: true } },
+        items: {
+          include: {
+            product: { select: { name: true } },
+            variant: { select: { sku: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: orderBy ?? undefined,
+    });
+
+    // Sorting by item count happens here, as in the list route
+    if (!orderBy) {
+      const direction = searchParams.get('sortDir') === 'asc' ? 1 : -1;
+      sales.sort((a, b) => (a.items.length - b.items.length) * direction);
+    }
+
+    return exportResponse(format, 'sales', SALE_EXPORT_COLUMNS, saleExportRows(sales));
+  } catch (error) {
+    console.error('Error exporting sales:', error);
+    return NextResponse.json(
+      { error: 'Failed to export sales' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { calculateSaleTotals, loadTaxRates } from '@/lib/sale-totals';
+import { SaleQuoteBody } from '@/lib/schemas';
+import { effectivePrice } from '@/lib/variants';
+import { parseBody } from '@/lib/validation';
+
+// POST /api/sales/quote - The subtotal, discounts, tax and total POST /api/sales will expect for the items
+export async function POST(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, SaleQuoteBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: body.items.map(item => item.productId) }, userId: session.user.ownerId },
+      select: {
+        id: true,
+        name: true,
+        category: true,
+        sellingPrice: true,
+        variants: { where: { isActive: true }, select: { id: true, priceOverride: true } },
+      },
+    });
+    const productsById = new Map(products.map(product => [product.id, product]));
+
+    // Priced the way POST /api/sales prices them, from the product or variant
+    const lines = [];
+    for (const item of body.items) {
+      const product = productsById.get(item.productId);
+      if (!product) {
+        return NextResponse.json({ error: `Product ${item.productId} not found` }, { status: 404 });
+      }
+
+      const variant = item.variantId ? product.variants.find(candidate => candidate.id === item.variantId) : null;
+      if (item.variantId && !variant) {
+        return NextResponse.json({ error: `Variant ${item.variantId} not found for product ${product.name}` }, { status: 404 });
+      }
+
+      lines.push({ ...item, price: effectivePrice(product, variant), category: product.category });
+    }
+
+    const totals = calculateSaleTotals(
+      lines,
+      await loadTaxRates(prisma, session.user.ownerId),
+      body.discount
+    );
+
+    return NextResponse.json(totals);
+  } catch (error) {
+    console.error('Error quoting sale totals:', error);
+    return NextResponse.json({ error: 'Failed to work out the totals' }, { status: 500 });
+  }
+}
@@ -1,7 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
 
 // Extract category from product name (format: "Product Name (Category)")
 const extractCategory = (productName: string): string => {
@@ -12,13 +11,13 @@ const extractCategory = (productName: string): string => {
 export async function GET(request: Request) {
   try {
     // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const session = await requirePermission('VIEW_REPORTS');
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     // Get the user ID
-    const userId = session.user.id;
+    const userId = session.user.ownerId;
 
     // Get all sale items for this user from the consolidated model
     const saleItems = await prisma.saleItem.findMany({
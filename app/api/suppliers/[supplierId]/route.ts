@@ -0,0 +1,172 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { UpdateSupplierBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// GET /api/suppliers/[supplierId] - Get a supplier with its recent purchase orders
+export async function GET(
+  req: Request,
+  { params }: { params: { supplierId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const supplier = await prisma.supplier.findFirst({
+      where: {
+        id: params.supplierId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        purchaseOrders: {
+          orderBy: { createdAt: 'desc' },
+          take: 10,
+        },
+      },
+    });
+
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(supplier);
+  } catch (error) {
+    console.error('Error fetching supplier:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch supplier' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/suppliers/[supplierId] - Update a supplier
+export async function PUT(
+  req: Request,
+  { params }: { params: { supplierId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const existingSupplier = await prisma.supplier.findFirst({
+      where: {
+        id: params.supplierId,
+        userId: session.user.ownerId,
+      },
+    });
+
+    if (!existingSupplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    const data = await parseBody(req, UpdateSupplierBody);
+    if (data instanceof NextResponse) {
+      return data;
+    }
+
+    const supplier = await prisma.supplier.update({
+      where: { id: existingSupplier.id },
+      data: {
+        name: data.name,
+        contactName: data.contactName !== undefined ? data.contactName || null : undefined,
+        email: data.email !== undefined ? data.email || null : undefined,
+        phone: data.phone !== undefined ? data.phone || null : undefined,
+        address: data.address !== undefined ? data.address || null : undefined,
+        leadTimeDays: data.leadTimeDays,
+        safetyStockDays: data.safetyStockDays,
+        notes: data.notes !== undefined ? data.notes || null : undefined,
+        isActive: data.isActive,
+      },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'Supplier',
+      entityId: supplier.id,
+      before: existingSupplier,
+      after: supplier,
+    });
+
+    return NextResponse.json(supplier);
+  } catch (error) {
+    console.error('Error updating supplier:', error);
+    return NextResponse.json(
+      { error: 'Failed to update supplier' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/suppliers/[supplierId] - Delete a supplier
+// Suppliers referenced by purchase orders are deactivated instead
+export async function DELETE(
+  req: Request,
+  { params }: { params: { supplierId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const existingSupplier = await prisma.supplier.findFirst({
+      where: {
+        id: params.supplierId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        _count: {
+          select: { purchaseOrders: true },
+        },
+      },
+    });
+
+    if (!existingSupplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    if (existingSupplier._count.purchaseOrders > 0) {
+      const deactivated = await prisma.supplier.update({
+        where: { id: existingSupplier.id },
+        data: { isActive: false },
+      });
+
+      await recordAudit(prisma, session, {
+        action: 'update',
+        entityType: 'Supplier',
+        entityId: deactivated.id,
+        before: existingSupplier,
+        after: deactivated,
+        summary: `Deactivated supplier ${deactivated.name}`,
+      });
+
+      return NextResponse.json({ message: 'Supplier deactivated', deactivated: true });
+    }
+
+    await prisma.supplier.delete({
+      where: { id: existingSupplier.id },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'delete',
+      entityType: 'Supplier',
+      entityId: existingSupplier.id,
+      before: existingSupplier,
+      summary: `Deleted supplier ${existingSupplier.name}`,
+    });
+
+    return NextResponse.json({ message: 'Supplier deleted successfully', deactivated: false });
+  } catch (error) {
+    console.error('Error deleting supplier:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete supplier' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { CreateSupplierBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// GET /api/suppliers - List suppliers
+export async function GET(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const search = searchParams.get('search')?.trim();
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    const whereClause: any = {
+      userId: session.user.ownerId,
+    };
+
+    if (!includeInactive) {
+      whereClause.isActive = true;
+    }
+
+    if (search) {
+      whereClause.name = { contains: search, mode: 'insensitive' };
+    }
+
+    const suppliers = await prisma.supplier.findMany({
+      where: whereClause,
+      include: {
+        _count: {
+          select: { purchaseOrders: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ suppliers });
+  } catch (error) {
+    console.error('Error fetching suppliers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suppliers' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/suppliers - Create a supplier
+export async function POST(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, CreateSupplierBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { name, contactName, email, phone, address, leadTimeDays, safetyStockDays, notes } = body;
+
+    const supplier = await prisma.supplier.create({
+      data: {
+        name,
+        contactName: contactName || null,
+        email: email || null,
+        phone: phone || null,
+        address: address || null,
+        leadTimeDays: leadTimeDays ?? null,
+        safetyStockDays: safetyStockDays ?? null,
+        notes: notes || null,
+        userId: session.user.ownerId,
+      },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'create',
+      entityType: 'Supplier',
+      entityId: supplier.id,
+      after: supplier,
+      summary: `Created supplier ${supplier.name}`,
+    });
+
+    return NextResponse.json(supplier, { status: 201 });
+  } catch (error) {
+    console.error('Error creating supplier:', error);
+    return NextResponse.json(
+      { error: 'Failed to create supplier' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { TaxRate } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { TaxRates } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+function taxRatesResponse(rates: TaxRate[]) {
+  return {
+    defaultRate: rates.find(rate => rate.category === null)?.rate ?? 0,
+    categories: rates
+      .filter(rate => rate.category !== null)
+      .map(rate => ({ category: rate.category as string, rate: rate.rate }))
+      .sort((a, b) => a.category.localeCompare(b.category)),
+  };
+}
+
+// One audit field per rate, so the entry shows which rates changed
+function auditFields(rates: ReturnType<typeof taxRatesResponse>) {
+  return {
+    defaultRate: rates.defaultRate,
+    ...Object.fromEntries(rates.categories.map(rate => [`category:${rate.category}`, rate.rate])),
+  };
+}
+
+// GET /api/tax-rates - The business's default sales tax rate and the rates of categories that differ
+export async function GET() {
+  try {
+    const session = await requirePermission();
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const rates = await prisma.taxRate.findMany({ where: { userId: session.user.ownerId } });
+    return NextResponse.json(taxRatesResponse(rates));
+  } catch (error) {
+    console.error('Error fetching tax rates:', error);
+    return NextResponse.json({ error: 'Failed to fetch tax rates' }, { status: 500 });
+  }
+}
+
+// PUT /api/tax-rates - Replace the business's tax rates; categories left out use the default rate
+export async function PUT(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const body = await parseBody(req, TaxRates);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const ownerId = session.user.ownerId;
+    const before = await prisma.taxRate.findMany({ where: { userId: ownerId } });
+
+    const after = await prisma.$transaction(async (tx) => {
+      await tx.taxRate.deleteMany({ where: { userId: ownerId } });
+      await tx.taxRate.createMany({
+        data: [
+          { category: null, rate: body.defaultRate, userId: ownerId },
+          ...body.categories.map(rate => ({ category: rate.category, rate: rate.rate, userId: ownerId })),
+        ],
+      });
+      return tx.taxRate.findMany({ where: { userId: ownerId } });
+    });
+
+    const result = taxRatesResponse(after);
+    await recordAudit(prisma, session, {
+      action: before.length > 0 ? 'update' : 'create',
+      entityType: 'TaxRates',
+      entityId: ownerId,
+      before: before.length > 0 ? auditFields(taxRatesResponse(before)) : null,
+      after: auditFields(result),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error updating tax rates:', error);
+    return NextResponse.json({ error: 'Failed to update tax rates' }, { status: 500 });
+  }
+}
@@ -1,9 +1,15 @@
 import { NextResponse } from 'next/server';
 import { ProjectedEarningsCalculator, DatabaseConnectionError, InsufficientDataError } from '@/lib/analytics/projected-earnings';
 import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
 
 export async function GET(request: Request) {
   try {
+    const session = await requirePermission('VIEW_ANALYTICS');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
     const { searchParams } = new URL(request.url);
     const timeRange = parseInt(searchParams.get('timeRange') || '30');
     // Add support for testing with a specific user ID
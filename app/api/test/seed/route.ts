@@ -1,13 +1,12 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { requirePermission } from "@/lib/authorize";
 
 export async function POST(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission("MANAGE_INVENTORY");
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     // Create test products
@@ -20,7 +19,7 @@ export async function POST(req: Request) {
           unitCost: 10.00,
           sellingPrice: 19.99,
           stockQuantity: 100,
-          userId: session.user.id,
+          userId: session.user.ownerId,
         },
       }),
       prisma.product.create({
@@ -31,7 +30,7 @@ export async function POST(req: Request) {
           unitCost: 15.00,
           sellingPrice: 29.99,
           stockQuantity: 50,
-          userId: session.user.id,
+          userId: session.user.ownerId,
         },
       }),
     ]);
@@ -1,9 +1,8 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import { authOptions } from "@/lib/auth";
 import path from 'path';
 import fs from 'fs';
 import { randomUUID } from 'crypto';
+import { requirePermission } from "@/lib/authorize";
 
 // Ensure upload directories exist
 const PUBLIC_DIR = path.join(process.cwd(), 'public');
@@ -21,9 +20,9 @@ const DOCUMENTS_DIR = path.join(UPLOADS_DIR, 'documents');
 export async function POST(req: Request) {
   try {
     // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    const session = await requirePermission(["MANAGE_INVENTORY", "MANAGE_SETTINGS"]);
+    if (session instanceof NextResponse) {
+      return session;
     }
 
     // Parse the form data
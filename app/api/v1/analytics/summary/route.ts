@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireApiKey } from '@/lib/authorize';
+import { summarizeSales, summaryRange } from '@/lib/api-v1';
+import { V1AnalyticsSummaryQuery } from '@/lib/schemas';
+import { parseQuery } from '@/lib/validation';
+
+// GET /api/v1/analytics/summary - Revenue, sales and units sold over a date range
+// Query: from and to (ISO dates; defaults to the last 30 days) and top (number of top products, up to 50)
+export async function GET(req: Request) {
+  try {
+    const session = await requireApiKey(req, ['VIEW_ANALYTICS', 'VIEW_REPORTS']);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const query = parseQuery(req, V1AnalyticsSummaryQuery);
+    if (query instanceof NextResponse) {
+      return query;
+    }
+
+    const { from, to } = summaryRange(query);
+
+    const sales = await prisma.sale.findMany({
+      where: {
+        userId: session.user.ownerId,
+        date: { gte: from, lte: to },
+      },
+      select: {
+        totalAmount: true,
+        refundedAmount: true,
+        taxAmount: true,
+        items: {
+          select: {
+            quantity: true,
+            returnedQuantity: true,
+            price: true,
+            productId: true,
+            productName: true,
+            product: { select: { name: true } },
+          },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      data: {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        ...summarizeSales(sales, query.top),
+      },
+    });
+  } catch (error) {
+    console.error('Error summarizing analytics for the API:', error);
+    return NextResponse.json({ error: 'Failed to summarize analytics' }, { status: 500 });
+  }
+}
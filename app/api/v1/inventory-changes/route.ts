@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { requireApiKey } from '@/lib/authorize';
+import { pageSkip, paginated } from '@/lib/api-v1';
+import { V1InventoryChangesQuery } from '@/lib/schemas';
+import { parseQuery } from '@/lib/validation';
+
+// GET /api/v1/inventory-changes - Stock movements of the key owner's business, newest first
+// Query: page, limit, productId, type (add | remove | adjust), since and until (ISO dates)
+export async function GET(req: Request) {
+  try {
+    const session = await requireApiKey(req, 'MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const query = parseQuery(req, V1InventoryChangesQuery);
+    if (query instanceof NextResponse) {
+      return query;
+    }
+
+    const where: Prisma.InventoryChangeWhereInput = { userId: session.user.ownerId };
+    if (query.since || query.until) {
+      where.createdAt = {
+        ...(query.since && { gte: query.since }),
+        ...(query.until && { lte: query.until }),
+      };
+    }
+    if (query.productId) {
+      where.productId = query.productId;
+    }
+    if (query.type) {
+      where.type = query.type;
+    }
+
+    const [changes, total] = await Promise.all([
+      prisma.inventoryChange.findMany({
+        where,
+        include: {
+          product: { select: { id: true, name: true, sku: true } },
+          variant: { select: { id: true, sku: true, size: true, color: true } },
+          inventory: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: pageSkip(query),
+        take: query.limit,
+      }),
+      prisma.inventoryChange.count({ where }),
+    ]);
+
+    return paginated(changes, query, total);
+  } catch (error) {
+    console.error('Error listing inventory changes for the API:', error);
+    return NextResponse.json({ error: 'Failed to list inventory changes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireApiKey } from '@/lib/authorize';
+import { dataResponse } from '@/lib/api-v1';
+import { adjustInventory } from '@/lib/inventory-adjustments';
+
+// POST /api/v1/inventory/adjust - Increase, decrease or set a product's stock
+// Body: the AdjustInventoryBody schema, as for POST /api/inventory/adjust
+export async function POST(req: Request) {
+  try {
+    const session = await requireApiKey(req, 'MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    return dataResponse(await adjustInventory(req, session));
+  } catch (error) {
+    console.error('Error adjusting inventory through the API:', error);
+    return NextResponse.json({ error: 'Failed to adjust inventory' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireApiKey } from '@/lib/authorize';
+import { dataResponse } from '@/lib/api-v1';
+import { updateProduct } from '@/lib/products';
+
+// GET /api/v1/products/[productId] - One product with its variants and stock per location
+export async function GET(
+  req: Request,
+  { params }: { params: { productId: string } }
+) {
+  try {
+    const session = await requireApiKey(req, ['MANAGE_INVENTORY', 'MANAGE_SALES']);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const product = await prisma.product.findFirst({
+      where: {
+        id: params.productId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        variants: {
+          where: { isActive: true },
+          orderBy: { createdAt: 'asc' },
+        },
+        stockLevels: {
+          include: {
+            inventory: {
+              select: { id: true, name: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: product });
+  } catch (error) {
+    console.error('Error fetching product for the API:', error);
+    return NextResponse.json({ error: 'Failed to fetch product' }, { status: 500 });
+  }
+}
+
+// PATCH /api/v1/products/[productId] - Change some of a product's fields
+// Body: the UpdateProductBody schema; fields left out keep their values
+export async function PATCH(
+  req: Request,
+  { params }: { params: { productId: string } }
+) {
+  try {
+    const session = await requireApiKey(req, 'MANAGE_INVENTORY');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    return dataResponse(await updateProduct(req, session, params.productId));
+  } catch (error) {
+    console.error('Error updating product through the API:', error);
+    return NextResponse.json({ error: 'Failed to update product' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireApiKey } from '@/lib/authorize';
+import { pageSkip, paginated, sortOrder } from '@/lib/api-v1';
+import { productListWhere } from '@/lib/list-queries';
+import { V1ProductsQuery } from '@/lib/schemas';
+import { parseQuery } from '@/lib/validation';
+
+// GET /api/v1/products - Products of the key owner's business
+// Query: page, limit, sort, category, status (in-stock | low-stock | out-of-stock) and search
+export async function GET(req: Request) {
+  try {
+    const session = await requireApiKey(req, ['MANAGE_INVENTORY', 'MANAGE_SALES']);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const query = parseQuery(req, V1ProductsQuery);
+    if (query instanceof NextResponse) {
+      return query;
+    }
+
+    const where = await productListWhere(prisma, session.user.ownerId, new URL(req.url).searchParams);
+
+    const [products, total] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        include: {
+          variants: {
+            where: { isActive: true },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: sortOrder(query.sort, 'createdAt'),
+        skip: pageSkip(query),
+        take: query.limit,
+      }),
+      prisma.product.count({ where }),
+    ]);
+
+    return paginated(products, query, total);
+  } catch (error) {
+    console.error('Error listing products for the API:', error);
+    return NextResponse.json({ error: 'Failed to list products' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requireApiKey } from '@/lib/authorize';
+import { SALE_INCLUDE } from '@/lib/api-v1';
+
+// GET /api/v1/sales/[saleId] - One sale with its line items and returns
+export async function GET(
+  req: Request,
+  { params }: { params: { saleId: string } }
+) {
+  try {
+    const session = await requireApiKey(req, 'MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const sale = await prisma.sale.findFirst({
+      where: {
+        id: params.saleId,
+        userId: session.user.ownerId,
+      },
+      include: {
+        ...SALE_INCLUDE,
+        returns: {
+          include: { items: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!sale) {
+      return NextResponse.json({ error: 'Sale not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: sale });
+  } catch (error) {
+    console.error('Error fetching sale for the API:', error);
+    return NextResponse.json({ error: 'Failed to fetch sale' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { requireApiKey } from '@/lib/authorize';
+import { dataResponse, pageSkip, paginated, SALE_INCLUDE, sortOrder } from '@/lib/api-v1';
+import { createSale } from '@/lib/sales';
+import { V1SalesQuery } from '@/lib/schemas';
+import { parseQuery } from '@/lib/validation';
+
+// GET /api/v1/sales - Sales of the key owner's business with their line items
+// Query: page, limit, sort, from, to (ISO dates on the sale date), paymentStatus and customerId
+export async function GET(req: Request) {
+  try {
+    const session = await requireApiKey(req, 'MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const query = parseQuery(req, V1SalesQuery);
+    if (query instanceof NextResponse) {
+      return query;
+    }
+
+    const where: Prisma.SaleWhereInput = { userId: session.user.ownerId };
+    if (query.from || query.to) {
+      where.date = {
+        ...(query.from && { gte: query.from }),
+        ...(query.to && { lte: query.to }),
+      };
+    }
+    if (query.paymentStatus) {
+      where.paymentStatus = query.paymentStatus;
+    }
+    if (query.customerId) {
+      where.customerId = query.customerId;
+    }
+
+    const [sales, total] = await Promise.all([
+      prisma.sale.findMany({
+        where,
+        include: SALE_INCLUDE,
+        orderBy: sortOrder(query.sort, 'date'),
+        skip: pageSkip(query),
+        take: query.limit,
+      }),
+      prisma.sale.count({ where }),
+    ]);
+
+    return paginated(sales, query, total);
+  } catch (error) {
+    console.error('Error listing sales for the API:', error);
+    return NextResponse.json({ error: 'Failed to list sales' }, { status: 500 });
+  }
+}
+
+// POST /api/v1/sales - Record a sale, exactly as POST /api/sales does
+// Body: the CreateSaleBody schema. Items are priced on the server and totalAmount must match.
+export async function POST(req: Request) {
+  try {
+    const session = await requireApiKey(req, 'MANAGE_SALES');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    return dataResponse(await createSale(req, session));
+  } catch (error) {
+    console.error('Error creating a sale through the API:', error);
+    return NextResponse.json({ error: 'Failed to create sale' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { replayDelivery } from '@/lib/webhooks';
+
+// POST /api/webhooks/[webhookId]/deliveries/[deliveryId]/replay - Send a delivery's payload again
+// The replay is logged as a new delivery and retried like any other if it fails
+export async function POST(
+  req: Request,
+  { params }: { params: { webhookId: string; deliveryId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: {
+        id: params.deliveryId,
+        subscription: {
+          id: params.webhookId,
+          userId: session.user.ownerId,
+        },
+      },
+    });
+
+    if (!delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    const replay = await replayDelivery(prisma, delivery);
+
+    return NextResponse.json(replay, { status: 201 });
+  } catch (error) {
+    console.error('Error replaying webhook delivery:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay webhook delivery' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+
+const DELIVERY_STATUSES = ['PENDING', 'SUCCEEDED', 'FAILED'];
+
+// GET /api/webhooks/[webhookId]/deliveries - Delivery log of a subscription, newest first
+// Query: page, limit and status (PENDING | SUCCEEDED | FAILED)
+export async function GET(
+  req: Request,
+  { params }: { params: { webhookId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const webhook = await prisma.webhookSubscription.findFirst({
+      where: {
+        id: params.webhookId,
+        userId: session.user.ownerId,
+      },
+      select: { id: true },
+    });
+
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '25')));
+    const status = searchParams.get('status');
+
+    const where: Prisma.WebhookDeliveryWhereInput = { subscriptionId: webhook.id };
+    if (status && DELIVERY_STATUSES.includes(status)) {
+      where.status = status as Prisma.WebhookDeliveryWhereInput['status'];
+    }
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      deliveries,
+      total,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { WEBHOOK_SELECT } from '@/lib/webhooks';
+import { UpdateWebhookBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// PATCH /api/webhooks/[webhookId] - Change a subscription's URL, events, description or pause it
+// Body: { url?, events?, description?, isActive? }
+export async function PATCH(
+  req: Request,
+  { params }: { params: { webhookId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const webhook = await prisma.webhookSubscription.findFirst({
+      where: {
+        id: params.webhookId,
+        userId: session.user.ownerId,
+      },
+      select: WEBHOOK_SELECT,
+    });
+
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const settings = await parseBody(req, UpdateWebhookBody);
+    if (settings instanceof NextResponse) {
+      return settings;
+    }
+
+    const updated = await prisma.webhookSubscription.update({
+      where: { id: webhook.id },
+      data: settings,
+      select: WEBHOOK_SELECT,
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'WebhookSubscription',
+      entityId: updated.id,
+      before: webhook,
+      after: updated,
+      summary: `Updated the webhook for ${updated.url}`,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/webhooks/[webhookId] - Remove a subscription and its delivery log
+export async function DELETE(
+  req: Request,
+  { params }: { params: { webhookId: string } }
+) {
+  try {
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const webhook = await prisma.webhookSubscription.findFirst({
+      where: {
+        id: params.webhookId,
+        userId: session.user.ownerId,
+      },
+      select: WEBHOOK_SELECT,
+    });
+
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    await prisma.webhookSubscription.delete({
+      where: { id: webhook.id },
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'delete',
+      entityType: 'WebhookSubscription',
+      entityId: webhook.id,
+      before: webhook,
+      summary: `Removed the webhook for ${webhook.url}`,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
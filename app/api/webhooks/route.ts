@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { createWebhookSecret, WEBHOOK_SELECT } from '@/lib/webhooks';
+import { CreateWebhookBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// GET /api/webhooks - The business's webhook subscriptions with their latest delivery
+export async function GET() {
+  try {
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const webhooks = await prisma.webhookSubscription.findMany({
+      where: { userId: session.user.ownerId },
+      select: {
+        ...WEBHOOK_SELECT,
+        deliveries: {
+          select: { id: true, event: true, status: true, responseStatus: true, createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(webhooks);
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/webhooks - Subscribe an endpoint to events
+// Body: { url, events, description? }
+export async function POST(req: Request) {
+  try {
+    const session = await requirePermission('MANAGE_SETTINGS');
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const settings = await parseBody(req, CreateWebhookBody);
+    if (settings instanceof NextResponse) {
+      return settings;
+    }
+
+    const secret = createWebhookSecret();
+
+    const webhook = await prisma.webhookSubscription.create({
+      data: {
+        url: settings.url,
+        description: settings.description,
+        events: settings.events,
+        secret,
+        userId: session.user.ownerId,
+      },
+      select: WEBHOOK_SELECT,
+    });
+
+    await recordAudit(prisma, session, {
+      action: 'create',
+      entityType: 'WebhookSubscription',
+      entityId: webhook.id,
+      after: webhook,
+      summary: `Subscribed ${webhook.url} to ${webhook.events.join(', ')}`,
+    });
+
+    // The signing secret is only returned here; it cannot be recovered later
+    return NextResponse.json({ webhook, secret }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    );
+  }
+}
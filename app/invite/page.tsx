@@ -0,0 +1,223 @@
+'use client';
+
+import React, { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+import { signIn } from 'next-auth/react';
+
+interface InviteDetails {
+  email: string;
+  name: string | null;
+  role: string;
+  businessName: string | null;
+  expiresAt: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  MANAGER: 'Manager',
+  SALES_REP: 'Sales Representative',
+  INVENTORY_MANAGER: 'Inventory Manager',
+  USER: 'Staff',
+};
+
+function AcceptInvite() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { register, handleSubmit, formState: { errors }, watch, setValue } = useForm({
+    defaultValues: {
+      name: '',
+      password: '',
+      confirmPassword: '',
+    }
+  });
+
+  useEffect(() => {
+    if (!token) {
+      setLoadError('This invitation link is missing its token.');
+      return;
+    }
+
+    fetch(`/api/auth/invite?token=${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          setLoadError(data.error || 'This invitation link is invalid.');
+          return;
+        }
+        setInvite(data);
+        if (data.name) {
+          setValue('name', data.name);
+        }
+      })
+      .catch(() => setLoadError('Could not load this invitation.'));
+  }, [token, setValue]);
+
+  const onSubmit = async (data: any) => {
+    if (!invite) return;
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/invite', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          token,
+          name: data.name,
+          password: data.password,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        toast.error(errorData.issues?.[0]?.message || errorData.error || 'Could not accept the invitation');
+        return;
+      }
+
+      toast.success('Welcome aboard!');
+
+      const signInResult = await signIn('credentials', {
+        redirect: false,
+        email: invite.email,
+        password: data.password,
+      });
+
+      if (signInResult?.error) {
+        router.push('/login');
+      } else {
+        // Invitees join an existing business, so they go straight to the dashboard
+        router.push('/dashboard');
+        router.refresh();
+      }
+    } catch (error) {
+      toast.error('An unexpected error occurred');
+      console.error('Invite acceptance error:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="text-center space-y-4">
+        <p className="text-red-600 dark:text-red-400">{loadError}</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Ask your manager to send you a new invitation, or{' '}
+          <Link href="/login" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+            sign in
+          </Link>
+          .
+        </p>
+      </div>
+    );
+  }
+
+  if (!invite) {
+    return <p className="text-center text-gray-600 dark:text-gray-400">Loading invitation...</p>;
+  }
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        You have been invited to join <span className="font-medium">{invite.businessName || 'a business'}</span> as a{' '}
+        <span className="font-medium">{ROLE_LABELS[invite.role] || invite.role}</span>. Your account email is{' '}
+        <span className="font-medium">{invite.email}</span>.
+      </p>
+
+      <div>
+        <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+          Name
+        </label>
+        <input
+          id="name"
+          type="text"
+          autoComplete="name"
+          className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-500 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white"
+          {...register('name', { required: 'Name is required' })}
+        />
+        {errors.name && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.name.message?.toString()}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+          Password
+        </label>
+        <input
+          id="password"
+          type="password"
+          autoComplete="new-password"
+          className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-500 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white"
+          {...register('password', {
+            required: 'Password is required',
+            minLength: {
+              value: 8,
+              message: 'Password must be at least 8 characters'
+            }
+          })}
+        />
+        {errors.password && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.password.message?.toString()}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+          Confirm Password
+        </label>
+        <input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-500 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white"
+          {...register('confirmPassword', {
+            required: 'Please confirm your password',
+            validate: (val) => {
+              if (watch('password') !== val) {
+                return "Passwords do not match";
+              }
+            }
+          })}
+        />
+        {errors.confirmPassword && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.confirmPassword.message?.toString()}</p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? 'Joining...' : 'Accept invitation'}
+      </button>
+    </form>
+  );
+}
+
+export default function InvitePage() {
+  return (
+    <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center py-12">
+      <div className="w-full max-w-md space-y-8 px-4 mb-12">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Join your team</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">Set a password to finish creating your account</p>
+        </div>
+
+        <div className="mt-8 bg-white dark:bg-card rounded-lg p-8 shadow-md border border-gray-200 dark:border-gray-600/40 dark:shadow-lg dark:shadow-gray-900/30">
+          <Suspense fallback={<p className="text-center text-gray-600 dark:text-gray-400">Loading invitation...</p>}>
+            <AcceptInvite />
+          </Suspense>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { toast } from 'sonner';
+import { Copy, KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Permission } from '@/lib/permissions';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: Permission[];
+  rateLimitPerMinute: number;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const SCOPE_LABELS: Record<Permission, string> = {
+  MANAGE_INVENTORY: 'Products and inventory',
+  MANAGE_SALES: 'Sales',
+  VIEW_REPORTS: 'Reports',
+  VIEW_ANALYTICS: 'Analytics',
+  MANAGE_EMPLOYEES: 'Employees',
+  MANAGE_SETTINGS: 'Settings',
+};
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+];
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : '—';
+}
+
+function keyStatus(apiKey: ApiKey) {
+  if (apiKey.revokedAt) return 'Revoked';
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) return 'Expired';
+  return 'Active';
+}
+
+// personal keys for the /api/v1 REST API
+export default function ApiKeysTab() {
+  const { data: session } = useSession();
+  const grantedScopes = ((session?.user as { permissions?: Permission[] } | undefined)?.permissions || [])
+    .filter(scope => scope in SCOPE_LABELS);
+
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<Permission[]>([]);
+  const [expiry, setExpiry] = useState('90');
+  // The new key's secret, shown until the user dismisses it
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const fetchKeys = async () => {
+    try {
+      const response = await fetch('/api/api-keys');
+      if (response.ok) {
+        setApiKeys(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching API keys:', error);
+      toast.error('Failed to load API keys');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchKeys();
+  }, []);
+
+  const toggleScope = (scope: Permission, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter(item => item !== scope));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiry === 'never' ? null : Number(expiry),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.issues?.[0]?.message || data.error || 'Failed to create API key');
+        return;
+      }
+
+      setNewKey(data.key);
+      setApiKeys([data.apiKey, ...apiKeys]);
+      setName('');
+      setScopes([]);
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      toast.error('An error occurred');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Anything using this key will stop working.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/api-keys/${apiKey.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        const revoked = await response.json();
+        setApiKeys(apiKeys.map(item => (item.id === revoked.id ? revoked : item)));
+        toast.success('API key revoked');
+      } else {
+        toast.error('Failed to revoke API key');
+      }
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      toast.error('An error occurred');
+    }
+  };
+
+  const copyKey = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    toast.success('Copied to clipboard');
+  };
+
+  return (
+    <div className="grid gap-6">
+      <div>
+        <h3 className="text-lg font-medium">API Keys</h3>
+        <p className="text-sm text-muted-foreground">
+          Keys let scripts and other tools use the REST API at <code>/api/v1</code> as you. Send a key
+          in the <code>Authorization: Bearer</code> header. A key can only do what its scopes allow.
+        </p>
+      </div>
+
+      {newKey && (
+        <Alert>
+          <KeyRound className="h-4 w-4" />
+          <AlertTitle>Copy your new key now</AlertTitle>
+          <AlertDescription className="grid gap-3">
+            <span>This is the only time it is shown. Store it somewhere safe.</span>
+            <div className="flex items-center gap-2">
+              <Input readOnly value={newKey} className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="sm" onClick={copyKey}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button type="button" variant="ghost" size="sm" className="justify-self-start" onClick={() => setNewKey(null)}>
+              Done
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <form onSubmit={handleCreate} className="grid gap-4 rounded-md border p-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid gap-3">
+            <Label htmlFor="apiKeyName">Name</Label>
+            <Input
+              id="apiKeyName"
+              placeholder="e.g. Accounting sync"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-3">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="grid gap-3">
+          <Label>Scopes</Label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {grantedScopes.map(scope => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked)}
+                />
+                {SCOPE_LABELS[scope]}
+              </label>
+            ))}
+          </div>
+        </div>
+        <Button type="submit" className="justify-self-start" disabled={creating || !name.trim() || scopes.length === 0}>
+          {creating ? 'Creating...' : 'Create Key'}
+        </Button>
+      </form>
+
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : apiKeys.length === 0 ? (
+        <p className="text-sm text-muted-foreground">You have not created any API keys yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead>Last used</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {apiKeys.map(apiKey => {
+              const status = keyStatus(apiKey);
+              return (
+                <TableRow key={apiKey.id}>
+                  <TableCell className="font-medium">{apiKey.name}</TableCell>
+                  <TableCell className="font-mono text-xs">{apiKey.prefix}…</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.scopes.map(scope => (
+                        <Badge key={scope} variant="outline">{SCOPE_LABELS[scope] || scope}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatDate(apiKey.lastUsedAt)}</TableCell>
+                  <TableCell>{apiKey.expiresAt ? formatDate(apiKey.expiresAt) : 'Never'}</TableCell>
+                  <TableCell>
+                    <Badge variant={status === 'Active' ? 'default' : 'secondary'}>{status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {status === 'Active' && (
+                      <Button variant="outline" size="sm" onClick={() => handleRevoke(apiKey)}>
+                        Revoke
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
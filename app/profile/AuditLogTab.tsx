@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface AuditEvent {
+  id: string;
+  action: 'create' | 'update' | 'delete';
+  entityType: string;
+  entityId: string;
+  summary: string | null;
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  createdAt: string;
+  actor: { id: string; name: string | null; email: string | null } | null;
+}
+
+const ACTION_VARIANTS = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+} as const;
+
+const PAGE_SIZE = 25;
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  return String(value);
+}
+
+// who changed what, newest first
+export default function AuditLogTab() {
+  const [loading, setLoading] = useState(true);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [filters, setFilters] = useState({
+    entityType: '',
+    action: 'all',
+    from: '',
+    to: '',
+  });
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+        if (filters.entityType) params.set('entityType', filters.entityType);
+        if (filters.action !== 'all') params.set('action', filters.action);
+        if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+        if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+        const response = await fetch(`/api/audit?${params.toString()}`);
+        if (response.ok) {
+          const data = await response.json();
+          setEvents(data.events);
+          setTotalPages(Math.max(1, data.totalPages));
+        }
+      } catch (error) {
+        console.error('Error fetching audit log:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [page, filters]);
+
+  const updateFilter = (name: keyof typeof filters, value: string) => {
+    setFilters({ ...filters, [name]: value });
+    setPage(1);
+  };
+
+  return (
+    <div className="grid gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid gap-3">
+          <Label htmlFor="entityType">Record type</Label>
+          <Input
+            id="entityType"
+            placeholder="e.g. Product"
+            value={filters.entityType}
+            onChange={(e) => updateFilter('entityType', e.target.value)}
+          />
+        </div>
+        <div className="grid gap-3">
+          <Label>Action</Label>
+          <Select value={filters.action} onValueChange={(value) => updateFilter('action', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              <SelectItem value="create">Created</SelectItem>
+              <SelectItem value="update">Updated</SelectItem>
+              <SelectItem value="delete">Deleted</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-3">
+          <Label htmlFor="from">From</Label>
+          <Input
+            id="from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+          />
+        </div>
+        <div className="grid gap-3">
+          <Label htmlFor="to">To</Label>
+          <Input
+            id="to"
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes have been recorded yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Who</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Record</TableHead>
+              <TableHead>Changes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.map((event) => (
+              <TableRow key={event.id}>
+                <TableCell className="whitespace-nowrap">
+                  {new Date(event.createdAt).toLocaleString()}
+                </TableCell>
+                <TableCell>{event.actor?.name || event.actor?.email || 'Removed user'}</TableCell>
+                <TableCell>
+                  <Badge variant={ACTION_VARIANTS[event.action]}>{event.action}</Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{event.entityType}</div>
+                  {event.summary && (
+                    <div className="text-xs text-muted-foreground">{event.summary}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {event.changes ? (
+                    <ul className="space-y-1 text-xs">
+                      {Object.entries(event.changes).map(([field, change]) => (
+                        <li key={field}>
+                          <span className="font-medium">{field}</span>:{' '}
+                          {event.action !== 'create' && (
+                            <span className="text-muted-foreground line-through mr-1">
+                              {formatValue(change.before)}
+                            </span>
+                          )}
+                          {event.action !== 'delete' && <span>{formatValue(change.after)}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+          Previous
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          Page {page} of {totalPages}
+        </span>
+        <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+
+interface CategoryRate {
+  category: string;
+  rate: string;
+}
+
+// sales tax charged at checkout: one default rate, and categories taxed differently
+export default function TaxRatesTab() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [defaultRate, setDefaultRate] = useState('0');
+  const [categories, setCategories] = useState<CategoryRate[]>([]);
+
+  useEffect(() => {
+    const fetchTaxRates = async () => {
+      try {
+        const response = await fetch('/api/tax-rates');
+        if (response.ok) {
+          const data = await response.json();
+          setDefaultRate(String(data.defaultRate));
+          setCategories(data.categories.map((rate: { category: string; rate: number }) => ({
+            category: rate.category,
+            rate: String(rate.rate),
+          })));
+        }
+      } catch (error) {
+        console.error('Error fetching tax rates:', error);
+        toast.error('Failed to load tax rates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTaxRates();
+  }, []);
+
+  const updateCategory = (index: number, change: Partial<CategoryRate>) => {
+    setCategories(categories.map((rate, i) => (i === index ? { ...rate, ...change } : rate)));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/tax-rates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          defaultRate: Number(defaultRate),
+          categories: categories.map(rate => ({ category: rate.category, rate: Number(rate.rate) })),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.issues?.[0]?.message || data.error || 'Failed to save tax rates');
+        return;
+      }
+
+      setCategories(data.categories.map((rate: { category: string; rate: number }) => ({
+        category: rate.category,
+        rate: String(rate.rate),
+      })));
+      toast.success('Tax rates saved');
+    } catch (error) {
+      console.error('Error saving tax rates:', error);
+      toast.error('An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-10">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSave} className="grid gap-6">
+      <div>
+        <h3 className="text-lg font-medium">Sales Tax</h3>
+        <p className="text-sm text-muted-foreground">
+          Tax is added to each sale at checkout, after discounts. Products in a category listed below
+          are taxed at that category&apos;s rate; everything else at the default rate.
+        </p>
+      </div>
+
+      <div className="grid gap-3 max-w-xs">
+        <Label htmlFor="defaultTaxRate">Default rate (%)</Label>
+        <Input
+          id="defaultTaxRate"
+          type="number"
+          min="0"
+          max="100"
+          step="0.001"
+          value={defaultRate}
+          onChange={(e) => setDefaultRate(e.target.value)}
+        />
+      </div>
+
+      <div className="grid gap-3">
+        <Label>Category rates</Label>
+        {categories.length === 0 && (
+          <p className="text-sm text-muted-foreground">Every category uses the default rate.</p>
+        )}
+        {categories.map((rate, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              aria-label="Category"
+              placeholder="e.g. Groceries"
+              value={rate.category}
+              onChange={(e) => updateCategory(index, { category: e.target.value })}
+              className="max-w-xs"
+            />
+            <Input
+              aria-label="Rate (%)"
+              type="number"
+              min="0"
+              max="100"
+              step="0.001"
+              value={rate.rate}
+              onChange={(e) => updateCategory(index, { rate: e.target.value })}
+              className="w-28"
+            />
+            <span className="text-sm text-muted-foreground">%</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              aria-label={`Remove ${rate.category || 'category'}`}
+              onClick={() => setCategories(categories.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="justify-self-start"
+          onClick={() => setCategories([...categories, { category: '', rate: '0' }])}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Category
+        </Button>
+      </div>
+
+      <Button type="submit" className="justify-self-start" disabled={saving}>
+        {saving ? 'Saving...' : 'Save Tax Rates'}
+      </Button>
+    </form>
+  );
+}
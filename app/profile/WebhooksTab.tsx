@@ -0,0 +1,410 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Copy, Webhook } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { WebhookEvent } from '@/lib/webhooks';
+
+type DeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+interface WebhookSubscription {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  deliveries?: { id: string; event: string; status: DeliveryStatus; responseStatus: number | null; createdAt: string }[];
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  event: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  replayOfId: string | null;
+  createdAt: string;
+}
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'sale.created': 'Sale created',
+  'stock.low': 'Stock running low',
+  'stock.out': 'Out of stock',
+  'stock.restocked': 'Back in stock',
+  'product.created': 'Product created',
+  'product.updated': 'Product updated',
+  'product.deleted': 'Product deleted',
+};
+
+const STATUS_VARIANTS = {
+  PENDING: 'secondary',
+  SUCCEEDED: 'default',
+  FAILED: 'destructive',
+} as const;
+
+function formatDateTime(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+// endpoints of other systems that are told about sales, stock and product changes
+export default function WebhooksTab() {
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  // The new subscription's signing secret, shown until the user dismisses it
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+
+  const fetchWebhooks = async () => {
+    try {
+      const response = await fetch('/api/webhooks');
+      if (response.ok) {
+        setWebhooks(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+      toast.error('Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchDeliveries = async (webhookId: string) => {
+    setLoadingDeliveries(true);
+    try {
+      const response = await fetch(`/api/webhooks/${webhookId}/deliveries`);
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.deliveries);
+      }
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      toast.error('Failed to load deliveries');
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) {
+      fetchDeliveries(selectedId);
+    }
+  }, [selectedId]);
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(checked ? [...events, event] : events.filter(item => item !== event));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const response = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, description, events }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.issues?.[0]?.message || data.error || 'Failed to create webhook');
+        return;
+      }
+
+      setNewSecret(data.secret);
+      setWebhooks([data.webhook, ...webhooks]);
+      setUrl('');
+      setDescription('');
+      setEvents([]);
+    } catch (error) {
+      console.error('Error creating webhook:', error);
+      toast.error('An error occurred');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: WebhookSubscription, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive }),
+      });
+      if (response.ok) {
+        const updated = await response.json();
+        setWebhooks(webhooks.map(item => (item.id === updated.id ? { ...item, ...updated } : item)));
+      } else {
+        toast.error('Failed to update webhook');
+      }
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+      toast.error('An error occurred');
+    }
+  };
+
+  const handleDelete = async (webhook: WebhookSubscription) => {
+    if (!confirm(`Remove the webhook for ${webhook.url}? Its delivery log is removed too.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setWebhooks(webhooks.filter(item => item.id !== webhook.id));
+        if (selectedId === webhook.id) {
+          setSelectedId(null);
+        }
+        toast.success('Webhook removed');
+      } else {
+        toast.error('Failed to remove webhook');
+      }
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      toast.error('An error occurred');
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    if (!selectedId) return;
+
+    try {
+      const response = await fetch(
+        `/api/webhooks/${selectedId}/deliveries/${delivery.id}/replay`,
+        { method: 'POST' }
+      );
+      if (response.ok) {
+        const replay: WebhookDelivery = await response.json();
+        setDeliveries([replay, ...deliveries]);
+        toast.success(replay.status === 'SUCCEEDED' ? 'Delivered' : 'Replay queued for retry');
+      } else {
+        toast.error('Failed to replay delivery');
+      }
+    } catch (error) {
+      console.error('Error replaying delivery:', error);
+      toast.error('An error occurred');
+    }
+  };
+
+  const copySecret = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    toast.success('Copied to clipboard');
+  };
+
+  return (
+    <div className="grid gap-6">
+      <div>
+        <h3 className="text-lg font-medium">Webhooks</h3>
+        <p className="text-sm text-muted-foreground">
+          Send sales, stock and product events to other systems as they happen. Each request is signed
+          in the <code>X-Webhook-Signature</code> header with the webhook&apos;s secret. Failed deliveries
+          are retried for up to a day.
+        </p>
+      </div>
+
+      {newSecret && (
+        <Alert>
+          <Webhook className="h-4 w-4" />
+          <AlertTitle>Copy the signing secret now</AlertTitle>
+          <AlertDescription className="grid gap-3">
+            <span>Use it to check the signature of each request. This is the only time it is shown.</span>
+            <div className="flex items-center gap-2">
+              <Input readOnly value={newSecret} className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="sm" onClick={copySecret}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button type="button" variant="ghost" size="sm" className="justify-self-start" onClick={() => setNewSecret(null)}>
+              Done
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <form onSubmit={handleCreate} className="grid gap-4 rounded-md border p-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid gap-3">
+            <Label htmlFor="webhookUrl">Endpoint URL</Label>
+            <Input
+              id="webhookUrl"
+              type="url"
+              placeholder="https://example.com/hooks/merchx"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-3">
+            <Label htmlFor="webhookDescription">Description</Label>
+            <Input
+              id="webhookDescription"
+              placeholder="e.g. Warehouse system"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="grid gap-3">
+          <Label>Events</Label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {(Object.keys(EVENT_LABELS) as WebhookEvent[]).map(event => (
+              <label key={event} className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={events.includes(event)}
+                  onCheckedChange={(checked) => toggleEvent(event, checked)}
+                />
+                {EVENT_LABELS[event]}
+              </label>
+            ))}
+          </div>
+        </div>
+        <Button type="submit" className="justify-self-start" disabled={creating || !url.trim() || events.length === 0}>
+          {creating ? 'Adding...' : 'Add Webhook'}
+        </Button>
+      </form>
+
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No webhooks have been added yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Endpoint</TableHead>
+              <TableHead>Events</TableHead>
+              <TableHead>Last delivery</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {webhooks.map(webhook => {
+              const lastDelivery = webhook.deliveries?.[0];
+              return (
+                <TableRow key={webhook.id}>
+                  <TableCell>
+                    <div className="font-medium break-all">{webhook.url}</div>
+                    {webhook.description && (
+                      <div className="text-xs text-muted-foreground">{webhook.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map(event => (
+                        <Badge key={event} variant="outline">{EVENT_LABELS[event] || event}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {lastDelivery ? (
+                      <Badge variant={STATUS_VARIANTS[lastDelivery.status]}>{lastDelivery.status}</Badge>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={webhook.isActive}
+                      onCheckedChange={(checked) => handleToggleActive(webhook, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedId(selectedId === webhook.id ? null : webhook.id)}
+                    >
+                      {selectedId === webhook.id ? 'Hide Log' : 'View Log'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDelete(webhook)}>
+                      Remove
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {selectedId && (
+        <div className="grid gap-3">
+          <h4 className="font-medium">Delivery log</h4>
+          {loadingDeliveries ? (
+            <LoadingSpinner size="sm" />
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing has been sent to this webhook yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map(delivery => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(delivery.createdAt)}</TableCell>
+                    <TableCell>
+                      {delivery.event}
+                      {delivery.replayOfId && <span className="text-xs text-muted-foreground"> (replay)</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                      {delivery.status === 'PENDING' && delivery.nextAttemptAt && (
+                        <div className="text-xs text-muted-foreground">
+                          Next try {formatDateTime(delivery.nextAttemptAt)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{delivery.attempts}</TableCell>
+                    <TableCell className="text-sm">
+                      {delivery.error || delivery.responseStatus || '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => handleReplay(delivery)}>
+                        Replay
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
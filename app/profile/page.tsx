@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { UserCircle, CreditCard, Bell, Building2, Settings } from 'lucide-react';
+import { UserCircle, CreditCard, Bell, Building2, Settings, History, KeyRound, Webhook, Percent } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { useSession } from 'next-auth/react';
 import PageHeader from '@/components/layout/PageHeader';
@@ -9,7 +9,11 @@ import PageHeader from '@/components/layout/PageHeader';
 import BusinessProfileTab from './BusinessProfileTab';
 import AccountSettingsTab from './AccountSettingsTab';
 import PaymentMethodsTab from './PaymentMethodsTab';
+import TaxRatesTab from './TaxRatesTab';
 import NotificationPreferencesTab from './NotificationPreferencesTab';
+import AuditLogTab from './AuditLogTab';
+import ApiKeysTab from './ApiKeysTab';
+import WebhooksTab from './WebhooksTab';
 
 export default function ProfilePage() {
   const [activeTab, setActiveTab] = useState('account');
@@ -32,10 +36,30 @@ export default function ProfilePage() {
       label: "Payment Methods", 
       icon: CreditCard 
     },
+    { 
+      href: "/profile?tab=taxes", 
+      label: "Sales Tax", 
+      icon: Percent 
+    },
     { 
       href: "/profile?tab=notifications", 
       label: "Notifications", 
       icon: Bell 
+    },
+    { 
+      href: "/profile?tab=audit", 
+      label: "Audit Log", 
+      icon: History 
+    },
+    { 
+      href: "/profile?tab=api-keys", 
+      label: "API Keys", 
+      icon: KeyRound 
+    },
+    { 
+      href: "/profile?tab=webhooks", 
+      label: "Webhooks", 
+      icon: Webhook 
     }
   ];
 
@@ -43,7 +67,7 @@ export default function ProfilePage() {
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const tab = params.get('tab');
-    if (tab && ['account', 'business', 'payment', 'notifications'].includes(tab)) {
+    if (tab && ['account', 'business', 'payment', 'taxes', 'notifications', 'audit', 'api-keys', 'webhooks'].includes(tab)) {
       setActiveTab(tab);
     }
   }, []);
@@ -57,8 +81,16 @@ export default function ProfilePage() {
         return <BusinessProfileTab />;
       case 'payment':
         return <PaymentMethodsTab />;
+      case 'taxes':
+        return <TaxRatesTab />;
       case 'notifications':
         return <NotificationPreferencesTab />;
+      case 'audit':
+        return <AuditLogTab />;
+      case 'api-keys':
+        return <ApiKeysTab />;
+      case 'webhooks':
+        return <WebhooksTab />;
       default:
         return <AccountSettingsTab />;
     }
@@ -2,11 +2,25 @@
 
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import NotificationPreferencesForm from '@/components/shared/NotificationPreferencesForm';
 import { useSession } from 'next-auth/react';
 import { toast } from 'sonner';
 import { Loader2 } from 'lucide-react';
 
+const DIGEST_OPTIONS = [
+  { value: 'NONE', label: 'Never' },
+  { value: 'DAILY', label: 'Every morning' },
+  { value: 'WEEKLY', label: 'Every Monday' },
+];
+
 export default function NotificationSettingsTab() {
   const { data: session } = useSession();
   const [notificationPreferences, setNotificationPreferences] = useState<any>(null);
@@ -32,6 +46,32 @@ export default function NotificationSettingsTab() {
     fetchNotificationPreferences();
   }, []);
 
+  const handleDigestChange = async (digestFrequency: string) => {
+    const previous = notificationPreferences?.digestFrequency;
+    setNotificationPreferences((current: any) => ({ ...current, digestFrequency }));
+
+    try {
+      const response = await fetch('/api/notification-preferences', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ digestFrequency }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update summary emails');
+      }
+
+      toast.success('Summary email setting updated');
+    } catch (error) {
+      console.error('Error updating summary emails:', error);
+      setNotificationPreferences((current: any) => ({ ...current, digestFrequency: previous }));
+      toast.error('Failed to update summary emails');
+    }
+  };
+
   const handleSubmit = async (data: any) => {
     setIsSaving(true);
     
@@ -81,6 +121,27 @@ export default function NotificationSettingsTab() {
         <CardDescription>Choose how you want to receive notifications</CardDescription>
       </CardHeader>
       <CardContent>
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <Label>Summary email</Label>
+            <p className="text-sm text-muted-foreground">
+              Revenue, low stock, top products and price recommendations, sent to your email address
+            </p>
+          </div>
+          <Select
+            value={notificationPreferences?.digestFrequency || 'NONE'}
+            onValueChange={handleDigestChange}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIGEST_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <NotificationPreferencesForm
           initialData={notificationPreferences || {}}
           onSubmit={handleSubmit}
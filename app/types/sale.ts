@@ -1,12 +1,29 @@
+export interface SaleItemVariant {
+  id: string;
+  sku?: string | null;
+  size?: string | null;
+  color?: string | null;
+}
+
 export interface SaleItem {
   id?: string;
   productId: string;
+  variantId?: string | null;
   quantity: number;
+  returnedQuantity?: number;
   price: number;
   product?: {
     name: string;
     sellingPrice?: number;
   };
+  variant?: SaleItemVariant | null;
+}
+
+export interface SaleCustomer {
+  id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
 }
 
 export interface SaleRecord {
@@ -14,8 +31,13 @@ export interface SaleRecord {
   createdAt: string;
   updatedAt?: string;
   totalAmount: number;
+  refundedAmount?: number;
   paymentMethod: string;
-  paymentStatus: 'PAID' | 'PENDING' | 'CANCELLED';
+  paymentStatus: 'PAID' | 'PENDING' | 'CANCELLED' | 'REFUNDED' | 'PARTIALLY_REFUNDED';
+  customerId?: string | null;
+  customer?: SaleCustomer | null;
+  createdById?: string | null;
+  createdBy?: { id: string; name: string | null } | null;
   items: SaleItem[];
 }
 
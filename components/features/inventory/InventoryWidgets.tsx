@@ -100,6 +100,60 @@ export const LowStockItemsWidget = ({ data = [] }: { data: any[] }) => {
   );
 };
 
+// Reorder Suggestions Widget
+export const ReorderSuggestionsWidget = ({ data = [] }: { data: any[] }) => {
+  return (
+    <div className="h-full overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Product</TableHead>
+            <TableHead className="text-right">Stock</TableHead>
+            <TableHead className="text-right">Days Left</TableHead>
+            <TableHead className="text-right">Reorder At</TableHead>
+            <TableHead className="text-right">Order</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.length > 0 ? (
+            data.map((suggestion) => (
+              <TableRow key={suggestion.productId}>
+                <TableCell className="font-medium">
+                  {suggestion.productName}
+                  {suggestion.supplier && (
+                    <div className="text-xs text-muted-foreground">{suggestion.supplier.name}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Badge variant={suggestion.status === 'out_of_stock' ? "destructive" : "outline"}>
+                    {suggestion.stockQuantity}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  {suggestion.daysOfCover === null ? '—' : suggestion.daysOfCover.toFixed(1)}
+                </TableCell>
+                <TableCell className="text-right">{suggestion.reorderPoint}</TableCell>
+                <TableCell className="text-right font-medium">
+                  {suggestion.suggestedOrderQuantity}
+                  {suggestion.onOrder > 0 && (
+                    <div className="text-xs text-muted-foreground">{suggestion.onOrder} on order</div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                Nothing needs to be reordered
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
 // Possible Net Income Widget
 export const PossibleNetIncomeWidget = ({ value = 0 }: { value: number }) => {
   return (
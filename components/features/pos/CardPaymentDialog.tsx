@@ -0,0 +1,123 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { loadStripe, Stripe, StripeElements, StripePaymentElement } from '@stripe/stripe-js';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2
+  }).format(value);
+};
+
+// A card sale waiting for its PaymentIntent to be paid, as POST /api/sales returns it
+export interface PendingCardPayment {
+  saleId: string;
+  amount: number;
+  paymentId: string;
+  clientSecret: string | null;
+  accountId: string | null;
+}
+
+interface CardPaymentDialogProps {
+  payment: PendingCardPayment | null;
+  onClose: (paid: boolean) => void;
+}
+
+// Takes the card for a sale paid online. The sale itself is completed by the gateway's webhook.
+export default function CardPaymentDialog({ payment, onClose }: CardPaymentDialogProps) {
+  const mountRef = useRef<HTMLDivElement>(null);
+  const [stripe, setStripe] = useState<Stripe | null>(null);
+  const [elements, setElements] = useState<StripeElements | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
+
+  useEffect(() => {
+    if (!payment?.clientSecret || !publishableKey) {
+      return;
+    }
+
+    let cancelled = false;
+    let element: StripePaymentElement | null = null;
+    const mountCardForm = async () => {
+      try {
+        const loaded = await loadStripe(publishableKey, payment.accountId ? { stripeAccount: payment.accountId } : undefined);
+        if (cancelled || !loaded || !mountRef.current) return;
+
+        const created = loaded.elements({ clientSecret: payment.clientSecret! });
+        element = created.create('payment');
+        element.mount(mountRef.current);
+        setStripe(loaded);
+        setElements(created);
+      } catch (error) {
+        console.error('Error loading Stripe:', error);
+        toast.error('Failed to load the card form');
+      }
+    };
+
+    mountCardForm();
+    return () => {
+      cancelled = true;
+      element?.destroy();
+      setStripe(null);
+      setElements(null);
+    };
+  }, [payment]);
+
+  const handlePay = async () => {
+    if (!stripe || !elements) return;
+
+    setIsPaying(true);
+    try {
+      const { error } = await stripe.confirmPayment({ elements, redirect: 'if_required' });
+      if (error) {
+        toast.error(error.message || 'The card payment failed');
+        return;
+      }
+      onClose(true);
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  return (
+    <Dialog open={payment !== null} onOpenChange={(open) => !open && onClose(false)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Card payment{payment && ` of ${formatCurrency(payment.amount)}`}</DialogTitle>
+          <DialogDescription>
+            The sale stays pending until the payment goes through.
+          </DialogDescription>
+        </DialogHeader>
+
+        {publishableKey ? (
+          <div ref={mountRef} className="min-h-[120px]" />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Card payments are being taken by the payment gateway without a card form here
+            (reference <span className="font-mono">{payment?.paymentId}</span>). The sale is
+            completed once the gateway confirms the payment.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onClose(false)}>
+            {publishableKey ? 'Pay later' : 'Close'}
+          </Button>
+          {publishableKey && (
+            <Button onClick={handlePay} disabled={!elements || isPaying}>
+              {isPaying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              Pay {payment && formatCurrency(payment.amount)}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
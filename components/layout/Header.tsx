@@ -7,6 +7,7 @@ import { useSession, signOut } from 'next-auth/react';
 import { Package, Sun, Moon, LogOut, User, Settings, Wand2 } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import ClientOnly from '@/components/shared/ClientOnly';
+import NotificationBell from '@/components/shared/NotificationBell';
 import ContentWrapper from './ContentWrapper';
 
 export default function Header() {
@@ -155,6 +156,12 @@ export default function Header() {
                     <NavLink href="/analytics" active={isActive('/analytics')}>
                       Analytics
                     </NavLink>
+                    <NavLink href="/pos" active={isActive('/pos')}>
+                      Point of Sale
+                    </NavLink>
+                    <NavLink href="/receivables" active={isActive('/receivables')}>
+                      Receivables
+                    </NavLink>
 
                   </>
                 ) : (
@@ -172,6 +179,7 @@ export default function Header() {
 
             {/* Right Side Controls */}
             <div className="flex items-center space-x-1">
+              {session && <NotificationBell />}
               {session ? (
                 <div className="relative ml-1 hidden md:block" ref={profileMenuRef}>
                   <button
@@ -290,6 +298,8 @@ export default function Header() {
                   <MobileNavLink href="/">Dashboard</MobileNavLink>
                   <MobileNavLink href="/inventory">Inventory</MobileNavLink>
                   <MobileNavLink href="/analytics">Analytics</MobileNavLink>
+                  <MobileNavLink href="/pos">Point of Sale</MobileNavLink>
+                  <MobileNavLink href="/receivables">Receivables</MobileNavLink>
                   <div className="border-t border-border mt-2 pt-2"></div>
                   <MobileNavLink href="/profile">
                     Settings
@@ -0,0 +1,273 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  applyMapping,
+  ColumnMapping,
+  DateFormat,
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportType,
+  mappingFitsHeaders,
+  missingRequiredFields,
+} from '@/lib/import-mapping';
+
+interface MappingPreset {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+}
+
+interface ColumnMapperProps {
+  type: ImportType;
+  headers: string[];
+  rows: Record<string, unknown>[];
+  onApply: (data: Record<string, unknown>[]) => void;
+  onCancel: () => void;
+}
+
+// Select items cannot have an empty value
+const NOT_IN_FILE = '__none__';
+const NO_PRESET = '__guess__';
+
+const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  auto: 'Detect automatically',
+  ymd: 'Year-Month-Day (2024-03-31)',
+  mdy: 'Month/Day/Year (03/31/2024)',
+  dmy: 'Day/Month/Year (31/03/2024)',
+};
+
+// Lets users match their file's columns to our fields, guessing from header names or a saved preset
+export default function ColumnMapper({ type, headers, rows, onApply, onCancel }: ColumnMapperProps) {
+  const fields = IMPORT_FIELDS[type];
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(type, headers));
+  const [dateFormat, setDateFormat] = useState<DateFormat>('auto');
+  const [presets, setPresets] = useState<MappingPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState(NO_PRESET);
+  const [presetName, setPresetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPresets = async () => {
+      try {
+        const response = await fetch(`/api/import-mappings?type=${type}`);
+        if (!response.ok) {
+          return;
+        }
+        const data: MappingPreset[] = await response.json();
+        setPresets(data);
+
+        // A preset made for this export is picked automatically, so importing is one click
+        const match = data.find(preset =>
+          mappingFitsHeaders(preset.mapping, headers)
+          && missingRequiredFields(type, preset.mapping, headers).length === 0
+        );
+        if (match) {
+          selectPreset(match);
+        }
+      } catch (error) {
+        console.error('Error fetching import mappings:', error);
+      }
+    };
+
+    fetchPresets();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [type, headers]);
+
+  const selectPreset = (preset: MappingPreset | null) => {
+    if (!preset) {
+      setSelectedPresetId(NO_PRESET);
+      setMapping(guessMapping(type, headers));
+      setDateFormat('auto');
+      return;
+    }
+    setSelectedPresetId(preset.id);
+    setPresetName(preset.name);
+    setMapping({ ...guessMapping(type, headers), ...preset.mapping });
+    setDateFormat(preset.dateFormat);
+  };
+
+  const missing = missingRequiredFields(type, mapping, headers);
+
+  const savePreset = async () => {
+    if (!presetName.trim()) {
+      toast.error('Give the mapping a name to save it');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/import-mappings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ type, name: presetName, mapping, dateFormat })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save mapping');
+      }
+
+      setPresets([...presets.filter(preset => preset.id !== data.id), data]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedPresetId(data.id);
+      toast.success(`Saved mapping "${data.name}"`);
+    } catch (error) {
+      console.error('Error saving import mapping:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePreset = async () => {
+    const preset = presets.find(candidate => candidate.id === selectedPresetId);
+    if (!preset) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/import-mappings/${preset.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete mapping');
+      }
+
+      setPresets(presets.filter(candidate => candidate.id !== preset.id));
+      setSelectedPresetId(NO_PRESET);
+      setPresetName('');
+      toast.success(`Deleted mapping "${preset.name}"`);
+    } catch (error) {
+      console.error('Error deleting import mapping:', error);
+      toast.error('Failed to delete mapping');
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="grid gap-2 flex-1">
+          <Label>Saved mapping</Label>
+          <div className="flex gap-2">
+            <Select
+              value={selectedPresetId}
+              onValueChange={(value) => selectPreset(presets.find(preset => preset.id === value) || null)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PRESET}>Guess from column names</SelectItem>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedPresetId !== NO_PRESET && (
+              <Button variant="outline" size="icon" type="button" onClick={deletePreset} title="Delete saved mapping">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="grid gap-2 flex-1">
+          <Label>Date format</Label>
+          <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map((format) => (
+                <SelectItem key={format} value={format}>{DATE_FORMAT_LABELS[format]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {fields.map((field) => {
+          const header = mapping[field.key];
+          const sample = header && rows[0] ? String(rows[0][header] ?? '') : '';
+          return (
+            <div key={field.key} className="grid gap-1">
+              <Label>
+                {field.label}
+                {field.required && <span className="text-destructive"> *</span>}
+              </Label>
+              <Select
+                value={header || NOT_IN_FILE}
+                onValueChange={(value) => setMapping({ ...mapping, [field.key]: value === NOT_IN_FILE ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_IN_FILE}>Not in file</SelectItem>
+                  {headers.map((column) => (
+                    <SelectItem key={column} value={column}>{column}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {sample && (
+                <p className="text-xs text-muted-foreground truncate">e.g. {sample}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-destructive">
+          Choose a column for {missing.map(field => field.label).join(', ')}
+        </p>
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Name this mapping, e.g. Shopify orders"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            type="button"
+            onClick={savePreset}
+            disabled={isSaving || missing.length > 0}
+            className="flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" />
+            Save
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" type="button" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={missing.length > 0}
+            onClick={() => onApply(applyMapping(type, rows, mapping, dateFormat))}
+          >
+            Use These Columns
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,14 +2,26 @@
 
 import React, { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle2, Store } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { toast } from 'sonner';
 import Papa from 'papaparse';
+import ColumnMapper from '@/components/shared/ColumnMapper';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { DataFileError, dataFileFormat, DataSheet, readJsonRows, readWorkbook } from '@/lib/data-files';
+import { ImportType } from '@/lib/import-mapping';
+import { adaptPlatformRows, detectPlatform, PLATFORM_LABELS } from '@/lib/platform-adapters';
 
 interface CsvUploadProps {
-  type: 'salesHistory' | 'inventoryItems';
+  type: ImportType;
   onDataParsed: (data: any[]) => void;
 }
 
@@ -17,12 +29,12 @@ export default function CsvUpload({ type, onDataParsed }: CsvUploadProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
-  
-  // Define required fields based on type
-  const requiredFields = 
-    type === 'salesHistory' 
-      ? ['date', 'productName', 'quantity', 'unitPrice', 'totalAmount'] 
-      : ['sku', 'name'];
+  // Every sheet of the uploaded file that has data; CSV and JSON files have one
+  const [sheets, setSheets] = useState<DataSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const parsedFile = sheets[sheetIndex];
+  // Exports from Shopify, Square and WooCommerce can be converted without mapping columns
+  const platform = parsedFile ? detectPlatform(type, parsedFile.headers) : null;
   
   // Example template for the CSV download
   const getCsvTemplate = () => {
@@ -46,29 +58,21 @@ export default function CsvUpload({ type, onDataParsed }: CsvUploadProps) {
     document.body.removeChild(link);
   };
   
-  // Validate headers for CSV file
-  const validateHeaders = (headers: string[]) => {
-    const lowerCaseHeaders = headers.map(h => h.toLowerCase().trim());
-    
-    // Check if all required fields are present
-    const missingFields = requiredFields.filter(field => 
-      !lowerCaseHeaders.includes(field.toLowerCase())
-    );
-    
-    if (missingFields.length > 0) {
-      return `Missing required fields: ${missingFields.join(', ')}`;
+  const showSheets = (parsedSheets: DataSheet[]) => {
+    const withData = parsedSheets.filter(sheet => sheet.headers.length > 0 && sheet.rows.length > 0);
+    if (withData.length === 0) {
+      setError('The file has no header row or no data rows.');
+      return;
     }
     
-    return null;
+    // Columns are matched to fields in the mapping step before the data is used
+    setSheets(withData);
+    setSheetIndex(0);
   };
   
   // Process CSV file
-  const processFile = async (file: File) => {
-    setIsProcessing(true);
-    setError(null);
-    setSuccess(false);
-    
-    Papa.parse(file, {
+  const processCsv = (file: File) => {
+    Papa.parse<Record<string, string>>(file, {
       header: true,
       skipEmptyLines: true,
       complete: (results) => {
@@ -79,53 +83,8 @@ export default function CsvUpload({ type, onDataParsed }: CsvUploadProps) {
           return;
         }
         
-        // Validate headers
-        const headerError = validateHeaders(results.meta.fields || []);
-        if (headerError) {
-          setError(headerError);
-          setIsProcessing(false);
-          return;
-        }
-        
-        // Process data
-        try {
-          let processedData;
-          
-          if (type === 'salesHistory') {
-            // Process sales history data
-            processedData = results.data.map((row: any) => ({
-              date: row.date,
-              productId: row.productId || '',
-              productName: row.productName,
-              quantity: parseInt(row.quantity, 10) || 0,
-              unitPrice: parseFloat(row.unitPrice) || 0,
-              totalAmount: parseFloat(row.totalAmount) || 0,
-            }));
-          } else {
-            // Process inventory items data
-            processedData = results.data.map((row: any) => ({
-              sku: row.sku,
-              name: row.name,
-              description: row.description || '',
-              category: row.category || '',
-              unitCost: row.unitCost ? parseFloat(row.unitCost) : null,
-              sellingPrice: row.sellingPrice ? parseFloat(row.sellingPrice) : null,
-              stockQuantity: row.stockQuantity ? parseInt(row.stockQuantity, 10) : null,
-              location: row.location || '',
-              size: row.size || '',
-              color: row.color || '',
-            }));
-          }
-          
-          // Send processed data to parent component
-          onDataParsed(processedData);
-          setSuccess(true);
-          toast.success(`Successfully parsed ${processedData.length} records`);
-        } catch (error) {
-          console.error('Error processing CSV data:', error);
-          setError('Error processing file. Please check the format and try again.');
-        }
-        
+        const headers = (results.meta.fields || []).filter(header => header.trim() !== '');
+        showSheets([{ name: file.name, headers, rows: results.data }]);
         setIsProcessing(false);
       },
       error: (error) => {
@@ -136,6 +95,39 @@ export default function CsvUpload({ type, onDataParsed }: CsvUploadProps) {
     });
   };
   
+  const processFile = async (file: File) => {
+    setIsProcessing(true);
+    setError(null);
+    setSuccess(false);
+    setSheets([]);
+    
+    const format = dataFileFormat(file.name);
+    if (format === 'csv') {
+      processCsv(file);
+      return;
+    }
+    
+    try {
+      showSheets(format === 'xlsx'
+        ? await readWorkbook(await file.arrayBuffer())
+        : [readJsonRows(await file.text(), file.name)]);
+    } catch (error) {
+      console.error('Error reading file:', error);
+      setError(error instanceof DataFileError
+        ? error.message
+        : 'Failed to read the file. Please check the format and try again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+  
+  const handleMappingApplied = (data: object[]) => {
+    onDataParsed(data);
+    setSheets([]);
+    setSuccess(true);
+    toast.success(`Successfully parsed ${data.length} records`);
+  };
+  
   // Handle file drop
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) {
@@ -145,8 +137,8 @@ export default function CsvUpload({ type, onDataParsed }: CsvUploadProps) {
     const file = acceptedFiles[0];
     
     // Check file type
-    if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
-      setError('Please upload a CSV file.');
+    if (!dataFileFormat(file.name)) {
+      setError('Please upload a CSV, Excel (.xlsx) or JSON file.');
       return;
     }
     
@@ -158,6 +150,8 @@ export default function CsvUpload({ type, onDataParsed }: CsvUploadProps) {
     onDrop,
     accept: {
       'text/csv': ['.csv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/json': ['.json'],
     },
     maxFiles: 1,
   });
@@ -182,6 +176,54 @@ export default function CsvUpload({ type, onDataParsed }: CsvUploadProps) {
         </Alert>
       )}
       
+      {sheets.length > 1 && (
+        <div className="grid gap-2 max-w-sm">
+          <Label>Sheet</Label>
+          <Select value={String(sheetIndex)} onValueChange={(value) => setSheetIndex(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sheets.map((sheet, index) => (
+                <SelectItem key={sheet.name} value={String(index)}>
+                  {sheet.name} ({sheet.rows.length} rows)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      
+      {parsedFile && platform && (
+        <Alert>
+          <Store className="h-4 w-4" />
+          <AlertTitle>This looks like a {PLATFORM_LABELS[platform]} export</AlertTitle>
+          <AlertDescription className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <span>
+              Convert it as it is, including variants and orders with several items, or match the columns yourself below.
+            </span>
+            <Button
+              size="sm"
+              type="button"
+              onClick={() => handleMappingApplied(adaptPlatformRows(platform, type, parsedFile.rows))}
+            >
+              Convert {PLATFORM_LABELS[platform]} Export
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+      
+      {parsedFile && (
+        <ColumnMapper
+          key={`${parsedFile.name}-${sheetIndex}`}
+          type={type}
+          headers={parsedFile.headers}
+          rows={parsedFile.rows}
+          onApply={handleMappingApplied}
+          onCancel={() => setSheets([])}
+        />
+      )}
+      
       <div {...getRootProps()} className={`border-2 border-dashed rounded-md p-6 text-center cursor-pointer transition-colors ${isDragActive ? 'border-primary bg-primary/5' : 'border-muted-foreground/20 hover:border-primary/50 hover:bg-muted/50'}`}>
         <input {...getInputProps()} />
         <div className="flex flex-col items-center justify-center gap-2">
@@ -192,15 +234,15 @@ export default function CsvUpload({ type, onDataParsed }: CsvUploadProps) {
             </p>
           ) : isDragActive ? (
             <p className="text-sm text-muted-foreground">
-              Drop the CSV file here...
+              Drop the file here...
             </p>
           ) : (
             <div className="space-y-2">
               <p className="text-sm text-muted-foreground">
-                Drag and drop a CSV file here, or click to select
+                Drag and drop a CSV, Excel or JSON file here, or click to select
               </p>
               <p className="text-xs text-muted-foreground">
-                {type === 'salesHistory' ? 'Upload sales history CSV' : 'Upload inventory items CSV'}
+                {type === 'salesHistory' ? 'Upload sales history' : 'Upload inventory items'}
               </p>
             </div>
           )}
@@ -210,7 +252,7 @@ export default function CsvUpload({ type, onDataParsed }: CsvUploadProps) {
       <div className="flex justify-between items-center">
         <div className="flex items-center text-sm text-muted-foreground">
           <FileText className="h-4 w-4 mr-2" />
-          <span>Only CSV files are supported</span>
+          <span>CSV, Excel (.xlsx) and JSON files are supported</span>
         </div>
         
         <Button
@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { DataFileFormat } from '@/lib/data-files';
+
+interface ExportButtonProps {
+  // Export endpoint, e.g. /api/products/export
+  endpoint: string;
+  // The list's current filters and sort, so the file matches what is shown
+  params: URLSearchParams;
+}
+
+const FORMAT_LABELS: Record<DataFileFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  json: 'JSON',
+};
+
+export default function ExportButton({ endpoint, params }: ExportButtonProps) {
+  const download = (format: DataFileFormat) => {
+    const query = new URLSearchParams(params);
+    query.set('format', format);
+    // The endpoint responds with an attachment, so the page stays where it is
+    window.location.href = `${endpoint}?${query.toString()}`;
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-44 p-1">
+        {(Object.keys(FORMAT_LABELS) as DataFileFormat[]).map((format) => (
+          <Button
+            key={format}
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start"
+            onClick={() => download(format)}
+          >
+            {FORMAT_LABELS[format]}
+          </Button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+
+export interface ImportRowError {
+  row: number;
+  reason: string;
+}
+
+export interface SalesHistoryImportPreview {
+  totalRows: number;
+  validRows: number;
+  newRows: number;
+  duplicateRows: number;
+  conflictRows: number;
+  salesToCreate: number;
+  productsToCreate: { name: string; sellingPrice: number }[];
+  productsToUpdate: {
+    productId: string;
+    name: string;
+    changes: Record<string, { before: string | number | null; after: string | number }>;
+  }[];
+  errors: ImportRowError[];
+  conflicts: ImportRowError[];
+}
+
+interface ImportPreviewProps {
+  preview: SalesHistoryImportPreview;
+  updateConflicts: boolean;
+  onUpdateConflictsChange: (value: boolean) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  sellingPrice: 'Price',
+};
+
+function formatChange(field: string, value: string | number | null) {
+  if (value === null) return '—';
+  return field === 'sellingPrice' ? `$${Number(value).toFixed(2)}` : String(value);
+}
+
+// What a dry run found: products to create or update and the rows that will be skipped
+export default function ImportPreview({ preview, updateConflicts, onUpdateConflictsChange }: ImportPreviewProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="rounded-md border p-3">
+          <div className="text-sm text-muted-foreground">New rows</div>
+          <div className="text-2xl font-semibold">{preview.newRows} / {preview.totalRows}</div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-sm text-muted-foreground">Already imported</div>
+          <div className="text-2xl font-semibold">{preview.duplicateRows}</div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-sm text-muted-foreground">Changed since import</div>
+          <div className="text-2xl font-semibold">{preview.conflictRows}</div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-sm text-muted-foreground">Invalid rows</div>
+          <div className="text-2xl font-semibold">{preview.errors.length}</div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-sm text-muted-foreground">Daily sales</div>
+          <div className="text-2xl font-semibold">{preview.salesToCreate}</div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-sm text-muted-foreground">New products</div>
+          <div className="text-2xl font-semibold">{preview.productsToCreate.length}</div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-sm text-muted-foreground">Updated products</div>
+          <div className="text-2xl font-semibold">{preview.productsToUpdate.length}</div>
+        </div>
+      </div>
+
+      {preview.conflicts.length > 0 && (
+        <div className="rounded-md border p-4 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h4 className="text-sm font-medium">Rows that changed since they were imported</h4>
+              <p className="text-sm text-muted-foreground">
+                {updateConflicts
+                  ? 'The earlier sales will be updated with the values in this file'
+                  : 'These rows will be skipped and the earlier sales left as they are'}
+              </p>
+            </div>
+            <Switch checked={updateConflicts} onCheckedChange={onUpdateConflictsChange} />
+          </div>
+          <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+            {preview.conflicts.map((conflict) => (
+              <li key={conflict.row}>
+                <span className="font-medium">Row {conflict.row}:</span> {conflict.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {preview.errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>{preview.errors.length} rows will be skipped</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 max-h-48 overflow-y-auto space-y-1 text-sm">
+              {preview.errors.map((error) => (
+                <li key={error.row}>
+                  <span className="font-medium">Row {error.row}:</span> {error.reason}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {preview.productsToCreate.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Products that will be created</h4>
+          <div className="flex flex-wrap gap-2">
+            {preview.productsToCreate.map((product) => (
+              <Badge key={product.name} variant="secondary">
+                {product.name} · ${product.sellingPrice.toFixed(2)}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {preview.productsToUpdate.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Products that will be updated</h4>
+          <ul className="space-y-1 text-sm">
+            {preview.productsToUpdate.map((product) => (
+              <li key={product.productId}>
+                <span className="font-medium">{product.name}</span>
+                {Object.entries(product.changes).map(([field, change]) => (
+                  <span key={field} className="ml-2 text-muted-foreground">
+                    {FIELD_LABELS[field] || field}: {formatChange(field, change.before)} → {formatChange(field, change.after)}
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { Bell, Check } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface InboxNotification {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// How often the unread count is refreshed while the page is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export default function NotificationBell() {
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const pathname = usePathname();
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications?limit=10');
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  useEffect(() => {
+    setIsOpen(false);
+  }, [pathname]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (isOpen && menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const markRead = async (notification: InboxNotification) => {
+    if (notification.readAt) return;
+
+    try {
+      const response = await fetch(`/api/notifications/${notification.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ read: true }),
+      });
+      if (response.ok) {
+        const updated = await response.json();
+        setNotifications(current => current.map(item => (item.id === updated.id ? updated : item)));
+        setUnreadCount(count => Math.max(0, count - 1));
+      }
+    } catch (error) {
+      console.error('Error updating notification:', error);
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications/read-all', { method: 'POST' });
+      if (response.ok) {
+        fetchNotifications();
+      }
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md text-foreground/70 hover:text-foreground hover:bg-primary/5 focus:outline-none transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[1rem] h-4 px-1 rounded-full bg-destructive text-[10px] leading-4 text-white text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="origin-top-right absolute right-0 mt-2 w-80 rounded-lg shadow-lg bg-card border border-border backdrop-blur-sm overflow-hidden z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+            <span className="text-sm font-medium">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllRead}
+                className="flex items-center text-xs text-foreground/70 hover:text-foreground"
+              >
+                <Check className="h-3 w-3 mr-1" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">You have no notifications</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-border/50">
+              {notifications.map(notification => {
+                const content = (
+                  <>
+                    <div className="flex items-start justify-between gap-2">
+                      <p className={`text-sm ${notification.readAt ? 'text-foreground/70' : 'font-medium'}`}>
+                        {notification.title}
+                      </p>
+                      {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-brand-blue" />}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">{notification.body}</p>
+                    <p className="text-xs text-muted-foreground/70 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </>
+                );
+
+                return (
+                  <li key={notification.id} className="hover:bg-primary/5">
+                    {notification.link ? (
+                      <Link href={notification.link} onClick={() => markRead(notification)} className="block px-4 py-3">
+                        {content}
+                      </Link>
+                    ) : (
+                      <button onClick={() => markRead(notification)} className="block w-full text-left px-4 py-3">
+                        {content}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { cache } from 'react';
 import { format, subDays, subMonths, startOfMonth, endOfMonth, addMonths, addDays, isFuture, differenceInDays } from 'date-fns';
 import { optimizePriceForRevenue } from './utils';
 import { RevenueOverTime, RevenueTrendAnalysis } from './analytics/revenue-over-time';
+import { CustomerGrowthPeriod, loadCustomerGrowth } from './analytics/customer-growth';
 
 // initialize the Prisma client
 const prisma = new PrismaClient();
@@ -176,8 +177,17 @@ export const getSalesTimeSeries = cache(async (
   }));
 });
 
-// get top products by sales
-export const getTopProducts = cache(async (limit: number = 10) => {
+// get top products by sales, optionally for one business and for sales made from `since` up to `until`
+export const getTopProducts = cache(async (limit: number = 10, userId?: string, since?: Date, until?: Date) => {
+  const conditions = [
+    userId ? Prisma.sql`s."userId" = ${userId}` : null,
+    since ? Prisma.sql`s."date" >= ${since}` : null,
+    until ? Prisma.sql`s."date" < ${until}` : null,
+  ].filter((condition): condition is Prisma.Sql => condition !== null);
+  const where = conditions.length > 0
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+    : Prisma.empty;
+
   // Using raw SQL query as a workaround for the Prisma type issue
   const topProductsData = await prisma.$queryRaw<Array<{
     productId: string,
@@ -185,11 +195,13 @@ export const getTopProducts = cache(async (limit: number = 10) => {
     order_count: string
   }>>`
     SELECT 
-      "productId",
-      SUM(quantity) as total_quantity,
-      COUNT(DISTINCT "saleId") as order_count
-    FROM "sale_items"
-    GROUP BY "productId"
+      si."productId",
+      SUM(si.quantity) as total_quantity,
+      COUNT(DISTINCT si."saleId") as order_count
+    FROM "sale_items" si
+    JOIN "sales" s ON s.id = si."saleId"
+    ${where}
+    GROUP BY si."productId"
     ORDER BY total_quantity DESC
     LIMIT ${limit}
   `;
@@ -247,41 +259,9 @@ export const getInventoryLevels = cache(async (lowStockThreshold: number = 5) =>
   }));
 });
 
-// get customer segments by signup date (user growth)
-export const getCustomerGrowth = cache(async (period: 'month' | 'quarter' | 'year' = 'month') => {
-  let dateFormat: string;
-  let dateGroup: string;
-  
-  switch (period) {
-    case 'month':
-      dateFormat = 'yyyy-MM';
-      dateGroup = 'month';
-      break;
-    case 'quarter':
-      dateFormat = 'yyyy-Q';
-      dateGroup = 'quarter';
-      break;
-    case 'year':
-      dateFormat = 'yyyy';
-      dateGroup = 'year';
-      break;
-  }
-  
-  // aggregate user signups by time period
-  const userGrowth = await prisma.$queryRaw<Array<{time_period: Date, user_count: string}>>`
-    SELECT 
-      DATE_TRUNC(${dateGroup}, "createdAt") as time_period,
-      COUNT(*) as user_count
-    FROM "users"
-    GROUP BY DATE_TRUNC(${dateGroup}, "createdAt")
-    ORDER BY time_period ASC
-  `;
-  
-  // format for chart component
-  return userGrowth.map(row => ({
-    period: format(new Date(row.time_period), dateFormat),
-    userCount: parseInt(row.user_count) || 0
-  }));
+// get customer growth by first-purchase date (new vs. cumulative customers)
+export const getCustomerGrowth = cache(async (period: CustomerGrowthPeriod = 'month', userId?: string) => {
+  return loadCustomerGrowth(prisma, period, userId);
 });
 
 // Compute dynamic price elasticity and generate pricing suggestions
@@ -0,0 +1,184 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  DEFAULT_LEAD_TIME_DAYS,
+  DEFAULT_SAFETY_STOCK_DAYS,
+  parseReplenishmentSettings,
+  planReplenishment,
+  ReplenishmentCalculator,
+  ReplenishmentInput,
+  ReplenishmentSettingsError,
+  sortByUrgency,
+  stockStatus,
+} from '../replenishment';
+import { DatabaseError } from '../utils';
+
+const baseInput: ReplenishmentInput = {
+  productId: 'p1',
+  productName: 'Ceramic Mug',
+  sku: 'MUG-1',
+  stockQuantity: 20,
+  unitsSold: 60,
+  onOrder: 0,
+  supplier: null,
+};
+
+describe('planReplenishment', () => {
+  it('derives velocity, days of cover and the reorder point', () => {
+    // 60 units over 30 days = 2 a day; 7 day lead time + 3 days safety stock = 20 units
+    const result = planReplenishment(baseInput, 30);
+
+    expect(result.dailyVelocity).toBe(2);
+    expect(result.daysOfCover).toBe(10);
+    expect(result.leadTimeDays).toBe(DEFAULT_LEAD_TIME_DAYS);
+    expect(result.safetyStockDays).toBe(DEFAULT_SAFETY_STOCK_DAYS);
+    expect(result.reorderPoint).toBe(20);
+    expect(result.status).toBe('reorder');
+    // enough for lead time + safety stock + 30 days of cover, less what is on hand
+    expect(result.suggestedOrderQuantity).toBe(80 - 20);
+  });
+
+  it('prefers product settings over the supplier and the supplier over defaults', () => {
+    const supplier = { id: 's1', name: 'Acme', leadTimeDays: 14, safetyStockDays: 5 };
+
+    const fromSupplier = planReplenishment({ ...baseInput, supplier }, 30);
+    expect(fromSupplier.leadTimeDays).toBe(14);
+    expect(fromSupplier.leadTimeSource).toBe('supplier');
+    expect(fromSupplier.safetyStockSource).toBe('supplier');
+    expect(fromSupplier.reorderPoint).toBe(38);
+
+    const fromProduct = planReplenishment({ ...baseInput, supplier, leadTimeDays: 2, safetyStockDays: 0 }, 30);
+    expect(fromProduct.leadTimeSource).toBe('product');
+    expect(fromProduct.reorderPoint).toBe(4);
+    expect(fromProduct.status).toBe('ok');
+    expect(fromProduct.suggestedOrderQuantity).toBe(0);
+  });
+
+  it('subtracts stock already on order', () => {
+    const result = planReplenishment({ ...baseInput, onOrder: 50 }, 30);
+
+    expect(result.status).toBe('reorder');
+    expect(result.suggestedOrderQuantity).toBe(10);
+  });
+
+  it('flags products with no stock even when they are not selling', () => {
+    const result = planReplenishment({ ...baseInput, stockQuantity: 0, unitsSold: 0 }, 30);
+
+    expect(result.status).toBe('out_of_stock');
+    expect(result.daysOfCover).toBeNull();
+    expect(result.suggestedOrderQuantity).toBe(0);
+  });
+
+  it('sorts out of stock first, then by fewest days of cover', () => {
+    const healthy = planReplenishment({ ...baseInput, productId: 'healthy', stockQuantity: 500 }, 30);
+    const low = planReplenishment({ ...baseInput, productId: 'low', stockQuantity: 10 }, 30);
+    const lower = planReplenishment({ ...baseInput, productId: 'lower', stockQuantity: 4 }, 30);
+    const empty = planReplenishment({ ...baseInput, productId: 'empty', stockQuantity: 0 }, 30);
+
+    expect(sortByUrgency([healthy, low, empty, lower]).map(s => s.productId)).toEqual([
+      'empty', 'lower', 'low', 'healthy',
+    ]);
+  });
+});
+
+describe('stockStatus', () => {
+  it('judges stock against the reorder point', () => {
+    expect(stockStatus(0, 13)).toBe('out_of_stock');
+    expect(stockStatus(13, 13)).toBe('reorder');
+    expect(stockStatus(14, 13)).toBe('ok');
+    // Not selling, so never due for reorder until it runs out
+    expect(stockStatus(1, 0)).toBe('ok');
+    expect(stockStatus(-2, 0)).toBe('out_of_stock');
+  });
+});
+
+describe('parseReplenishmentSettings', () => {
+  it('leaves missing fields undefined and clears empty ones', () => {
+    expect(parseReplenishmentSettings({ leadTimeDays: '5', safetyStockDays: '', supplierId: '' })).toEqual({
+      leadTimeDays: 5,
+      safetyStockDays: null,
+      supplierId: null,
+    });
+    expect(parseReplenishmentSettings({})).toEqual({
+      leadTimeDays: undefined,
+      safetyStockDays: undefined,
+      supplierId: undefined,
+    });
+  });
+
+  it('rejects anything but whole days', () => {
+    expect(() => parseReplenishmentSettings({ leadTimeDays: 1.5 })).toThrow(ReplenishmentSettingsError);
+    expect(() => parseReplenishmentSettings({ safetyStockDays: -1 })).toThrow('Safety stock must be a whole number of days');
+  });
+});
+
+describe('ReplenishmentCalculator', () => {
+  const prisma = {
+    $queryRaw: jest.fn(),
+    product: { findMany: jest.fn() },
+    saleItem: { groupBy: jest.fn() },
+    purchaseOrderLine: { findMany: jest.fn() },
+  };
+  const calculator = new ReplenishmentCalculator(prisma as unknown as PrismaClient);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.$queryRaw.mockResolvedValue([{ '1': 1 }]);
+  });
+
+  it('combines stock, net sales and open purchase orders per product', async () => {
+    prisma.product.findMany.mockResolvedValue([
+      { id: 'p1', name: 'Ceramic Mug', sku: 'MUG-1', stockQuantity: 5, leadTimeDays: null, safetyStockDays: null,
+        supplier: { id: 's1', name: 'Acme', leadTimeDays: 10, safetyStockDays: null } },
+      { id: 'p2', name: 'Tote Bag', sku: 'BAG-1', stockQuantity: 100, leadTimeDays: null, safetyStockDays: null, supplier: null },
+    ]);
+    prisma.saleItem.groupBy.mockResolvedValue([
+      { productId: 'p1', _sum: { quantity: 35, returnedQuantity: 5 } },
+    ]);
+    prisma.purchaseOrderLine.findMany.mockResolvedValue([
+      { productId: 'p1', quantityOrdered: 20, quantityReceived: 15 },
+    ]);
+
+    const result = await calculator.calculateReplenishment('owner-1', 30);
+
+    expect(prisma.product.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'owner-1', isActive: true },
+    }));
+    expect(result.summary).toEqual({ productsAnalyzed: 2, outOfStock: 0, needsReorder: 1 });
+
+    const [mug, bag] = result.suggestions;
+    expect(mug.productId).toBe('p1');
+    expect(mug.dailyVelocity).toBe(1);
+    expect(mug.leadTimeDays).toBe(10);
+    expect(mug.reorderPoint).toBe(13);
+    expect(mug.onOrder).toBe(5);
+    expect(mug.suggestedOrderQuantity).toBe(43 - 5 - 5);
+    expect(bag.status).toBe('ok');
+    expect(bag.daysOfCover).toBeNull();
+  });
+
+  it('reports reorder points and low stock products of a business', async () => {
+    prisma.product.findMany.mockResolvedValue([
+      { id: 'p1', name: 'Ceramic Mug', sku: 'MUG-1', stockQuantity: 5, leadTimeDays: null, safetyStockDays: null, supplier: null },
+    ]);
+    prisma.saleItem.groupBy.mockResolvedValue([{ productId: 'p1', _sum: { quantity: 30, returnedQuantity: 0 } }]);
+    prisma.purchaseOrderLine.findMany.mockResolvedValue([]);
+
+    const reorderPoints = await calculator.reorderPoints('owner-1', ['p1']);
+
+    expect(reorderPoints.get('p1')).toBe(DEFAULT_LEAD_TIME_DAYS + DEFAULT_SAFETY_STOCK_DAYS);
+    expect(prisma.product.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'owner-1', isActive: true, id: { in: ['p1'] } },
+    }));
+    expect(prisma.saleItem.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ productId: { in: ['p1'] } }),
+    }));
+    expect(await calculator.lowStockProductIds('owner-1')).toEqual(['p1']);
+    expect(await calculator.reorderPoints('owner-1', [])).toEqual(new Map());
+  });
+
+  it('throws DatabaseError when the database is unreachable', async () => {
+    prisma.$queryRaw.mockRejectedValue(new Error('Connection failed'));
+
+    await expect(calculator.calculateReplenishment('owner-1')).rejects.toThrow(DatabaseError);
+  });
+});
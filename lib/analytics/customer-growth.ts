@@ -0,0 +1,94 @@
+import { PrismaClient } from '@prisma/client';
+import { format, startOfMonth, startOfQuarter, startOfYear } from 'date-fns';
+
+export type CustomerGrowthPeriod = 'month' | 'quarter' | 'year';
+
+export const CUSTOMER_GROWTH_PERIODS: CustomerGrowthPeriod[] = ['month', 'quarter', 'year'];
+
+// A customer's first sale and how many sales they have made in total
+export interface FirstPurchase {
+  customerId: string;
+  firstPurchaseAt: Date;
+  purchaseCount: number;
+}
+
+export interface CustomerGrowthPoint {
+  period: string;
+  // Customers whose first purchase was in this period
+  newCustomers: number;
+  // Of those, the ones who have bought again since
+  repeatCustomers: number;
+  // Customers acquired up to and including this period
+  totalCustomers: number;
+}
+
+const PERIOD_START: Record<CustomerGrowthPeriod, (date: Date) => Date> = {
+  month: startOfMonth,
+  quarter: startOfQuarter,
+  year: startOfYear,
+};
+
+const PERIOD_FORMAT: Record<CustomerGrowthPeriod, string> = {
+  month: 'yyyy-MM',
+  quarter: 'yyyy-Q',
+  year: 'yyyy',
+};
+
+/**
+ * Counts customers as acquired in the period of their first purchase, oldest period first,
+ * with a running total. Periods nobody made a first purchase in are left out.
+ */
+export function buildCustomerGrowth(
+  firstPurchases: FirstPurchase[],
+  period: CustomerGrowthPeriod = 'month'
+): CustomerGrowthPoint[] {
+  const byPeriod = new Map<number, { newCustomers: number; repeatCustomers: number }>();
+  for (const purchase of firstPurchases) {
+    const start = PERIOD_START[period](purchase.firstPurchaseAt).getTime();
+    const counts = byPeriod.get(start) ?? { newCustomers: 0, repeatCustomers: 0 };
+    counts.newCustomers++;
+    if (purchase.purchaseCount > 1) {
+      counts.repeatCustomers++;
+    }
+    byPeriod.set(start, counts);
+  }
+
+  let totalCustomers = 0;
+  return Array.from(byPeriod.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, counts]) => {
+      totalCustomers += counts.newCustomers;
+      return {
+        period: format(new Date(start), PERIOD_FORMAT[period]),
+        ...counts,
+        totalCustomers,
+      };
+    });
+}
+
+/**
+ * Customer growth from the first sale of each customer, optionally for one business
+ */
+export async function loadCustomerGrowth(
+  client: PrismaClient,
+  period: CustomerGrowthPeriod = 'month',
+  ownerId?: string
+): Promise<CustomerGrowthPoint[]> {
+  const customers = await client.sale.groupBy({
+    by: ['customerId'],
+    where: { customerId: { not: null }, ...(ownerId ? { userId: ownerId } : {}) },
+    _min: { date: true },
+    _count: { _all: true },
+  });
+
+  return buildCustomerGrowth(
+    customers
+      .filter(customer => customer.customerId && customer._min.date)
+      .map(customer => ({
+        customerId: customer.customerId!,
+        firstPurchaseAt: customer._min.date!,
+        purchaseCount: customer._count._all,
+      })),
+    period
+  );
+}
@@ -2,6 +2,7 @@
 export * from './projected-earnings';
 export * from './utils';
 export * from './revenue-over-time';
+export * from './replenishment';
 
 // Add more exports here as we create additional analytics modules
 // export * from './peak-selling-hours';
@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import { format, subMonths } from 'date-fns';
 import { optimizePriceForRevenue } from '@/lib/utils';
+import { ProductRollup, splitProductsByVariant } from './utils';
 
 // Define data interfaces for price recommendations
 export interface PriceRecommendation {
@@ -61,19 +62,22 @@ export class PriceRecommendationCalculator {
    * @param timeRangeInDays Time range for analysis in days
    * @param confidenceThreshold Minimum confidence level
    * @param userId Optional user ID
+   * @param rollup Recommend per parent product (default) or per size/color variant
    * @returns Array of price recommendations
    */
   async getPriceRecommendations(
     timeRangeInDays: number,
     confidenceThreshold: 'high' | 'medium' | 'low' | 'all' = 'all',
-    userId?: string
+    userId?: string,
+    rollup: ProductRollup = 'product'
   ): Promise<PriceRecommendation[]> {
     try {
       // Try to calculate price recommendations
       const result = await this.calculatePriceRecommendations(
         timeRangeInDays,
         userId,
-        confidenceThreshold
+        confidenceThreshold,
+        rollup
       );
       return result.recommendations;
     } catch (error) {
@@ -93,12 +97,14 @@ export class PriceRecommendationCalculator {
    * @param timeRangeInDays Number of days to use for historical analysis
    * @param userId Optional user ID to filter data
    * @param confidenceThreshold Minimum confidence level for recommendations
+   * @param rollup Recommend per parent product (default) or per size/color variant
    * @returns Price recommendations and revenue projections
    */
   async calculatePriceRecommendations(
     timeRangeInDays: number,
     userId?: string,
-    confidenceThreshold: 'high' | 'medium' | 'low' | 'all' = 'all'
+    confidenceThreshold: 'high' | 'medium' | 'low' | 'all' = 'all',
+    rollup: ProductRollup = 'product'
   ): Promise<PriceRecommendationData> {
     try {
       // Check database connection first
@@ -108,7 +114,12 @@ export class PriceRecommendationCalculator {
       const { startDate, endDate } = this.calculateDateRange(timeRangeInDays);
       
       // Fetch products and their sales data
-      const productsWithSales = await this.fetchProductsWithSales(timeRangeInDays, userId);
+      const fetchedProducts = await this.fetchProductsWithSales(timeRangeInDays, userId);
+      
+      // Variants with their own price override are priced separately when requested
+      const productsWithSales = rollup === 'variant'
+        ? splitProductsByVariant(fetchedProducts)
+        : fetchedProducts;
       
       if (productsWithSales.length === 0) {
         // Return empty data instead of throwing
@@ -234,6 +245,7 @@ export class PriceRecommendationCalculator {
       const products = await this.prisma.product.findMany({
         where: productWhereClause,
         include: {
+          variants: true,
           saleItems: {
             include: {
               sale: true
@@ -283,7 +283,8 @@ export class ProjectedEarningsCalculator {
         select: {
           id: true,
           createdAt: true,
-          totalAmount: true
+          totalAmount: true,
+          refundedAmount: true
         },
         orderBy: {
           createdAt: 'asc'
@@ -344,7 +345,8 @@ export class ProjectedEarningsCalculator {
       const key = this.formatDateByResolution(date, resolution);
       
       const currentValue = aggregatedData.get(key) || 0;
-      aggregatedData.set(key, currentValue + Number(sale.totalAmount));
+      // Net of any refunds made through returns
+      aggregatedData.set(key, currentValue + Number(sale.totalAmount) - Number(sale.refundedAmount || 0));
     });
     
     // Generate all time periods in the range to ensure continuity
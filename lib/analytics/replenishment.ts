@@ -0,0 +1,325 @@
+import { PrismaClient } from '@prisma/client';
+import { testDatabaseConnection } from './utils';
+
+// Used when neither the product nor its supplier has a setting
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+export const DEFAULT_SAFETY_STOCK_DAYS = 3;
+// How many days of sales a suggested order should cover once it arrives
+export const DEFAULT_ORDER_COVER_DAYS = 30;
+
+export type ReplenishmentStatus = 'out_of_stock' | 'reorder' | 'ok';
+
+export type SettingSource = 'product' | 'supplier' | 'default';
+
+export interface ReplenishmentSettings {
+  leadTimeDays?: number | null;
+  safetyStockDays?: number | null;
+}
+
+// What the calculator needs to know about one product
+export interface ReplenishmentInput extends ReplenishmentSettings {
+  productId: string;
+  productName: string;
+  sku: string | null;
+  stockQuantity: number;
+  unitsSold: number;
+  onOrder: number;
+  supplier: (ReplenishmentSettings & { id: string; name: string }) | null;
+}
+
+export interface ReplenishmentSuggestion {
+  productId: string;
+  productName: string;
+  sku: string | null;
+  supplier: { id: string; name: string } | null;
+  stockQuantity: number;
+  onOrder: number;
+  dailyVelocity: number;
+  daysOfCover: number | null; // null when the product is not selling
+  leadTimeDays: number;
+  leadTimeSource: SettingSource;
+  safetyStockDays: number;
+  safetyStockSource: SettingSource;
+  reorderPoint: number;
+  suggestedOrderQuantity: number;
+  status: ReplenishmentStatus;
+}
+
+export interface ReplenishmentData {
+  suggestions: ReplenishmentSuggestion[];
+  summary: {
+    productsAnalyzed: number;
+    outOfStock: number;
+    needsReorder: number;
+  };
+  timeRangeInDays: number;
+  orderCoverDays: number;
+}
+
+export class ReplenishmentSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplenishmentSettingsError';
+  }
+}
+
+/**
+ * Reads a lead time or safety stock value from a request body
+ * @returns undefined when the field was not sent, null when it was cleared
+ * @throws ReplenishmentSettingsError when the value is not a whole number of days
+ */
+export function parseDaysSetting(value: unknown, label: string): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new ReplenishmentSettingsError(`${label} must be a whole number of days`);
+  }
+  return days;
+}
+
+/**
+ * Reads a product's replenishment settings from a request body. Fields that were not
+ * sent come back undefined so partial updates leave them alone.
+ * @throws ReplenishmentSettingsError when a value is invalid
+ */
+export function parseReplenishmentSettings(body: Record<string, any>): {
+  leadTimeDays: number | null | undefined;
+  safetyStockDays: number | null | undefined;
+  supplierId: string | null | undefined;
+} {
+  return {
+    leadTimeDays: parseDaysSetting(body.leadTimeDays, 'Lead time'),
+    safetyStockDays: parseDaysSetting(body.safetyStockDays, 'Safety stock'),
+    supplierId: body.supplierId === undefined ? undefined : body.supplierId || null,
+  };
+}
+
+const STATUS_ORDER: Record<ReplenishmentStatus, number> = {
+  out_of_stock: 0,
+  reorder: 1,
+  ok: 2,
+};
+
+function resolveSetting(
+  key: keyof ReplenishmentSettings,
+  input: ReplenishmentInput,
+  fallback: number
+): { value: number; source: SettingSource } {
+  const fromProduct = input[key];
+  if (fromProduct !== null && fromProduct !== undefined) {
+    return { value: fromProduct, source: 'product' };
+  }
+
+  const fromSupplier = input.supplier?.[key];
+  if (fromSupplier !== null && fromSupplier !== undefined) {
+    return { value: fromSupplier, source: 'supplier' };
+  }
+
+  return { value: fallback, source: 'default' };
+}
+
+/**
+ * Whether a stock quantity is out, due for reorder or fine against a product's reorder point.
+ * This is what low stock means everywhere: the dashboard, alerts, webhooks, digests and list filters.
+ * Products that are not selling have a reorder point of 0 and are never due for reorder.
+ */
+export function stockStatus(stockQuantity: number, reorderPoint: number): ReplenishmentStatus {
+  if (stockQuantity <= 0) {
+    return 'out_of_stock';
+  }
+  if (reorderPoint > 0 && stockQuantity <= reorderPoint) {
+    return 'reorder';
+  }
+  return 'ok';
+}
+
+/**
+ * Works out the reorder point and suggested order quantity for one product.
+ * Velocity is average units sold per day over the window; the reorder point is the
+ * stock needed to cover the lead time plus the safety stock days at that velocity.
+ * @param input Product stock, sales and settings
+ * @param timeRangeInDays Length of the sales window the units sold were counted over
+ * @param orderCoverDays Days of sales an order should cover after it arrives
+ */
+export function planReplenishment(
+  input: ReplenishmentInput,
+  timeRangeInDays: number,
+  orderCoverDays: number = DEFAULT_ORDER_COVER_DAYS
+): ReplenishmentSuggestion {
+  const leadTime = resolveSetting('leadTimeDays', input, DEFAULT_LEAD_TIME_DAYS);
+  const safetyStock = resolveSetting('safetyStockDays', input, DEFAULT_SAFETY_STOCK_DAYS);
+
+  const stockQuantity = Math.max(0, input.stockQuantity);
+  const dailyVelocity = timeRangeInDays > 0 ? Math.max(0, input.unitsSold) / timeRangeInDays : 0;
+
+  const reorderPoint = Math.ceil(dailyVelocity * (leadTime.value + safetyStock.value));
+  const targetStock = Math.ceil(dailyVelocity * (leadTime.value + safetyStock.value + orderCoverDays));
+
+  const status = stockStatus(stockQuantity, reorderPoint);
+
+  // Stock already on open purchase orders counts towards the target
+  const suggestedOrderQuantity = status === 'ok'
+    ? 0
+    : Math.max(0, targetStock - stockQuantity - input.onOrder);
+
+  return {
+    productId: input.productId,
+    productName: input.productName,
+    sku: input.sku,
+    supplier: input.supplier ? { id: input.supplier.id, name: input.supplier.name } : null,
+    stockQuantity,
+    onOrder: input.onOrder,
+    dailyVelocity: Math.round(dailyVelocity * 100) / 100,
+    daysOfCover: dailyVelocity > 0 ? Math.round((stockQuantity / dailyVelocity) * 10) / 10 : null,
+    leadTimeDays: leadTime.value,
+    leadTimeSource: leadTime.source,
+    safetyStockDays: safetyStock.value,
+    safetyStockSource: safetyStock.source,
+    reorderPoint,
+    suggestedOrderQuantity,
+    status,
+  };
+}
+
+/**
+ * Orders suggestions most urgent first: out of stock, then due for reorder by
+ * fewest days of cover, then everything else
+ */
+export function sortByUrgency(suggestions: ReplenishmentSuggestion[]): ReplenishmentSuggestion[] {
+  return [...suggestions].sort((a, b) => {
+    if (a.status !== b.status) {
+      return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+    }
+    return (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity);
+  });
+}
+
+export class ReplenishmentCalculator {
+  private prisma: PrismaClient;
+
+  constructor(prismaClient?: PrismaClient) {
+    // Allow dependency injection for testing
+    this.prisma = prismaClient || new PrismaClient();
+  }
+
+  /**
+   * Generate reorder suggestions for every active product of a business
+   * @param userId Business owner ID the products and sales belong to
+   * @param timeRangeInDays Sales window used to measure velocity
+   * @param orderCoverDays Days of sales a suggested order should cover
+   * @param productIds Only work out these products
+   * @returns Suggestions sorted most urgent first, with summary counts
+   */
+  async calculateReplenishment(
+    userId: string,
+    timeRangeInDays: number = 30,
+    orderCoverDays: number = DEFAULT_ORDER_COVER_DAYS,
+    productIds?: string[]
+  ): Promise<ReplenishmentData> {
+    await testDatabaseConnection(this.prisma);
+
+    const windowDays = timeRangeInDays > 0 ? timeRangeInDays : 30;
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - windowDays);
+
+    const onlyProducts = productIds ? { productId: { in: productIds } } : {};
+
+    const [products, salesByProduct, openLines] = await Promise.all([
+      this.prisma.product.findMany({
+        where: { userId, isActive: true, ...(productIds ? { id: { in: productIds } } : {}) },
+        include: {
+          supplier: {
+            select: { id: true, name: true, leadTimeDays: true, safetyStockDays: true },
+          },
+        },
+      }),
+      this.prisma.saleItem.groupBy({
+        by: ['productId'],
+        where: {
+          ...onlyProducts,
+          sale: {
+            userId,
+            date: { gte: startDate },
+          },
+        },
+        _sum: {
+          quantity: true,
+          returnedQuantity: true,
+        },
+      }),
+      this.prisma.purchaseOrderLine.findMany({
+        where: {
+          ...onlyProducts,
+          purchaseOrder: {
+            userId,
+            status: { in: ['SENT', 'PARTIALLY_RECEIVED'] },
+          },
+        },
+        select: {
+          productId: true,
+          quantityOrdered: true,
+          quantityReceived: true,
+        },
+      }),
+    ]);
+
+    // Returned units went back on the shelf, so they do not count as demand
+    const unitsSold = new Map<string, number>();
+    for (const row of salesByProduct) {
+      unitsSold.set(row.productId, (row._sum.quantity || 0) - (row._sum.returnedQuantity || 0));
+    }
+
+    const onOrder = new Map<string, number>();
+    for (const line of openLines) {
+      const outstanding = Math.max(0, line.quantityOrdered - line.quantityReceived);
+      onOrder.set(line.productId, (onOrder.get(line.productId) || 0) + outstanding);
+    }
+
+    const suggestions = sortByUrgency(products.map(product => planReplenishment({
+      productId: product.id,
+      productName: product.name,
+      sku: product.sku,
+      stockQuantity: product.stockQuantity,
+      leadTimeDays: product.leadTimeDays,
+      safetyStockDays: product.safetyStockDays,
+      unitsSold: unitsSold.get(product.id) || 0,
+      onOrder: onOrder.get(product.id) || 0,
+      supplier: product.supplier,
+    }, windowDays, orderCoverDays)));
+
+    return {
+      suggestions,
+      summary: {
+        productsAnalyzed: suggestions.length,
+        outOfStock: suggestions.filter(s => s.status === 'out_of_stock').length,
+        needsReorder: suggestions.filter(s => s.status !== 'ok').length,
+      },
+      timeRangeInDays: windowDays,
+      orderCoverDays,
+    };
+  }
+
+  /**
+   * Reorder points of some of a business's products, for judging a change in their stock
+   * @returns Reorder point by product id; products that are not active are left out
+   */
+  async reorderPoints(userId: string, productIds: string[]): Promise<Map<string, number>> {
+    if (productIds.length === 0) {
+      return new Map();
+    }
+    const { suggestions } = await this.calculateReplenishment(userId, 30, DEFAULT_ORDER_COVER_DAYS, productIds);
+    return new Map(suggestions.map(suggestion => [suggestion.productId, suggestion.reorderPoint]));
+  }
+
+  /**
+   * Products of a business that are still in stock but at or below their reorder point
+   */
+  async lowStockProductIds(userId: string): Promise<string[]> {
+    const { suggestions } = await this.calculateReplenishment(userId);
+    return suggestions
+      .filter(suggestion => suggestion.status === 'reorder')
+      .map(suggestion => suggestion.productId);
+  }
+}
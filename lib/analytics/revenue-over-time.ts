@@ -10,6 +10,7 @@ import {
   formatDateForDisplay,
   DatabaseError
 } from './utils';
+import { preTaxRevenue } from '@/lib/sale-totals';
 
 // types for revenue data points
 export interface RevenueDataPoint {
@@ -71,12 +72,14 @@ export class RevenueOverTime {
    * Analyze revenue over time for a specific time range
    * @param timeRangeInDays Number of days to analyze (7, 30, 365, etc.)
    * @param userId Optional user ID to filter data
+   * @param excludeTax Report revenue before sales tax
    * @returns Revenue analysis with trend data
    */
   async analyzeRevenue(
     timeRangeInDays: number,
     userId?: string,
-    includeForecast: boolean = false
+    includeForecast: boolean = false,
+    excludeTax: boolean = false
   ): Promise<RevenueTrendAnalysis> {
     try {
       // Check database connection first
@@ -103,7 +106,7 @@ export class RevenueOverTime {
       }
       
       // Aggregate data according to resolution
-      const aggregatedData = this.aggregateRevenueData(salesData, resolution, startDate, endDate);
+      const aggregatedData = this.aggregateRevenueData(salesData, resolution, startDate, endDate, excludeTax);
       
       console.log(`[DEBUG Revenue] Generated ${aggregatedData.length} aggregated data points with resolution: ${resolution}`);
       
@@ -121,7 +124,7 @@ export class RevenueOverTime {
         console.log(`[DEBUG Revenue] Using fallback resolution: ${fallbackResolution}`);
         
         // Re-aggregate with fallback resolution
-        const fallbackData = this.aggregateRevenueData(salesData, fallbackResolution, startDate, endDate);
+        const fallbackData = this.aggregateRevenueData(salesData, fallbackResolution, startDate, endDate, excludeTax);
         
         // If we still have no data, throw error
         if (fallbackData.length === 0) {
@@ -228,7 +231,9 @@ export class RevenueOverTime {
         select: {
           id: true,
           createdAt: true,
-          totalAmount: true
+          totalAmount: true,
+          refundedAmount: true,
+          taxAmount: true
         },
         orderBy: {
           createdAt: 'asc'
@@ -249,7 +254,8 @@ export class RevenueOverTime {
     salesData: any[], 
     resolution: TimeResolution,
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    excludeTax: boolean = false
   ): RevenueDataPoint[] {
     // Create a Map to aggregate data by time periods
     const aggregatedData = new Map<string, { total: number, count: number }>();
@@ -264,7 +270,13 @@ export class RevenueOverTime {
       }
       
       const current = aggregatedData.get(key)!;
-      current.total += safeNumberConversion(sale.totalAmount);
+      // Net of any refunds made through returns
+      const sold = {
+        totalAmount: safeNumberConversion(sale.totalAmount),
+        refundedAmount: safeNumberConversion(sale.refundedAmount),
+        taxAmount: excludeTax ? safeNumberConversion(sale.taxAmount) : 0,
+      };
+      current.total += preTaxRevenue(sold);
       current.count += 1;
     });
     
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { format, startOfWeek, endOfWeek, parseISO } from 'date-fns';
+import { getProductGroupKey, ProductRollup } from './utils';
 
 // Define data interfaces for sales recommendations
 export interface DayOfWeekTrend {
@@ -132,12 +133,14 @@ export class SalesRecommendationCalculator {
    * @param timeRangeInDays Number of days to use for historical analysis
    * @param userId Optional user ID to filter data
    * @param minConfidence Minimum confidence level for recommendations
+   * @param rollup Report per parent product (default) or per size/color variant
    * @returns Sales recommendations and product bundles
    */
   async calculateSalesRecommendations(
     timeRangeInDays: number = 90,
     userId?: string,
-    minConfidence: 'high' | 'medium' | 'low' = 'medium'
+    minConfidence: 'high' | 'medium' | 'low' = 'medium',
+    rollup: ProductRollup = 'product'
   ): Promise<SalesRecommendationData> {
     try {
       // Check database connection first
@@ -156,12 +159,13 @@ export class SalesRecommendationCalculator {
       }
       
       // Analyze day of week trends
-      const dayOfWeekTrends = this.analyzeDayOfWeekTrends(salesData);
+      const dayOfWeekTrends = this.analyzeDayOfWeekTrends(salesData, rollup);
       
       // Generate product bundle recommendations
       const productBundles = this.generateProductBundles(
         salesData, 
-        minConfidence
+        minConfidence,
+        rollup
       );
       
       // Check if we have enough data for meaningful recommendations
@@ -261,7 +265,8 @@ export class SalesRecommendationCalculator {
         include: {
           items: {
             include: {
-              product: true
+              product: true,
+              variant: true
             }
           }
         },
@@ -295,7 +300,7 @@ export class SalesRecommendationCalculator {
   /**
    * Analyze sales data to identify day-of-week trends for each product
    */
-  private analyzeDayOfWeekTrends(salesData: any[]): DayOfWeekTrend[] {
+  private analyzeDayOfWeekTrends(salesData: any[], rollup: ProductRollup = 'product'): DayOfWeekTrend[] {
     // Create a map to track sales by product and day of week
     const productSalesByDay = new Map<string, Map<number, number>>();
     // Keep track of product details
@@ -309,10 +314,11 @@ export class SalesRecommendationCalculator {
       // Process each item in the sale
       sale.items.forEach((item: any) => {
         // Check if product exists (could be null if product was deleted)
-        if (!item.product) return;
+        const group = getProductGroupKey(item, rollup);
+        if (!group) return;
         
-        const productId = item.product.id;
-        const productName = item.product.name;
+        const productId = group.id;
+        const productName = group.name;
         const quantity = item.quantity;
         
         // Initialize product tracking if not already tracked
@@ -392,10 +398,11 @@ export class SalesRecommendationCalculator {
    */
   private generateProductBundles(
     salesData: any[], 
-    minConfidence: 'high' | 'medium' | 'low'
+    minConfidence: 'high' | 'medium' | 'low',
+    rollup: ProductRollup = 'product'
   ): ProductBundle[] {
     // Identify sets of items that are purchased together
-    const itemSets = this.identifyItemSets(salesData);
+    const itemSets = this.identifyItemSets(salesData, rollup);
     
     // If we don't have enough data, return empty array
     if (itemSets.length === 0) {
@@ -481,7 +488,7 @@ export class SalesRecommendationCalculator {
   /**
    * Identify sets of items that are purchased together
    */
-  private identifyItemSets(salesData: any[]): Array<{
+  private identifyItemSets(salesData: any[], rollup: ProductRollup = 'product'): Array<{
     products: Array<{id: string, name: string, price: number}>
   }> {
     // Convert sales data to sets of products purchased together
@@ -499,12 +506,18 @@ export class SalesRecommendationCalculator {
         return;
       }
       
-      // Create a set of products for this transaction
-      const products = validItems.map((item: any) => ({
-        id: item.product.id,
-        name: item.product.name,
-        price: item.price || item.product.sellingPrice || 0
-      }));
+      // Create a set of products for this transaction. Two variants of the same
+      // product collapse into one entry when rolling up to the parent.
+      const products: Array<{id: string, name: string, price: number}> = [];
+      validItems.forEach((item: any) => {
+        const group = getProductGroupKey(item, rollup);
+        if (!group || products.some(product => product.id === group.id)) return;
+        products.push({
+          id: group.id,
+          name: group.name,
+          price: item.price || item.product.sellingPrice || 0
+        });
+      });
       
       // Only consider sets with at least 2 products
       if (products.length >= 2) {
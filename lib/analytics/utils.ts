@@ -1,8 +1,12 @@
 import { PrismaClient } from '@prisma/client';
+import { effectivePrice, variantLabel } from '@/lib/variants';
 
 // Type for resolution
 export type TimeResolution = 'hourly' | 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
 
+// Whether product analytics group sales under the parent product or per size/color variant
+export type ProductRollup = 'product' | 'variant';
+
 // Error types
 export class DatabaseError extends Error {
   constructor(message: string, public readonly originalError?: Error) {
@@ -164,4 +168,57 @@ export function formatDateForDisplay(date: Date, resolution: TimeResolution): st
     default:
       return date.toLocaleDateString();
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Resolves the id and name a sale item is reported under
+ * @param item Sale item with its product and (optionally) variant loaded
+ * @param rollup 'product' groups all variants under the parent, 'variant' keeps them apart
+ * @returns The grouping key, or null when the item has no product
+ */
+export function getProductGroupKey(
+  item: { product?: { id: string; name: string } | null; variant?: { id: string; size?: string | null; color?: string | null } | null },
+  rollup: ProductRollup = 'product'
+): { id: string; name: string } | null {
+  if (!item.product) {
+    return null;
+  }
+
+  if (rollup === 'variant' && item.variant) {
+    return {
+      id: item.variant.id,
+      name: `${item.product.name} (${variantLabel(item.variant)})`,
+    };
+  }
+
+  return { id: item.product.id, name: item.product.name };
+}
+
+/**
+ * Splits products with variants into one entry per variant so per-product calculators
+ * can work at variant level. Sale items without a variant stay on the parent entry.
+ * @param products Products with saleItems (each with variantId) and variants loaded
+ */
+export function splitProductsByVariant(products: any[]): any[] {
+  return products.flatMap(product => {
+    if (!product.variants || product.variants.length === 0) {
+      return [product];
+    }
+
+    const entries = product.variants.map((variant: any) => ({
+      ...product,
+      id: variant.id,
+      name: `${product.name} (${variantLabel(variant)})`,
+      sellingPrice: effectivePrice(product, variant),
+      parentProductId: product.id,
+      saleItems: (product.saleItems || []).filter((item: any) => item.variantId === variant.id),
+    }));
+
+    const unassignedItems = (product.saleItems || []).filter((item: any) => !item.variantId);
+    if (unassignedItems.length > 0) {
+      entries.push({ ...product, saleItems: unassignedItems });
+    }
+
+    return entries.filter((entry: any) => entry.saleItems.length > 0);
+  });
+}
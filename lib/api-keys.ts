@@ -0,0 +1,153 @@
+// Personal API keys for the /api/v1 REST API.
+// The key is only shown when it is created; the ApiKey row stores its sha256 hash.
+import { createHash, randomBytes } from 'crypto';
+import { Permission } from '@/lib/permissions';
+
+// Marks our keys so they are easy to spot in code and secret scanners
+export const API_KEY_PREFIX = 'mx_';
+
+// Characters of the key kept in the clear to tell keys apart, e.g. "mx_3f9a1c2b"
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+export const MAX_RATE_LIMIT_PER_MINUTE = 1000;
+
+// last-used times are only written when older than this, so busy keys do not write on every call
+export const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+// Fields of an ApiKey that are safe to send back; the hash never leaves the server
+export const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  rateLimitPerMinute: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: Permission[];
+  expiresInDays?: number | null;
+  rateLimitPerMinute?: number;
+}
+
+export interface ApiKeySettings {
+  name: string;
+  scopes: Permission[];
+  expiresAt: Date | null;
+  rateLimitPerMinute: number;
+}
+
+// Error class for API key requests that cannot be honoured
+export class ApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Creates a random key along with the hash to store and the prefix to display
+ */
+export function createApiKey(): { key: string; hashedKey: string; prefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+  return { key, hashedKey: hashApiKey(key), prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+/**
+ * The key in an "Authorization: Bearer <key>" header, or null when there is none
+ */
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Settings for a new key from its validated request body (CreateApiKeyBody).
+ * A key can only be given permissions its creator holds.
+ * @param granted The creator's permissions
+ * @throws ApiKeyError when a scope is not held by the creator
+ */
+export function apiKeySettings(input: ApiKeyInput, granted: Permission[], now: Date = new Date()): ApiKeySettings {
+  const scopes = Array.from(new Set(input.scopes));
+  const notGranted = scopes.filter(scope => !granted.includes(scope));
+  if (notGranted.length > 0) {
+    throw new ApiKeyError(`You cannot grant scopes you do not hold: ${notGranted.join(', ')}`);
+  }
+
+  return {
+    name: input.name,
+    scopes,
+    expiresAt: input.expiresInDays
+      ? new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000)
+      : null,
+    rateLimitPerMinute: input.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+  };
+}
+
+/**
+ * What a key may do right now: its scopes, minus any the creator has since lost
+ */
+export function effectiveScopes(scopes: Permission[], granted: Permission[]): Permission[] {
+  return scopes.filter(scope => granted.includes(scope));
+}
+
+export function isApiKeyActive(key: { revokedAt: Date | null; expiresAt: Date | null }, now: Date = new Date()): boolean {
+  return !key.revokedAt && (!key.expiresAt || key.expiresAt > now);
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // When the current window ends, in ms since the epoch
+  resetAt: number;
+}
+
+/**
+ * Fixed-window request counter per key. Counts live in this server process, so each
+ * instance of the app enforces the limit on its own.
+ */
+export class RateLimiter {
+  private windows = new Map<string, { start: number; count: number }>();
+
+  constructor(private windowMs: number = 60 * 1000) {}
+
+  check(id: string, limit: number, now: number = Date.now()): RateLimitResult {
+    let window = this.windows.get(id);
+    if (!window || now - window.start >= this.windowMs) {
+      window = { start: now, count: 0 };
+      this.windows.set(id, window);
+      this.prune(now);
+    }
+
+    const allowed = window.count < limit;
+    if (allowed) {
+      window.count++;
+    }
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - window.count),
+      resetAt: window.start + this.windowMs,
+    };
+  }
+
+  // Drops finished windows so keys that stopped calling do not stay in memory
+  private prune(now: number) {
+    this.windows.forEach((window, id) => {
+      if (now - window.start >= this.windowMs) {
+        this.windows.delete(id);
+      }
+    });
+  }
+}
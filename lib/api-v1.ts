@@ -0,0 +1,139 @@
+// Sorting, paging and response shapes shared by the /api/v1 routes. Queries are validated
+// with the V1*Query schemas in lib/schemas.ts.
+// v1 responses are a public contract: add fields freely, but never rename or remove them.
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { preTaxRevenue } from '@/lib/sale-totals';
+
+// How far back the analytics summary looks when no range is given
+export const DEFAULT_SUMMARY_DAYS = 30;
+
+// Sales are returned with their line items and customer
+export const SALE_INCLUDE = {
+  items: {
+    include: {
+      product: { select: { id: true, name: true, sku: true } },
+      variant: { select: { id: true, sku: true, size: true, color: true } },
+    },
+  },
+  customer: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.SaleInclude;
+
+export interface Pagination {
+  page: number;
+  limit: number;
+}
+
+export function pageSkip({ page, limit }: Pagination): number {
+  return (page - 1) * limit;
+}
+
+/**
+ * Turns a validated sort parameter ("field" or "-field") into a Prisma orderBy
+ */
+export function sortOrder(sort: string | undefined, fallback: string): { [key: string]: 'asc' | 'desc' } {
+  if (!sort) {
+    return { [fallback]: 'desc' };
+  }
+  return sort.startsWith('-') ? { [sort.slice(1)]: 'desc' } : { [sort]: 'asc' };
+}
+
+/**
+ * The from/to range of the analytics summary, defaulting to the DEFAULT_SUMMARY_DAYS before `to`
+ */
+export function summaryRange(query: { from?: Date; to?: Date }, now: Date = new Date()): { from: Date; to: Date } {
+  const to = query.to || now;
+  const from = query.from || new Date(to.getTime() - DEFAULT_SUMMARY_DAYS * 24 * 60 * 60 * 1000);
+  return { from, to };
+}
+
+/**
+ * The envelope every v1 list responds with
+ */
+export function paginated<T>(data: T[], pagination: Pagination, total: number) {
+  return NextResponse.json({
+    data,
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  });
+}
+
+/**
+ * Puts the body of a successful write in the { data } envelope v1 responds with.
+ * Error responses are passed through as they are.
+ */
+export async function dataResponse(response: NextResponse): Promise<NextResponse> {
+  if (!response.ok) {
+    return response;
+  }
+  return NextResponse.json({ data: await response.json() }, { status: response.status });
+}
+
+export interface SummarySale {
+  totalAmount: number;
+  refundedAmount: number;
+  taxAmount?: number;
+  items: {
+    quantity: number;
+    returnedQuantity: number;
+    price: number;
+    productId: string;
+    productName: string | null;
+    product: { name: string } | null;
+  }[];
+}
+
+/**
+ * Revenue, order and unit totals for a set of sales, net of refunds, with the best
+ * selling products by revenue. Revenue includes sales tax; preTaxRevenue leaves it out.
+ */
+export function summarizeSales(sales: SummarySale[], topCount: number = 5) {
+  const products = new Map<string, { productId: string; name: string; quantity: number; revenue: number }>();
+  let revenue = 0;
+  let refunds = 0;
+  let preTax = 0;
+  let itemsSold = 0;
+
+  for (const sale of sales) {
+    revenue += sale.totalAmount;
+    refunds += sale.refundedAmount;
+    preTax += preTaxRevenue(sale);
+
+    for (const item of sale.items) {
+      const quantity = item.quantity - item.returnedQuantity;
+      itemsSold += quantity;
+
+      const entry = products.get(item.productId) || {
+        productId: item.productId,
+        name: item.productName || item.product?.name || 'Unknown product',
+        quantity: 0,
+        revenue: 0,
+      };
+      entry.quantity += quantity;
+      entry.revenue += quantity * item.price;
+      products.set(item.productId, entry);
+    }
+  }
+
+  const netRevenue = revenue - refunds;
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    revenue: round(revenue),
+    refunds: round(refunds),
+    netRevenue: round(netRevenue),
+    tax: round(netRevenue - preTax),
+    preTaxRevenue: round(preTax),
+    salesCount: sales.length,
+    itemsSold,
+    averageOrderValue: sales.length > 0 ? round(netRevenue / sales.length) : 0,
+    topProducts: Array.from(products.values())
+      .sort((a, b) => b.revenue - a.revenue)
+      .slice(0, topCount)
+      .map(product => ({ ...product, revenue: round(product.revenue) })),
+  };
+}
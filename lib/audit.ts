@@ -0,0 +1,116 @@
+// Audit trail for data-changing API calls.
+// Routes describe what changed; the diff and storage are handled here.
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+type AuditScalar = string | number | boolean | null;
+
+export interface FieldChange {
+  before: AuditScalar | AuditScalar[];
+  after: AuditScalar | AuditScalar[];
+}
+
+export type AuditChanges = Record<string, FieldChange>;
+
+export interface AuditActor {
+  user: {
+    id: string;
+    ownerId: string;
+  };
+}
+
+export interface AuditInput {
+  action: AuditAction;
+  entityType: string;
+  entityId: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  summary?: string;
+}
+
+// Bookkeeping and secret fields that never belong in an audit entry
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt', 'hashedPassword', 'password', 'hashedKey']);
+
+function normalizeValue(value: unknown): AuditScalar | AuditScalar[] | undefined {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (Array.isArray(value) && value.every(item => item === null || ['string', 'number', 'boolean'].includes(typeof item))) {
+    return value as AuditScalar[];
+  }
+  // Relations and nested objects are audited on their own records
+  return undefined;
+}
+
+function sameValue(a: AuditScalar | AuditScalar[], b: AuditScalar | AuditScalar[]): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+/**
+ * Field-by-field diff of two versions of a record. Only scalar fields are compared.
+ * Pass null for before on creates and null for after on deletes.
+ * @returns The changed fields, or null when nothing changed
+ */
+export function diffChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges | null {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: AuditChanges = {};
+
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const from = normalizeValue(before ? before[field] : null);
+    const to = normalizeValue(after ? after[field] : null);
+    if (from === undefined || to === undefined) continue;
+
+    // Partial "after" objects (e.g. update payloads) leave untouched fields out
+    if (before && after && !(field in after)) continue;
+
+    if (!sameValue(from, to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Records an audit event for the signed-in user's business. Updates that change nothing are skipped.
+ * Failures are logged rather than thrown so a change that already happened is still reported as done.
+ */
+export async function recordAudit(
+  client: PrismaClient | Prisma.TransactionClient,
+  session: AuditActor,
+  input: AuditInput
+): Promise<void> {
+  const changes = diffChanges(input.before, input.after);
+
+  if (input.action === 'update' && !changes) {
+    return;
+  }
+
+  try {
+    await client.auditEvent.create({
+      data: {
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        summary: input.summary || null,
+        changes: changes ? (changes as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+        businessId: session.user.ownerId,
+        actorId: session.user.id,
+      },
+    });
+  } catch (error) {
+    console.error('Error recording audit event:', error);
+  }
+}
@@ -0,0 +1,183 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import type { Role } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { hasPermission, Permission, resolvePermissions } from '@/lib/permissions';
+import {
+  effectiveScopes,
+  hashApiKey,
+  isApiKeyActive,
+  LAST_USED_UPDATE_INTERVAL_MS,
+  parseBearerToken,
+  RateLimiter,
+  RateLimitResult,
+} from '@/lib/api-keys';
+
+// Requests per key in the current minute, shared by every /api/v1 route in this process
+const apiKeyLimiter = new RateLimiter();
+
+/**
+ * Id of the account that owns a user's business data: their employer, or themselves for owners
+ */
+export function businessOwnerId(user: { id: string; businessId?: string | null }): string {
+  return user.businessId ?? user.id;
+}
+
+export interface AuthorizedSession {
+  user: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    role: Role;
+    businessId: string | null;
+    // The business owner's id. Business data is stored against this so employees share it.
+    ownerId: string;
+    permissions: Permission[];
+  };
+}
+
+/**
+ * Loads the signed-in user and checks they hold at least one of the required permissions.
+ * Permissions are resolved from the database on every call so role changes apply immediately.
+ * Pass no permissions to only require a signed-in user.
+ * @returns The session with the user's effective permissions, or the error response to return
+ */
+export async function requirePermission(
+  required: Permission | Permission[] = []
+): Promise<AuthorizedSession | NextResponse> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      permissions: true,
+      businessId: true,
+    },
+  });
+
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  const permissions = resolvePermissions(user);
+  const needed = Array.isArray(required) ? required : [required];
+
+  if (needed.length > 0 && !hasPermission(permissions, needed)) {
+    return NextResponse.json(
+      { error: 'You do not have permission to perform this action' },
+      { status: 403 }
+    );
+  }
+
+  return {
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      businessId: user.businessId,
+      ownerId: businessOwnerId(user),
+      permissions,
+    },
+  };
+}
+
+function rateLimitHeaders(limit: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(limit.limit),
+    'X-RateLimit-Remaining': String(limit.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(limit.resetAt / 1000)),
+  };
+}
+
+/**
+ * Authenticates a /api/v1 request by its "Authorization: Bearer" API key and checks the key
+ * holds at least one of the required permissions. A key acts as the user who created it,
+ * limited to its scopes, and is rate limited per minute.
+ * @returns The key owner's session with the key's effective permissions, or the error response to return
+ */
+export async function requireApiKey(
+  req: Request,
+  required: Permission | Permission[] = []
+): Promise<AuthorizedSession | NextResponse> {
+  const token = parseBearerToken(req.headers.get('authorization'));
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Missing API key. Send it as "Authorization: Bearer <key>".' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  const now = new Date();
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { hashedKey: hashApiKey(token) },
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          permissions: true,
+          businessId: true,
+        },
+      },
+    },
+  });
+
+  if (!apiKey || !isApiKeyActive(apiKey, now)) {
+    return NextResponse.json(
+      { error: 'Invalid, revoked or expired API key' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+    );
+  }
+
+  const limit = apiKeyLimiter.check(apiKey.id, apiKey.rateLimitPerMinute, now.getTime());
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded' },
+      {
+        status: 429,
+        headers: {
+          ...rateLimitHeaders(limit),
+          'Retry-After': String(Math.max(1, Math.ceil((limit.resetAt - now.getTime()) / 1000))),
+        },
+      }
+    );
+  }
+
+  const { user } = apiKey;
+  const permissions = effectiveScopes(apiKey.scopes, resolvePermissions(user));
+  const needed = Array.isArray(required) ? required : [required];
+
+  if (needed.length > 0 && !hasPermission(permissions, needed)) {
+    return NextResponse.json(
+      { error: 'This API key does not have the scope for this request' },
+      { status: 403, headers: rateLimitHeaders(limit) }
+    );
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_UPDATE_INTERVAL_MS) {
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+  }
+
+  return {
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      businessId: user.businessId,
+      ownerId: businessOwnerId(user),
+      permissions,
+    },
+  };
+}
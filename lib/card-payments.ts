@@ -0,0 +1,299 @@
+// Card sales paid online through the payment gateway. The sale waits as PENDING from when its
+// PaymentIntent is created until the gateway's webhook says the payment succeeded, failed or was refunded.
+import { PaymentConfig, Prisma, PrismaClient } from '@prisma/client';
+import { GatewayEvent, GatewayPaymentIntent, GatewayRefund, PaymentGateway } from '@/lib/payment-gateway';
+import { notify } from '@/lib/notifications';
+import { AuditActor, recordAudit } from '@/lib/audit';
+import { syncProductStock } from '@/lib/variants';
+import { restockLocation, saleLocation } from '@/lib/stock-levels';
+
+// Payment methods taken through the gateway, for businesses that have connected Stripe
+export const GATEWAY_PAYMENT_METHODS = ['STRIPE', 'CREDIT_CARD'];
+
+// Statuses of card sales whose payment went through and has not been refunded in full
+const PAID_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED'];
+
+// A card sale's PaymentIntent as the browser needs it to take the card
+export interface CardPaymentIntent {
+  id: string;
+  clientSecret: string | null;
+  accountId: string | null;
+}
+
+interface GatewayPaidSale {
+  id: string;
+  userId: string;
+  gatewayPaymentId: string;
+  paymentStatus: string;
+  totalAmount: number;
+  refundedAmount: number;
+}
+
+export interface GatewaySale {
+  paymentStatus: string;
+  totalAmount: number;
+  refundedAmount: number;
+}
+
+/**
+ * Whether a sale made with this payment method is paid through the gateway: only when one is
+ * configured and the business has connected its Stripe account
+ */
+export function takesGatewayPayment(
+  paymentMethod: string,
+  config: Pick<PaymentConfig, 'stripeConnected'> | null,
+  gateway: PaymentGateway | null
+): boolean {
+  return Boolean(gateway && config?.stripeConnected && GATEWAY_PAYMENT_METHODS.includes(paymentMethod));
+}
+
+/**
+ * Creates the sale's PaymentIntent and links the sale to it, so the gateway's webhooks find it
+ */
+export async function startGatewayPayment(
+  client: PrismaClient,
+  gateway: PaymentGateway,
+  sale: { id: string; userId: string; totalAmount: number },
+  accountId?: string | null
+): Promise<GatewayPaymentIntent> {
+  const intent = await gateway.createPaymentIntent({
+    saleId: sale.id,
+    ownerId: sale.userId,
+    amount: sale.totalAmount,
+    description: `Sale #${sale.id}`,
+    accountId,
+  });
+
+  await client.sale.update({
+    where: { id: sale.id },
+    data: { gatewayPaymentId: intent.id },
+  });
+  return intent;
+}
+
+/**
+ * The PaymentIntent of a card sale that is still waiting to be paid, so its card can be taken
+ * after the sale was left to be paid later
+ */
+export async function pendingPaymentIntent(
+  client: PrismaClient,
+  gateway: PaymentGateway,
+  sale: { userId: string; gatewayPaymentId: string }
+): Promise<CardPaymentIntent> {
+  const config = await client.paymentConfig.findUnique({ where: { userId: sale.userId } });
+  const accountId = config?.stripeAccountId || null;
+  const intent = await gateway.getPaymentIntent(sale.gatewayPaymentId, accountId);
+  return { id: intent.id, clientSecret: intent.clientSecret, accountId };
+}
+
+/**
+ * Settles a card sale paid online with the gateway before the sale is deleted: a pending
+ * PaymentIntent is canceled so it can no longer be paid, and whatever was paid and not yet
+ * refunded is refunded. Failed and fully refunded sales owe nothing.
+ * @throws GatewayError when the gateway refuses
+ */
+export async function releaseGatewayPayment(
+  client: PrismaClient,
+  gateway: PaymentGateway,
+  sale: GatewayPaidSale
+): Promise<void> {
+  if (sale.paymentStatus === 'PENDING') {
+    const config = await client.paymentConfig.findUnique({ where: { userId: sale.userId } });
+    await gateway.cancelPaymentIntent(sale.gatewayPaymentId, config?.stripeAccountId);
+    return;
+  }
+
+  const owed = Math.round((sale.totalAmount - sale.refundedAmount) * 100) / 100;
+  if (PAID_STATUSES.includes(sale.paymentStatus) && owed > 0) {
+    await refundGatewayPayment(client, gateway, sale, owed, sale.totalAmount);
+  }
+}
+
+/**
+ * Refunds a return on a card sale paid online, through the business's connected account. The
+ * caller records the refund on the sale; the payment.refunded webhook that follows reports the
+ * same total, so it only changes the sale if the gateway refunded something else.
+ * @param refundedAmountAfter The sale's refund total once this refund is made. It keys the refund,
+ * so sending the same return again does not refund twice.
+ */
+export async function refundGatewayPayment(
+  client: PrismaClient,
+  gateway: PaymentGateway,
+  sale: { id: string; userId: string; gatewayPaymentId: string },
+  amount: number,
+  refundedAmountAfter: number
+): Promise<GatewayRefund> {
+  const config = await client.paymentConfig.findUnique({ where: { userId: sale.userId } });
+
+  return gateway.refundPayment({
+    paymentId: sale.gatewayPaymentId,
+    amount,
+    idempotencyKey: `refund-${sale.id}-${Math.round(refundedAmountAfter * 100)}`,
+    accountId: config?.stripeAccountId,
+  });
+}
+
+/**
+ * What a gateway event changes on the sale, or null when it changes nothing. Providers send an
+ * event more than once and not always in order, so an event that is already reflected (or was
+ * overtaken, like a failure after the payment succeeded) is ignored.
+ */
+export function saleChangeForEvent(
+  sale: GatewaySale,
+  event: GatewayEvent
+): { paymentStatus: string; refundedAmount?: number } | null {
+  switch (event.type) {
+    case 'payment.succeeded':
+      // A FAILED sale has had its items put back in stock, so it stays FAILED
+      return sale.paymentStatus === 'PENDING' ? { paymentStatus: 'COMPLETED' } : null;
+    case 'payment.failed':
+      return sale.paymentStatus === 'PENDING' ? { paymentStatus: 'FAILED' } : null;
+    case 'payment.refunded': {
+      const refundedAmount = Math.min(event.refundedAmount, sale.totalAmount);
+      if (refundedAmount <= sale.refundedAmount) {
+        return null;
+      }
+      return {
+        paymentStatus: refundedAmount >= sale.totalAmount ? 'REFUNDED' : 'PARTIALLY_REFUNDED',
+        refundedAmount,
+      };
+    }
+  }
+}
+
+// What the audit trail says each gateway event did to the sale
+const EVENT_SUMMARIES: Record<GatewayEvent['type'], string> = {
+  'payment.succeeded': 'Card payment succeeded',
+  'payment.failed': 'Card payment failed',
+  'payment.refunded': 'Card payment refunded',
+};
+
+interface StockedSale {
+  id: string;
+  userId: string;
+  items: {
+    productId: string;
+    variantId: string | null;
+    quantity: number;
+    returnedQuantity: number;
+    product: { stockQuantity: number | null };
+  }[];
+}
+
+/**
+ * Puts a sale's items back in stock, with an inventory change for each line. Variant stock is
+ * put back on the variant and summed up to its product, and goods that left a location go back there.
+ */
+export async function restockSale(
+  tx: Prisma.TransactionClient,
+  sale: StockedSale,
+  actor: AuditActor,
+  reason: string
+): Promise<void> {
+  const inventoryId = await saleLocation(tx, sale.id);
+  for (const item of sale.items) {
+    const quantity = item.quantity - item.returnedQuantity;
+    if (quantity <= 0) {
+      continue;
+    }
+
+    const stockQuantity = { increment: quantity };
+    if (item.variantId) {
+      await tx.productVariant.update({
+        where: { id: item.variantId },
+        data: { stockQuantity },
+      });
+      await syncProductStock(tx, item.productId);
+    } else if (item.product.stockQuantity !== null) {
+      await tx.product.update({
+        where: { id: item.productId },
+        data: { stockQuantity },
+      });
+    } else {
+      continue;
+    }
+    if (inventoryId) {
+      await restockLocation(tx, item.productId, inventoryId, quantity);
+    }
+
+    await tx.inventoryChange.create({
+      data: {
+        productId: item.productId,
+        variantId: item.variantId,
+        inventoryId,
+        userId: sale.userId,
+        createdById: actor.user.id,
+        type: 'add',
+        quantity,
+        reason,
+        reference: `Sale #${sale.id}`,
+      },
+    });
+  }
+}
+
+/**
+ * Applies a gateway webhook event to the sale it is about. A failed payment puts the sale's items
+ * back in stock and is notified the same way as a sale set to FAILED by hand. Changes are audited
+ * as the employee who made the sale.
+ * @returns The updated sale, or null when the event is not about a sale or changes nothing
+ */
+export async function applyGatewayEvent(client: PrismaClient, event: GatewayEvent) {
+  const sale = await client.sale.findUnique({
+    where: { gatewayPaymentId: event.paymentId },
+    include: {
+      customer: true,
+      items: {
+        include: { product: { select: { stockQuantity: true } } },
+      },
+    },
+  });
+  if (!sale) {
+    return null;
+  }
+
+  const change = saleChangeForEvent(sale, event);
+  if (!change) {
+    return null;
+  }
+
+  // Webhooks have no session, so the sale's own employee (or the owner) is the actor
+  const actor: AuditActor = { user: { id: sale.createdById || sale.userId, ownerId: sale.userId } };
+
+  const updatedSale = await client.$transaction(async (tx) => {
+    if (change.paymentStatus === 'FAILED') {
+      await restockSale(tx, sale, actor, 'Payment failed');
+    }
+
+    return tx.sale.update({
+      where: { id: sale.id },
+      data: change,
+      include: { customer: true },
+    });
+  });
+
+  await recordAudit(client, actor, {
+    action: 'update',
+    entityType: 'Sale',
+    entityId: sale.id,
+    before: sale,
+    after: updatedSale,
+    summary: event.type === 'payment.failed' && event.failureMessage
+      ? `${EVENT_SUMMARIES[event.type]}: ${event.failureMessage}`
+      : EVENT_SUMMARIES[event.type],
+  });
+
+  if (event.type === 'payment.failed' && change.paymentStatus === 'FAILED') {
+    await notify(client, sale.userId, {
+      type: 'payment.failed',
+      title: `Payment failed for a sale of $${sale.totalAmount.toFixed(2)}`,
+      body: `The ${sale.paymentMethod} payment for sale #${sale.id} failed` +
+        (sale.customer ? ` (customer: ${sale.customer.name})` : '') +
+        (event.failureMessage ? `: ${event.failureMessage}` : '.'),
+      link: '/sales-manager',
+      data: { saleId: sale.id, totalAmount: sale.totalAmount },
+    });
+  }
+
+  return updatedSale;
+}
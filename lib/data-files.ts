@@ -0,0 +1,209 @@
+// Reading and writing the file formats used for imports and exports: CSV, Excel (.xlsx) and JSON.
+// Runs in the browser and on the server; exceljs is only loaded when a workbook is involved.
+import Papa from 'papaparse';
+import type { Cell, Workbook } from 'exceljs';
+
+export type DataFileFormat = 'csv' | 'xlsx' | 'json';
+
+export const DATA_FILE_FORMATS: DataFileFormat[] = ['csv', 'xlsx', 'json'];
+
+export const DATA_FILE_CONTENT_TYPES: Record<DataFileFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+export type DataValue = string | number | boolean | null;
+
+// A table read from a file: the header row and the data rows keyed by header
+export interface DataSheet {
+  name: string;
+  headers: string[];
+  rows: Record<string, DataValue>[];
+}
+
+export class DataFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataFileError';
+  }
+}
+
+/**
+ * Works out the format from a file name, or null for files we cannot read
+ */
+export function dataFileFormat(fileName: string): DataFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return DATA_FILE_FORMATS.find(format => format === extension) ?? null;
+}
+
+async function loadExcel() {
+  const ExcelJS = await import('exceljs');
+  // The CommonJS build puts the classes on the default export
+  return (ExcelJS as unknown as { default?: typeof ExcelJS }).default ?? ExcelJS;
+}
+
+function cellValue(cell: Cell): DataValue {
+  const value = cell.value;
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    // Spreadsheet dates have no time zone; exceljs reads them as UTC
+    return value.toISOString().split('T')[0];
+  }
+  if (typeof value === 'object') {
+    if ('result' in value) {
+      const result = value.result;
+      if (result instanceof Date) return result.toISOString().split('T')[0];
+      return result === undefined || typeof result === 'object' ? null : result;
+    }
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('error' in value) return null;
+    return cell.text;
+  }
+  return value;
+}
+
+// Blank or repeated headers would overwrite each other's values, so they get names of their own
+function uniqueHeaders(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map((header, index) => {
+    const name = header.trim() || `Column ${index + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+}
+
+/**
+ * Reads every worksheet of an .xlsx file. The first row of a sheet is its header row;
+ * blank rows are skipped and sheets without a header row are left out.
+ * @throws DataFileError when the file is not a readable workbook
+ */
+export async function readWorkbook(data: ArrayBuffer): Promise<DataSheet[]> {
+  const ExcelJS = await loadExcel();
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(data);
+  } catch (error) {
+    throw new DataFileError('The file is not a readable Excel workbook');
+  }
+
+  const sheets: DataSheet[] = [];
+  workbook.eachSheet((worksheet) => {
+    const columnCount = worksheet.getRow(1).cellCount;
+    if (columnCount === 0) {
+      return;
+    }
+
+    const headerRow = worksheet.getRow(1);
+    const headers = uniqueHeaders(
+      Array.from({ length: columnCount }, (_, index) => String(cellValue(headerRow.getCell(index + 1)) ?? ''))
+    );
+
+    const rows: Record<string, DataValue>[] = [];
+    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      if (rowNumber === 1) {
+        return;
+      }
+      const values = headers.map((_, index) => cellValue(row.getCell(index + 1)));
+      if (values.every(value => value === null || value === '')) {
+        return;
+      }
+      rows.push(Object.fromEntries(headers.map((header, index) => [header, values[index]])));
+    });
+
+    sheets.push({ name: worksheet.name, headers, rows });
+  });
+
+  return sheets;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Reads a JSON file holding an array of objects, or an object with one such array
+ * (e.g. `{ "products": [...] }`). Headers are every key, in order of first appearance;
+ * nested values are kept as JSON text.
+ * @throws DataFileError when the file is not JSON or holds no array of objects
+ */
+export function readJsonRows(text: string, name = 'JSON'): DataSheet {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new DataFileError('The file is not valid JSON');
+  }
+
+  let records: unknown = parsed;
+  if (isRecord(parsed)) {
+    const arrays = Object.values(parsed).filter(Array.isArray);
+    if (arrays.length !== 1) {
+      throw new DataFileError('The JSON file must hold an array of records');
+    }
+    records = arrays[0];
+  }
+
+  if (!Array.isArray(records) || !records.every(isRecord)) {
+    throw new DataFileError('The JSON file must hold an array of records');
+  }
+
+  const headers: string[] = [];
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!headers.includes(key)) headers.push(key);
+    }
+  }
+
+  const rows = records.map(record => Object.fromEntries(headers.map(header => {
+    const value = record[header];
+    if (value === undefined || value === null) return [header, null];
+    if (typeof value === 'object') return [header, JSON.stringify(value)];
+    return [header, value as DataValue];
+  })));
+
+  return { name, headers, rows };
+}
+
+/**
+ * Writes rows as CSV, JSON or a single-sheet workbook, with the columns in the given order
+ * @param format File format to write
+ * @param columns Column headers, which are also the keys read from each row
+ * @param rows The records to write
+ * @param sheetName Worksheet name for .xlsx files
+ */
+export async function writeDataFile(
+  format: DataFileFormat,
+  columns: string[],
+  rows: Record<string, DataValue>[],
+  sheetName = 'Sheet1'
+): Promise<Uint8Array> {
+  if (format === 'json') {
+    const records = rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null])));
+    return new TextEncoder().encode(JSON.stringify(records, null, 2));
+  }
+
+  if (format === 'csv') {
+    // Text starting with =, +, - or @ is prefixed with ' so spreadsheets show it instead of
+    // running it as a formula; numbers are left as they are
+    return new TextEncoder().encode(Papa.unparse({
+      fields: columns,
+      data: rows.map(row => columns.map(column => row[column] ?? '')),
+    }, { escapeFormulae: true }));
+  }
+
+  const ExcelJS = await loadExcel();
+  const workbook: Workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName);
+  worksheet.columns = columns.map(column => ({ header: column, key: column, width: Math.max(12, column.length + 2) }));
+  worksheet.getRow(1).font = { bold: true };
+  for (const row of rows) {
+    worksheet.addRow(Object.fromEntries(columns.map(column => [column, row[column] ?? null])));
+  }
+
+  return new Uint8Array(await workbook.xlsx.writeBuffer());
+}
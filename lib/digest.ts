@@ -0,0 +1,315 @@
+// Daily and weekly summary emails of a business: revenue, low stock, top sellers and price recommendations.
+// sendDigests() is run each morning by the digest cron route or `npm run digests`.
+import { PrismaClient } from '@prisma/client';
+import { format, startOfDay, subDays } from 'date-fns';
+import { getTopProducts } from '@/lib/analytics';
+import { InsufficientDataError, RevenueOverTime } from '@/lib/analytics/revenue-over-time';
+import { PriceRecommendation, PriceRecommendationCalculator } from '@/lib/analytics/price-recommendations';
+import { ReplenishmentCalculator } from '@/lib/analytics/replenishment';
+import { EmailMessage, EmailTransport, getEmailTransport } from '@/lib/email';
+import { hasPermission, resolvePermissions } from '@/lib/permissions';
+
+export type DigestFrequency = 'DAILY' | 'WEEKLY';
+
+// Longest list of products any section shows
+const DIGEST_LIST_LIMIT = 5;
+
+// History the price recommendations are based on
+const RECOMMENDATION_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DigestProduct {
+  id: string;
+  name: string;
+  sku: string | null;
+}
+
+export interface Digest {
+  frequency: DigestFrequency;
+  businessName: string;
+  // The days the digest covers; end is the midnight after the last one
+  period: { start: Date; end: Date };
+  revenue: { total: number; orders: number };
+  lowStock: (DigestProduct & { stockQuantity: number })[];
+  topProducts: (DigestProduct & { quantitySold: number; orderCount: number })[];
+  priceRecommendations: PriceRecommendation[];
+}
+
+/**
+ * The digests that go out on a given morning: daily ones every day, weekly ones on Mondays
+ */
+export function dueDigestFrequencies(now: Date = new Date()): DigestFrequency[] {
+  return now.getDay() === 1 ? ['DAILY', 'WEEKLY'] : ['DAILY'];
+}
+
+/**
+ * Yesterday for a daily digest, the seven days before today for a weekly one
+ */
+export function digestPeriod(frequency: DigestFrequency, now: Date = new Date()): { start: Date; end: Date } {
+  const end = startOfDay(now);
+  return { start: subDays(end, frequency === 'DAILY' ? 1 : 7), end };
+}
+
+/**
+ * Revenue and order count for the period, from the same analysis as the revenue chart
+ */
+async function periodRevenue(
+  client: PrismaClient,
+  ownerId: string,
+  period: { start: Date; end: Date }
+): Promise<Digest['revenue']> {
+  // Enough days that the analysis reaches back to the start of the period; it always ends now
+  const days = Math.ceil((Date.now() - period.start.getTime()) / DAY_MS);
+  const first = format(period.start, 'yyyy-MM-dd');
+  const last = format(subDays(period.end, 1), 'yyyy-MM-dd');
+
+  try {
+    const analysis = await new RevenueOverTime(client).analyzeRevenue(days, ownerId);
+    // Points are hours or days depending on the range; both start with the date
+    const points = analysis.data.filter(point => {
+      const day = point.date.slice(0, 10);
+      return day >= first && day <= last;
+    });
+
+    return {
+      total: points.reduce((sum, point) => sum + point.value, 0),
+      orders: points.reduce((sum, point) => sum + (point.count || 0), 0),
+    };
+  } catch (error) {
+    if (error instanceof InsufficientDataError) {
+      return { total: 0, orders: 0 };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Products that are out of stock or at their reorder point, most urgent first
+ */
+async function lowStockProducts(client: PrismaClient, ownerId: string): Promise<Digest['lowStock']> {
+  const { suggestions } = await new ReplenishmentCalculator(client).calculateReplenishment(ownerId);
+
+  return suggestions
+    .filter(suggestion => suggestion.status !== 'ok')
+    .slice(0, DIGEST_LIST_LIMIT)
+    .map(({ productId, productName, sku, stockQuantity }) => ({ id: productId, name: productName, sku, stockQuantity }));
+}
+
+/**
+ * Gathers everything a business's digest shows
+ */
+export async function buildDigest(
+  client: PrismaClient,
+  ownerId: string,
+  frequency: DigestFrequency,
+  now: Date = new Date()
+): Promise<Digest> {
+  const period = digestPeriod(frequency, now);
+
+  const [profile, revenue, lowStock, topProducts, recommendations] = await Promise.all([
+    client.businessProfile.findUnique({ where: { userId: ownerId }, select: { businessName: true } }),
+    periodRevenue(client, ownerId, period),
+    lowStockProducts(client, ownerId),
+    getTopProducts(DIGEST_LIST_LIMIT, ownerId, period.start, period.end),
+    new PriceRecommendationCalculator(client).getPriceRecommendations(RECOMMENDATION_DAYS, 'medium', ownerId),
+  ]);
+
+  return {
+    frequency,
+    businessName: profile?.businessName || 'your business',
+    period,
+    revenue,
+    lowStock,
+    topProducts: topProducts.map(({ id, name, sku, quantitySold, orderCount }) => ({ id, name, sku, quantitySold, orderCount })),
+    // Only prices worth changing, biggest gain first
+    priceRecommendations: recommendations
+      .filter(recommendation => recommendation.recommendedPrice !== recommendation.currentPrice && recommendation.revenueDifference > 0)
+      .sort((a, b) => b.revenueDifference - a.revenueDifference)
+      .slice(0, DIGEST_LIST_LIMIT),
+  };
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2
+  }).format(value);
+};
+
+function productLabel(product: DigestProduct): string {
+  return product.sku ? `${product.name} (${product.sku})` : product.name;
+}
+
+function periodLabel(digest: Digest): string {
+  return digest.frequency === 'DAILY'
+    ? `on ${format(digest.period.start, 'EEEE, MMMM d')}`
+    : `from ${format(digest.period.start, 'MMMM d')} to ${format(subDays(digest.period.end, 1), 'MMMM d')}`;
+}
+
+export function digestSubject(digest: Digest): string {
+  return digest.frequency === 'DAILY'
+    ? `Your daily summary for ${format(digest.period.start, 'EEE, MMM d')}`
+    : `Your weekly summary for ${format(digest.period.start, 'MMM d')} – ${format(subDays(digest.period.end, 1), 'MMM d')}`;
+}
+
+// The body of each section as lines of text, shared by the text and HTML versions
+function digestSections(digest: Digest): { title: string; lines: string[]; empty: string }[] {
+  const revenueLabel = digest.frequency === 'DAILY' ? 'Revenue yesterday' : 'Revenue last week';
+  const orders = `${digest.revenue.orders} ${digest.revenue.orders === 1 ? 'order' : 'orders'}`;
+
+  return [
+    {
+      title: revenueLabel,
+      lines: [`${formatCurrency(digest.revenue.total)} from ${orders}`],
+      empty: '',
+    },
+    {
+      title: 'Low stock',
+      lines: digest.lowStock.map(product =>
+        product.stockQuantity <= 0
+          ? `${productLabel(product)}: out of stock`
+          : `${productLabel(product)}: ${product.stockQuantity} left`
+      ),
+      empty: 'Everything is well stocked.',
+    },
+    {
+      title: 'Top products',
+      lines: digest.topProducts.map(product =>
+        `${productLabel(product)}: ${product.quantitySold} sold in ${product.orderCount} ${product.orderCount === 1 ? 'order' : 'orders'}`
+      ),
+      empty: 'No sales in this period.',
+    },
+    {
+      title: 'Price recommendations',
+      lines: digest.priceRecommendations.map(recommendation =>
+        `${recommendation.productName}: ${formatCurrency(recommendation.currentPrice)} → ${formatCurrency(recommendation.recommendedPrice)} ` +
+        `(about ${formatCurrency(recommendation.revenueDifference)} more revenue)`
+      ),
+      empty: 'No price changes to suggest.',
+    },
+  ];
+}
+
+export function renderDigestText(digest: Digest, appUrl?: string): string {
+  const parts = [`Here's how ${digest.businessName} did ${periodLabel(digest)}.`];
+
+  for (const section of digestSections(digest)) {
+    const lines = section.lines.length > 0 ? section.lines.map(line => `- ${line}`) : [section.empty];
+    parts.push(`${section.title}\n${lines.join('\n')}`);
+  }
+
+  if (appUrl) {
+    parts.push(`Open your dashboard: ${new URL('/dashboard', appUrl).toString()}`);
+  }
+  parts.push('You get this email because of your notification settings.');
+  return parts.join('\n\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderDigestHtml(digest: Digest, appUrl?: string): string {
+  const sections = digestSections(digest).map(section => {
+    const body = section.lines.length > 0
+      ? `<ul style="margin:0;padding-left:20px">${section.lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+      : `<p style="margin:0;color:#6b7280">${escapeHtml(section.empty)}</p>`;
+    return `<h2 style="font-size:16px;margin:24px 0 8px">${escapeHtml(section.title)}</h2>${body}`;
+  });
+
+  const link = appUrl
+    ? `<p style="margin-top:24px"><a href="${escapeHtml(new URL('/dashboard', appUrl).toString())}">Open your dashboard</a></p>`
+    : '';
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#111827;line-height:1.5">',
+    `<p>Here's how ${escapeHtml(digest.businessName)} did ${escapeHtml(periodLabel(digest))}.</p>`,
+    ...sections,
+    link,
+    '<p style="margin-top:24px;font-size:12px;color:#6b7280">You get this email because of your notification settings.</p>',
+    '</body></html>',
+  ].join('\n');
+}
+
+export function digestEmail(digest: Digest, to: string, appUrl: string | undefined = process.env.NEXTAUTH_URL): EmailMessage {
+  return {
+    to,
+    subject: digestSubject(digest),
+    text: renderDigestText(digest, appUrl),
+    html: renderDigestHtml(digest, appUrl),
+  };
+}
+
+/**
+ * Users who asked for this digest by email and have not had today's yet. Employees only
+ * get one when they can see analytics, since it shows revenue and pricing.
+ */
+export async function digestRecipients(client: PrismaClient, frequency: DigestFrequency, now: Date = new Date()) {
+  const users = await client.user.findMany({
+    where: {
+      email: { not: null },
+      notificationPreferences: {
+        digestFrequency: frequency,
+        emailNotifications: true,
+        OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: startOfDay(now) } }],
+      },
+    },
+    select: { id: true, email: true, role: true, permissions: true, businessId: true },
+  });
+
+  return users.filter(user => hasPermission(resolvePermissions(user), 'VIEW_ANALYTICS')) as
+    (typeof users[number] & { email: string })[];
+}
+
+/**
+ * Emails each opted-in user the digest of their business. Each business's digest is built
+ * once, and a user who already got today's digest is skipped, so running it again is safe.
+ * @param transport How to send email; defaults to the SMTP transport from the environment
+ * @returns How many digests were sent and how many could not be
+ */
+export async function sendDigests(
+  client: PrismaClient,
+  now: Date = new Date(),
+  transport: EmailTransport | null = getEmailTransport(),
+  frequencies: DigestFrequency[] = dueDigestFrequencies(now)
+): Promise<{ sent: number; failed: number }> {
+  const result = { sent: 0, failed: 0 };
+  if (!transport) {
+    console.warn('Email is not configured (SMTP_HOST is not set); no digests were sent');
+    return result;
+  }
+
+  for (const frequency of frequencies) {
+    const digests = new Map<string, Promise<Digest>>();
+
+    for (const user of await digestRecipients(client, frequency, now)) {
+      const ownerId = user.businessId ?? user.id;
+      try {
+        if (!digests.has(ownerId)) {
+          digests.set(ownerId, buildDigest(client, ownerId, frequency, now));
+        }
+        const digest = await digests.get(ownerId)!;
+
+        await transport.send(digestEmail(digest, user.email));
+        await client.notificationPreference.update({
+          where: { userId: user.id },
+          data: { lastDigestSentAt: now },
+        });
+        result.sent++;
+      } catch (error) {
+        console.error(`Error sending ${frequency.toLowerCase()} digest to user ${user.id}:`, error);
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,80 @@
+// Outgoing email. Callers send through an EmailTransport so the delivery method can be swapped,
+// e.g. SMTP in production and a fake in tests. SMTP is configured with the SMTP_* variables.
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // true for implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export const DEFAULT_EMAIL_FROM = 'MerchX <notifications@merchx.app>';
+
+export class SmtpTransport implements EmailTransport {
+  private transporter: Transporter;
+
+  constructor(private options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.options.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+/**
+ * The SMTP transport described by the environment, or null when SMTP_HOST is not set
+ */
+export function emailTransportFromEnv(env: NodeJS.ProcessEnv = process.env): EmailTransport | null {
+  if (!env.SMTP_HOST) {
+    return null;
+  }
+
+  const port = Number(env.SMTP_PORT) || 587;
+  return new SmtpTransport({
+    host: env.SMTP_HOST,
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+    user: env.SMTP_USER,
+    password: env.SMTP_PASSWORD,
+    from: env.EMAIL_FROM || DEFAULT_EMAIL_FROM,
+  });
+}
+
+let defaultTransport: EmailTransport | null | undefined;
+
+/**
+ * The transport used when none is passed in, created from the environment on first use
+ */
+export function getEmailTransport(): EmailTransport | null {
+  if (defaultTransport === undefined) {
+    defaultTransport = emailTransportFromEnv();
+  }
+  return defaultTransport;
+}
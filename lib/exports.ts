@@ -0,0 +1,97 @@
+// Product and sales exports. Columns use the import field names, so an exported file
+// can be imported again without remapping.
+import { NextResponse } from 'next/server';
+import { DATA_FILE_CONTENT_TYPES, DataFileFormat, DataValue, writeDataFile } from '@/lib/data-files';
+import { IMPORT_FIELDS } from '@/lib/import-mapping';
+
+export const PRODUCT_EXPORT_COLUMNS = IMPORT_FIELDS.inventoryItems.map(field => field.key);
+
+export const SALE_EXPORT_COLUMNS = [
+  ...IMPORT_FIELDS.salesHistory.map(field => field.key),
+  'paymentMethod',
+  'paymentStatus',
+  'customer',
+];
+
+export interface ExportableProduct {
+  sku: string | null;
+  name: string;
+  description: string | null;
+  category: string | null;
+  unitCost: number | null;
+  sellingPrice: number | null;
+  stockQuantity: number | null;
+  location: string | null;
+  size: string | null;
+  color: string | null;
+}
+
+export interface ExportableSale {
+  id: string;
+  date: Date;
+  paymentMethod: string;
+  paymentStatus: string;
+  customer: { name: string } | null;
+  items: {
+    quantity: number;
+    price: number;
+    productId: string;
+    productName: string | null;
+    product: { name: string };
+    variant: { sku: string | null } | null;
+  }[];
+}
+
+export function productExportRows(products: ExportableProduct[]): Record<string, DataValue>[] {
+  return products.map(product => ({
+    sku: product.sku,
+    name: product.name,
+    description: product.description,
+    category: product.category,
+    unitCost: product.unitCost,
+    sellingPrice: product.sellingPrice,
+    stockQuantity: product.stockQuantity,
+    location: product.location,
+    size: product.size,
+    color: product.color,
+  }));
+}
+
+/**
+ * One row per line item. The sale id is the order number and a variant's SKU, or else the
+ * product id, identifies the product, which is how the sales history import matches them.
+ */
+export function saleExportRows(sales: ExportableSale[]): Record<string, DataValue>[] {
+  return sales.flatMap(sale => sale.items.map(item => ({
+    date: sale.date.toISOString().split('T')[0],
+    productId: item.variant?.sku || item.productId,
+    productName: item.productName || item.product.name,
+    quantity: item.quantity,
+    unitPrice: item.price,
+    totalAmount: Math.round(item.quantity * item.price * 100) / 100,
+    externalOrderId: sale.id,
+    paymentMethod: sale.paymentMethod,
+    paymentStatus: sale.paymentStatus,
+    customer: sale.customer?.name ?? null,
+  })));
+}
+
+/**
+ * A download response holding the rows in the requested format, named after the export and today's date
+ */
+export async function exportResponse(
+  format: DataFileFormat,
+  name: string,
+  columns: string[],
+  rows: Record<string, DataValue>[]
+): Promise<NextResponse> {
+  const body = await writeDataFile(format, columns, rows, name);
+  const fileName = `${name}-${new Date().toISOString().split('T')[0]}.${format}`;
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': DATA_FILE_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+    },
+  });
+}
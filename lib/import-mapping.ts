@@ -0,0 +1,399 @@
+// Column mapping for file imports: which of the file's columns feed which of our fields,
+// and how loosely formatted dates and numbers are read. Runs in the browser and on the server.
+import type { Permission } from '@/lib/permissions';
+
+export type ImportType = 'salesHistory' | 'inventoryItems';
+
+export const IMPORT_TYPES: ImportType[] = ['salesHistory', 'inventoryItems'];
+
+// Permission needed to import, and to manage mapping presets, for each kind of file
+export const IMPORT_PERMISSIONS: Record<ImportType, Permission> = {
+  salesHistory: 'MANAGE_SALES',
+  inventoryItems: 'MANAGE_INVENTORY',
+};
+
+export type FieldKind = 'text' | 'number' | 'integer' | 'date';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  kind: FieldKind;
+  // Header names other tools use for this field, compared ignoring case, spaces and punctuation
+  synonyms: string[];
+}
+
+// Our field key -> the file's column header, or null when the field is not in the file
+export type ColumnMapping = Record<string, string | null>;
+
+// Order of day, month and year in dates without a month name; auto works it out from the values
+export type DateFormat = 'auto' | 'ymd' | 'mdy' | 'dmy';
+
+export const DATE_FORMATS: DateFormat[] = ['auto', 'ymd', 'mdy', 'dmy'];
+
+export const IMPORT_FIELDS: Record<ImportType, ImportField[]> = {
+  salesHistory: [
+    {
+      key: 'date',
+      label: 'Date',
+      required: true,
+      kind: 'date',
+      synonyms: ['order date', 'sale date', 'transaction date', 'created at', 'paid at', 'day'],
+    },
+    {
+      key: 'productId',
+      label: 'Product ID / SKU',
+      required: false,
+      kind: 'text',
+      synonyms: ['sku', 'product sku', 'variant sku', 'lineitem sku', 'item id', 'item code', 'product code'],
+    },
+    {
+      key: 'productName',
+      label: 'Product Name',
+      required: true,
+      kind: 'text',
+      synonyms: ['product', 'item', 'item name', 'lineitem name', 'title', 'name', 'description'],
+    },
+    {
+      key: 'quantity',
+      label: 'Quantity',
+      required: true,
+      kind: 'integer',
+      synonyms: ['qty', 'units', 'units sold', 'qty sold', 'lineitem quantity', 'count'],
+    },
+    {
+      key: 'unitPrice',
+      label: 'Unit Price',
+      required: true,
+      kind: 'number',
+      synonyms: ['price', 'price each', 'each', 'item price', 'lineitem price', 'rate'],
+    },
+    {
+      key: 'totalAmount',
+      label: 'Total Amount',
+      required: false,
+      kind: 'number',
+      synonyms: ['total', 'amount', 'line total', 'subtotal', 'net sales', 'gross sales', 'revenue'],
+    },
+    {
+      key: 'externalOrderId',
+      label: 'Order Number',
+      required: false,
+      kind: 'text',
+      synonyms: ['order id', 'order number', 'order no', 'order', 'receipt number', 'transaction id', 'invoice number'],
+    },
+  ],
+  inventoryItems: [
+    {
+      key: 'sku',
+      label: 'SKU',
+      required: true,
+      kind: 'text',
+      synonyms: ['variant sku', 'item code', 'product code', 'code'],
+    },
+    {
+      key: 'name',
+      label: 'Name',
+      required: true,
+      kind: 'text',
+      synonyms: ['product name', 'item name', 'item', 'title', 'product'],
+    },
+    {
+      key: 'description',
+      label: 'Description',
+      required: false,
+      kind: 'text',
+      synonyms: ['body', 'details', 'body html'],
+    },
+    {
+      key: 'category',
+      label: 'Category',
+      required: false,
+      kind: 'text',
+      synonyms: ['product type', 'type', 'department', 'group'],
+    },
+    {
+      key: 'unitCost',
+      label: 'Unit Cost',
+      required: false,
+      kind: 'number',
+      synonyms: ['cost', 'cost price', 'cost per item', 'purchase price', 'wholesale price'],
+    },
+    {
+      key: 'sellingPrice',
+      label: 'Selling Price',
+      required: false,
+      kind: 'number',
+      synonyms: ['price', 'retail price', 'sale price', 'variant price', 'msrp'],
+    },
+    {
+      key: 'stockQuantity',
+      label: 'Stock Quantity',
+      required: false,
+      kind: 'integer',
+      synonyms: ['stock', 'quantity', 'qty', 'on hand', 'qty on hand', 'inventory', 'inventory quantity', 'available'],
+    },
+    {
+      key: 'location',
+      label: 'Location',
+      required: false,
+      kind: 'text',
+      synonyms: ['warehouse', 'store', 'bin'],
+    },
+    {
+      key: 'size',
+      label: 'Size',
+      required: false,
+      kind: 'text',
+      synonyms: [],
+    },
+    {
+      key: 'color',
+      label: 'Color',
+      required: false,
+      kind: 'text',
+      synonyms: ['colour'],
+    },
+  ],
+};
+
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guesses which column feeds each field from the header names. A column that exactly matches a
+ * field's own name wins over synonyms, and each column is used for at most one field.
+ * @param type What is being imported
+ * @param headers The file's column headers
+ */
+export function guessMapping(type: ImportType, headers: string[]): ColumnMapping {
+  const fields = IMPORT_FIELDS[type];
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  const findHeader = (candidates: string[]) => {
+    const wanted = candidates.map(normalizeHeader);
+    for (const candidate of wanted) {
+      const header = headers.find(h => !used.has(h) && normalizeHeader(h) === candidate);
+      if (header) return header;
+    }
+    return null;
+  };
+
+  // First pass: our own field names, so "name" is not taken as a synonym of something else
+  for (const field of fields) {
+    const header = findHeader([field.key, field.label]);
+    mapping[field.key] = header;
+    if (header) used.add(header);
+  }
+
+  for (const field of fields) {
+    if (mapping[field.key]) continue;
+    const header = findHeader(field.synonyms);
+    mapping[field.key] = header;
+    if (header) used.add(header);
+  }
+
+  return mapping;
+}
+
+/**
+ * Fields that must be mapped but are not, or whose column is not in the file
+ */
+export function missingRequiredFields(
+  type: ImportType,
+  mapping: ColumnMapping,
+  headers: string[]
+): ImportField[] {
+  return IMPORT_FIELDS[type].filter(field => {
+    const header = mapping[field.key];
+    return field.required && (!header || !headers.includes(header));
+  });
+}
+
+/**
+ * Checks a mapping sent by a client: every value must be a column name or null.
+ * Keys that are not fields of the import type are dropped.
+ * @returns The cleaned mapping, or null when it is not a valid mapping
+ */
+export function sanitizeMapping(type: ImportType, value: unknown): ColumnMapping | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS[type]) {
+    const header = (value as Record<string, unknown>)[field.key];
+    if (header !== undefined && header !== null && typeof header !== 'string') {
+      return null;
+    }
+    mapping[field.key] = header ? header : null;
+  }
+  return mapping;
+}
+
+/**
+ * Whether every column a saved mapping uses is present in the file
+ */
+export function mappingFitsHeaders(mapping: ColumnMapping, headers: string[]): boolean {
+  return Object.values(mapping).every(header => !header || headers.includes(header));
+}
+
+/**
+ * Reads a number that may carry currency symbols, thousands separators, a decimal comma
+ * or accounting-style parentheses for negatives, e.g. "$1,234.50", "1.234,50 €", "(12.00)"
+ * @returns The number, or null when the value is blank or not a number
+ */
+export function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return isNaN(value) ? null : value;
+  }
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  let text = String(value).trim();
+  if (text === '') {
+    return null;
+  }
+
+  const negative = /^\(.*\)$/.test(text) || text.includes('-');
+  text = text.replace(/[^0-9.,]/g, '');
+  if (text === '') {
+    return null;
+  }
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // A comma after the last dot is a decimal comma ("1.234,50") unless it groups thousands ("1,234")
+    const decimals = text.length - lastComma - 1;
+    text = lastDot >= 0 || decimals !== 3
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const number = Number(text);
+  if (isNaN(number)) {
+    return null;
+  }
+  return negative ? -number : number;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Works out the day/month order of numeric dates from a sample of values: year first when the
+ * first part has four digits, day first when any first part is over 12, otherwise month first
+ */
+export function detectDateFormat(values: unknown[]): Exclude<DateFormat, 'auto'> {
+  let dayFirst = false;
+
+  for (const value of values) {
+    const parts = String(value ?? '').trim().match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/);
+    if (!parts) continue;
+    if (parts[1].length === 4) return 'ymd';
+    if (Number(parts[1]) > 12) dayFirst = true;
+  }
+
+  return dayFirst ? 'dmy' : 'mdy';
+}
+
+/**
+ * Reads a date such as "2024-03-05", "03/05/2024", "5.3.24" or "March 5, 2024"
+ * @param format Day/month order for numeric dates
+ * @returns The date as YYYY-MM-DD, or null when it cannot be read
+ */
+export function parseDate(value: unknown, format: Exclude<DateFormat, 'auto'> = 'ymd'): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const text = String(value).trim();
+  if (text === '') {
+    return null;
+  }
+
+  const parts = text.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[ T].*)?$/);
+  if (parts) {
+    const [a, b, c] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+    if (parts[1].length === 4) return toIsoDate(a, b, c);
+    if (format === 'dmy') return toIsoDate(c, b, a);
+    if (format === 'mdy') return toIsoDate(c, a, b);
+    return null;
+  }
+
+  // Dates with month names; read as calendar dates so time zones cannot shift the day
+  const parsed = new Date(text);
+  if (isNaN(parsed.getTime())) {
+    return null;
+  }
+  return toIsoDate(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+}
+
+/**
+ * Turns the file's rows into rows of our fields. Required values that cannot be read are passed
+ * through as they are so the import can report the row instead of silently dropping it.
+ * A missing sales total is worked out from quantity and unit price.
+ * @param type What is being imported
+ * @param rows Parsed file rows keyed by header
+ * @param mapping Which column feeds each field
+ * @param dateFormat Day/month order for numeric dates
+ */
+export function applyMapping(
+  type: ImportType,
+  rows: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  dateFormat: DateFormat = 'auto'
+): Record<string, unknown>[] {
+  const fields = IMPORT_FIELDS[type];
+  const dateField = fields.find(field => field.kind === 'date');
+  const dateColumn = dateField ? mapping[dateField.key] : null;
+  const resolvedDateFormat = dateFormat === 'auto'
+    ? detectDateFormat(dateColumn ? rows.map(row => row[dateColumn]) : [])
+    : dateFormat;
+
+  return rows.map(row => {
+    const mapped: Record<string, unknown> = {};
+
+    for (const field of fields) {
+      const header = mapping[field.key];
+      const raw = header ? row[header] : undefined;
+      const blank = raw === undefined || raw === null || String(raw).trim() === '';
+
+      if (field.kind === 'text') {
+        mapped[field.key] = blank ? '' : String(raw).trim();
+        continue;
+      }
+      if (blank) {
+        mapped[field.key] = null;
+        continue;
+      }
+
+      let value = field.kind === 'date' ? parseDate(raw, resolvedDateFormat) : parseNumber(raw);
+      // Optional whole-number fields such as stock are truncated like the old parseInt did
+      if (typeof value === 'number' && field.kind === 'integer' && !field.required) {
+        value = Math.trunc(value);
+      }
+      // Unreadable required values are kept so the import reports the row; optional ones are dropped
+      mapped[field.key] = value ?? (field.required ? raw : null);
+    }
+
+    if (type === 'salesHistory' && mapped.totalAmount === null
+      && typeof mapped.quantity === 'number' && typeof mapped.unitPrice === 'number') {
+      mapped.totalAmount = Math.round(mapped.quantity * mapped.unitPrice * 100) / 100;
+    }
+
+    return mapped;
+  });
+}
@@ -0,0 +1,290 @@
+// Adjusting a product's stock by hand, overall or at one location, for POST /api/inventory/adjust
+// and POST /api/v1/inventory/adjust. Crossing the reorder point notifies the business.
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import type { AuthorizedSession } from '@/lib/authorize';
+import { syncProductStock } from '@/lib/variants';
+import { applyAdjustment, StockLevelError } from '@/lib/stock-levels';
+import { recordAudit } from '@/lib/audit';
+import { emitWebhookEvent, stockThresholdEvent } from '@/lib/webhooks';
+import { notify, stockNotification } from '@/lib/notifications';
+import { ReplenishmentCalculator } from '@/lib/analytics/replenishment';
+import { AdjustInventoryBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// Tells subscribers and the business's users when the product's total stock fell to its
+// reorder point, ran out or was restocked
+async function emitStockEvent(
+  ownerId: string,
+  before: { stockQuantity: number },
+  after: { id: string; sku: string | null; name: string; stockQuantity: number } | null
+) {
+  if (!after) {
+    return;
+  }
+
+  const reorderPoints = await new ReplenishmentCalculator(prisma).reorderPoints(ownerId, [after.id]);
+  const reorderPoint = reorderPoints.get(after.id) || 0;
+
+  const event = stockThresholdEvent(before.stockQuantity, after.stockQuantity, reorderPoint);
+  if (event) {
+    await emitWebhookEvent(prisma, ownerId, event, {
+      productId: after.id,
+      sku: after.sku,
+      name: after.name,
+      previousQuantity: before.stockQuantity,
+      stockQuantity: after.stockQuantity,
+      reorderPoint,
+    });
+  }
+
+  const alert = stockNotification(after, before.stockQuantity, reorderPoint);
+  if (alert) {
+    await notify(prisma, ownerId, alert);
+  }
+}
+
+/**
+ * Applies the adjustment described by the request body and records the change
+ * @param session The signed-in user, or the API key's owner
+ * @returns The product after the change, or the error response to return
+ */
+export async function adjustInventory(req: Request, session: AuthorizedSession): Promise<NextResponse> {
+  try {
+    const body = await parseBody(req, AdjustInventoryBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { productId, variantId, inventoryId, quantity, type } = body;
+
+    // Get the product
+    const product = await prisma.product.findFirst({
+      where: {
+        id: productId,
+        userId: session.user.ownerId,
+      },
+    });
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    // Products with variants keep their stock on each variant
+    const variant = variantId
+      ? await prisma.productVariant.findFirst({
+          where: {
+            id: variantId,
+            productId,
+          },
+        })
+      : null;
+
+    if (variantId && !variant) {
+      return NextResponse.json({ error: 'Variant not found' }, { status: 404 });
+    }
+
+    // Adjusting stock at one location: the location quantity follows the type and the
+    // product (or variant) total moves by the same amount
+    if (inventoryId) {
+      const location = await prisma.inventory.findFirst({
+        where: {
+          id: inventoryId,
+          userId: session.user.ownerId,
+          isActive: true,
+        },
+      });
+
+      if (!location) {
+        return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+      }
+
+      const existingLevel = await prisma.stockLevel.findUnique({
+        where: {
+          productId_inventoryId: { productId, inventoryId },
+        },
+      });
+
+      let newLevelQuantity;
+      try {
+        newLevelQuantity = applyAdjustment(existingLevel?.quantity || 0, type, quantity);
+      } catch (error) {
+        if (error instanceof StockLevelError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+
+      const delta = newLevelQuantity - (existingLevel?.quantity || 0);
+
+      // The location only holds part of the total, so a decrease must leave the total of the
+      // variant being adjusted, or of the product, at zero or more as well
+      const totalBefore = variant ? variant.stockQuantity : product.stockQuantity;
+      if (totalBefore + delta < 0) {
+        return NextResponse.json({ error: 'Insufficient stock available' }, { status: 400 });
+      }
+
+      let result;
+      try {
+        result = await prisma.$transaction(async (tx) => {
+          const stockLevel = await tx.stockLevel.upsert({
+            where: {
+              productId_inventoryId: { productId, inventoryId },
+            },
+            create: { productId, inventoryId, quantity: newLevelQuantity },
+            update: { quantity: newLevelQuantity },
+          });
+
+          // Only moves the total while enough is left, in case other stock was taken since
+          const where = { stockQuantity: { gte: -delta } };
+          const data = { stockQuantity: { increment: delta } };
+          const moved = variant
+            ? await tx.productVariant.updateMany({ where: { id: variant.id, ...where }, data })
+            : await tx.product.updateMany({ where: { id: productId, ...where }, data });
+          if (moved.count === 0) {
+            throw new StockLevelError('Insufficient stock available');
+          }
+          if (variant) {
+            await syncProductStock(tx, productId);
+          }
+
+          const change = await tx.inventoryChange.create({
+            data: {
+              type,
+              quantity,
+              productId,
+              variantId: variant?.id || null,
+              inventoryId,
+              userId: session.user.ownerId,
+              createdById: session.user.id
+            }
+          });
+
+          const updatedProduct = await tx.product.findUnique({ where: { id: productId } });
+
+          return { product: updatedProduct, stockLevel, change };
+        });
+      } catch (error) {
+        if (error instanceof StockLevelError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+
+      await recordAudit(prisma, session, {
+        action: existingLevel ? 'update' : 'create',
+        entityType: 'StockLevel',
+        entityId: result.stockLevel.id,
+        before: existingLevel,
+        after: result.stockLevel,
+        summary: `${type} ${quantity} of ${product.sku} at ${location.name}`,
+      });
+      await emitStockEvent(session.user.ownerId, product, result.product);
+
+      return NextResponse.json({
+        success: true,
+        ...result
+      });
+    }
+
+    // Calculate new stock quantity
+    let newStockQuantity = (variant ? variant.stockQuantity : product.stockQuantity) || 0;
+    
+    if (type === 'INCREASE') {
+      newStockQuantity += quantity;
+    } else if (type === 'DECREASE') {
+      // Prevent negative inventory unless allowed
+      if (newStockQuantity < quantity) {
+        return NextResponse.json({ 
+          error: 'Insufficient stock available' 
+        }, { status: 400 });
+      }
+      newStockQuantity -= quantity;
+    } else if (type === 'ADJUSTMENT') {
+      // Direct adjustment to a specific value
+      newStockQuantity = quantity;
+    }
+
+    if (variant) {
+      const result = await prisma.$transaction(async (tx) => {
+        const updatedVariant = await tx.productVariant.update({
+          where: { id: variant.id },
+          data: { stockQuantity: newStockQuantity }
+        });
+
+        await syncProductStock(tx, productId);
+
+        const change = await tx.inventoryChange.create({
+          data: {
+            type,
+            quantity,
+            productId,
+            variantId: variant.id,
+            userId: session.user.ownerId,
+            createdById: session.user.id
+          }
+        });
+
+        const updatedProduct = await tx.product.findUnique({ where: { id: productId } });
+
+        return { product: updatedProduct, variant: updatedVariant, change };
+      });
+
+      await recordAudit(prisma, session, {
+        action: 'update',
+        entityType: 'ProductVariant',
+        entityId: variant.id,
+        before: variant,
+        after: result.variant,
+        summary: `${type} ${quantity} of ${product.sku}`,
+      });
+      await emitStockEvent(session.user.ownerId, product, result.product);
+
+      return NextResponse.json({
+        success: true,
+        ...result
+      });
+    }
+
+    // Update product and create inventory change record within a transaction
+    const result = await prisma.$transaction([
+      // Update product stock
+      prisma.product.update({
+        where: { id: productId },
+        data: { stockQuantity: newStockQuantity }
+      }),
+      
+      // Create inventory change record
+      prisma.inventoryChange.create({
+        data: {
+          type,
+          quantity,
+          productId,
+          userId: session.user.ownerId,
+          createdById: session.user.id
+        }
+      })
+    ]);
+
+    await recordAudit(prisma, session, {
+      action: 'update',
+      entityType: 'Product',
+      entityId: productId,
+      before: product,
+      after: result[0],
+      summary: `${type} ${quantity} of ${product.sku}`,
+    });
+    await emitStockEvent(session.user.ownerId, product, result[0]);
+
+    return NextResponse.json({
+      success: true,
+      product: result[0],
+      change: result[1]
+    });
+  } catch (error) {
+    console.error('Error adjusting inventory:', error);
+    return NextResponse.json(
+      { error: 'Failed to adjust inventory' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+// Employee invitation rules.
+// The link token is only ever sent to the invitee; the VerificationToken row stores its hash.
+import { createHash, randomBytes } from 'crypto';
+import type { Role } from '@prisma/client';
+
+export type InviteStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED';
+
+export interface InviteLike {
+  status: string;
+  expiresAt: Date;
+}
+
+// How long an invite link stays valid
+export const INVITE_TTL_DAYS = 7;
+
+// Roles an owner can invite someone into; admins are not invited
+export const INVITABLE_ROLES: Role[] = ['MANAGER', 'SALES_REP', 'INVENTORY_MANAGER', 'USER'];
+
+// Onboarding steps marked done for invitees so they skip the owner setup wizard
+export const INVITEE_ONBOARDING_STEPS = [
+  'welcome',
+  'business-profile',
+  'inventory-setup',
+  'payment-setup',
+  'completion',
+];
+
+// Error class for invalid invitations
+export class InviteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InviteError';
+  }
+}
+
+/**
+ * Hash stored for an invite token, so a leaked database row cannot be used as a link
+ */
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a random invite token along with the hash to store
+ */
+export function createInviteToken(): { token: string; hashedToken: string } {
+  const token = randomBytes(32).toString('hex');
+  return { token, hashedToken: hashInviteToken(token) };
+}
+
+/**
+ * VerificationToken identifier used for an invite
+ */
+export function inviteIdentifier(inviteId: string): string {
+  return `invite:${inviteId}`;
+}
+
+/**
+ * Invite id behind a VerificationToken identifier, or null for tokens that are not invites
+ */
+export function inviteIdFromIdentifier(identifier: string): string | null {
+  return identifier.startsWith('invite:') ? identifier.slice('invite:'.length) : null;
+}
+
+/**
+ * When an invite created now stops being valid
+ */
+export function inviteExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Status of an invite as of now; pending invites past their expiry report EXPIRED
+ */
+export function inviteStatus(invite: InviteLike, now: Date = new Date()): InviteStatus {
+  if (invite.status === 'PENDING' && invite.expiresAt.getTime() <= now.getTime()) {
+    return 'EXPIRED';
+  }
+  return invite.status as InviteStatus;
+}
+
+/**
+ * Link the invitee follows to set their password
+ */
+export function inviteUrl(baseUrl: string, token: string): string {
+  return `${baseUrl.replace(/\/$/, '')}/invite?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Checks an invite can still be accepted
+ * @throws InviteError when it was revoked, used or has expired
+ */
+export function assertAcceptable(invite: InviteLike, now: Date = new Date()): void {
+  const status = inviteStatus(invite, now);
+  if (status !== 'PENDING') {
+    throw new InviteError(`This invitation is ${status.toLowerCase()}`);
+  }
+}
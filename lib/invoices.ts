@@ -0,0 +1,66 @@
+// Invoice numbering and due dates. Each business numbers its invoices 1, 2, 3, ... in the order
+// they are issued; a sale keeps the same invoice (and number) however often it is downloaded.
+import { Invoice, Prisma, PrismaClient } from '@prisma/client';
+import { addDays } from 'date-fns';
+
+// Days a customer has to pay a sale made on the INVOICE payment method
+export const INVOICE_PAYMENT_TERMS_DAYS = 30;
+
+// Attempts at taking the next number before giving up, when other invoices are issued at the same time
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+export function formatInvoiceNumber(number: number): string {
+  return `INV-${String(number).padStart(5, '0')}`;
+}
+
+/**
+ * When a sale has to be paid by, or null for sales not paid by invoice
+ */
+export function invoiceDueDate(sale: { date: Date; paymentMethod: string }): Date | null {
+  return sale.paymentMethod === 'INVOICE' ? addDays(sale.date, INVOICE_PAYMENT_TERMS_DAYS) : null;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * The sale's invoice, issuing it with the business's next number the first time. Two
+ * requests issuing invoices at once can pick the same number; the loser of the unique
+ * constraint tries again with the next one.
+ * @param dueDate Due date of a new invoice, instead of the usual payment terms
+ */
+export async function ensureInvoice(
+  client: PrismaClient,
+  sale: { id: string; userId: string; date: Date; paymentMethod: string },
+  dueDate?: Date
+): Promise<Invoice> {
+  for (let attempt = 1; ; attempt++) {
+    const existing = await client.invoice.findUnique({ where: { saleId: sale.id } });
+    if (existing) {
+      return existing;
+    }
+
+    const last = await client.invoice.findFirst({
+      where: { userId: sale.userId },
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+
+    try {
+      return await client.invoice.create({
+        data: {
+          number: (last?.number ?? 0) + 1,
+          dueDate: dueDate ?? invoiceDueDate(sale),
+          saleId: sale.id,
+          userId: sale.userId,
+        },
+      });
+    } catch (error) {
+      // Either the number was just taken or another request issued this sale's invoice
+      if (!isUniqueViolation(error) || attempt >= MAX_NUMBERING_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,105 @@
+// Filters and sorting for the product and sales lists, shared with their exports so
+// a downloaded file holds exactly the rows the list shows.
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ReplenishmentCalculator } from '@/lib/analytics/replenishment';
+
+const SALE_PERIOD_DAYS: Record<string, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+};
+
+/**
+ * Products of a business matching the list's category, stock status and search filters.
+ * Low stock means at or below the product's reorder point, as in the replenishment report.
+ * @param ownerId Business the products belong to
+ * @param searchParams category, status (in-stock, low-stock, out-of-stock) and search
+ */
+export async function productListWhere(
+  client: PrismaClient,
+  ownerId: string,
+  searchParams: URLSearchParams
+): Promise<Prisma.ProductWhereInput> {
+  const where: Prisma.ProductWhereInput = { userId: ownerId };
+
+  const category = searchParams.get('category');
+  if (category && category !== 'all') {
+    where.category = category;
+  }
+
+  const status = searchParams.get('status');
+  if (status === 'out-of-stock') {
+    where.stockQuantity = { lte: 0 };
+  } else if (status === 'low-stock') {
+    where.id = { in: await new ReplenishmentCalculator(client).lowStockProductIds(ownerId) };
+  } else if (status === 'in-stock') {
+    where.stockQuantity = { gt: 0 };
+  }
+
+  const search = searchParams.get('search')?.trim();
+  if (search) {
+    where.OR = [
+      { name: { contains: search, mode: 'insensitive' } },
+      { sku: { contains: search, mode: 'insensitive' } },
+    ];
+  }
+
+  return where;
+}
+
+export function productListOrderBy(searchParams: URLSearchParams): Prisma.ProductOrderByWithRelationInput {
+  const sortKey = searchParams.get('sortKey') || 'createdAt';
+  const sortDir = searchParams.get('sortDir') === 'asc' ? 'asc' : 'desc';
+
+  if (sortKey.trim() === '') {
+    return { createdAt: 'desc' };
+  }
+  // The table calls the selling price "price"
+  return { [sortKey === 'price' ? 'sellingPrice' : sortKey]: sortDir };
+}
+
+/**
+ * Sales of a business within the list's period that match its search
+ * @param ownerId Business the sales belong to
+ * @param searchParams period (week, month, quarter, year) and search over customer and product names
+ */
+export function saleListWhere(
+  ownerId: string,
+  searchParams: URLSearchParams,
+  now: Date = new Date()
+): Prisma.SaleWhereInput {
+  const where: Prisma.SaleWhereInput = { userId: ownerId };
+
+  const days = SALE_PERIOD_DAYS[searchParams.get('period') || ''];
+  if (days) {
+    where.date = { gte: new Date(now.getTime() - days * 24 * 60 * 60 * 1000) };
+  }
+
+  const search = searchParams.get('search')?.trim();
+  if (search) {
+    where.OR = [
+      { customer: { name: { contains: search, mode: 'insensitive' } } },
+      { items: { some: { product: { name: { contains: search, mode: 'insensitive' } } } } },
+    ];
+  }
+
+  return where;
+}
+
+/**
+ * @returns The sort for the sales query, or null when sorting by item count, which
+ * Prisma cannot do in findMany and callers do in memory
+ */
+export function saleListOrderBy(searchParams: URLSearchParams): Prisma.SaleOrderByWithRelationInput | null {
+  const sortKey = searchParams.get('sortKey') || 'createdAt';
+  const sortDir = searchParams.get('sortDir') === 'asc' ? 'asc' : 'desc';
+
+  if (sortKey === 'itemsCount') {
+    return null;
+  }
+  if (sortKey.trim() === '') {
+    return { createdAt: 'desc' };
+  }
+  return { [sortKey]: sortDir };
+}
@@ -0,0 +1,212 @@
+// In-app and email notifications for business events, sent according to each user's NotificationPreference.
+// Routes call notify() after their changes are saved; every notification lands in the recipient's inbox.
+import { Prisma, PrismaClient } from '@prisma/client';
+import { EmailTransport, getEmailTransport } from '@/lib/email';
+import { hasPermission, Permission, resolvePermissions } from '@/lib/permissions';
+import { stockThresholdEvent } from '@/lib/webhooks';
+
+export const NOTIFICATION_TYPES = [
+  'stock.low',
+  'stock.out',
+  'sale.created',
+  'payment.failed',
+  'payment.overdue',
+  'import.completed',
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+type PreferenceSwitch = 'inventoryAlerts' | 'orderUpdates' | 'paymentNotifications';
+
+// The preference that turns each type off, and the permission a user needs to be told about it.
+// Types without a permission only go to the users the event names.
+export const NOTIFICATION_RULES: Record<
+  NotificationType,
+  { preference: PreferenceSwitch | null; permission: Permission | null }
+> = {
+  'stock.low': { preference: 'inventoryAlerts', permission: 'MANAGE_INVENTORY' },
+  'stock.out': { preference: 'inventoryAlerts', permission: 'MANAGE_INVENTORY' },
+  'sale.created': { preference: 'orderUpdates', permission: 'MANAGE_SALES' },
+  'payment.failed': { preference: 'paymentNotifications', permission: 'MANAGE_SALES' },
+  'payment.overdue': { preference: 'paymentNotifications', permission: 'MANAGE_SALES' },
+  'import.completed': { preference: null, permission: null },
+};
+
+// What users who never saved their preferences get; matches the NotificationPreference defaults
+export const DEFAULT_NOTIFICATION_PREFERENCES = {
+  emailNotifications: true,
+  smsNotifications: false,
+  pushNotifications: false,
+  orderUpdates: true,
+  inventoryAlerts: true,
+  paymentNotifications: true,
+};
+
+const RECIPIENT_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  permissions: true,
+  businessId: true,
+  notificationPreferences: true,
+} as const;
+
+export interface NotificationEvent {
+  type: NotificationType;
+  title: string;
+  body: string;
+  // Page of the app the notification is about, e.g. "/inventory"
+  link?: string;
+  data?: unknown;
+  // Only notify these users; they must still belong to the business
+  userIds?: string[];
+}
+
+export interface NotificationRecipient {
+  id: string;
+  email: string | null;
+  role: string;
+  permissions: string[];
+  businessId: string | null;
+  notificationPreferences: Partial<typeof DEFAULT_NOTIFICATION_PREFERENCES> | null;
+}
+
+/**
+ * How a user should hear about an event: in the inbox, and also by email
+ */
+export function notificationChannels(
+  recipient: NotificationRecipient,
+  type: NotificationType,
+  named: boolean = false
+): { inbox: boolean; email: boolean } {
+  const rule = NOTIFICATION_RULES[type];
+  const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, ...recipient.notificationPreferences };
+
+  const allowed = rule.permission
+    ? hasPermission(resolvePermissions(recipient), rule.permission)
+    : named;
+  const wanted = !rule.preference || preferences[rule.preference];
+  const inbox = allowed && wanted;
+
+  return { inbox, email: inbox && preferences.emailNotifications && Boolean(recipient.email) };
+}
+
+/**
+ * The alert for a change in a product's total stock, when it fell to its reorder point or ran out
+ */
+export function stockNotification(
+  product: { id: string; name: string; sku: string | null; stockQuantity: number },
+  previousQuantity: number,
+  reorderPoint: number
+): NotificationEvent | null {
+  const event = stockThresholdEvent(previousQuantity, product.stockQuantity, reorderPoint);
+  const label = product.sku ? `${product.name} (${product.sku})` : product.name;
+  const data = { productId: product.id, previousQuantity, stockQuantity: product.stockQuantity };
+
+  if (event === 'stock.out') {
+    return { type: 'stock.out', title: `${product.name} is out of stock`, body: `${label} has run out.`, link: '/inventory', data };
+  }
+  if (event === 'stock.low') {
+    return {
+      type: 'stock.low',
+      title: `${product.name} is running low`,
+      body: `Only ${product.stockQuantity} of ${label} left in stock.`,
+      link: '/inventory',
+      data,
+    };
+  }
+  return null;
+}
+
+/**
+ * Adds an event to the inbox of every user of the business who should hear about it, then
+ * emails those who asked for email without waiting. Failures are logged and never fail the
+ * caller, since the change the event describes has already been saved.
+ * @param transport How to send email; defaults to the SMTP transport from the environment
+ * @returns How many users were notified
+ */
+export async function notify(
+  client: PrismaClient,
+  ownerId: string,
+  event: NotificationEvent,
+  transport: EmailTransport | null = getEmailTransport()
+): Promise<number> {
+  try {
+    const users = await client.user.findMany({
+      where: {
+        OR: [{ id: ownerId }, { businessId: ownerId }],
+        ...(event.userIds ? { id: { in: event.userIds } } : {}),
+      },
+      select: RECIPIENT_SELECT,
+    });
+
+    const recipients = users
+      .map(user => ({ user, channels: notificationChannels(user, event.type, Boolean(event.userIds)) }))
+      .filter(({ channels }) => channels.inbox);
+    if (recipients.length === 0) {
+      return 0;
+    }
+
+    // Round-trip through JSON so dates are stored the way the inbox will read them
+    const data = event.data === undefined
+      ? undefined
+      : JSON.parse(JSON.stringify(event.data)) as Prisma.InputJsonValue;
+
+    const notifications = await Promise.all(recipients.map(({ user }) =>
+      client.notification.create({
+        data: {
+          type: event.type,
+          title: event.title,
+          body: event.body,
+          link: event.link,
+          data,
+          userId: user.id,
+        },
+      })
+    ));
+
+    const emails = recipients
+      .map(({ user, channels }, index) => ({ to: user.email, notification: notifications[index], wanted: channels.email }))
+      .filter(email => email.wanted && email.to) as { to: string; notification: { id: string } }[];
+    if (transport && emails.length > 0) {
+      void sendNotificationEmails(client, transport, event, emails)
+        .catch(error => console.error(`Error emailing notification ${event.type}:`, error));
+    }
+
+    return notifications.length;
+  } catch (error) {
+    console.error(`Error sending notification ${event.type}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Emails a notification and marks each one that was sent
+ * @returns How many emails were sent
+ */
+export async function sendNotificationEmails(
+  client: PrismaClient,
+  transport: EmailTransport,
+  event: Pick<NotificationEvent, 'type' | 'title' | 'body' | 'link'>,
+  emails: { to: string; notification: { id: string } }[]
+): Promise<number> {
+  const appUrl = process.env.NEXTAUTH_URL;
+  const text = event.link && appUrl
+    ? `${event.body}\n\n${new URL(event.link, appUrl).toString()}`
+    : event.body;
+
+  const results = await Promise.allSettled(emails.map(async ({ to, notification }) => {
+    await transport.send({ to, subject: event.title, text });
+    await client.notification.update({
+      where: { id: notification.id },
+      data: { emailedAt: new Date() },
+    });
+  }));
+
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error(`Error emailing notification ${event.type}:`, result.reason);
+    }
+  }
+  return results.filter(result => result.status === 'fulfilled').length;
+}
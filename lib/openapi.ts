@@ -0,0 +1,781 @@
+// OpenAPI 3 document for the API, served at /api/openapi.json.
+// Paths are described with the same schemas the routes validate with, so the two cannot drift apart.
+import { OpenAPIRegistry, OpenApiGeneratorV3, RouteConfig } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+import {
+  AcceptInviteBody,
+  AccountSetupBody,
+  AdjustInventoryBody,
+  AdjustInventoryResponse,
+  AgingReport,
+  AnalyticsSummary,
+  ApiKey,
+  BusinessProfileBody,
+  CommitImportBody,
+  CreateApiKeyBody,
+  CreateCustomerBody,
+  CreateInviteBody,
+  CreateLocationBody,
+  CreateProductBody,
+  CreatePurchaseOrderBody,
+  CreateReturnBody,
+  CreateSaleBody,
+  CreatedSale,
+  CreateSupplierBody,
+  CreateVariantBody,
+  CreateWebhookBody,
+  EmployeeAccess,
+  ErrorResponse,
+  InventoryChange,
+  InventoryImportBody,
+  Notification,
+  NotificationPreferencesBody,
+  NotificationsQuery,
+  paginatedOf,
+  Payment,
+  PaymentConfigBody,
+  PaymentSettingsBody,
+  PendingCardPayment,
+  Product,
+  ProductVariant,
+  ReceivePurchaseOrderBody,
+  RecordPaymentBody,
+  ReplaceProductBody,
+  Sale,
+  SalePayments,
+  SaleQuoteBody,
+  SaleTotals,
+  SalesHistoryImportBody,
+  SaveImportMappingBody,
+  ScanLookupQuery,
+  ScanResult,
+  TaxRates,
+  TransferStockBody,
+  TransferStockResponse,
+  UpdateCustomerBody,
+  UpdateEmployeeAccessBody,
+  UpdateLocationBody,
+  UpdateNotificationBody,
+  UpdateProductBody,
+  UpdatePurchaseOrderBody,
+  UpdateSaleBody,
+  UpdateSupplierBody,
+  UpdateVariantBody,
+  UpdateWebhookBody,
+  V1AnalyticsSummaryQuery,
+  V1InventoryChangesQuery,
+  V1ProductsQuery,
+  V1SalesQuery,
+  ValidationErrorResponse,
+  Webhook,
+} from '@/lib/schemas';
+
+type Responses = RouteConfig['responses'];
+
+function json(description: string, schema: z.ZodTypeAny) {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+// v1 answers with single records in a { data } envelope
+function data(schema: z.ZodTypeAny) {
+  return z.object({ data: schema });
+}
+
+function body(schema: z.ZodTypeAny) {
+  return { body: { content: { 'application/json': { schema } } } };
+}
+
+// Answers every route can give besides its own
+const ERROR_RESPONSES: Responses = {
+  400: json('The input failed validation; each issue names the field it is about', ValidationErrorResponse),
+  401: json('Not signed in, or the API key is missing or invalid', ErrorResponse),
+  403: json('The user or key lacks the permission this route needs', ErrorResponse),
+};
+
+const idParam = (name: string) => z.object({ [name]: z.string() });
+
+function buildRegistry(): OpenAPIRegistry {
+  const registry = new OpenAPIRegistry();
+
+  const apiKeyAuth = registry.registerComponent('securitySchemes', 'apiKey', {
+    type: 'http',
+    scheme: 'bearer',
+    description: 'A personal API key, created under Profile → API keys',
+  });
+  const sessionAuth = registry.registerComponent('securitySchemes', 'session', {
+    type: 'apiKey',
+    in: 'cookie',
+    name: 'next-auth.session-token',
+    description: 'The session cookie of a signed-in user',
+  });
+
+  // v1 routes are GETs unless a method is given
+  const v1 = (config: Omit<RouteConfig, 'method' | 'tags' | 'security'> & Partial<Pick<RouteConfig, 'method'>>) => registry.registerPath({
+    method: 'get',
+    tags: ['REST API (v1)'],
+    security: [{ [apiKeyAuth.name]: [] }],
+    ...config,
+    responses: {
+      ...config.responses,
+      ...ERROR_RESPONSES,
+      429: json('The key made too many requests this minute; see Retry-After', ErrorResponse),
+    },
+  });
+
+  const app = (config: RouteConfig) => registry.registerPath({
+    security: [{ [sessionAuth.name]: [] }],
+    ...config,
+    responses: { ...config.responses, ...ERROR_RESPONSES },
+  });
+
+  v1({
+    path: '/api/v1/products',
+    summary: "List the business's products",
+    request: { query: V1ProductsQuery },
+    responses: { 200: json('A page of products', paginatedOf(Product)) },
+  });
+  v1({
+    path: '/api/v1/products/{productId}',
+    summary: 'Get a product with its variants and stock per location',
+    request: { params: idParam('productId') },
+    responses: {
+      200: json('The product', data(Product)),
+      404: json('No such product', ErrorResponse),
+    },
+  });
+  v1({
+    method: 'patch',
+    path: '/api/v1/products/{productId}',
+    summary: "Change some of a product's fields",
+    description: 'Works as PUT /api/products does. The key needs the MANAGE_INVENTORY scope.',
+    request: { params: idParam('productId'), ...body(UpdateProductBody) },
+    responses: {
+      200: json('The updated product', data(Product)),
+      404: json('No such product or supplier', ErrorResponse),
+    },
+  });
+  v1({
+    path: '/api/v1/sales',
+    summary: "List the business's sales",
+    request: { query: V1SalesQuery },
+    responses: { 200: json('A page of sales', paginatedOf(Sale)) },
+  });
+  v1({
+    method: 'post',
+    path: '/api/v1/sales',
+    summary: 'Record a sale and take its items out of stock',
+    description: 'Works as POST /api/sales does: items are priced on the server and totalAmount must match the total worked out there. '
+      + 'The key needs the MANAGE_SALES scope.',
+    request: body(CreateSaleBody),
+    responses: {
+      200: json('The new sale', data(CreatedSale)),
+      404: json('A product, variant, customer or location was not found', ErrorResponse),
+      502: json('Stripe refused to start the card payment; the sale was not recorded', ErrorResponse),
+    },
+  });
+  v1({
+    path: '/api/v1/sales/{saleId}',
+    summary: 'Get a sale with its line items and returns',
+    request: { params: idParam('saleId') },
+    responses: {
+      200: json('The sale', data(Sale)),
+      404: json('No such sale', ErrorResponse),
+    },
+  });
+  v1({
+    path: '/api/v1/inventory-changes',
+    summary: 'List stock movements, newest first',
+    request: { query: V1InventoryChangesQuery },
+    responses: { 200: json('A page of stock movements', paginatedOf(InventoryChange)) },
+  });
+  v1({
+    method: 'post',
+    path: '/api/v1/inventory/adjust',
+    summary: "Increase, decrease or set a product's stock",
+    description: 'Works as POST /api/inventory/adjust does. The key needs the MANAGE_INVENTORY scope.',
+    request: body(AdjustInventoryBody),
+    responses: {
+      200: json('The product after the change', data(AdjustInventoryResponse)),
+      404: json('No such product, variant or location', ErrorResponse),
+    },
+  });
+  v1({
+    path: '/api/v1/analytics/summary',
+    summary: 'Revenue, sales and units sold over a date range',
+    request: { query: V1AnalyticsSummaryQuery },
+    responses: { 200: json('The summary', data(AnalyticsSummary)) },
+  });
+
+  app({
+    method: 'post',
+    path: '/api/products',
+    tags: ['Products'],
+    summary: 'Create a product',
+    request: body(CreateProductBody),
+    responses: { 200: json('The new product', Product) },
+  });
+  app({
+    method: 'put',
+    path: '/api/products',
+    tags: ['Products'],
+    summary: 'Update a product',
+    request: { query: z.object({ id: z.string() }), ...body(UpdateProductBody) },
+    responses: {
+      200: json('The updated product', Product),
+      404: json('No such product', ErrorResponse),
+    },
+  });
+  app({
+    method: 'put',
+    path: '/api/products/{id}',
+    tags: ['Products'],
+    summary: 'Replace a product, its images and its documents',
+    request: { params: idParam('id'), ...body(ReplaceProductBody) },
+    responses: {
+      200: json('The product', Product),
+      404: json('No such product or supplier', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/products/{id}/variants',
+    tags: ['Products'],
+    summary: 'Add a size or color variant to a product',
+    request: { params: idParam('id'), ...body(CreateVariantBody) },
+    responses: {
+      201: json('The new variant', ProductVariant),
+      404: json('No such product', ErrorResponse),
+    },
+  });
+  app({
+    method: 'put',
+    path: '/api/products/{id}/variants/{variantId}',
+    tags: ['Products'],
+    summary: 'Update a variant',
+    request: { params: z.object({ id: z.string(), variantId: z.string() }), ...body(UpdateVariantBody) },
+    responses: {
+      200: json('The updated variant', ProductVariant),
+      404: json('No such variant', ErrorResponse),
+    },
+  });
+  app({
+    method: 'get',
+    path: '/api/products/lookup',
+    tags: ['Products'],
+    summary: 'Find the product or variant a scanned code belongs to',
+    request: { query: ScanLookupQuery },
+    responses: {
+      200: json('What the code rings up, or the variants to choose from', ScanResult),
+      404: json('No active product or variant has the code', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/sales',
+    tags: ['Sales'],
+    summary: 'Record a sale and take its items out of stock',
+    description: 'The server prices the items from their products and variants and works out the subtotal, discounts, tax and total. '
+      + 'A totalAmount that differs answers 400 with the expected breakdown under totals. '
+      + 'STRIPE and CREDIT_CARD sales of a business that connected Stripe are paid online: they are PENDING '
+      + 'with a paymentIntent until the payment webhook completes them.',
+    request: body(CreateSaleBody),
+    responses: {
+      200: json('The new sale', CreatedSale),
+      404: json('A product, variant, customer or location was not found', ErrorResponse),
+      502: json('Stripe refused to start the card payment; the sale was not recorded', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/sales/quote',
+    tags: ['Sales'],
+    summary: 'Work out the totals POST /api/sales expects for a set of items',
+    request: body(SaleQuoteBody),
+    responses: {
+      200: json('Subtotal, discounts, tax and total, overall and per line', SaleTotals),
+      404: json('A product was not found', ErrorResponse),
+    },
+  });
+  app({
+    method: 'get',
+    path: '/api/tax-rates',
+    tags: ['Sales'],
+    summary: "The business's sales tax rates",
+    responses: { 200: json('The default rate and the categories with their own', TaxRates) },
+  });
+  app({
+    method: 'put',
+    path: '/api/tax-rates',
+    tags: ['Sales'],
+    summary: "Replace the business's sales tax rates",
+    request: body(TaxRates),
+    responses: { 200: json('The rates now in effect', TaxRates) },
+  });
+  app({
+    method: 'put',
+    path: '/api/sales/{saleId}',
+    tags: ['Sales'],
+    summary: "Change a sale's payment details or customer",
+    request: { params: idParam('saleId'), ...body(UpdateSaleBody) },
+    responses: {
+      200: json('The updated sale', Sale),
+      404: json('No such sale', ErrorResponse),
+      409: json('The payment status of a card sale paid online is set by the payment gateway', ErrorResponse),
+    },
+  });
+  app({
+    method: 'delete',
+    path: '/api/sales/{saleId}',
+    tags: ['Sales'],
+    summary: 'Delete a sale and put its items back in stock',
+    description: 'A card sale paid online has its pending payment canceled, or what was paid refunded, first.',
+    request: { params: idParam('saleId') },
+    responses: {
+      200: json('The sale was deleted', z.object({ success: z.literal(true) })),
+      404: json('No such sale', ErrorResponse),
+      502: json('Stripe refused to cancel or refund the payment; the sale was kept', ErrorResponse),
+    },
+  });
+  app({
+    method: 'get',
+    path: '/api/sales/{saleId}/payment-intent',
+    tags: ['Sales'],
+    summary: 'The PaymentIntent of a card sale left to be paid later',
+    request: { params: idParam('saleId') },
+    responses: {
+      200: json('What Stripe.js needs to take the card', PendingCardPayment),
+      404: json('No such sale', ErrorResponse),
+      409: json('The sale is not a card sale waiting to be paid online', ErrorResponse),
+      502: json('Stripe could not be reached for the payment', ErrorResponse),
+    },
+  });
+  app({
+    method: 'get',
+    path: '/api/sales/{saleId}/receipt',
+    tags: ['Sales'],
+    summary: "The sale's receipt as an HTML page for 80mm thermal printers",
+    request: {
+      params: idParam('saleId'),
+      query: z.object({ print: z.literal('1').optional().describe('Open the print dialog once the page loads') }),
+    },
+    responses: {
+      200: { description: 'The receipt page', content: { 'text/html': { schema: z.string() } } },
+      404: json('No such sale', ErrorResponse),
+    },
+  });
+  app({
+    method: 'get',
+    path: '/api/sales/{saleId}/invoice',
+    tags: ['Sales'],
+    summary: "The sale's invoice as an A4 PDF, issuing its number on first request",
+    request: {
+      params: idParam('saleId'),
+      query: z.object({ download: z.literal('1').optional().describe('Send the PDF as a download') }),
+    },
+    responses: {
+      200: { description: 'The invoice PDF', content: { 'application/pdf': { schema: z.string().describe('binary') } } },
+      404: json('No such sale', ErrorResponse),
+    },
+  });
+  app({
+    method: 'get',
+    path: '/api/sales/{saleId}/payments',
+    tags: ['Sales'],
+    summary: 'The payments made against a sale and what is still owed',
+    request: { params: idParam('saleId') },
+    responses: {
+      200: json('Payments, newest first, with the balance and due date', SalePayments),
+      404: json('No such sale', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/sales/{saleId}/payments',
+    tags: ['Sales'],
+    summary: 'Record a payment against a PENDING or PARTIALLY_PAID sale',
+    description: 'The sale becomes PAID once its payments add up to its total. A payment for more '
+      + 'than is still owed, or against a sale not waiting for payment, answers 400 with the reason under error.',
+    request: { params: idParam('saleId'), ...body(RecordPaymentBody) },
+    responses: {
+      201: json("The payment and the sale's new balance and status", z.object({
+        payment: Payment,
+        paidAmount: z.number(),
+        balanceDue: z.number(),
+        paymentStatus: z.string(),
+      })),
+      404: json('No such sale', ErrorResponse),
+    },
+  });
+  app({
+    method: 'delete',
+    path: '/api/sales/{saleId}/payments/{paymentId}',
+    tags: ['Sales'],
+    summary: 'Remove a payment recorded by mistake',
+    request: { params: z.object({ saleId: z.string(), paymentId: z.string() }) },
+    responses: {
+      200: json("The sale's payment status afterwards", z.object({ success: z.literal(true), paymentStatus: z.string() })),
+      404: json('No such payment', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/sales/{saleId}/returns',
+    tags: ['Sales'],
+    summary: 'Return and refund some or all items of a sale',
+    description: 'Each item is refunded at what was paid for it after discounts and tax. '
+      + 'Returning more than is left to return answers 400 with the reason under error. '
+      + 'Card sales paid online are refunded through Stripe first; the refund is under gatewayRefund.',
+    request: { params: idParam('saleId'), ...body(CreateReturnBody) },
+    responses: {
+      201: { description: "The return with the refund and the sale's new payment status" },
+      404: json('No such sale', ErrorResponse),
+      502: json('Stripe refused the refund; the return was not recorded', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/customers',
+    tags: ['Customers'],
+    summary: 'Add a customer',
+    request: body(CreateCustomerBody),
+    responses: { 201: { description: 'The new customer' } },
+  });
+  app({
+    method: 'put',
+    path: '/api/customers/{customerId}',
+    tags: ['Customers'],
+    summary: "Change a customer's details, or deactivate them",
+    request: { params: idParam('customerId'), ...body(UpdateCustomerBody) },
+    responses: {
+      200: { description: 'The updated customer' },
+      404: json('No such customer', ErrorResponse),
+    },
+  });
+  app({
+    method: 'get',
+    path: '/api/receivables',
+    tags: ['Sales'],
+    summary: 'Aging report of what customers still owe',
+    responses: { 200: json('Balances owed, in 0-30, 31-60, 61-90 and 90+ day buckets by the age of the sale', AgingReport) },
+  });
+  app({
+    method: 'post',
+    path: '/api/inventory/adjust',
+    tags: ['Inventory'],
+    summary: "Increase, decrease or set a product's stock",
+    request: body(AdjustInventoryBody),
+    responses: {
+      200: json('The product after the change', AdjustInventoryResponse),
+      404: json('No such product, variant or location', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/inventory/transfer',
+    tags: ['Inventory'],
+    summary: 'Move stock of a product between two locations',
+    request: body(TransferStockBody),
+    responses: {
+      200: json('Stock at both locations after the transfer', TransferStockResponse),
+      404: json('No such product or location', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/inventory/locations',
+    tags: ['Inventory'],
+    summary: 'Add a location stock is kept at',
+    request: body(CreateLocationBody),
+    responses: { 201: { description: 'The new location' } },
+  });
+  app({
+    method: 'put',
+    path: '/api/inventory/locations/{locationId}',
+    tags: ['Inventory'],
+    summary: 'Rename, move or deactivate a location',
+    request: { params: idParam('locationId'), ...body(UpdateLocationBody) },
+    responses: {
+      200: { description: 'The updated location' },
+      404: json('No such location', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/suppliers',
+    tags: ['Purchasing'],
+    summary: 'Add a supplier',
+    request: body(CreateSupplierBody),
+    responses: { 201: { description: 'The new supplier' } },
+  });
+  app({
+    method: 'put',
+    path: '/api/suppliers/{supplierId}',
+    tags: ['Purchasing'],
+    summary: "Change a supplier's details, or deactivate them",
+    request: { params: idParam('supplierId'), ...body(UpdateSupplierBody) },
+    responses: {
+      200: { description: 'The updated supplier' },
+      404: json('No such supplier', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/purchase-orders',
+    tags: ['Purchasing'],
+    summary: 'Create a draft purchase order',
+    request: body(CreatePurchaseOrderBody),
+    responses: {
+      201: { description: 'The new purchase order with its lines' },
+      404: json('The supplier or a product was not found', ErrorResponse),
+    },
+  });
+  app({
+    method: 'put',
+    path: '/api/purchase-orders/{orderId}',
+    tags: ['Purchasing'],
+    summary: 'Update a purchase order or change its status',
+    request: { params: idParam('orderId'), ...body(UpdatePurchaseOrderBody) },
+    responses: {
+      200: { description: 'The updated purchase order' },
+      404: json('No such purchase order, or a product was not found', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/purchase-orders/{orderId}/receive',
+    tags: ['Purchasing'],
+    summary: 'Receive goods against a SENT or PARTIALLY_RECEIVED order into stock',
+    request: { params: idParam('orderId'), ...body(ReceivePurchaseOrderBody) },
+    responses: {
+      200: { description: 'The order and the received lines with their variance' },
+      404: json('No such purchase order or location', ErrorResponse),
+      409: json('Goods were received against the order at the same time', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/inventory/import',
+    tags: ['Imports'],
+    summary: 'Create or update products from inventory rows',
+    description: 'Rows with a size or color are grouped under one product with a variant per row.',
+    request: body(InventoryImportBody),
+    responses: {
+      200: json('How many rows were imported', z.object({
+        success: z.boolean(),
+        message: z.string(),
+        count: z.number().int(),
+        variantCount: z.number().int(),
+      })),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/sales-history/import',
+    tags: ['Imports'],
+    summary: 'Start a sales history import',
+    description: 'With dryRun the job is kept as a preview to commit later. Poll GET /api/sales-history/import/{jobId} for progress.',
+    request: body(SalesHistoryImportBody),
+    responses: {
+      200: { description: 'The preview job and what it would create, update and reject' },
+      202: { description: 'The import job, which runs in the background' },
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/sales-history/import/{jobId}/commit',
+    tags: ['Imports'],
+    summary: 'Run an import that was previewed with a dry run',
+    request: { params: idParam('jobId'), ...body(CommitImportBody) },
+    responses: {
+      202: { description: 'The import job, which runs in the background' },
+      404: json('No such import job', ErrorResponse),
+      409: json('The import has already been started', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/import-mappings',
+    tags: ['Imports'],
+    summary: 'Save a column mapping under a name, replacing one with the same name',
+    request: body(SaveImportMappingBody),
+    responses: {
+      200: { description: 'The preset that was replaced' },
+      201: { description: 'The new preset' },
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/employees/invites',
+    tags: ['Employees'],
+    summary: 'Invite someone to join the business',
+    request: body(CreateInviteBody),
+    responses: {
+      201: { description: 'The invite and its acceptance link, which is only shown this once' },
+      409: json('The email already has an account or a pending invite', ErrorResponse),
+    },
+  });
+  // Accepting is done before the employee has an account, so it needs no session
+  registry.registerPath({
+    method: 'post',
+    path: '/api/auth/invite',
+    tags: ['Employees'],
+    summary: "Accept an invitation and create the employee's account",
+    request: body(AcceptInviteBody),
+    responses: {
+      201: { description: 'The new employee' },
+      400: json('The input failed validation, or the invitation is invalid, expired or already used', ErrorResponse),
+    },
+  });
+  app({
+    method: 'get',
+    path: '/api/employees/permissions',
+    tags: ['Employees'],
+    summary: "An employee's role and permissions",
+    request: { query: z.object({ employeeId: z.string() }) },
+    responses: {
+      200: json('What the employee has been granted and can do', EmployeeAccess),
+      404: json('No such employee in the business', ErrorResponse),
+    },
+  });
+  app({
+    method: 'put',
+    path: '/api/employees/permissions',
+    tags: ['Employees'],
+    summary: "Change an employee's role and individually granted permissions",
+    description: 'Only admins can make someone an admin, nobody can change their own access, and the '
+      + 'change may only add permissions the caller holds.',
+    request: body(UpdateEmployeeAccessBody),
+    responses: {
+      200: json('What the employee has been granted and can do now', EmployeeAccess),
+      403: json('A permission the caller does not hold, or their own access', ErrorResponse),
+      404: json('No such employee in the business', ErrorResponse),
+    },
+  });
+  app({
+    method: 'put',
+    path: '/api/business-profile',
+    tags: ['Settings'],
+    summary: "Save the business's profile",
+    request: body(BusinessProfileBody),
+    responses: { 200: { description: 'The profile' } },
+  });
+  app({
+    method: 'post',
+    path: '/api/account/setup',
+    tags: ['Settings'],
+    summary: "Save the business's profile from the setup wizard",
+    request: body(AccountSetupBody),
+    responses: { 200: { description: 'The profile' } },
+  });
+  app({
+    method: 'post',
+    path: '/api/payment/config',
+    tags: ['Settings'],
+    summary: 'Choose the payment methods the business accepts',
+    request: body(PaymentConfigBody),
+    responses: { 200: { description: 'The payment configuration' } },
+  });
+  app({
+    method: 'put',
+    path: '/api/payment-config',
+    tags: ['Settings'],
+    summary: 'Change the payment settings given',
+    request: body(PaymentSettingsBody),
+    responses: { 200: { description: 'The payment configuration' } },
+  });
+  app({
+    method: 'post',
+    path: '/api/api-keys',
+    tags: ['API keys'],
+    summary: 'Create an API key that acts as the signed-in user',
+    request: body(CreateApiKeyBody),
+    responses: {
+      201: json('The key; it is only shown this once', z.object({ apiKey: ApiKey, key: z.string() })),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/webhooks',
+    tags: ['Webhooks'],
+    summary: 'Subscribe an endpoint to events',
+    request: body(CreateWebhookBody),
+    responses: {
+      201: json('The subscription and its signing secret, which is only shown this once',
+        z.object({ webhook: Webhook, secret: z.string() })),
+    },
+  });
+  app({
+    method: 'patch',
+    path: '/api/webhooks/{webhookId}',
+    tags: ['Webhooks'],
+    summary: "Change a subscription's URL, events or description, or pause it",
+    request: { params: idParam('webhookId'), ...body(UpdateWebhookBody) },
+    responses: {
+      200: json('The updated subscription', Webhook),
+      404: json('No such webhook', ErrorResponse),
+    },
+  });
+
+  app({
+    method: 'get',
+    path: '/api/notifications',
+    tags: ['Notifications'],
+    summary: "The signed-in user's notification inbox, newest first",
+    request: { query: NotificationsQuery },
+    responses: {
+      200: json('A page of notifications', z.object({
+        notifications: z.array(Notification),
+        total: z.number().int(),
+        totalPages: z.number().int(),
+        unreadCount: z.number().int(),
+      })),
+    },
+  });
+  app({
+    method: 'patch',
+    path: '/api/notifications/{notificationId}',
+    tags: ['Notifications'],
+    summary: 'Mark a notification as read or unread',
+    request: { params: idParam('notificationId'), ...body(UpdateNotificationBody) },
+    responses: {
+      200: json('The updated notification', Notification),
+      404: json('No such notification', ErrorResponse),
+    },
+  });
+  app({
+    method: 'post',
+    path: '/api/notifications/read-all',
+    tags: ['Notifications'],
+    summary: 'Mark every unread notification as read',
+    responses: { 200: json('How many were marked', z.object({ updated: z.number().int() })) },
+  });
+  app({
+    method: 'put',
+    path: '/api/notification-preferences',
+    tags: ['Notifications'],
+    summary: "Change the signed-in user's notification preferences",
+    request: body(NotificationPreferencesBody),
+    responses: { 200: { description: 'The preferences' } },
+  });
+
+  return registry;
+}
+
+let document: ReturnType<OpenApiGeneratorV3['generateDocument']> | null = null;
+
+/**
+ * The OpenAPI document, built once per process
+ */
+export function openApiDocument() {
+  if (!document) {
+    document = new OpenApiGeneratorV3(buildRegistry().definitions).generateDocument({
+      openapi: '3.0.3',
+      info: {
+        title: 'MerchX API',
+        version: '1.0.0',
+        description: 'Invalid input is answered with 400 and { error, issues: [{ path, message }] }.',
+      },
+    });
+  }
+  return document;
+}
@@ -0,0 +1,338 @@
+// Card payments taken online. Callers go through a PaymentGateway so the provider can be swapped,
+// e.g. Stripe in production and the fake gateway in tests and local development.
+import Stripe from 'stripe';
+import { signWebhookPayload, verifyWebhookSignature } from '@/lib/webhooks';
+
+export const PAYMENT_CURRENCY = 'usd';
+
+export interface PaymentIntentRequest {
+  saleId: string;
+  ownerId: string;
+  // In dollars
+  amount: number;
+  description?: string;
+  // The business's own account on the provider, when it is connected through the platform
+  accountId?: string | null;
+}
+
+export interface GatewayPaymentIntent {
+  id: string;
+  // Handed to the browser to collect the card
+  clientSecret: string | null;
+  status: string;
+}
+
+export interface RefundRequest {
+  paymentId: string;
+  // In dollars
+  amount: number;
+  // Asking again with the same key gives back the same refund instead of refunding twice
+  idempotencyKey: string;
+  accountId?: string | null;
+}
+
+export interface GatewayRefund {
+  id: string;
+  status: string;
+}
+
+export type GatewayEvent =
+  | { id: string; type: 'payment.succeeded'; paymentId: string }
+  | { id: string; type: 'payment.failed'; paymentId: string; failureMessage: string | null }
+  // refundedAmount is the total refunded so far, not just this refund
+  | { id: string; type: 'payment.refunded'; paymentId: string; refundedAmount: number };
+
+export interface PaymentGateway {
+  readonly name: string;
+  // Request header the webhook signature is sent in
+  readonly signatureHeader: string;
+  createPaymentIntent(request: PaymentIntentRequest): Promise<GatewayPaymentIntent>;
+  /**
+   * Looks up a PaymentIntent, e.g. to take the card for a sale that was left to be paid later
+   * @throws GatewayError when the provider does not know it
+   */
+  getPaymentIntent(paymentId: string, accountId?: string | null): Promise<GatewayPaymentIntent>;
+  /**
+   * Cancels a PaymentIntent that has not been paid, so it can no longer be paid
+   * @throws GatewayError when the provider refuses, e.g. because it has been paid
+   */
+  cancelPaymentIntent(paymentId: string, accountId?: string | null): Promise<void>;
+  /**
+   * Refunds part or all of a paid PaymentIntent. The provider confirms it with a payment.refunded webhook.
+   * @throws GatewayError when the provider refuses the refund
+   */
+  refundPayment(request: RefundRequest): Promise<GatewayRefund>;
+  /**
+   * Checks a webhook's signature and reads it
+   * @returns The event, or null for events the app does not act on
+   * @throws GatewayError when the signature does not match
+   */
+  parseWebhook(payload: string, signature: string | null): GatewayEvent | null;
+}
+
+// Error class for requests the provider refused and webhooks that cannot be trusted
+export class GatewayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export class StripeGateway implements PaymentGateway {
+  readonly name = 'stripe';
+  readonly signatureHeader = 'Stripe-Signature';
+  private stripe: Stripe;
+
+  constructor(secretKey: string, private webhookSecret: string) {
+    this.stripe = new Stripe(secretKey, { apiVersion: '2023-10-16' });
+  }
+
+  async createPaymentIntent(request: PaymentIntentRequest): Promise<GatewayPaymentIntent> {
+    try {
+      const intent = await this.stripe.paymentIntents.create(
+        {
+          amount: toCents(request.amount),
+          currency: PAYMENT_CURRENCY,
+          automatic_payment_methods: { enabled: true },
+          description: request.description,
+          metadata: { saleId: request.saleId, ownerId: request.ownerId },
+        },
+        {
+          // Asking twice for the same sale gives back the same intent
+          idempotencyKey: `sale-${request.saleId}`,
+          stripeAccount: request.accountId || undefined,
+        }
+      );
+      return { id: intent.id, clientSecret: intent.client_secret, status: intent.status };
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeError) {
+        throw new GatewayError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  async getPaymentIntent(paymentId: string, accountId?: string | null): Promise<GatewayPaymentIntent> {
+    try {
+      const intent = await this.stripe.paymentIntents.retrieve(paymentId, {}, { stripeAccount: accountId || undefined });
+      return { id: intent.id, clientSecret: intent.client_secret, status: intent.status };
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeError) {
+        throw new GatewayError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  async cancelPaymentIntent(paymentId: string, accountId?: string | null): Promise<void> {
+    try {
+      await this.stripe.paymentIntents.cancel(paymentId, {}, { stripeAccount: accountId || undefined });
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeError) {
+        throw new GatewayError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  async refundPayment(request: RefundRequest): Promise<GatewayRefund> {
+    try {
+      const refund = await this.stripe.refunds.create(
+        {
+          payment_intent: request.paymentId,
+          amount: toCents(request.amount),
+        },
+        {
+          idempotencyKey: request.idempotencyKey,
+          stripeAccount: request.accountId || undefined,
+        }
+      );
+      return { id: refund.id, status: refund.status || 'pending' };
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeError) {
+        throw new GatewayError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  parseWebhook(payload: string, signature: string | null): GatewayEvent | null {
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(payload, signature || '', this.webhookSecret);
+    } catch (error) {
+      throw new GatewayError(error instanceof Error ? error.message : 'Invalid webhook signature');
+    }
+
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        return { id: event.id, type: 'payment.succeeded', paymentId: event.data.object.id };
+      case 'payment_intent.payment_failed':
+        return {
+          id: event.id,
+          type: 'payment.failed',
+          paymentId: event.data.object.id,
+          failureMessage: event.data.object.last_payment_error?.message || null,
+        };
+      case 'charge.refunded': {
+        const charge = event.data.object;
+        const paymentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+        // Charges made without a PaymentIntent were not made by this app
+        return paymentId
+          ? { id: event.id, type: 'payment.refunded', paymentId, refundedAmount: charge.amount_refunded / 100 }
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * A gateway that never leaves the process. Intents and refunds are kept in memory and webhook() makes the
+ * signed events the provider would send, so the whole payment flow can run offline.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+  readonly signatureHeader = 'Stripe-Signature';
+  readonly intents = new Map<string, GatewayPaymentIntent & PaymentIntentRequest>();
+  // By idempotency key
+  readonly refunds = new Map<string, GatewayRefund & RefundRequest>();
+  private events = 0;
+
+  constructor(private webhookSecret: string) {}
+
+  async createPaymentIntent(request: PaymentIntentRequest): Promise<GatewayPaymentIntent> {
+    const existing = Array.from(this.intents.values()).find(intent => intent.saleId === request.saleId);
+    if (existing) {
+      return { id: existing.id, clientSecret: existing.clientSecret, status: existing.status };
+    }
+    if (request.amount <= 0) {
+      throw new GatewayError('Amount must be greater than 0');
+    }
+
+    const id = `fake_pi_${this.intents.size + 1}`;
+    const intent = { id, clientSecret: `${id}_secret`, status: 'requires_payment_method' };
+    this.intents.set(id, { ...request, ...intent });
+    return intent;
+  }
+
+  async getPaymentIntent(paymentId: string): Promise<GatewayPaymentIntent> {
+    const intent = this.intents.get(paymentId);
+    if (!intent) {
+      throw new GatewayError(`No such PaymentIntent: ${paymentId}`);
+    }
+    return { id: intent.id, clientSecret: intent.clientSecret, status: intent.status };
+  }
+
+  async cancelPaymentIntent(paymentId: string): Promise<void> {
+    const intent = this.intents.get(paymentId);
+    if (!intent) {
+      throw new GatewayError(`No such PaymentIntent: ${paymentId}`);
+    }
+    if (intent.status === 'succeeded') {
+      throw new GatewayError('A PaymentIntent that has been paid cannot be canceled');
+    }
+    intent.status = 'canceled';
+  }
+
+  async refundPayment(request: RefundRequest): Promise<GatewayRefund> {
+    const existing = this.refunds.get(request.idempotencyKey);
+    if (existing) {
+      return { id: existing.id, status: existing.status };
+    }
+
+    const intent = this.intents.get(request.paymentId);
+    if (!intent || intent.status !== 'succeeded') {
+      throw new GatewayError(`PaymentIntent ${request.paymentId} has not been paid`);
+    }
+    if (request.amount <= 0) {
+      throw new GatewayError('Amount must be greater than 0');
+    }
+    if (toCents(this.refundedAmount(request.paymentId) + request.amount) > toCents(intent.amount)) {
+      throw new GatewayError('Refund is greater than the amount left to refund');
+    }
+
+    const refund = { id: `fake_re_${this.refunds.size + 1}`, status: 'succeeded' };
+    this.refunds.set(request.idempotencyKey, { ...request, ...refund });
+    return refund;
+  }
+
+  /**
+   * Total refunded so far on a PaymentIntent
+   */
+  refundedAmount(paymentId: string): number {
+    const cents = Array.from(this.refunds.values())
+      .filter(refund => refund.paymentId === paymentId)
+      .reduce((sum, refund) => sum + toCents(refund.amount), 0);
+    return cents / 100;
+  }
+
+  /**
+   * The webhook the provider would send about a payment, with its signature header. Refund
+   * webhooks report what refundPayment() has refunded, or the whole amount when nothing was.
+   */
+  webhook(
+    type: GatewayEvent['type'],
+    paymentId: string,
+    details: { refundedAmount?: number; failureMessage?: string } = {}
+  ): { payload: string; signature: string } {
+    const intent = this.intents.get(paymentId);
+    const payload = JSON.stringify({
+      id: `fake_evt_${++this.events}`,
+      type,
+      paymentId,
+      ...(type === 'payment.failed' ? { failureMessage: details.failureMessage ?? 'Your card was declined.' } : {}),
+      ...(type === 'payment.refunded'
+        ? { refundedAmount: details.refundedAmount ?? (this.refundedAmount(paymentId) || intent?.amount || 0) }
+        : {}),
+    });
+    if (intent) {
+      intent.status = type === 'payment.failed' ? 'requires_payment_method' : 'succeeded';
+    }
+    return { payload, signature: signWebhookPayload(this.webhookSecret, payload, Math.floor(Date.now() / 1000)) };
+  }
+
+  parseWebhook(payload: string, signature: string | null): GatewayEvent | null {
+    if (!verifyWebhookSignature(this.webhookSecret, payload, signature)) {
+      throw new GatewayError('Invalid webhook signature');
+    }
+    return JSON.parse(payload) as GatewayEvent;
+  }
+}
+
+/**
+ * The gateway described by the environment: the fake one when PAYMENT_GATEWAY is "fake",
+ * Stripe when STRIPE_SECRET_KEY is set, otherwise null
+ * @throws Error when a gateway is chosen without a STRIPE_WEBHOOK_SECRET to check its webhooks
+ */
+export function paymentGatewayFromEnv(env: NodeJS.ProcessEnv = process.env): PaymentGateway | null {
+  if (env.PAYMENT_GATEWAY === 'fake') {
+    if (!env.STRIPE_WEBHOOK_SECRET) {
+      throw new Error('STRIPE_WEBHOOK_SECRET must be set to use the fake payment gateway');
+    }
+    return new FakePaymentGateway(env.STRIPE_WEBHOOK_SECRET);
+  }
+  if (!env.STRIPE_SECRET_KEY) {
+    return null;
+  }
+  // Stripe accepts events signed with an empty secret, so without one anybody could send them
+  if (!env.STRIPE_WEBHOOK_SECRET) {
+    throw new Error('STRIPE_WEBHOOK_SECRET must be set to take card payments through Stripe');
+  }
+  return new StripeGateway(env.STRIPE_SECRET_KEY, env.STRIPE_WEBHOOK_SECRET);
+}
+
+let defaultGateway: PaymentGateway | null | undefined;
+
+/**
+ * The gateway used when none is passed in, created from the environment on first use
+ */
+export function getPaymentGateway(): PaymentGateway | null {
+  if (defaultGateway === undefined) {
+    defaultGateway = paymentGatewayFromEnv();
+  }
+  return defaultGateway;
+}
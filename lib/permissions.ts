@@ -0,0 +1,115 @@
+// Role and permission rules shared by middleware, the NextAuth callbacks and API route guards.
+// Only type imports from Prisma so this can also run in the edge middleware.
+import type { Role } from '@prisma/client';
+
+// Mirrors the Permission enum in schema.prisma; User.permissions stores these as strings
+export type Permission =
+  | 'MANAGE_INVENTORY'
+  | 'MANAGE_SALES'
+  | 'VIEW_REPORTS'
+  | 'MANAGE_EMPLOYEES'
+  | 'MANAGE_SETTINGS'
+  | 'VIEW_ANALYTICS';
+
+export const ALL_PERMISSIONS: Permission[] = [
+  'MANAGE_INVENTORY',
+  'MANAGE_SALES',
+  'VIEW_REPORTS',
+  'MANAGE_EMPLOYEES',
+  'MANAGE_SETTINGS',
+  'VIEW_ANALYTICS',
+];
+
+// Permissions every user with a role gets, on top of any granted individually
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  ADMIN: ALL_PERMISSIONS,
+  MANAGER: ['MANAGE_INVENTORY', 'MANAGE_SALES', 'VIEW_REPORTS', 'VIEW_ANALYTICS'],
+  SALES_REP: ['MANAGE_SALES', 'VIEW_REPORTS'],
+  INVENTORY_MANAGER: ['MANAGE_INVENTORY', 'VIEW_REPORTS'],
+  USER: ['VIEW_REPORTS'],
+};
+
+// Pages and API prefixes the middleware guards; the most specific prefix wins
+export const ROUTE_PERMISSIONS: Record<string, Permission[]> = {
+  '/inventory-manager': ['MANAGE_INVENTORY'],
+  '/api/inventory': ['MANAGE_INVENTORY'],
+  '/api/inventory/stats': ['VIEW_REPORTS'],
+  '/api/suppliers': ['MANAGE_INVENTORY'],
+  '/api/purchase-orders': ['MANAGE_INVENTORY'],
+  '/sales-manager': ['MANAGE_SALES'],
+  '/pos': ['MANAGE_SALES'],
+  '/receivables': ['MANAGE_SALES'],
+  '/api/receivables': ['MANAGE_SALES'],
+  '/api/sales': ['MANAGE_SALES'],
+  '/api/sales-history': ['MANAGE_SALES'],
+  '/api/import-mappings': ['MANAGE_SALES', 'MANAGE_INVENTORY'],
+  '/api/sales/stats': ['VIEW_REPORTS'],
+  '/api/customers': ['MANAGE_SALES'],
+  '/api/customers/growth': ['MANAGE_SALES', 'VIEW_ANALYTICS'],
+  '/reports': ['VIEW_REPORTS'],
+  '/api/dashboard': ['VIEW_REPORTS'],
+  '/api/activity': ['VIEW_REPORTS'],
+  '/api/reports': ['VIEW_REPORTS'],
+  '/analytics': ['VIEW_ANALYTICS'],
+  '/api/analytics': ['VIEW_ANALYTICS'],
+  '/api/analytics/replenishment': ['MANAGE_INVENTORY', 'VIEW_ANALYTICS'],
+  '/api/test-calculator': ['VIEW_ANALYTICS'],
+  '/api/employees': ['MANAGE_EMPLOYEES'],
+  '/profile': ['MANAGE_SETTINGS'],
+  '/api/settings': ['MANAGE_SETTINGS'],
+  '/api/audit': ['MANAGE_SETTINGS'],
+  '/api/webhooks': ['MANAGE_SETTINGS'],
+};
+
+export interface PermissionHolder {
+  role?: Role | string | null;
+  permissions?: string[] | null;
+  businessId?: string | null;
+}
+
+function isPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+/**
+ * Effective permissions for a user: their role's defaults plus anything granted individually.
+ * A USER that does not belong to a business owns its own data and gets everything.
+ */
+export function resolvePermissions(user: PermissionHolder): Permission[] {
+  const role = (user.role || 'USER') as Role;
+
+  if (role === 'USER' && !user.businessId) {
+    return [...ALL_PERMISSIONS];
+  }
+
+  const granted = new Set<Permission>(ROLE_PERMISSIONS[role] || []);
+  for (const permission of user.permissions || []) {
+    if (isPermission(permission)) {
+      granted.add(permission);
+    }
+  }
+
+  return ALL_PERMISSIONS.filter(permission => granted.has(permission));
+}
+
+/**
+ * Whether the granted permissions include at least one of those required
+ */
+export function hasPermission(
+  granted: readonly string[],
+  required: Permission | Permission[]
+): boolean {
+  const options = Array.isArray(required) ? required : [required];
+  return options.some(permission => granted.includes(permission));
+}
+
+/**
+ * Permissions needed to reach a path, or null if it is not restricted
+ */
+export function permissionsForPath(pathname: string): Permission[] | null {
+  const match = Object.keys(ROUTE_PERMISSIONS)
+    .filter(route => pathname === route || pathname.startsWith(`${route}/`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? ROUTE_PERMISSIONS[match] : null;
+}
@@ -0,0 +1,395 @@
+// Adapters for the product and order CSV exports of Shopify, Square and WooCommerce. Each turns
+// a platform's rows into our import fields, so a business moving to us can upload its files as they are.
+import { detectDateFormat, ImportType, parseDate, parseNumber } from '@/lib/import-mapping';
+
+export type PlatformSource = 'shopify' | 'square' | 'woocommerce';
+
+export const PLATFORM_SOURCES: PlatformSource[] = ['shopify', 'square', 'woocommerce'];
+
+export const PLATFORM_LABELS: Record<PlatformSource, string> = {
+  shopify: 'Shopify',
+  square: 'Square',
+  woocommerce: 'WooCommerce',
+};
+
+type Row = Record<string, unknown>;
+
+// Same fields the inventory column mapping produces, plus the product's image URLs
+export interface PlatformInventoryItem {
+  sku: string;
+  name: string;
+  description: string;
+  category: string;
+  unitCost: number | null;
+  sellingPrice: number | null;
+  stockQuantity: number | null;
+  location: string;
+  size: string;
+  color: string;
+  images: string[];
+}
+
+// Same fields the sales history column mapping produces; one per order line
+export interface PlatformSalesItem {
+  date: string | null;
+  productId: string;
+  productName: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  totalAmount: number | null;
+  externalOrderId: string;
+}
+
+interface PlatformAdapter {
+  // Headers every export of that kind has
+  signatures: Record<ImportType, string[]>;
+  inventoryItems: (rows: Row[]) => PlatformInventoryItem[];
+  salesHistory: (rows: Row[]) => PlatformSalesItem[];
+}
+
+function text(row: Row | undefined, header: string): string {
+  const value = row?.[header];
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function integer(row: Row | undefined, header: string): number | null {
+  const value = parseNumber(row?.[header]);
+  return value === null ? null : Math.trunc(value);
+}
+
+function money(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function lineTotal(quantity: number | null, unitPrice: number | null): number | null {
+  return quantity !== null && unitPrice !== null ? money(quantity * unitPrice) : null;
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "Clothing > T-Shirts, Sale" -> "T-Shirts": the most specific level of the first category
+function categoryName(value: string): string {
+  const first = value.split(',')[0] || '';
+  return first.split('>').pop()?.trim() || '';
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Sorts a variant's option values into size and color. Options we have no field for,
+ * such as "Material", are kept so they can be added to the product name.
+ */
+function variantOptions(options: [string, string][]): { size: string; color: string; other: string[] } {
+  const result = { size: '', color: '', other: [] as string[] };
+  for (const [name, value] of options) {
+    // Shopify marks products without variants with a "Title: Default Title" option
+    if (!value || value === 'Default Title') continue;
+    if (/size/i.test(name) && !result.size) result.size = value;
+    else if (/colou?r/i.test(name) && !result.color) result.color = value;
+    else result.other.push(value);
+  }
+  return result;
+}
+
+function nameWithOptions(name: string, other: string[]): string {
+  return other.length > 0 ? `${name} (${other.join(' / ')})` : name;
+}
+
+function shopifyProducts(rows: Row[]): PlatformInventoryItem[] {
+  // The first row of a handle holds the product; later rows add variants and images
+  const products = new Map<string, { first: Row; images: string[]; items: PlatformInventoryItem[] }>();
+
+  for (const row of rows) {
+    const handle = text(row, 'Handle');
+    if (!handle) continue;
+
+    let product = products.get(handle);
+    if (!product) {
+      product = { first: row, images: [], items: [] };
+      products.set(handle, product);
+    }
+
+    const image = text(row, 'Image Src');
+    if (image && !product.images.includes(image)) {
+      product.images.push(image);
+    }
+
+    // Rows with only an image carry no variant
+    if (!text(row, 'Variant SKU') && !text(row, 'Variant Price') && !text(row, 'Option1 Value')) continue;
+
+    const first = product.first;
+    const options = variantOptions([1, 2, 3].map(i => [text(first, `Option${i} Name`), text(row, `Option${i} Value`)]));
+    const variantImage = text(row, 'Variant Image');
+
+    product.items.push({
+      sku: text(row, 'Variant SKU'),
+      name: nameWithOptions(text(first, 'Title') || handle, options.other),
+      description: stripHtml(text(first, 'Body (HTML)')),
+      category: categoryName(text(first, 'Type') || text(first, 'Product Category')),
+      unitCost: parseNumber(row['Cost per item']),
+      sellingPrice: parseNumber(row['Variant Price']),
+      stockQuantity: integer(row, 'Variant Inventory Qty'),
+      location: '',
+      size: options.size,
+      color: options.color,
+      images: variantImage ? [variantImage] : [],
+    });
+  }
+
+  return Array.from(products.values()).flatMap(product => product.items.map(item => ({
+    ...item,
+    images: Array.from(new Set([...item.images, ...product.images])),
+  })));
+}
+
+function shopifyOrders(rows: Row[]): PlatformSalesItem[] {
+  // Order fields are only filled in on the first line of each order
+  const orders = new Map<string, { date: string | null; cancelled: boolean }>();
+  const items: PlatformSalesItem[] = [];
+
+  for (const row of rows) {
+    const name = text(row, 'Name');
+    let order = orders.get(name);
+    if (!order) {
+      const status = text(row, 'Financial Status').toLowerCase();
+      order = {
+        date: parseDate(text(row, 'Created at')),
+        cancelled: !!text(row, 'Cancelled at') || status === 'voided' || status === 'refunded',
+      };
+      orders.set(name, order);
+    }
+    if (order.cancelled) continue;
+
+    const quantity = integer(row, 'Lineitem quantity');
+    const unitPrice = parseNumber(row['Lineitem price']);
+    items.push({
+      date: order.date ?? parseDate(text(row, 'Created at')),
+      productId: text(row, 'Lineitem sku'),
+      productName: text(row, 'Lineitem name'),
+      quantity,
+      unitPrice,
+      totalAmount: lineTotal(quantity, unitPrice),
+      externalOrderId: name,
+    });
+  }
+
+  return items;
+}
+
+function squareItems(rows: Row[]): PlatformInventoryItem[] {
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  // One "Current Quantity <location>" column per location
+  const quantityColumns = headers.filter(header => header.startsWith('Current Quantity '));
+
+  return rows
+    .filter(row => text(row, 'Archived').toUpperCase() !== 'Y' && text(row, 'Item Name'))
+    .map(row => {
+      const quantities = quantityColumns.map(column => integer(row, column)).filter((q): q is number => q !== null);
+      const options = variantOptions([1, 2, 3].map(i => [text(row, `Option Name ${i}`), text(row, `Option Value ${i}`)]));
+      const variation = text(row, 'Variation Name');
+      // Without options, a named variation such as "Large" is the only thing telling variants apart
+      if (!options.size && !options.color && options.other.length === 0 && variation && variation !== 'Regular') {
+        options.size = variation;
+      }
+
+      return {
+        sku: text(row, 'SKU'),
+        name: nameWithOptions(text(row, 'Item Name'), options.other),
+        description: stripHtml(text(row, 'Description')),
+        category: categoryName(text(row, 'Category') || text(row, 'Reporting Category')),
+        unitCost: parseNumber(row['Default Unit Cost']),
+        sellingPrice: parseNumber(row['Price']),
+        stockQuantity: quantities.length > 0 ? quantities.reduce((sum, q) => sum + q, 0) : null,
+        location: quantityColumns.length === 1 ? quantityColumns[0].slice('Current Quantity '.length) : '',
+        size: options.size,
+        color: options.color,
+        images: [],
+      };
+    });
+}
+
+function squareItemSales(rows: Row[]): PlatformSalesItem[] {
+  const dateFormat = detectDateFormat(rows.map(row => row['Date']));
+
+  return rows
+    .filter(row => text(row, 'Event Type').toLowerCase() !== 'refund')
+    .map(row => {
+      const quantity = integer(row, 'Qty');
+      const gross = parseNumber(row['Gross Sales']);
+      const pricePoint = text(row, 'Price Point Name');
+      return {
+        date: parseDate(text(row, 'Date'), dateFormat),
+        productId: text(row, 'SKU'),
+        productName: pricePoint && pricePoint !== 'Regular' ? `${text(row, 'Item')} (${pricePoint})` : text(row, 'Item'),
+        quantity,
+        unitPrice: gross !== null && quantity ? money(gross / quantity) : null,
+        totalAmount: gross,
+        externalOrderId: text(row, 'Transaction ID'),
+      };
+    });
+}
+
+// Cost of goods is not a core WooCommerce field; these are the columns the common plugins export
+const WOOCOMMERCE_COST_COLUMNS = ['Meta: _wc_cog_cost', 'Meta: _cost', 'Cost'];
+
+function wooCommerceProducts(rows: Row[]): PlatformInventoryItem[] {
+  const byId = new Map(rows.map(row => [text(row, 'ID'), row]));
+  const bySku = new Map(rows.filter(row => text(row, 'SKU')).map(row => [text(row, 'SKU'), row]));
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const costColumn = WOOCOMMERCE_COST_COLUMNS.find(column => headers.includes(column));
+  const attributeCount = headers.filter(header => /^Attribute \d+ name$/.test(header)).length;
+
+  const items: PlatformInventoryItem[] = [];
+  for (const row of rows) {
+    const type = text(row, 'Type').toLowerCase();
+    // Variable products hold no stock themselves; grouped and external products hold none at all
+    if (/variable|grouped|external/.test(type)) continue;
+
+    // Variations refer to their parent as "id:42" or by the parent's SKU
+    const parentRef = text(row, 'Parent');
+    const parent = type.includes('variation')
+      ? (parentRef.startsWith('id:') ? byId.get(parentRef.slice(3)) : bySku.get(parentRef))
+      : undefined;
+    const product = parent ?? row;
+
+    const options = parent
+      ? variantOptions(Array.from({ length: attributeCount }, (_, i): [string, string] => [
+          text(row, `Attribute ${i + 1} name`) || text(parent, `Attribute ${i + 1} name`),
+          text(row, `Attribute ${i + 1} value(s)`),
+        ]))
+      : { size: '', color: '', other: [] };
+
+    items.push({
+      sku: text(row, 'SKU'),
+      name: nameWithOptions(text(product, 'Name') || text(row, 'Name'), options.other),
+      description: stripHtml(text(product, 'Description') || text(product, 'Short description')),
+      category: categoryName(text(product, 'Categories')),
+      unitCost: costColumn ? parseNumber(row[costColumn]) ?? parseNumber(product[costColumn]) : null,
+      sellingPrice: parseNumber(row['Regular price']) ?? parseNumber(row['Sale price']),
+      stockQuantity: integer(row, 'Stock'),
+      location: '',
+      size: options.size,
+      color: options.color,
+      images: Array.from(new Set([...splitList(text(row, 'Images')), ...(parent ? splitList(text(parent, 'Images')) : [])])),
+    });
+  }
+
+  return items;
+}
+
+const WOOCOMMERCE_SKIPPED_STATUSES = ['cancelled', 'failed', 'refunded', 'pending', 'trash'];
+
+// "name:Mug|sku:MUG-1|quantity:2|total:18.00;name:Tote|..." from the one-row-per-order layout
+function wooCommerceLineItems(value: string): Row[] {
+  return value.split(';').filter(Boolean).map(item => Object.fromEntries(item.split('|').map(pair => {
+    const separator = pair.indexOf(':');
+    return separator === -1 ? [pair, ''] : [pair.slice(0, separator), pair.slice(separator + 1)];
+  })));
+}
+
+function wooCommerceOrders(rows: Row[]): PlatformSalesItem[] {
+  const items: PlatformSalesItem[] = [];
+
+  for (const row of rows) {
+    const status = text(row, 'status').toLowerCase().replace(/^wc-/, '');
+    if (WOOCOMMERCE_SKIPPED_STATUSES.includes(status)) continue;
+
+    const orderNumber = text(row, 'order_number') || text(row, 'order_id');
+    const date = parseDate(text(row, 'order_date'));
+
+    // Exports come with one row per order line, or one row per order with every line in line_items
+    const lines = text(row, 'line_items')
+      ? wooCommerceLineItems(text(row, 'line_items')).map(line => ({
+          name: text(line, 'name'),
+          sku: text(line, 'sku'),
+          quantity: integer(line, 'quantity'),
+          total: parseNumber(line['total']) ?? parseNumber(line['subtotal']),
+        }))
+      : [{
+          name: text(row, 'item_name'),
+          sku: text(row, 'item_sku'),
+          quantity: integer(row, 'item_quantity'),
+          total: parseNumber(row['item_total']) ?? parseNumber(row['item_subtotal']),
+        }];
+
+    for (const line of lines) {
+      items.push({
+        date,
+        productId: line.sku,
+        productName: line.name,
+        quantity: line.quantity,
+        unitPrice: line.total !== null && line.quantity ? money(line.total / line.quantity) : null,
+        totalAmount: line.total,
+        externalOrderId: orderNumber,
+      });
+    }
+  }
+
+  return items;
+}
+
+const ADAPTERS: Record<PlatformSource, PlatformAdapter> = {
+  shopify: {
+    signatures: {
+      inventoryItems: ['Handle', 'Title', 'Variant SKU', 'Variant Price'],
+      salesHistory: ['Name', 'Created at', 'Lineitem name', 'Lineitem quantity', 'Lineitem price'],
+    },
+    inventoryItems: shopifyProducts,
+    salesHistory: shopifyOrders,
+  },
+  square: {
+    signatures: {
+      inventoryItems: ['Item Name', 'Variation Name', 'SKU', 'Price'],
+      salesHistory: ['Date', 'Item', 'Qty', 'Gross Sales', 'Transaction ID'],
+    },
+    inventoryItems: squareItems,
+    salesHistory: squareItemSales,
+  },
+  woocommerce: {
+    signatures: {
+      inventoryItems: ['ID', 'Type', 'SKU', 'Name', 'Regular price'],
+      salesHistory: ['order_number', 'order_date', 'status'],
+    },
+    inventoryItems: wooCommerceProducts,
+    salesHistory: wooCommerceOrders,
+  },
+};
+
+/**
+ * Recognises a platform export from its headers
+ * @param type What is being imported
+ * @param headers The file's column headers
+ * @returns The platform whose export this is, or null for any other file
+ */
+export function detectPlatform(type: ImportType, headers: string[]): PlatformSource | null {
+  return PLATFORM_SOURCES.find(source =>
+    ADAPTERS[source].signatures[type].every(header => headers.includes(header))
+  ) ?? null;
+}
+
+/**
+ * Converts the rows of a platform's export into our import fields. Multi-line orders become one
+ * item per line, and product variants one item per variant with their size and color.
+ * @param source Platform the file was exported from
+ * @param type What is being imported
+ * @param rows Parsed file rows keyed by header
+ */
+export function adaptPlatformRows(source: PlatformSource, type: 'inventoryItems', rows: Row[]): PlatformInventoryItem[];
+export function adaptPlatformRows(source: PlatformSource, type: 'salesHistory', rows: Row[]): PlatformSalesItem[];
+export function adaptPlatformRows(source: PlatformSource, type: ImportType, rows: Row[]): (PlatformInventoryItem | PlatformSalesItem)[];
+export function adaptPlatformRows(source: PlatformSource, type: ImportType, rows: Row[]) {
+  return ADAPTERS[source][type](rows);
+}
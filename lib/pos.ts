@@ -0,0 +1,245 @@
+// Point-of-sale checkout: finding the product a scanned code belongs to, and the cart the counter builds up.
+import type { PrismaClient } from '@prisma/client';
+import { effectivePrice, variantLabel } from '@/lib/variants';
+import { calculateSaleTotals, NO_TAX, OrderDiscount, SaleTotals, TaxRates } from '@/lib/sale-totals';
+
+// Most a single scan can add, so a scanner misfire like "9999*" cannot ring up a huge line
+export const MAX_SCAN_QUANTITY = 999;
+
+export interface ScannedItem {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  sku: string | null;
+  price: number;
+  stockQuantity: number;
+  // The product's, which decides its tax rate
+  category: string | null;
+}
+
+export interface ScanResult {
+  item: ScannedItem | null;
+  // Set instead of item when the code is a product's and the cashier has to pick a variant
+  options: ScannedItem[];
+}
+
+export interface CartLine extends ScannedItem {
+  quantity: number;
+}
+
+export interface PosCart {
+  lines: CartLine[];
+  // Index of the highlighted line that quantity hotkeys change, or -1
+  selected: number;
+}
+
+export type CartAction =
+  | { type: 'add'; item: ScannedItem; quantity?: number }
+  | { type: 'setQuantity'; index: number; quantity: number }
+  | { type: 'remove'; index: number }
+  | { type: 'select'; index: number }
+  | { type: 'clear' };
+
+export const EMPTY_CART: PosCart = { lines: [], selected: -1 };
+
+/**
+ * Splits what the scanner or cashier typed into a code and a quantity. "3*MUG-1" rings up
+ * three of MUG-1; anything else is one of the code.
+ */
+export function parseScanInput(input: string): { code: string; quantity: number } | null {
+  const match = input.trim().match(/^(?:(\d+)\s*\*\s*)?(.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const quantity = match[1] ? parseInt(match[1], 10) : 1;
+  if (quantity < 1 || quantity > MAX_SCAN_QUANTITY) {
+    return null;
+  }
+  return { code: match[2].trim(), quantity };
+}
+
+function sameItem(a: ScannedItem, b: ScannedItem): boolean {
+  return a.productId === b.productId && a.variantId === b.variantId;
+}
+
+/**
+ * Applies a cashier's action to the cart. Scanning something already in the cart adds to
+ * its line, and setting a quantity to zero removes the line.
+ */
+export function cartReducer(cart: PosCart, action: CartAction): PosCart {
+  switch (action.type) {
+    case 'add': {
+      const quantity = action.quantity ?? 1;
+      const index = cart.lines.findIndex(line => sameItem(line, action.item));
+      if (index === -1) {
+        return { lines: [...cart.lines, { ...action.item, quantity }], selected: cart.lines.length };
+      }
+      return {
+        lines: cart.lines.map((line, i) => (i === index ? { ...line, quantity: line.quantity + quantity } : line)),
+        selected: index,
+      };
+    }
+    case 'setQuantity': {
+      if (!cart.lines[action.index]) {
+        return cart;
+      }
+      if (action.quantity <= 0) {
+        return cartReducer(cart, { type: 'remove', index: action.index });
+      }
+      return {
+        ...cart,
+        lines: cart.lines.map((line, i) => (
+          i === action.index ? { ...line, quantity: Math.min(Math.floor(action.quantity), MAX_SCAN_QUANTITY) } : line
+        )),
+      };
+    }
+    case 'remove': {
+      if (!cart.lines[action.index]) {
+        return cart;
+      }
+      const lines = cart.lines.filter((_, i) => i !== action.index);
+      return { lines, selected: Math.min(cart.selected, lines.length - 1) };
+    }
+    case 'select':
+      if (cart.lines.length === 0) {
+        return cart;
+      }
+      return { ...cart, selected: Math.max(0, Math.min(action.index, cart.lines.length - 1)) };
+    case 'clear':
+      return EMPTY_CART;
+  }
+}
+
+// Money is kept in cents while adding up so 0.1 + 0.2 does not show as 0.30000000000000004
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export function lineTotal(line: CartLine): number {
+  return (toCents(line.price) * line.quantity) / 100;
+}
+
+export function cartTotal(cart: PosCart): number {
+  return cart.lines.reduce((sum, line) => sum + toCents(line.price) * line.quantity, 0) / 100;
+}
+
+export function cartQuantity(cart: PosCart): number {
+  return cart.lines.reduce((sum, line) => sum + line.quantity, 0);
+}
+
+/**
+ * Subtotal, discount, tax and total of the cart, the way POST /api/sales will work them out
+ */
+export function cartTotals(cart: PosCart, rates: TaxRates = NO_TAX, discount?: OrderDiscount | null): SaleTotals {
+  return calculateSaleTotals(cart.lines, rates, discount);
+}
+
+/**
+ * Change to give back for cash tendered, or null when the cash does not cover the total
+ */
+export function changeDue(total: number, tendered: number): number | null {
+  const change = toCents(tendered) - toCents(total);
+  return change < 0 ? null : change / 100;
+}
+
+/**
+ * Lines whose quantity is more than is in stock; POST /api/sales would refuse the sale
+ */
+export function overstockedLines(cart: PosCart): CartLine[] {
+  return cart.lines.filter(line => line.quantity > line.stockQuantity);
+}
+
+/**
+ * The POST /api/sales body for checking out the cart
+ */
+export function saleRequestBody(
+  cart: PosCart,
+  paymentMethod: string,
+  options: { rates?: TaxRates; discount?: OrderDiscount | null; customerId?: string } = {}
+) {
+  return {
+    items: cart.lines.map(line => ({
+      productId: line.productId,
+      ...(line.variantId ? { variantId: line.variantId } : {}),
+      quantity: line.quantity,
+    })),
+    ...(options.discount ? { discount: options.discount } : {}),
+    paymentMethod,
+    totalAmount: cartTotals(cart, options.rates, options.discount).totalAmount,
+    ...(options.customerId ? { customerId: options.customerId } : {}),
+  };
+}
+
+type VariantRow = {
+  id: string;
+  sku: string | null;
+  size: string | null;
+  color: string | null;
+  priceOverride: number | null;
+  stockQuantity: number;
+};
+
+type ProductRow = {
+  id: string;
+  name: string;
+  sku: string | null;
+  sellingPrice: number | null;
+  stockQuantity: number;
+  category: string | null;
+};
+
+function scannedVariant(product: ProductRow, variant: VariantRow): ScannedItem {
+  return {
+    productId: product.id,
+    variantId: variant.id,
+    name: `${product.name} – ${variantLabel(variant)}`,
+    sku: variant.sku || product.sku,
+    price: effectivePrice(product, variant),
+    stockQuantity: variant.stockQuantity,
+    category: product.category,
+  };
+}
+
+/**
+ * Finds what a scanned code rings up in the business's active catalogue. Codes are compared
+ * with SKUs ignoring case; a variant's own SKU wins over its product's. Scanning the SKU of a
+ * product with several variants returns them as options, since stock is kept per variant.
+ */
+export async function lookupScanCode(client: PrismaClient, ownerId: string, code: string): Promise<ScanResult> {
+  const sku = { equals: code.trim(), mode: 'insensitive' as const };
+
+  const variant = await client.productVariant.findFirst({
+    where: { sku, isActive: true, product: { userId: ownerId, isActive: true } },
+    include: { product: true },
+  });
+  if (variant) {
+    return { item: scannedVariant(variant.product, variant), options: [] };
+  }
+
+  const product = await client.product.findFirst({
+    where: { sku, userId: ownerId, isActive: true },
+    include: { variants: { where: { isActive: true }, orderBy: { createdAt: 'asc' } } },
+  });
+  if (!product) {
+    return { item: null, options: [] };
+  }
+
+  if (product.variants.length === 1) {
+    return { item: scannedVariant(product, product.variants[0]), options: [] };
+  }
+  if (product.variants.length > 1) {
+    return { item: null, options: product.variants.map(option => scannedVariant(product, option)) };
+  }
+
+  return {
+    item: {
+      productId: product.id,
+      variantId: null,
+      name: product.name,
+      sku: product.sku,
+      price: effectivePrice(product),
+      stockQuantity: product.stockQuantity,
+      category: product.category,
+    },
+    options: [],
+  };
+}
@@ -0,0 +1,129 @@
+// Changing a product's details, shared by PUT /api/products and PATCH /api/v1/products/[productId]
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import type { AuthorizedSession } from '@/lib/authorize';
+import { recordAudit } from '@/lib/audit';
+import { parseReplenishmentSettings, ReplenishmentSettingsError } from '@/lib/analytics/replenishment';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { UpdateProductBody } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+
+// Preferred suppliers must belong to the same business
+export async function findSupplier(supplierId: string, userId: string) {
+  return prisma.supplier.findFirst({
+    where: {
+      id: supplierId,
+      userId,
+    },
+  });
+}
+
+/**
+ * Updates the fields given in the request body; fields left out keep their values
+ * @param session The signed-in user, or the API key's owner
+ * @param id The product, which must belong to the session's business
+ * @returns The updated product, or the error response to return
+ */
+export async function updateProduct(req: Request, session: AuthorizedSession, id: string): Promise<NextResponse> {
+  try {
+    const data = await parseBody(req, UpdateProductBody);
+    if (data instanceof NextResponse) {
+      return data;
+    }
+
+    const existingProduct = await prisma.product.findFirst({
+      where: {
+        id,
+        userId: session.user.ownerId
+      },
+    });
+    
+    if (!existingProduct) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+    
+    // Check if SKU is being changed and already exists
+    if (data.sku && data.sku !== existingProduct.sku) {
+      const duplicateSku = await prisma.product.findFirst({
+        where: {
+          sku: data.sku,
+          userId: session.user.ownerId,
+          id: { not: id }
+        },
+      });
+      
+      if (duplicateSku) {
+        return NextResponse.json({ error: "This SKU is already in use in your inventory. Please use a different SKU." }, { status: 400 });
+      }
+    }
+    
+    let replenishment;
+    try {
+      replenishment = parseReplenishmentSettings(data);
+    } catch (error) {
+      if (error instanceof ReplenishmentSettingsError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (replenishment.supplierId && !(await findSupplier(replenishment.supplierId, session.user.ownerId))) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+    
+    // Prepare images as JSON if provided
+    let imagesJson: Prisma.InputJsonValue | typeof Prisma.DbNull | undefined = undefined;
+    if (data.images && Array.isArray(data.images)) {
+      const imagesData = data.images.map((url: string) => ({
+        url,
+        alt: data.name || existingProduct.name
+      }));
+      imagesJson = imagesData.length > 0 ? imagesData : Prisma.DbNull;
+    }
+    
+    try {
+      const updatedProduct = await prisma.product.update({
+        where: {
+          id,
+        },
+        data: {
+          name: data.name !== undefined ? data.name : undefined,
+          description: data.description !== undefined ? data.description : undefined,
+          unitCost: data.unitCost,
+          sellingPrice: data.sellingPrice,
+          stockQuantity: data.stockQuantity,
+          sku: data.sku !== undefined ? data.sku : undefined,
+          category: data.category !== undefined ? data.category : undefined,
+          size: data.size !== undefined ? data.size : undefined,
+          color: data.color !== undefined ? data.color : undefined,
+          location: data.location !== undefined ? data.location : undefined,
+          leadTimeDays: replenishment.leadTimeDays,
+          safetyStockDays: replenishment.safetyStockDays,
+          supplierId: replenishment.supplierId,
+          imagesJson: imagesJson
+        }
+      });
+
+      await recordAudit(prisma, session, {
+        action: 'update',
+        entityType: 'Product',
+        entityId: id,
+        before: existingProduct,
+        after: updatedProduct,
+        summary: `Updated product ${updatedProduct.sku}`,
+      });
+      await emitWebhookEvent(prisma, session.user.ownerId, 'product.updated', updatedProduct);
+
+      return NextResponse.json(updatedProduct);
+    } catch (error: any) {
+      if (error.code === 'P2002' && error.meta?.target?.includes('sku')) {
+        return NextResponse.json({ error: "This SKU is already in use in your inventory. Please use a different SKU." }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error updating product:', error);
+    return NextResponse.json({ error: 'Failed to update product' }, { status: 500 });
+  }
+}
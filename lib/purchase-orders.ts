@@ -0,0 +1,213 @@
+// Purchase order lifecycle and receiving rules.
+
+export type PurchaseOrderStatus =
+  | 'DRAFT'
+  | 'SENT'
+  | 'PARTIALLY_RECEIVED'
+  | 'RECEIVED'
+  | 'CANCELLED';
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  'DRAFT',
+  'SENT',
+  'PARTIALLY_RECEIVED',
+  'RECEIVED',
+  'CANCELLED',
+];
+
+// Allowed manual status changes. Receiving moves an order to
+// PARTIALLY_RECEIVED / RECEIVED on its own, so those are not listed here.
+const STATUS_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  DRAFT: ['SENT', 'CANCELLED'],
+  SENT: ['CANCELLED'],
+  PARTIALLY_RECEIVED: ['RECEIVED'],
+  RECEIVED: [],
+  CANCELLED: [],
+};
+
+export interface PurchaseOrderLineState {
+  id: string;
+  productId: string;
+  variantId?: string | null;
+  quantityOrdered: number;
+  quantityReceived: number;
+}
+
+export interface ReceiptLineInput {
+  lineId: string;
+  quantity: number;
+}
+
+export interface PlannedReceiptLine {
+  lineId: string;
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  quantityReceivedAfter: number;
+  quantityOrdered: number;
+  variance: number; // positive = over-delivered, negative = still outstanding
+}
+
+export interface ReceiptPlan {
+  lines: PlannedReceiptLine[];
+  nextStatus: PurchaseOrderStatus;
+  isComplete: boolean;
+}
+
+// Error class for invalid purchase order operations
+export class PurchaseOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+  }
+}
+
+/**
+ * Checks whether an order may be moved manually from one status to another
+ * @param from Current status
+ * @param to Requested status
+ */
+export function canTransition(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Whether goods can still be received against an order in this status
+ */
+export function canReceive(status: PurchaseOrderStatus): boolean {
+  return status === 'SENT' || status === 'PARTIALLY_RECEIVED';
+}
+
+/**
+ * Formats a sequential purchase order number, e.g. PO-000042
+ * @param sequence 1-based sequence number within the business
+ */
+export function formatPoNumber(sequence: number): string {
+  return `PO-${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * Extracts the sequence from a PO number produced by formatPoNumber
+ * @returns The sequence, or 0 when the number is not in the expected format
+ */
+export function parsePoSequence(poNumber: string | null | undefined): number {
+  const match = poNumber?.match(/^PO-(\d+)$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+/**
+ * The PO number after the highest one a business has used. Numbers are compared by their
+ * sequence, so PO-1000000 comes after PO-999999.
+ */
+export function nextPoNumber(poNumbers: (string | null)[]): string {
+  const highest = poNumbers.reduce((max, poNumber) => Math.max(max, parsePoSequence(poNumber)), 0);
+  return formatPoNumber(highest + 1);
+}
+
+/**
+ * Checks each order line against its product: lines for products with variants must name one of
+ * that product's active variants, and lines for other products must not name a variant
+ * @param lines Order lines being created
+ * @param products The lines' products with the ids of their active variants
+ * @throws PurchaseOrderError when a line's variant does not fit its product
+ */
+export function assertLineVariants(
+  lines: { productId: string; variantId?: string | null }[],
+  products: { id: string; name: string; variants: { id: string }[] }[]
+): void {
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  for (const line of lines) {
+    const product = productsById.get(line.productId);
+    if (!product) {
+      continue;
+    }
+
+    if (line.variantId) {
+      if (!product.variants.some(variant => variant.id === line.variantId)) {
+        throw new PurchaseOrderError(`Variant ${line.variantId} not found for product ${product.name}`);
+      }
+    } else if (product.variants.length > 0) {
+      throw new PurchaseOrderError(`Choose which variant of ${product.name} is being ordered`);
+    }
+  }
+}
+
+/**
+ * Validates a receipt against the order lines and works out the resulting quantities
+ * and order status. Over-deliveries are accepted and reported as positive variance.
+ * @param lines Current order lines
+ * @param receipts Quantities being received now
+ * @param closeShort Mark the order RECEIVED even if some lines are under-delivered
+ * @throws PurchaseOrderError when a receipt line is invalid
+ */
+export function planReceipt(
+  lines: PurchaseOrderLineState[],
+  receipts: ReceiptLineInput[],
+  closeShort: boolean = false
+): ReceiptPlan {
+  if (!Array.isArray(receipts) || receipts.length === 0) {
+    throw new PurchaseOrderError('At least one receipt line is required');
+  }
+
+  const linesById = new Map(lines.map(line => [line.id, line]));
+  const receivedNow = new Map<string, number>();
+
+  for (const receipt of receipts) {
+    const line = linesById.get(receipt.lineId);
+    if (!line) {
+      throw new PurchaseOrderError(`Line ${receipt.lineId} is not part of this purchase order`);
+    }
+
+    if (!Number.isInteger(receipt.quantity) || receipt.quantity <= 0) {
+      throw new PurchaseOrderError(`Received quantity for line ${receipt.lineId} must be a positive whole number`);
+    }
+
+    receivedNow.set(line.id, (receivedNow.get(line.id) || 0) + receipt.quantity);
+  }
+
+  const plannedLines: PlannedReceiptLine[] = [];
+  let isComplete = true;
+
+  for (const line of lines) {
+    const quantity = receivedNow.get(line.id) || 0;
+    const quantityReceivedAfter = line.quantityReceived + quantity;
+
+    if (quantityReceivedAfter < line.quantityOrdered) {
+      isComplete = false;
+    }
+
+    if (quantity > 0) {
+      plannedLines.push({
+        lineId: line.id,
+        productId: line.productId,
+        variantId: line.variantId ?? null,
+        quantity,
+        quantityReceivedAfter,
+        quantityOrdered: line.quantityOrdered,
+        variance: quantityReceivedAfter - line.quantityOrdered,
+      });
+    }
+  }
+
+  return {
+    lines: plannedLines,
+    nextStatus: isComplete || closeShort ? 'RECEIVED' : 'PARTIALLY_RECEIVED',
+    isComplete,
+  };
+}
+
+/**
+ * Builds the note stored on the inventory change for a received line
+ */
+export function describeVariance(line: PlannedReceiptLine): string | null {
+  if (line.variance > 0) {
+    return `Over-delivered by ${line.variance} (ordered ${line.quantityOrdered}, received ${line.quantityReceivedAfter})`;
+  }
+
+  if (line.variance < 0) {
+    return `${-line.variance} outstanding (ordered ${line.quantityOrdered}, received ${line.quantityReceivedAfter})`;
+  }
+
+  return null;
+}
@@ -0,0 +1,251 @@
+// Money customers still owe: payments recorded against sales not paid in full, the balance left
+// on each, the aging report and the reminders sent once a sale is overdue.
+import { PrismaClient } from '@prisma/client';
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { formatInvoiceNumber, INVOICE_PAYMENT_TERMS_DAYS } from '@/lib/invoices';
+import { NotificationEvent, notify } from '@/lib/notifications';
+
+// Payment statuses of sales with money still to come in
+export const OPEN_PAYMENT_STATUSES = ['PENDING', 'PARTIALLY_PAID'];
+
+// Days between reminders about the same overdue sale
+export const OVERDUE_REMINDER_INTERVAL_DAYS = 7;
+
+// Age of the sale in days; the last bucket has no upper limit
+export const AGING_BUCKETS = [
+  { label: '0-30', minDays: 0, maxDays: 30 },
+  { label: '31-60', minDays: 31, maxDays: 60 },
+  { label: '61-90', minDays: 61, maxDays: 90 },
+  { label: '90+', minDays: 91, maxDays: null },
+] as const;
+
+export type AgingBucketLabel = typeof AGING_BUCKETS[number]['label'];
+
+export interface ReceivableSale {
+  id: string;
+  date: Date;
+  totalAmount: number;
+  refundedAmount: number;
+  paymentStatus: string;
+  // Set on card sales paid online, which the payment gateway settles
+  gatewayPaymentId?: string | null;
+  payments: { amount: number }[];
+  invoice?: { number: number; dueDate: Date | null } | null;
+}
+
+export interface PaymentPlan {
+  paidAmountAfter: number;
+  balanceAfter: number;
+  nextStatus: 'PAID' | 'PARTIALLY_PAID';
+}
+
+export interface AgedReceivable {
+  saleId: string;
+  invoiceNumber: string | null;
+  customer: { id: string; name: string; email: string | null } | null;
+  date: Date;
+  dueDate: Date;
+  totalAmount: number;
+  paidAmount: number;
+  balanceDue: number;
+  daysOld: number;
+  // 0 until the due date has passed
+  daysOverdue: number;
+  bucket: AgingBucketLabel;
+}
+
+export interface AgingReport {
+  asOf: Date;
+  totalOutstanding: number;
+  totalOverdue: number;
+  buckets: { label: AgingBucketLabel; count: number; amount: number }[];
+  sales: AgedReceivable[];
+}
+
+// Error class for payments a sale cannot take
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function paidAmount(sale: { payments: { amount: number }[] }): number {
+  return roundCurrency(sale.payments.reduce((sum, payment) => sum + payment.amount, 0));
+}
+
+/**
+ * What the customer still owes on a sale, after payments and refunds
+ */
+export function balanceDue(sale: Pick<ReceivableSale, 'totalAmount' | 'refundedAmount' | 'payments'>): number {
+  return Math.max(0, roundCurrency(sale.totalAmount - (sale.refundedAmount || 0) - paidAmount(sale)));
+}
+
+/**
+ * The payment status of an unpaid sale once this much of it has been paid
+ */
+export function statusForPaidAmount(sale: { totalAmount: number; refundedAmount: number }, paid: number): string {
+  if (paid <= 0) {
+    return 'PENDING';
+  }
+  return roundCurrency(sale.totalAmount - (sale.refundedAmount || 0) - paid) <= 0 ? 'PAID' : 'PARTIALLY_PAID';
+}
+
+/**
+ * When a sale has to be paid by: its invoice's due date, or the usual payment terms after
+ * the sale for sales without one
+ */
+export function dueDateOf(sale: Pick<ReceivableSale, 'date' | 'invoice'>): Date {
+  return sale.invoice?.dueDate ?? addDays(sale.date, INVOICE_PAYMENT_TERMS_DAYS);
+}
+
+export function agingBucket(daysOld: number): AgingBucketLabel {
+  const bucket = AGING_BUCKETS.find(b => b.maxDays === null || daysOld <= b.maxDays);
+  return bucket!.label;
+}
+
+/**
+ * Checks a payment against the sale and works out its new balance and payment status
+ * @throws PaymentError when the sale is not waiting for payment or the amount is more than is owed
+ */
+export function planPayment(sale: ReceivableSale, amount: number): PaymentPlan {
+  if (!OPEN_PAYMENT_STATUSES.includes(sale.paymentStatus)) {
+    throw new PaymentError(`Cannot record a payment against a sale that is ${sale.paymentStatus}`);
+  }
+
+  if (sale.gatewayPaymentId) {
+    throw new PaymentError('This sale is being paid by card online; its payment is recorded when the card is charged');
+  }
+
+  if (!(amount > 0)) {
+    throw new PaymentError('Payment amount must be greater than 0');
+  }
+
+  const balance = balanceDue(sale);
+  if (roundCurrency(amount) > balance) {
+    throw new PaymentError(`Payment of ${amount.toFixed(2)} is more than the ${balance.toFixed(2)} still owed`);
+  }
+
+  const paidAmountAfter = roundCurrency(paidAmount(sale) + amount);
+  const balanceAfter = roundCurrency(balance - amount);
+  return {
+    paidAmountAfter,
+    balanceAfter,
+    nextStatus: balanceAfter <= 0 ? 'PAID' : 'PARTIALLY_PAID',
+  };
+}
+
+/**
+ * Groups the balances still owed by how long ago the sale was made
+ */
+export function buildAgingReport(
+  sales: (ReceivableSale & { customer?: AgedReceivable['customer'] })[],
+  now: Date = new Date()
+): AgingReport {
+  const aged: AgedReceivable[] = sales
+    .map(sale => {
+      const dueDate = dueDateOf(sale);
+      const daysOld = Math.max(0, differenceInCalendarDays(now, sale.date));
+      return {
+        saleId: sale.id,
+        invoiceNumber: sale.invoice ? formatInvoiceNumber(sale.invoice.number) : null,
+        customer: sale.customer ?? null,
+        date: sale.date,
+        dueDate,
+        totalAmount: sale.totalAmount,
+        paidAmount: paidAmount(sale),
+        balanceDue: balanceDue(sale),
+        daysOld,
+        daysOverdue: Math.max(0, differenceInCalendarDays(now, dueDate)),
+        bucket: agingBucket(daysOld),
+      };
+    })
+    .filter(sale => sale.balanceDue > 0)
+    .sort((a, b) => b.daysOld - a.daysOld);
+
+  const total = (list: AgedReceivable[]) => roundCurrency(list.reduce((sum, sale) => sum + sale.balanceDue, 0));
+
+  return {
+    asOf: now,
+    totalOutstanding: total(aged),
+    totalOverdue: total(aged.filter(sale => sale.daysOverdue > 0)),
+    buckets: AGING_BUCKETS.map(({ label }) => {
+      const inBucket = aged.filter(sale => sale.bucket === label);
+      return { label, count: inBucket.length, amount: total(inBucket) };
+    }),
+    sales: aged,
+  };
+}
+
+const RECEIVABLE_INCLUDE = {
+  payments: { select: { amount: true } },
+  invoice: { select: { number: true, dueDate: true } },
+  customer: { select: { id: true, name: true, email: true } },
+} as const;
+
+/**
+ * The aging report of every sale of the business still waiting for payment
+ */
+export async function loadAgingReport(client: PrismaClient, ownerId: string, now: Date = new Date()): Promise<AgingReport> {
+  const sales = await client.sale.findMany({
+    where: { userId: ownerId, paymentStatus: { in: OPEN_PAYMENT_STATUSES }, gatewayPaymentId: null },
+    include: RECEIVABLE_INCLUDE,
+  });
+  return buildAgingReport(sales, now);
+}
+
+/**
+ * The reminder that a sale is past its due date
+ */
+export function overdueNotification(sale: AgedReceivable): NotificationEvent {
+  const label = sale.invoiceNumber ? `Invoice ${sale.invoiceNumber}` : `Sale #${sale.saleId}`;
+  const days = sale.daysOverdue === 1 ? '1 day' : `${sale.daysOverdue} days`;
+  return {
+    type: 'payment.overdue',
+    title: `${label} is ${days} overdue`,
+    body: `$${sale.balanceDue.toFixed(2)} of $${sale.totalAmount.toFixed(2)} is still owed` +
+      (sale.customer ? ` by ${sale.customer.name}.` : '.'),
+    link: '/receivables',
+    data: { saleId: sale.saleId, balanceDue: sale.balanceDue, dueDate: sale.dueDate },
+  };
+}
+
+/**
+ * Notifies each business about sales that are past their due date and still owed, again every
+ * OVERDUE_REMINDER_INTERVAL_DAYS while they stay unpaid. Who hears about them follows the
+ * payment notification preference.
+ * @returns How many overdue sales were reminded about
+ */
+export async function sendOverdueReminders(client: PrismaClient, now: Date = new Date()): Promise<number> {
+  const sales = await client.sale.findMany({
+    where: {
+      paymentStatus: { in: OPEN_PAYMENT_STATUSES },
+      gatewayPaymentId: null,
+      OR: [
+        { overdueNotifiedAt: null },
+        { overdueNotifiedAt: { lte: addDays(now, -OVERDUE_REMINDER_INTERVAL_DAYS) } },
+      ],
+    },
+    include: RECEIVABLE_INCLUDE,
+  });
+
+  let reminded = 0;
+  for (const sale of sales) {
+    const [aged] = buildAgingReport([sale], now).sales;
+    if (!aged || aged.daysOverdue <= 0) {
+      continue;
+    }
+
+    await notify(client, sale.userId, overdueNotification(aged));
+    await client.sale.update({
+      where: { id: sale.id },
+      data: { overdueNotifiedAt: now },
+    });
+    reminded++;
+  }
+  return reminded;
+}
@@ -0,0 +1,141 @@
+// Sale return and refund rules.
+
+export interface ReturnableSale {
+  totalAmount: number;
+  refundedAmount: number;
+  paymentStatus: string;
+  items: ReturnableSaleItem[];
+}
+
+export interface ReturnableSaleItem {
+  id: string;
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  returnedQuantity: number;
+  price: number;
+  // Over the whole line; sales from before totals were worked out on the server have neither
+  discountAmount?: number;
+  taxAmount?: number;
+}
+
+export interface ReturnLineInput {
+  saleItemId: string;
+  quantity: number;
+}
+
+export interface PlannedReturnLine {
+  saleItemId: string;
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  refundAmount: number;
+}
+
+export interface ReturnPlan {
+  lines: PlannedReturnLine[];
+  refundAmount: number;
+  refundedAmountAfter: number;
+  nextStatus: 'REFUNDED' | 'PARTIALLY_REFUNDED';
+}
+
+// Payment statuses a return can be made against
+const RETURNABLE_STATUSES = ['COMPLETED', 'PAID', 'PARTIALLY_REFUNDED'];
+
+// Error class for invalid returns
+export class ReturnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReturnError';
+  }
+}
+
+/**
+ * Whether goods can still be returned against a sale in this payment status
+ */
+export function canReturn(paymentStatus: string): boolean {
+  return RETURNABLE_STATUSES.includes(paymentStatus);
+}
+
+/**
+ * Revenue a sale contributes once refunds are taken off
+ */
+export function netSaleAmount(sale: { totalAmount: number; refundedAmount?: number | null }): number {
+  return sale.totalAmount - (sale.refundedAmount || 0);
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// What the customer paid for one unit of the line
+function paidPerUnit(item: ReturnableSaleItem): number {
+  return (item.price * item.quantity - (item.discountAmount || 0) + (item.taxAmount || 0)) / item.quantity;
+}
+
+/**
+ * Validates a return against the sale and works out the refund and new payment status.
+ * Each unit is refunded at what was paid for it, after discounts and with tax. The running
+ * refund total is capped at the sale total so rounding can never refund more than was paid.
+ * @param sale Sale with its items, including quantities already returned
+ * @param lines Quantities being returned now
+ * @throws ReturnError when a line is invalid or the sale cannot be returned
+ */
+export function planReturn(sale: ReturnableSale, lines: ReturnLineInput[]): ReturnPlan {
+  if (!canReturn(sale.paymentStatus)) {
+    throw new ReturnError(`Cannot return items from a sale that is ${sale.paymentStatus}`);
+  }
+
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new ReturnError('At least one item to return is required');
+  }
+
+  const itemsById = new Map(sale.items.map(item => [item.id, item]));
+  const returningNow = new Map<string, number>();
+
+  for (const line of lines) {
+    const item = itemsById.get(line.saleItemId);
+    if (!item) {
+      throw new ReturnError(`Item ${line.saleItemId} is not part of this sale`);
+    }
+
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new ReturnError(`Return quantity for item ${line.saleItemId} must be a positive whole number`);
+    }
+
+    const quantity = (returningNow.get(item.id) || 0) + line.quantity;
+    const returnable = item.quantity - item.returnedQuantity;
+    if (quantity > returnable) {
+      throw new ReturnError(`Only ${returnable} of item ${item.id} can still be returned`);
+    }
+
+    returningNow.set(item.id, quantity);
+  }
+
+  const plannedLines: PlannedReturnLine[] = Array.from(returningNow.entries()).map(([saleItemId, quantity]) => {
+    const item = itemsById.get(saleItemId)!;
+    return {
+      saleItemId,
+      productId: item.productId,
+      variantId: item.variantId || null,
+      quantity,
+      refundAmount: roundCurrency(paidPerUnit(item) * quantity),
+    };
+  });
+
+  const requested = roundCurrency(plannedLines.reduce((sum, line) => sum + line.refundAmount, 0));
+  const remaining = roundCurrency(sale.totalAmount - sale.refundedAmount);
+  const refundAmount = Math.min(requested, Math.max(0, remaining));
+  const refundedAmountAfter = roundCurrency(sale.refundedAmount + refundAmount);
+
+  const everythingReturned = sale.items.every(
+    item => item.returnedQuantity + (returningNow.get(item.id) || 0) >= item.quantity
+  );
+
+  return {
+    lines: plannedLines,
+    refundAmount,
+    refundedAmountAfter,
+    nextStatus: everythingReturned || refundedAmountAfter >= sale.totalAmount ? 'REFUNDED' : 'PARTIALLY_REFUNDED',
+  };
+}
@@ -0,0 +1,396 @@
+// Documents for customers: an HTML receipt sized for 80mm thermal printers and an A4 PDF invoice.
+// Both are rendered on the server from the sale, its line items and the BusinessProfile.
+import { readFile } from 'fs/promises';
+import { join, normalize, sep } from 'path';
+import { PrismaClient } from '@prisma/client';
+import { format } from 'date-fns';
+import PDFDocument from 'pdfkit';
+import { ensureInvoice, formatInvoiceNumber } from '@/lib/invoices';
+import { variantLabel } from '@/lib/variants';
+
+export interface SaleDocumentLine {
+  description: string;
+  sku: string | null;
+  quantity: number;
+  returnedQuantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface SaleDocument {
+  saleId: string;
+  // Short reference printed on receipts, e.g. "CLX3F9A2"
+  reference: string;
+  date: Date;
+  paymentMethod: string;
+  paymentStatus: string;
+  business: {
+    name: string;
+    addressLines: string[];
+    phone: string | null;
+    website: string | null;
+    taxId: string | null;
+    logo: string | null;
+  };
+  customer: {
+    name: string;
+    email: string | null;
+    phone: string | null;
+    address: string | null;
+  } | null;
+  lines: SaleDocumentLine[];
+  // Null on sales imported from history, which only have their total
+  subtotal: number | null;
+  discount: number;
+  tax: number;
+  total: number;
+  refunded: number;
+  invoice: { number: string; issuedAt: Date; dueDate: Date | null } | null;
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  CASH: 'Cash',
+  CREDIT_CARD: 'Credit card',
+  DEBIT_CARD: 'Debit card',
+  PAYPAL: 'PayPal',
+  STRIPE: 'Card (Stripe)',
+  INVOICE: 'Invoice',
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2
+  }).format(value);
+};
+
+const formatDate = (date: Date) => format(date, 'MMM d, yyyy');
+
+export function paymentMethodLabel(method: string): string {
+  return PAYMENT_METHOD_LABELS[method] || method;
+}
+
+/**
+ * Everything a receipt or invoice shows for a sale of the business, or null when the
+ * business has no such sale
+ * @param options.invoice Also issue the sale's invoice number if it does not have one yet
+ */
+export async function loadSaleDocument(
+  client: PrismaClient,
+  ownerId: string,
+  saleId: string,
+  options: { invoice?: boolean } = {}
+): Promise<SaleDocument | null> {
+  const sale = await client.sale.findFirst({
+    where: { id: saleId, userId: ownerId },
+    include: {
+      customer: true,
+      invoice: true,
+      items: {
+        include: {
+          product: { select: { name: true, sku: true } },
+          variant: { select: { sku: true, size: true, color: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+  if (!sale) {
+    return null;
+  }
+
+  const [profile, invoice] = await Promise.all([
+    client.businessProfile.findUnique({ where: { userId: ownerId } }),
+    options.invoice ? ensureInvoice(client, sale) : Promise.resolve(sale.invoice),
+  ]);
+
+  const locality = [profile?.city, [profile?.state, profile?.zipCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+  return {
+    saleId: sale.id,
+    reference: sale.id.slice(-8).toUpperCase(),
+    date: sale.date,
+    paymentMethod: sale.paymentMethod,
+    paymentStatus: sale.paymentStatus,
+    business: {
+      name: profile?.businessName || 'Receipt',
+      addressLines: [profile?.address, locality, profile?.country].filter((line): line is string => Boolean(line)),
+      phone: profile?.phone ?? null,
+      website: profile?.website ?? null,
+      taxId: profile?.taxId ?? null,
+      logo: profile?.logo || null,
+    },
+    customer: sale.customer
+      ? {
+        name: sale.customer.name,
+        email: sale.customer.email,
+        phone: sale.customer.phone,
+        address: sale.customer.address,
+      }
+      : null,
+    lines: sale.items.map(item => {
+      const name = item.productName || item.product.name;
+      return {
+        description: item.variant ? `${name} (${variantLabel(item.variant)})` : name,
+        sku: item.variant?.sku || item.product.sku,
+        quantity: item.quantity,
+        returnedQuantity: item.returnedQuantity,
+        unitPrice: item.price,
+        amount: item.price * item.quantity,
+      };
+    }),
+    subtotal: sale.subtotal,
+    discount: sale.discountAmount,
+    tax: sale.taxAmount,
+    total: sale.totalAmount,
+    refunded: sale.refundedAmount,
+    invoice: invoice
+      ? { number: formatInvoiceNumber(invoice.number), issuedAt: invoice.issuedAt, dueDate: invoice.dueDate }
+      : null,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const RECEIPT_STYLES = `
+@page { size: 80mm auto; margin: 0; }
+* { box-sizing: border-box; }
+body { width: 72mm; margin: 0 auto; padding: 4mm 0; font: 12px/1.35 "Courier New", Courier, monospace; color: #000; }
+header, footer { text-align: center; }
+img { max-width: 40mm; max-height: 20mm; }
+h1 { font-size: 14px; margin: 2mm 0 1mm; }
+p { margin: 0; }
+hr { border: 0; border-top: 1px dashed #000; margin: 2mm 0; }
+.row { display: flex; justify-content: space-between; gap: 2mm; }
+.item { margin-bottom: 1mm; }
+.detail { padding-left: 3mm; }
+.total { font-weight: bold; font-size: 14px; }
+`;
+
+// Subtotal, discount and tax lines above the total, left off when there is nothing to break down
+function breakdown(doc: SaleDocument): [string, string][] {
+  if (doc.subtotal === null || (doc.discount === 0 && doc.tax === 0)) {
+    return [];
+  }
+  return [
+    ['Subtotal', formatCurrency(doc.subtotal)],
+    ...(doc.discount > 0 ? [['Discount', `-${formatCurrency(doc.discount)}`] as [string, string]] : []),
+    ['Tax', formatCurrency(doc.tax)],
+  ];
+}
+
+/**
+ * The receipt as a standalone HTML page, 72mm wide to fit 80mm thermal paper
+ * @param options.autoPrint Open the print dialog as soon as the page loads
+ */
+export function renderReceiptHtml(doc: SaleDocument, options: { autoPrint?: boolean } = {}): string {
+  const { business } = doc;
+  const row = (label: string, value: string, className = 'row') =>
+    `<div class="${className}"><span>${escapeHtml(label)}</span><span>${escapeHtml(value)}</span></div>`;
+
+  const items = doc.lines.map(line => [
+    '<div class="item">',
+    `<p>${escapeHtml(line.description)}</p>`,
+    row(`${line.quantity} x ${formatCurrency(line.unitPrice)}`, formatCurrency(line.amount), 'row detail'),
+    line.returnedQuantity > 0 ? `<p class="detail">${line.returnedQuantity} returned</p>` : '',
+    '</div>',
+  ].join(''));
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8">',
+    `<title>Receipt ${escapeHtml(doc.reference)}</title>`,
+    `<style>${RECEIPT_STYLES}</style>`,
+    '</head><body>',
+    '<header>',
+    business.logo ? `<img src="${escapeHtml(business.logo)}" alt="">` : '',
+    `<h1>${escapeHtml(business.name)}</h1>`,
+    ...business.addressLines.map(line => `<p>${escapeHtml(line)}</p>`),
+    business.phone ? `<p>${escapeHtml(business.phone)}</p>` : '',
+    business.taxId ? `<p>Tax ID ${escapeHtml(business.taxId)}</p>` : '',
+    '</header><hr>',
+    row('Receipt', doc.reference),
+    row('Date', format(doc.date, 'MMM d, yyyy h:mm a')),
+    doc.invoice ? row('Invoice', doc.invoice.number) : '',
+    doc.customer ? row('Customer', doc.customer.name) : '',
+    '<hr>',
+    ...items,
+    '<hr>',
+    ...breakdown(doc).map(([label, value]) => row(label, value)),
+    row('TOTAL', formatCurrency(doc.total), 'row total'),
+    doc.refunded > 0 ? row('Refunded', `-${formatCurrency(doc.refunded)}`) : '',
+    row('Paid by', paymentMethodLabel(doc.paymentMethod)),
+    '<hr><footer><p>Thank you!</p>',
+    business.website ? `<p>${escapeHtml(business.website)}</p>` : '',
+    '</footer>',
+    options.autoPrint ? '<script>window.addEventListener("load", function () { window.print(); });</script>' : '',
+    '</body></html>',
+  ].join('\n');
+}
+
+// PDFKit can only draw PNG and JPEG images
+function isPngOrJpeg(data: Buffer): boolean {
+  return data.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47])) ||
+    data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]));
+}
+
+/**
+ * The business logo's image data: a data URL, a file under public/ or an http(s) URL.
+ * A logo that cannot be read is left off rather than failing the invoice.
+ */
+async function loadLogo(logo: string | null): Promise<Buffer | null> {
+  if (!logo) {
+    return null;
+  }
+
+  try {
+    let data: Buffer | null = null;
+    if (logo.startsWith('data:')) {
+      data = Buffer.from(logo.slice(logo.indexOf(',') + 1), 'base64');
+    } else if (logo.startsWith('/')) {
+      const publicDir = join(process.cwd(), 'public');
+      const path = normalize(join(publicDir, logo));
+      if (path.startsWith(publicDir + sep)) {
+        data = await readFile(path);
+      }
+    } else if (/^https?:\/\//.test(logo)) {
+      const response = await fetch(logo, { signal: AbortSignal.timeout(5000) });
+      if (response.ok) {
+        data = Buffer.from(await response.arrayBuffer());
+      }
+    }
+    return data && isPngOrJpeg(data) ? data : null;
+  } catch (error) {
+    console.error('Error loading business logo for invoice:', error);
+    return null;
+  }
+}
+
+/**
+ * The sale's invoice as an A4 PDF. The document must have been loaded with its invoice.
+ */
+export async function renderInvoicePdf(doc: SaleDocument): Promise<Buffer> {
+  if (!doc.invoice) {
+    throw new Error(`Sale ${doc.saleId} has no invoice`);
+  }
+  const { business, customer, invoice } = doc;
+  const logo = await loadLogo(business.logo);
+
+  const pdf = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Invoice ${invoice.number}`, Author: business.name } });
+  const chunks: Buffer[] = [];
+  pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+  });
+
+  const left = pdf.page.margins.left;
+  const right = pdf.page.width - pdf.page.margins.right;
+  const width = right - left;
+
+  // Business on the left, invoice details on the right
+  if (logo) {
+    pdf.image(logo, left, 50, { fit: [120, 60] });
+    pdf.y = 120;
+  }
+  pdf.font('Helvetica-Bold').fontSize(14).text(business.name, left, pdf.y, { width: width / 2 });
+  pdf.font('Helvetica').fontSize(10);
+  for (const line of [...business.addressLines, business.phone, business.website]) {
+    if (line) pdf.text(line, { width: width / 2 });
+  }
+  if (business.taxId) pdf.text(`Tax ID: ${business.taxId}`, { width: width / 2 });
+  const afterBusiness = pdf.y;
+
+  pdf.font('Helvetica-Bold').fontSize(24).text('INVOICE', left, 50, { width, align: 'right' });
+  pdf.font('Helvetica').fontSize(10);
+  const details: [string, string][] = [
+    ['Invoice number', invoice.number],
+    ['Date', formatDate(invoice.issuedAt)],
+    ['Sale date', formatDate(doc.date)],
+  ];
+  if (invoice.dueDate) details.push(['Due date', formatDate(invoice.dueDate)]);
+  details.push(['Payment', paymentMethodLabel(doc.paymentMethod)]);
+  for (const [label, value] of details) {
+    pdf.text(`${label}: ${value}`, left, pdf.y, { width, align: 'right' });
+  }
+
+  pdf.y = Math.max(afterBusiness, pdf.y) + 25;
+
+  if (customer) {
+    pdf.font('Helvetica-Bold').text('Bill to', left, pdf.y);
+    pdf.font('Helvetica').text(customer.name);
+    for (const line of [customer.address, customer.email, customer.phone]) {
+      if (line) pdf.text(line);
+    }
+    pdf.moveDown(1.5);
+  }
+
+  // Line items
+  const columns = [
+    { label: 'Description', x: left, width: width - 240, align: 'left' as const },
+    { label: 'Qty', x: right - 240, width: 50, align: 'right' as const },
+    { label: 'Unit price', x: right - 180, width: 80, align: 'right' as const },
+    { label: 'Amount', x: right - 90, width: 90, align: 'right' as const },
+  ];
+  const drawRow = (values: string[], bold = false) => {
+    if (pdf.y > pdf.page.height - pdf.page.margins.bottom - 60) {
+      pdf.addPage();
+    }
+    const top = pdf.y;
+    pdf.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    let bottom = top;
+    columns.forEach((column, i) => {
+      pdf.text(values[i], column.x, top, { width: column.width, align: column.align });
+      bottom = Math.max(bottom, pdf.y);
+    });
+    pdf.y = bottom + 6;
+  };
+
+  drawRow(columns.map(column => column.label), true);
+  pdf.moveTo(left, pdf.y - 3).lineTo(right, pdf.y - 3).strokeColor('#999999').stroke();
+  for (const line of doc.lines) {
+    const description = [
+      line.description,
+      line.sku ? `SKU ${line.sku}` : null,
+      line.returnedQuantity > 0 ? `${line.returnedQuantity} returned` : null,
+    ].filter(Boolean).join('\n');
+    drawRow([description, String(line.quantity), formatCurrency(line.unitPrice), formatCurrency(line.amount)]);
+  }
+  pdf.moveTo(left, pdf.y - 3).lineTo(right, pdf.y - 3).stroke();
+
+  // Totals
+  const total = (label: string, value: string, bold = false) => {
+    const top = pdf.y;
+    pdf.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    pdf.text(label, right - 240, top, { width: 140, align: 'right' });
+    pdf.text(value, right - 90, top, { width: 90, align: 'right' });
+    pdf.moveDown(0.3);
+  };
+  pdf.moveDown(0.5);
+  for (const [label, value] of breakdown(doc)) {
+    total(label, value);
+  }
+  total('Total', formatCurrency(doc.total), true);
+  if (doc.refunded > 0) {
+    total('Refunded', `-${formatCurrency(doc.refunded)}`);
+    total('Net', formatCurrency(doc.total - doc.refunded), true);
+  }
+
+  if (invoice.dueDate) {
+    pdf.moveDown(2);
+    pdf.font('Helvetica').text(`Please pay by ${formatDate(invoice.dueDate)}, quoting ${invoice.number}.`, left, pdf.y, { width });
+  }
+
+  pdf.end();
+  return finished;
+}
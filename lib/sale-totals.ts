@@ -0,0 +1,199 @@
+// Sale totals: discounts and sales tax worked out from the items. POST /api/sales checks the
+// total it is sent against these, and the checkout pages use the same rules to show it.
+import type { PrismaClient } from '@prisma/client';
+
+export type LineDiscount =
+  | { type: 'PERCENTAGE'; value: number }
+  // Amount off the whole line, not off each unit
+  | { type: 'FIXED'; value: number }
+  // Every buy + get units, get of them are free
+  | { type: 'BUY_X_GET_Y'; buy: number; get: number };
+
+export type OrderDiscount =
+  | { type: 'PERCENTAGE'; value: number }
+  | { type: 'FIXED'; value: number };
+
+export interface TotalsLine {
+  price: number;
+  quantity: number;
+  category?: string | null;
+  discount?: LineDiscount | null;
+}
+
+// Rates in percent
+export interface TaxRates {
+  defaultRate: number;
+  // Keyed by lower-case category name
+  categories: Record<string, number>;
+}
+
+export interface LineTotals {
+  subtotal: number;
+  // The line's own discount plus its share of the order discount
+  discountAmount: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+}
+
+export interface SaleTotals {
+  lines: LineTotals[];
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+export const NO_TAX: TaxRates = { defaultRate: 0, categories: {} };
+
+// Money is worked out in whole cents so rounding happens once per line, the way a till does it
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Tax rates as GET /api/tax-rates lists them
+ */
+export function taxRatesFromList(list: { defaultRate: number; categories: { category: string; rate: number }[] }): TaxRates {
+  return {
+    defaultRate: list.defaultRate,
+    categories: Object.fromEntries(list.categories.map(rate => [rate.category.trim().toLowerCase(), rate.rate])),
+  };
+}
+
+/**
+ * The tax rate of a category, falling back to the business's default rate
+ */
+export function taxRateFor(rates: TaxRates, category?: string | null): number {
+  const key = category?.trim().toLowerCase();
+  return key && key in rates.categories ? rates.categories[key] : rates.defaultRate;
+}
+
+function lineDiscountCents(subtotal: number, line: TotalsLine): number {
+  const { discount } = line;
+  if (!discount) {
+    return 0;
+  }
+
+  switch (discount.type) {
+    case 'PERCENTAGE':
+      return Math.round((subtotal * discount.value) / 100);
+    case 'FIXED':
+      return toCents(discount.value);
+    case 'BUY_X_GET_Y': {
+      const free = Math.floor(line.quantity / (discount.buy + discount.get)) * discount.get;
+      return free * toCents(line.price);
+    }
+  }
+}
+
+/**
+ * Splits an amount across lines in proportion to their weights. Cents left over from
+ * rounding go to the lines with the largest remainders, so the shares add up exactly.
+ */
+function allocate(amount: number, weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map(weight => (amount * weight) / total);
+  const shares = exact.map(Math.floor);
+  let left = amount - shares.reduce((sum, share) => sum + share, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (left <= 0) break;
+    shares[index] += 1;
+    left -= 1;
+  }
+  return shares;
+}
+
+/**
+ * Works out a sale's totals from its lines. Line discounts come off first and can never
+ * take a line below zero; the order discount is then shared across the lines by what is
+ * left of them. Tax is charged on each line after its discounts, at its category's rate.
+ */
+export function calculateSaleTotals(lines: TotalsLine[], rates: TaxRates, orderDiscount?: OrderDiscount | null): SaleTotals {
+  const subtotals = lines.map(line => toCents(line.price) * line.quantity);
+  const lineDiscounts = lines.map((line, i) => Math.min(lineDiscountCents(subtotals[i], line), subtotals[i]));
+  const discounted = subtotals.map((subtotal, i) => subtotal - lineDiscounts[i]);
+
+  const discountedTotal = discounted.reduce((sum, amount) => sum + amount, 0);
+  let orderDiscountCents = 0;
+  if (orderDiscount?.type === 'PERCENTAGE') {
+    orderDiscountCents = Math.round((discountedTotal * orderDiscount.value) / 100);
+  } else if (orderDiscount?.type === 'FIXED') {
+    orderDiscountCents = toCents(orderDiscount.value);
+  }
+  const orderShares = allocate(Math.min(orderDiscountCents, discountedTotal), discounted);
+
+  const lineTotals = lines.map((line, i) => {
+    const discount = lineDiscounts[i] + orderShares[i];
+    const taxRate = taxRateFor(rates, line.category);
+    const tax = Math.round(((subtotals[i] - discount) * taxRate) / 100);
+    return {
+      subtotal: subtotals[i],
+      discount,
+      taxRate,
+      tax,
+      total: subtotals[i] - discount + tax,
+    };
+  });
+
+  const sum = (pick: (line: typeof lineTotals[number]) => number) =>
+    fromCents(lineTotals.reduce((total, line) => total + pick(line), 0));
+
+  return {
+    lines: lineTotals.map(line => ({
+      subtotal: fromCents(line.subtotal),
+      discountAmount: fromCents(line.discount),
+      taxRate: line.taxRate,
+      taxAmount: fromCents(line.tax),
+      total: fromCents(line.total),
+    })),
+    subtotal: sum(line => line.subtotal),
+    discountAmount: sum(line => line.discount),
+    taxAmount: sum(line => line.tax),
+    totalAmount: sum(line => line.total),
+  };
+}
+
+/**
+ * Whether a total a client sent is the one worked out on the server, to the cent
+ */
+export function totalsMatch(submitted: number, totals: SaleTotals): boolean {
+  return toCents(submitted) === toCents(totals.totalAmount);
+}
+
+/**
+ * The tax rates the business has set. A category without a rate of its own uses the default.
+ */
+export async function loadTaxRates(client: PrismaClient, ownerId: string): Promise<TaxRates> {
+  const rates = await client.taxRate.findMany({ where: { userId: ownerId } });
+
+  const categories: Record<string, number> = {};
+  let defaultRate = 0;
+  for (const rate of rates) {
+    if (rate.category === null) {
+      defaultRate = rate.rate;
+    } else {
+      categories[rate.category.toLowerCase()] = rate.rate;
+    }
+  }
+  return { defaultRate, categories };
+}
+
+/**
+ * Revenue a sale brought in before tax, net of refunds. Refunds include tax, so the tax in
+ * them is taken out in the same proportion as in the sale.
+ */
+export function preTaxRevenue(sale: { totalAmount: number; refundedAmount?: number | null; taxAmount?: number | null }): number {
+  const net = sale.totalAmount - (sale.refundedAmount || 0);
+  if (!sale.taxAmount || sale.totalAmount <= 0) {
+    return net;
+  }
+  return Math.round(net * ((sale.totalAmount - sale.taxAmount) / sale.totalAmount) * 100) / 100;
+}
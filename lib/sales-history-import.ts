@@ -0,0 +1,715 @@
+// Sales history imports: row validation, matching rows to products and running import jobs.
+// The dry run and the real import share the same plan so the preview matches what gets written.
+// Every imported line is stored with a fingerprint of its row so re-importing a file is safe.
+import { createHash } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AuditActor, recordAudit } from '@/lib/audit';
+import { notify } from '@/lib/notifications';
+
+export interface SalesHistoryItem {
+  date: string;
+  productId?: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  totalAmount: number;
+  externalOrderId?: string; // Order number from the system the file was exported from
+}
+
+// Row numbers count data rows from 1, so row 1 is the first line after the header
+export interface ImportRowError {
+  row: number;
+  reason: string;
+}
+
+export interface ValidatedRow {
+  row: number;
+  item: SalesHistoryItem;
+  saleDate: string; // YYYY-MM-DD, one sale is created per day
+  fingerprint: string;
+}
+
+// What to do with a row that was imported before with a different quantity or price
+export type ConflictPolicy = 'skip' | 'update';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['skip', 'update'];
+
+// A sale line written by an earlier import
+export interface ImportedLine {
+  id: string;
+  saleId: string;
+  importFingerprint: string | null;
+  quantity: number;
+  price: number;
+}
+
+export interface RowConflict {
+  row: ValidatedRow;
+  existing: ImportedLine;
+}
+
+export interface ClassifiedRows {
+  newRows: ValidatedRow[];
+  duplicates: ValidatedRow[];
+  conflicts: RowConflict[];
+}
+
+export interface CatalogProduct {
+  id: string;
+  sku: string | null;
+  name: string;
+  sellingPrice: number | null;
+}
+
+export interface CatalogVariant {
+  id: string;
+  sku: string | null;
+  productId: string;
+}
+
+export interface ImportCatalog {
+  products: CatalogProduct[];
+  variants: CatalogVariant[];
+}
+
+// How the rows for one product name will be matched. Rows are grouped case-insensitively by name.
+export interface ProductPlan {
+  key: string;
+  rows: number[];
+  action: 'create' | 'update' | 'match';
+  productId: string | null; // null until the product is created
+  variantId: string | null;
+  name: string;
+  sellingPrice: number;
+  quantity: number;
+  changes: Record<string, { before: string | number | null; after: string | number }> | null;
+}
+
+export interface SalesHistoryImportPreview {
+  totalRows: number;
+  validRows: number;
+  newRows: number;
+  duplicateRows: number;
+  conflictRows: number;
+  salesToCreate: number;
+  productsToCreate: { name: string; sellingPrice: number }[];
+  productsToUpdate: { productId: string; name: string; changes: NonNullable<ProductPlan['changes']> }[];
+  errors: ImportRowError[];
+  conflicts: ImportRowError[];
+}
+
+export interface SalesHistoryImportResult {
+  saleCount: number;
+  itemCount: number;
+  productsCreated: number;
+  productsUpdated: number;
+  newRows: number;
+  duplicateRows: number;
+  conflictRows: number;
+  updatedRows: number;
+}
+
+// How many days of sales are written between progress updates
+const PROGRESS_BATCH_DAYS = 20;
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+/**
+ * Stable identity of an imported row. With an external order id the row is identified by the
+ * order and product, so a changed quantity or price shows up as a conflict. Without one it is
+ * identified by its date, product, quantity and price, so only exact repeats match.
+ * @param occurrence How many identical rows came before this one in the same file, so
+ * genuinely repeated sales are not collapsed into one
+ */
+export function rowFingerprint(
+  ownerId: string,
+  item: SalesHistoryItem,
+  saleDate: string,
+  occurrence: number = 0
+): string {
+  const product = (item.productId || item.productName).toLowerCase();
+  const identity = item.externalOrderId
+    ? ['order', item.externalOrderId, product]
+    : ['row', saleDate, product, item.quantity, item.unitPrice];
+
+  return createHash('sha256')
+    .update([ownerId, ...identity, occurrence].join('|'))
+    .digest('hex');
+}
+
+/**
+ * Checks every uploaded row and reports the ones that cannot be imported instead of
+ * rejecting the whole file
+ * @param rows Rows as sent by the client
+ * @param ownerId Business owner the import is for, used to scope row fingerprints
+ */
+export function validateSalesHistoryRows(rows: unknown[], ownerId: string): {
+  valid: ValidatedRow[];
+  errors: ImportRowError[];
+} {
+  const valid: ValidatedRow[] = [];
+  const errors: ImportRowError[] = [];
+  const occurrences = new Map<string, number>();
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const item = (raw || {}) as Record<string, any>;
+    const reasons: string[] = [];
+
+    let saleDate = '';
+    if (isBlank(item.date)) {
+      reasons.push('Missing date');
+    } else {
+      const date = new Date(item.date);
+      if (isNaN(date.getTime())) {
+        reasons.push(`Invalid date "${item.date}"`);
+      } else {
+        saleDate = date.toISOString().split('T')[0];
+      }
+    }
+
+    if (isBlank(item.productName)) {
+      reasons.push('Missing product name');
+    }
+    if (typeof item.quantity !== 'number' || !Number.isInteger(item.quantity) || item.quantity <= 0) {
+      reasons.push('Quantity must be a whole number greater than zero');
+    }
+    if (typeof item.unitPrice !== 'number' || isNaN(item.unitPrice) || item.unitPrice < 0) {
+      reasons.push('Unit price must be a number of zero or more');
+    }
+    if (typeof item.totalAmount !== 'number' || isNaN(item.totalAmount)) {
+      reasons.push('Total amount must be a number');
+    }
+
+    if (reasons.length > 0) {
+      errors.push({ row, reason: reasons.join('; ') });
+      return;
+    }
+
+    const cleaned: SalesHistoryItem = {
+      date: item.date,
+      productId: isBlank(item.productId) ? undefined : String(item.productId).trim(),
+      productName: String(item.productName).trim(),
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      totalAmount: item.totalAmount,
+      externalOrderId: isBlank(item.externalOrderId) ? undefined : String(item.externalOrderId).trim(),
+    };
+
+    const firstFingerprint = rowFingerprint(ownerId, cleaned, saleDate);
+    const occurrence = occurrences.get(firstFingerprint) || 0;
+    occurrences.set(firstFingerprint, occurrence + 1);
+
+    valid.push({
+      row,
+      saleDate,
+      item: cleaned,
+      fingerprint: occurrence === 0 ? firstFingerprint : rowFingerprint(ownerId, cleaned, saleDate, occurrence),
+    });
+  });
+
+  return { valid, errors };
+}
+
+/**
+ * Loads the products and variant SKUs the rows could refer to
+ * @param client Prisma client
+ * @param ownerId Business owner the products belong to
+ */
+export async function loadImportCatalog(
+  client: PrismaClient,
+  ownerId: string,
+  rows: ValidatedRow[]
+): Promise<ImportCatalog> {
+  const ids = Array.from(new Set(rows.map(({ item }) => item.productId).filter((id): id is string => !!id)));
+  const names = Array.from(new Set(rows.map(({ item }) => item.productName)));
+
+  const [products, variants] = await Promise.all([
+    client.product.findMany({
+      where: {
+        userId: ownerId,
+        OR: [
+          { id: { in: ids } },
+          { sku: { in: ids } },
+          { name: { in: names, mode: 'insensitive' } },
+        ],
+      },
+      select: { id: true, sku: true, name: true, sellingPrice: true },
+    }),
+    ids.length > 0
+      ? client.productVariant.findMany({
+          where: { sku: { in: ids }, product: { userId: ownerId } },
+          select: { id: true, sku: true, productId: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  return { products, variants };
+}
+
+/**
+ * Finds the sale lines earlier imports wrote for these rows
+ * @param client Prisma client
+ */
+export async function findImportedLines(
+  client: PrismaClient,
+  rows: ValidatedRow[]
+): Promise<ImportedLine[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  return client.saleItem.findMany({
+    where: { importFingerprint: { in: rows.map(row => row.fingerprint) } },
+    select: { id: true, saleId: true, importFingerprint: true, quantity: true, price: true },
+  });
+}
+
+/**
+ * Splits rows into ones that are new, exact repeats of an earlier import, and ones an earlier
+ * import wrote with a different quantity or price
+ */
+export function classifyRows(rows: ValidatedRow[], imported: ImportedLine[]): ClassifiedRows {
+  const byFingerprint = new Map(imported.map(line => [line.importFingerprint, line]));
+  const result: ClassifiedRows = { newRows: [], duplicates: [], conflicts: [] };
+
+  for (const row of rows) {
+    const existing = byFingerprint.get(row.fingerprint);
+    if (!existing) {
+      result.newRows.push(row);
+    } else if (existing.quantity === row.item.quantity && existing.price === row.item.unitPrice) {
+      result.duplicates.push(row);
+    } else {
+      result.conflicts.push({ row, existing });
+    }
+  }
+
+  return result;
+}
+
+function describeConflict({ row, existing }: RowConflict): ImportRowError {
+  return {
+    row: row.row,
+    reason: `Already imported with quantity ${existing.quantity} at $${existing.price.toFixed(2)}`,
+  };
+}
+
+/**
+ * Decides for each product name in the file whether it matches a variant SKU, an existing
+ * product (possibly with a new name or price) or needs to be created.
+ * A productId column is tried as a variant SKU first, then as a product id or SKU, then the name is used.
+ * When the same product appears at several prices the highest price is kept.
+ */
+export function planProducts(rows: ValidatedRow[], catalog: ImportCatalog): ProductPlan[] {
+  const groups = new Map<string, { item: SalesHistoryItem; rows: number[] }>();
+
+  for (const { row, item } of rows) {
+    const key = item.productName.toLowerCase();
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, { item, rows: [row] });
+      continue;
+    }
+    group.rows.push(row);
+    if (group.item.unitPrice < item.unitPrice) {
+      group.item = item;
+    }
+  }
+
+  const plans: ProductPlan[] = [];
+
+  for (const [key, { item, rows: groupRows }] of Array.from(groups.entries())) {
+    const base = {
+      key,
+      rows: groupRows,
+      name: item.productName,
+      sellingPrice: item.unitPrice,
+      quantity: item.quantity,
+    };
+
+    const variant = item.productId
+      ? catalog.variants.find(candidate => candidate.sku === item.productId)
+      : undefined;
+    if (variant) {
+      plans.push({ ...base, action: 'match', productId: variant.productId, variantId: variant.id, changes: null });
+      continue;
+    }
+
+    const byId = item.productId
+      ? catalog.products.find(product => product.id === item.productId) ||
+        catalog.products.find(product => product.sku === item.productId)
+      : undefined;
+    const existing = byId || catalog.products.find(product => product.name.toLowerCase() === key);
+
+    if (!existing) {
+      plans.push({ ...base, action: 'create', productId: null, variantId: null, changes: null });
+      continue;
+    }
+
+    const changes: NonNullable<ProductPlan['changes']> = {};
+    if (existing.sellingPrice !== item.unitPrice) {
+      changes.sellingPrice = { before: existing.sellingPrice, after: item.unitPrice };
+    }
+    // Only an explicit productId or SKU renames a product; a name match already has the name
+    if (byId && existing.name !== item.productName) {
+      changes.name = { before: existing.name, after: item.productName };
+    }
+
+    const hasChanges = Object.keys(changes).length > 0;
+    plans.push({
+      ...base,
+      action: hasChanges ? 'update' : 'match',
+      productId: existing.id,
+      variantId: null,
+      changes: hasChanges ? changes : null,
+    });
+  }
+
+  return plans;
+}
+
+/**
+ * Works out what an import would do without writing anything
+ * @param client Prisma client
+ * @param ownerId Business owner the import is for
+ * @param rows Rows as sent by the client
+ */
+export async function previewSalesHistoryImport(
+  client: PrismaClient,
+  ownerId: string,
+  rows: unknown[]
+): Promise<SalesHistoryImportPreview> {
+  const { valid, errors } = validateSalesHistoryRows(rows, ownerId);
+  const [catalog, imported] = await Promise.all([
+    loadImportCatalog(client, ownerId, valid),
+    findImportedLines(client, valid),
+  ]);
+  const plans = planProducts(valid, catalog);
+  const { newRows, duplicates, conflicts } = classifyRows(valid, imported);
+
+  return {
+    totalRows: rows.length,
+    validRows: valid.length,
+    newRows: newRows.length,
+    duplicateRows: duplicates.length,
+    conflictRows: conflicts.length,
+    salesToCreate: new Set(newRows.map(row => row.saleDate)).size,
+    productsToCreate: plans
+      .filter(plan => plan.action === 'create')
+      .map(plan => ({ name: plan.name, sellingPrice: plan.sellingPrice })),
+    productsToUpdate: plans
+      .filter(plan => plan.action === 'update')
+      .map(plan => ({ productId: plan.productId as string, name: plan.name, changes: plan.changes! })),
+    errors,
+    conflicts: conflicts.map(describeConflict),
+  };
+}
+
+async function applyProductPlan(
+  client: PrismaClient,
+  session: AuditActor,
+  plan: ProductPlan
+): Promise<void> {
+  if (plan.action === 'create') {
+    const product = await client.product.create({
+      data: {
+        name: plan.name,
+        description: `Imported product: ${plan.name}`,
+        sellingPrice: plan.sellingPrice,
+        // Past sales do not tell how much is on the shelf now, and importing them takes no stock
+        stockQuantity: 0,
+        userId: session.user.ownerId,
+        category: 'Imported',
+        isActive: true,
+      },
+    });
+    await recordAudit(client, session, {
+      action: 'create',
+      entityType: 'Product',
+      entityId: product.id,
+      after: product,
+      summary: `Created product ${product.name} from sales history import`,
+    });
+    plan.productId = product.id;
+    return;
+  }
+
+  if (plan.action === 'update' && plan.productId && plan.changes) {
+    const data: Prisma.ProductUpdateInput = {};
+    if (plan.changes.name) data.name = plan.name;
+    if (plan.changes.sellingPrice) data.sellingPrice = plan.sellingPrice;
+
+    const before = await client.product.findUnique({ where: { id: plan.productId } });
+    const product = await client.product.update({ where: { id: plan.productId }, data });
+    await recordAudit(client, session, {
+      action: 'update',
+      entityType: 'Product',
+      entityId: product.id,
+      before,
+      after: product,
+      summary: `Updated product ${product.name} from sales history import`,
+    });
+  }
+}
+
+async function createDailySale(
+  client: PrismaClient,
+  session: AuditActor,
+  saleDate: string,
+  rows: ValidatedRow[],
+  plans: Map<string, ProductPlan>
+): Promise<number> {
+  const date = new Date(saleDate);
+  const lines = rows.map(({ item, fingerprint }) => ({
+    item,
+    fingerprint,
+    plan: plans.get(item.productName.toLowerCase())!,
+  }));
+
+  const sale = await client.$transaction(async (tx) => {
+    const newSale = await tx.sale.create({
+      data: {
+        date,
+        totalAmount: rows.reduce((sum, { item }) => sum + item.totalAmount, 0),
+        paymentMethod: 'CASH',
+        paymentStatus: 'COMPLETED',
+        userId: session.user.ownerId,
+        createdById: session.user.id,
+        createdAt: date,
+        updatedAt: date,
+      },
+    });
+
+    await tx.saleItem.createMany({
+      data: lines.map(({ item, fingerprint, plan }) => ({
+        quantity: item.quantity,
+        price: item.unitPrice,
+        productId: plan.productId as string,
+        variantId: plan.variantId,
+        productName: item.productName, // Kept for historical reference
+        saleId: newSale.id,
+        importFingerprint: fingerprint,
+        createdAt: date,
+        updatedAt: date,
+      })),
+    });
+
+    await tx.inventoryChange.createMany({
+      data: lines.map(({ item, plan }) => ({
+        productId: plan.productId as string,
+        variantId: plan.variantId,
+        userId: session.user.ownerId,
+        createdById: session.user.id,
+        type: 'remove',
+        quantity: item.quantity,
+        reason: 'Historical Import',
+        reference: `Sale #${newSale.id}`,
+        createdAt: date,
+        updatedAt: date,
+      })),
+    });
+
+    return newSale;
+  });
+
+  await recordAudit(client, session, {
+    action: 'create',
+    entityType: 'Sale',
+    entityId: sale.id,
+    after: sale,
+    summary: `Imported sales for ${saleDate}`,
+  });
+
+  return lines.length;
+}
+
+// Brings a previously imported line in line with the file and corrects the sale total and stock history
+async function updateImportedLine(
+  client: PrismaClient,
+  session: AuditActor,
+  { row, existing }: RowConflict,
+  plans: Map<string, ProductPlan>
+): Promise<void> {
+  const { item } = row;
+  const plan = plans.get(item.productName.toLowerCase())!;
+  const quantityChange = item.quantity - existing.quantity;
+
+  const [before, after] = await client.$transaction(async (tx) => {
+    const sale = await tx.sale.findUniqueOrThrow({ where: { id: existing.saleId } });
+    const updated = await tx.sale.update({
+      where: { id: sale.id },
+      data: {
+        totalAmount: sale.totalAmount - existing.quantity * existing.price + item.totalAmount,
+      },
+    });
+
+    await tx.saleItem.update({
+      where: { id: existing.id },
+      data: { quantity: item.quantity, price: item.unitPrice },
+    });
+
+    if (quantityChange !== 0) {
+      await tx.inventoryChange.create({
+        data: {
+          productId: plan.productId as string,
+          variantId: plan.variantId,
+          userId: session.user.ownerId,
+          createdById: session.user.id,
+          type: quantityChange > 0 ? 'remove' : 'add',
+          quantity: Math.abs(quantityChange),
+          reason: 'Historical Import',
+          reference: `Sale #${sale.id}`,
+        },
+      });
+    }
+
+    return [sale, updated];
+  });
+
+  await recordAudit(client, session, {
+    action: 'update',
+    entityType: 'Sale',
+    entityId: after.id,
+    before,
+    after,
+    summary: `Updated row ${row.row} of a sales history import`,
+  });
+}
+
+/**
+ * Runs a PENDING sales history import job: creates or updates products, then writes one sale
+ * per day, recording progress on the job as it goes. Rows that fail are added to the job's
+ * errors and the rest of the import carries on. Rows imported before are skipped, or for
+ * conflicting rows updated when the job's onConflict is "update".
+ * Meant to run after the request that started it has returned, so it never throws.
+ * @param client Prisma client
+ * @param session Whoever started the import
+ * @param jobId Import job to run
+ */
+export async function runSalesHistoryImport(
+  client: PrismaClient,
+  session: AuditActor,
+  jobId: string
+): Promise<void> {
+  try {
+    // Claim the job so it cannot be run twice
+    const claimed = await client.importJob.updateMany({
+      where: { id: jobId, businessId: session.user.ownerId, status: 'PENDING' },
+      data: { status: 'PROCESSING', startedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const job = await client.importJob.findUniqueOrThrow({ where: { id: jobId } });
+    const rows = Array.isArray(job.rows) ? (job.rows as unknown[]) : [];
+    const { valid, errors } = validateSalesHistoryRows(rows, session.user.ownerId);
+    const [catalog, imported] = await Promise.all([
+      loadImportCatalog(client, session.user.ownerId, valid),
+      findImportedLines(client, valid),
+    ]);
+    const plans = planProducts(valid, catalog);
+    const { newRows, duplicates, conflicts } = classifyRows(valid, imported);
+
+    const result: SalesHistoryImportResult = {
+      saleCount: 0,
+      itemCount: 0,
+      productsCreated: 0,
+      productsUpdated: 0,
+      newRows: newRows.length,
+      duplicateRows: duplicates.length,
+      conflictRows: conflicts.length,
+      updatedRows: 0,
+    };
+    const failedRows = new Set<number>();
+
+    for (const plan of plans) {
+      try {
+        await applyProductPlan(client, session, plan);
+        if (plan.action === 'create') result.productsCreated++;
+        if (plan.action === 'update') result.productsUpdated++;
+      } catch (error) {
+        console.error(`Error importing product ${plan.name}:`, error);
+        plan.rows.forEach(row => {
+          failedRows.add(row);
+          errors.push({ row, reason: `Could not save product "${plan.name}"` });
+        });
+      }
+    }
+
+    const plansByKey = new Map(plans.map(plan => [plan.key, plan]));
+
+    for (const conflict of conflicts) {
+      if (failedRows.has(conflict.row.row)) continue;
+      if (job.onConflict !== 'update') {
+        errors.push(describeConflict(conflict));
+        continue;
+      }
+      try {
+        await updateImportedLine(client, session, conflict, plansByKey);
+        result.updatedRows++;
+      } catch (error) {
+        console.error(`Error updating imported row ${conflict.row.row}:`, error);
+        errors.push({ row: conflict.row.row, reason: 'Could not update the previously imported sale' });
+      }
+    }
+
+    const rowsByDate = new Map<string, ValidatedRow[]>();
+    for (const row of newRows) {
+      if (failedRows.has(row.row)) continue;
+      rowsByDate.set(row.saleDate, [...(rowsByDate.get(row.saleDate) || []), row]);
+    }
+
+    let processedRows = rows.length - newRows.length + newRows.filter(row => failedRows.has(row.row)).length;
+    let daysSinceUpdate = 0;
+
+    for (const [saleDate, dayRows] of Array.from(rowsByDate.entries())) {
+      try {
+        result.itemCount += await createDailySale(client, session, saleDate, dayRows, plansByKey);
+        result.saleCount++;
+      } catch (error) {
+        console.error(`Error importing sales for ${saleDate}:`, error);
+        dayRows.forEach(({ row }) => errors.push({ row, reason: `Could not save the sale for ${saleDate}` }));
+      }
+
+      processedRows += dayRows.length;
+      if (++daysSinceUpdate >= PROGRESS_BATCH_DAYS) {
+        daysSinceUpdate = 0;
+        await client.importJob.update({ where: { id: jobId }, data: { processedRows } });
+      }
+    }
+
+    await client.importJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'COMPLETED',
+        processedRows: rows.length,
+        result: result as unknown as Prisma.InputJsonValue,
+        errors: errors.sort((a, b) => a.row - b.row) as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+
+    await notify(client, session.user.ownerId, {
+      type: 'import.completed',
+      title: 'Sales history import finished',
+      body: `Imported ${result.itemCount} line(s) into ${result.saleCount} sale(s)` +
+        (errors.length > 0 ? `; ${errors.length} row(s) could not be imported.` : '.'),
+      link: '/data-import',
+      data: { jobId, ...result, errorCount: errors.length },
+      userIds: [session.user.id],
+    });
+  } catch (error) {
+    console.error(`Import job ${jobId} failed:`, error);
+    await client.importJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'FAILED',
+        failureReason: (error as Error).message,
+        completedAt: new Date(),
+      },
+    }).catch(updateError => console.error(`Could not mark import job ${jobId} as failed:`, updateError));
+  }
+}
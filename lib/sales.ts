@@ -0,0 +1,328 @@
+// Recording a sale: pricing and checking its items, taking them out of stock and starting
+// the online payment of card sales. Both POST /api/sales and POST /api/v1/sales run it.
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import type { AuthorizedSession } from "@/lib/authorize";
+import { effectivePrice, syncProductStock } from "@/lib/variants";
+import { recordAudit } from "@/lib/audit";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { notify, stockNotification } from "@/lib/notifications";
+import { ReplenishmentCalculator } from "@/lib/analytics/replenishment";
+import { ensureInvoice } from "@/lib/invoices";
+import { GATEWAY_PAYMENT_METHODS, restockSale, startGatewayPayment, takesGatewayPayment } from "@/lib/card-payments";
+import { GatewayError, getPaymentGateway } from "@/lib/payment-gateway";
+import { calculateSaleTotals, loadTaxRates, totalsMatch } from "@/lib/sale-totals";
+import { CreateSaleBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// What a sale takes from one variant, or from one product sold without a variant
+interface StockMove {
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  quantity: number;
+}
+
+class InsufficientStockError extends Error {
+  constructor(productName: string) {
+    super(`Insufficient stock for product ${productName}`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Adds a line to what the sale takes, so lines for the same item are checked against its stock together
+function addStockMove(moves: Map<string, StockMove>, line: Omit<StockMove, "quantity">, quantity: number): StockMove {
+  const key = `${line.productId}:${line.variantId || ""}`;
+  const move = moves.get(key) || { ...line, quantity: 0 };
+  move.quantity += quantity;
+  moves.set(key, move);
+  return move;
+}
+
+/**
+ * Takes what a sale sold out of stock, with an inventory change for it
+ * @throws InsufficientStockError when less is left than the sale takes
+ */
+async function takeSaleStock(
+  tx: Prisma.TransactionClient,
+  move: StockMove,
+  saleId: string,
+  session: AuthorizedSession,
+  inventoryId?: string
+): Promise<void> {
+  const where = { stockQuantity: { gte: move.quantity } };
+  const data = { stockQuantity: { decrement: move.quantity } };
+  const taken = move.variantId
+    ? await tx.productVariant.updateMany({ where: { id: move.variantId, ...where }, data })
+    : await tx.product.updateMany({ where: { id: move.productId, ...where }, data });
+  if (taken.count === 0) {
+    throw new InsufficientStockError(move.productName);
+  }
+  if (move.variantId) {
+    await syncProductStock(tx, move.productId);
+  }
+
+  if (inventoryId) {
+    // Location stock never goes negative; anything beyond it came from unassigned stock
+    const level = await tx.stockLevel.findUnique({
+      where: {
+        productId_inventoryId: { productId: move.productId, inventoryId },
+      },
+    });
+
+    if (level && level.quantity > 0) {
+      await tx.stockLevel.update({
+        where: { id: level.id },
+        data: { quantity: Math.max(0, level.quantity - move.quantity) },
+      });
+    }
+  }
+
+  await tx.inventoryChange.create({
+    data: {
+      productId: move.productId,
+      variantId: move.variantId,
+      inventoryId: inventoryId || null,
+      userId: session.user.ownerId,
+      createdById: session.user.id,
+      type: "remove",
+      quantity: move.quantity,
+      reason: "Sale",
+      reference: `Sale #${saleId}`,
+    },
+  });
+}
+
+/**
+ * Records the sale described by the request body for the session's business
+ * @param session The signed-in user, or the API key's owner
+ * @returns The new sale, or the error response to return
+ */
+export async function createSale(req: Request, session: AuthorizedSession): Promise<NextResponse> {
+  try {
+    const body = await parseBody(req, CreateSaleBody);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { items, discount, paymentMethod, totalAmount, customerId, inventoryId, dueDate } = body;
+
+    // Verify the customer belongs to this user if one was provided
+    if (customerId) {
+      const customer = await prisma.customer.findFirst({
+        where: {
+          id: customerId,
+          userId: session.user.ownerId,
+        },
+      });
+
+      if (!customer) {
+        return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+      }
+    }
+
+    // Verify the location the goods leave from, if one was provided
+    if (inventoryId) {
+      const location = await prisma.inventory.findFirst({
+        where: {
+          id: inventoryId,
+          userId: session.user.ownerId,
+          isActive: true,
+        },
+      });
+
+      if (!location) {
+        return NextResponse.json({ error: "Location not found" }, { status: 404 });
+      }
+    }
+
+    // Verify all products exist and have enough stock for all the lines that take from them.
+    // Items sell at the price the business set for the product or variant, never at one the client sends.
+    const categories = new Map<string, string | null>();
+    const prices: number[] = [];
+    const stockMoves = new Map<string, StockMove>();
+    for (const item of items) {
+      const product = await prisma.product.findFirst({
+        where: { id: item.productId, userId: session.user.ownerId },
+      });
+
+      if (!product) {
+        return NextResponse.json({ error: `Product ${item.productId} not found` }, { status: 404 });
+      }
+      categories.set(product.id, product.category);
+
+      if (item.variantId) {
+        // Variant stock is tracked on the variant, the product only holds the total
+        const variant = await prisma.productVariant.findFirst({
+          where: {
+            id: item.variantId,
+            productId: product.id,
+            isActive: true,
+            product: { userId: session.user.ownerId },
+          },
+        });
+
+        if (!variant) {
+          return NextResponse.json({ error: `Variant ${item.variantId} not found for product ${product.name}` }, { status: 404 });
+        }
+
+        const move = addStockMove(stockMoves, { productId: product.id, variantId: variant.id, productName: product.name }, item.quantity);
+        if (variant.stockQuantity < move.quantity) {
+          return NextResponse.json({ error: `Insufficient stock for product ${product.name}` }, { status: 400 });
+        }
+        prices.push(effectivePrice(product, variant));
+      } else {
+        const move = addStockMove(stockMoves, { productId: product.id, variantId: null, productName: product.name }, item.quantity);
+        if (product.stockQuantity !== null && product.stockQuantity < move.quantity) {
+          return NextResponse.json({ error: `Insufficient stock for product ${product.name}` }, { status: 400 });
+        }
+        prices.push(effectivePrice(product));
+      }
+    }
+
+    // Work the total out from the items rather than trusting the one sent, which only has to agree
+    const totals = calculateSaleTotals(
+      items.map((item, index) => ({ ...item, price: prices[index], category: categories.get(item.productId) })),
+      await loadTaxRates(prisma, session.user.ownerId),
+      discount
+    );
+    if (!totalsMatch(totalAmount, totals)) {
+      return NextResponse.json(
+        {
+          error: `Total ${totalAmount.toFixed(2)} does not match the ${totals.totalAmount.toFixed(2)} worked out from the items, discounts and tax`,
+          totals,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Card sales of businesses that connected Stripe are paid online and completed by its webhook
+    const gateway = getPaymentGateway();
+    const paymentConfig = gateway && GATEWAY_PAYMENT_METHODS.includes(paymentMethod)
+      ? await prisma.paymentConfig.findUnique({ where: { userId: session.user.ownerId } })
+      : null;
+    const payOnline = takesGatewayPayment(paymentMethod, paymentConfig, gateway);
+
+    // The sale and the stock it takes are written together, and stock is only taken while
+    // enough is left, so two sales racing for the last units cannot both go through
+    const sale = await prisma.$transaction(async (tx) => {
+      const created = await tx.sale.create({
+        data: {
+          subtotal: totals.subtotal,
+          discountAmount: totals.discountAmount,
+          taxAmount: totals.taxAmount,
+          totalAmount: totals.totalAmount,
+          paymentMethod,
+          // Sales paid by invoice stay open until payments against them add up to the total,
+          // and card sales paid online until the gateway confirms the payment
+          paymentStatus: paymentMethod === "INVOICE" || payOnline ? "PENDING" : "COMPLETED",
+          userId: session.user.ownerId,
+          createdById: session.user.id,
+          customerId: customerId || null,
+          items: {
+            create: items.map((item, index) => ({
+              quantity: item.quantity,
+              price: prices[index],
+              discountAmount: totals.lines[index].discountAmount,
+              taxRate: totals.lines[index].taxRate,
+              taxAmount: totals.lines[index].taxAmount,
+              productId: item.productId,
+              variantId: item.variantId || null,
+            })),
+          },
+        },
+        include: {
+          customer: true,
+          createdBy: {
+            select: { id: true, name: true },
+          },
+          items: {
+            include: {
+              product: true,
+              variant: true,
+            },
+          },
+        },
+      });
+
+      for (const move of Array.from(stockMoves.values())) {
+        await takeSaleStock(tx, move, created.id, session, inventoryId);
+      }
+      return created;
+    });
+
+    let paymentIntent = null;
+    if (payOnline) {
+      try {
+        paymentIntent = await startGatewayPayment(prisma, gateway!, sale, paymentConfig?.stripeAccountId);
+      } catch (error) {
+        // Put the stock back and take the sale back
+        await prisma.$transaction(async (tx) => {
+          await restockSale(tx, sale, session, "Card payment could not be started");
+          await tx.sale.delete({ where: { id: sale.id } });
+        });
+        if (error instanceof GatewayError) {
+          return NextResponse.json({ error: `Card payment could not be started: ${error.message}` }, { status: 502 });
+        }
+        throw error;
+      }
+    }
+
+    // Sales paid by invoice are billed straight away, so they get their number and due date now
+    if (paymentMethod === "INVOICE") {
+      await ensureInvoice(prisma, sale, dueDate);
+    }
+
+    await recordAudit(prisma, session, {
+      action: "create",
+      entityType: "Sale",
+      entityId: sale.id,
+      after: sale,
+      summary: `Recorded sale of ${items.length} item(s) for ${totalAmount}`,
+    });
+
+    await emitWebhookEvent(prisma, session.user.ownerId, "sale.created", sale);
+    await notify(prisma, session.user.ownerId, {
+      type: "sale.created",
+      title: `New sale of $${totalAmount.toFixed(2)}`,
+      body: `${session.user.name || "Someone"} sold ${items.length} item(s) for $${totalAmount.toFixed(2)}.`,
+      link: "/sales-manager",
+      data: { saleId: sale.id, totalAmount },
+    });
+
+    // The sale's products were loaded before their stock was taken
+    const soldProducts = new Map(sale.items.map(item => [item.product.id, item.product]));
+    const reorderPoints = await new ReplenishmentCalculator(prisma)
+      .reorderPoints(session.user.ownerId, Array.from(soldProducts.keys()));
+    for (const before of Array.from(soldProducts.values())) {
+      const after = await prisma.product.findUnique({ where: { id: before.id } });
+      const alert = after && stockNotification(after, before.stockQuantity, reorderPoints.get(before.id) || 0);
+      if (alert) {
+        await notify(prisma, session.user.ownerId, alert);
+      }
+    }
+
+    if (paymentIntent) {
+      return NextResponse.json({
+        ...sale,
+        gatewayPaymentId: paymentIntent.id,
+        paymentIntent: {
+          id: paymentIntent.id,
+          clientSecret: paymentIntent.clientSecret,
+          accountId: paymentConfig?.stripeAccountId || null,
+        },
+      });
+    }
+
+    return NextResponse.json(sale);
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("[SALES_POST]", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal error" },
+      { status: 500 }
+    );
+  }
+}
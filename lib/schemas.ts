@@ -0,0 +1,853 @@
+// Request and response schemas for the API. Routes validate their input with these
+// (see lib/validation.ts) and lib/openapi.ts builds the OpenAPI document from the same definitions.
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+import type { Role } from '@prisma/client';
+import { ALL_PERMISSIONS, Permission, ROLE_PERMISSIONS } from '@/lib/permissions';
+import { allowsPrivateTargets, isPrivateUrl, WEBHOOK_EVENTS } from '@/lib/webhooks';
+import { NOTIFICATION_TYPES } from '@/lib/notifications';
+import { MAX_RATE_LIMIT_PER_MINUTE } from '@/lib/api-keys';
+import { PURCHASE_ORDER_STATUSES, PurchaseOrderStatus } from '@/lib/purchase-orders';
+import { INVITABLE_ROLES } from '@/lib/invites';
+import { DATE_FORMATS, DateFormat, IMPORT_TYPES, ImportType } from '@/lib/import-mapping';
+import { PLATFORM_SOURCES, PlatformSource } from '@/lib/platform-adapters';
+import { CONFLICT_POLICIES, ConflictPolicy } from '@/lib/sales-history-import';
+
+extendZodWithOpenApi(z);
+
+// Forms send numbers as strings, and an empty field as ""; accept both
+const numeric = <Schema extends z.ZodTypeAny>(schema: Schema) => z.preprocess(value => {
+  if (typeof value !== 'string') return value;
+  return value.trim() === '' ? null : Number(value);
+}, schema);
+
+const id = z.string().min(1);
+
+// Free text that may be left out or cleared with null
+const optionalText = z.string().nullable().optional();
+
+// An ISO 8601 date or date-time
+const isoDate = z.coerce.date().openapi({ type: 'string', format: 'date-time', example: '2024-03-01' });
+
+const dateTime = z.string().openapi({ format: 'date-time' });
+
+/**
+ * The sort parameter of a list: a field name, prefixed with "-" to sort descending
+ */
+function sortParam<Field extends string>(fields: readonly [Field, ...Field[]]) {
+  const values = fields.flatMap(field => [field, `-${field}`]) as [string, ...string[]];
+  return z.enum(values).optional().openapi({
+    description: `One of ${fields.join(', ')}. Prefix with - to sort descending.`,
+  });
+}
+
+// Errors
+
+export const ErrorResponse = z.object({
+  error: z.string(),
+}).openapi('Error');
+
+export const ValidationErrorResponse = z.object({
+  error: z.string().openapi({ example: 'Invalid request body' }),
+  issues: z.array(z.object({
+    path: z.string().openapi({ example: 'items.0.quantity' }),
+    message: z.string().openapi({ example: 'Number must be greater than 0' }),
+  })),
+}).openapi('ValidationError');
+
+// Shared values
+
+export const PAYMENT_METHODS = ['CASH', 'CREDIT_CARD', 'DEBIT_CARD', 'PAYPAL', 'STRIPE', 'INVOICE'] as const;
+export const PaymentMethod = z.enum(PAYMENT_METHODS).openapi('PaymentMethod');
+
+export const PaymentStatus = z.enum([
+  'PENDING',
+  'PAID',
+  'COMPLETED',
+  'PARTIALLY_PAID',
+  'REFUNDED',
+  'PARTIALLY_REFUNDED',
+  'CANCELLED',
+  'FAILED',
+]).openapi('PaymentStatus');
+
+export const AdjustmentType = z.enum(['INCREASE', 'DECREASE', 'ADJUSTMENT']).openapi({
+  description: 'INCREASE and DECREASE move stock by the quantity; ADJUSTMENT sets it to the quantity',
+});
+
+export const PermissionScope = z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]]).openapi('Permission');
+
+export const WebhookEventName = z.enum(WEBHOOK_EVENTS).openapi('WebhookEvent');
+
+export const NotificationType = z.enum(NOTIFICATION_TYPES).openapi('NotificationType');
+
+export const PurchaseOrderStatusName = z.enum(
+  PURCHASE_ORDER_STATUSES as [PurchaseOrderStatus, ...PurchaseOrderStatus[]]
+).openapi('PurchaseOrderStatus');
+
+// Records
+
+export const ProductVariant = z.object({
+  id: z.string(),
+  productId: z.string(),
+  sku: z.string().nullable(),
+  size: z.string().nullable(),
+  color: z.string().nullable(),
+  priceOverride: z.number().nullable(),
+  stockQuantity: z.number().int(),
+  isActive: z.boolean(),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+}).openapi('ProductVariant');
+
+export const Product = z.object({
+  id: z.string(),
+  sku: z.string().nullable(),
+  name: z.string(),
+  description: z.string().nullable(),
+  category: z.string().nullable(),
+  unitCost: z.number().nullable(),
+  sellingPrice: z.number().nullable(),
+  stockQuantity: z.number().int(),
+  location: z.string().nullable(),
+  size: z.string().nullable(),
+  color: z.string().nullable(),
+  imagesJson: z.array(z.object({ url: z.string(), alt: z.string().optional() })).nullable(),
+  leadTimeDays: z.number().int().nullable(),
+  safetyStockDays: z.number().int().nullable(),
+  supplierId: z.string().nullable(),
+  isActive: z.boolean(),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+  variants: z.array(ProductVariant).optional(),
+}).openapi('Product');
+
+export const SaleItem = z.object({
+  id: z.string(),
+  quantity: z.number().int(),
+  returnedQuantity: z.number().int(),
+  price: z.number(),
+  discountAmount: z.number(),
+  taxRate: z.number().openapi({ description: 'Percent' }),
+  taxAmount: z.number(),
+  productId: z.string(),
+  variantId: z.string().nullable(),
+  productName: z.string().nullable(),
+  product: z.object({ id: z.string(), name: z.string(), sku: z.string().nullable() }).partial().optional(),
+}).openapi('SaleItem');
+
+export const Sale = z.object({
+  id: z.string(),
+  date: dateTime,
+  subtotal: z.number().nullable().openapi({ description: 'Null on sales imported from history' }),
+  discountAmount: z.number(),
+  taxAmount: z.number(),
+  totalAmount: z.number(),
+  refundedAmount: z.number(),
+  paymentMethod: z.string(),
+  paymentStatus: z.string(),
+  customerId: z.string().nullable(),
+  createdById: z.string().nullable(),
+  gatewayPaymentId: z.string().nullable().openapi({ description: 'The Stripe PaymentIntent of a card sale paid online' }),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+  items: z.array(SaleItem),
+  customer: z.object({ id: z.string(), name: z.string(), email: z.string().nullable() }).partial().nullable().optional(),
+}).openapi('Sale');
+
+export const InventoryChange = z.object({
+  id: z.string(),
+  productId: z.string(),
+  variantId: z.string().nullable(),
+  inventoryId: z.string().nullable(),
+  type: z.string().openapi({ example: 'remove' }),
+  quantity: z.number().int(),
+  reason: z.string().nullable(),
+  reference: z.string().nullable(),
+  notes: z.string().nullable(),
+  createdById: z.string().nullable(),
+  createdAt: dateTime,
+}).openapi('InventoryChange');
+
+export const StockLevel = z.object({
+  id: z.string(),
+  productId: z.string(),
+  inventoryId: z.string(),
+  quantity: z.number().int(),
+}).openapi('StockLevel');
+
+export const Pagination = z.object({
+  page: z.number().int(),
+  limit: z.number().int(),
+  total: z.number().int(),
+  totalPages: z.number().int(),
+}).openapi('Pagination');
+
+export function paginatedOf<Item extends z.ZodTypeAny>(item: Item) {
+  return z.object({ data: z.array(item), pagination: Pagination });
+}
+
+export const AnalyticsSummary = z.object({
+  from: dateTime,
+  to: dateTime,
+  revenue: z.number(),
+  refunds: z.number(),
+  netRevenue: z.number(),
+  tax: z.number().openapi({ description: 'Sales tax in netRevenue' }),
+  preTaxRevenue: z.number().openapi({ description: 'netRevenue without sales tax' }),
+  salesCount: z.number().int(),
+  itemsSold: z.number().int(),
+  averageOrderValue: z.number(),
+  topProducts: z.array(z.object({
+    productId: z.string(),
+    name: z.string(),
+    quantity: z.number().int(),
+    revenue: z.number(),
+  })),
+}).openapi('AnalyticsSummary');
+
+export const ApiKey = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string().openapi({ example: 'mx_3f9a1c2b' }),
+  scopes: z.array(PermissionScope),
+  rateLimitPerMinute: z.number().int(),
+  lastUsedAt: dateTime.nullable(),
+  expiresAt: dateTime.nullable(),
+  revokedAt: dateTime.nullable(),
+  createdAt: dateTime,
+}).openapi('ApiKey');
+
+export const Webhook = z.object({
+  id: z.string(),
+  url: z.string(),
+  description: z.string().nullable(),
+  events: z.array(WebhookEventName),
+  isActive: z.boolean(),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+}).openapi('Webhook');
+
+export const WebhookDelivery = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  event: WebhookEventName,
+  payload: z.object({
+    id: z.string(),
+    event: WebhookEventName,
+    createdAt: dateTime,
+    data: z.record(z.unknown()),
+  }),
+  status: z.enum(['PENDING', 'SUCCEEDED', 'FAILED']),
+  attempts: z.number().int(),
+  nextAttemptAt: dateTime.nullable(),
+  lastAttemptAt: dateTime.nullable(),
+  responseStatus: z.number().int().nullable(),
+  responseBody: z.string().nullable(),
+  error: z.string().nullable(),
+  deliveredAt: dateTime.nullable(),
+  replayOfId: z.string().nullable(),
+  subscriptionId: z.string(),
+  createdAt: dateTime,
+}).openapi('WebhookDelivery');
+
+export const Notification = z.object({
+  id: z.string(),
+  type: NotificationType,
+  title: z.string(),
+  body: z.string(),
+  link: z.string().nullable(),
+  data: z.record(z.unknown()).nullable(),
+  readAt: dateTime.nullable(),
+  emailedAt: dateTime.nullable(),
+  createdAt: dateTime,
+}).openapi('Notification');
+
+// Products
+
+const productFields = {
+  sku: z.string().trim().min(1, 'SKU is required'),
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().nullable().optional(),
+  category: z.string().nullable().optional(),
+  unitCost: numeric(z.number().min(0).nullable().optional()),
+  sellingPrice: numeric(z.number().min(0).nullable().optional()),
+  stockQuantity: numeric(z.number().int().min(0).optional()),
+  location: z.string().nullable().optional(),
+  size: z.string().nullable().optional(),
+  color: z.string().nullable().optional(),
+  leadTimeDays: numeric(z.number().int().min(0).nullable().optional()),
+  safetyStockDays: numeric(z.number().int().min(0).nullable().optional()),
+  supplierId: z.string().nullable().optional(),
+  images: z.array(z.string()).optional().openapi({ description: 'Image URLs' }),
+};
+
+export const CreateProductBody = z.object({
+  ...productFields,
+  documents: z.array(z.string()).optional().openapi({ description: 'Document URLs' }),
+}).openapi('CreateProductBody');
+
+export const UpdateProductBody = z.object(productFields).partial().openapi('UpdateProductBody');
+
+// PUT /api/products/{id} replaces the product, so its prices and stock must be given (prices may be null)
+export const ReplaceProductBody = CreateProductBody.extend({
+  unitCost: numeric(z.number().min(0).nullable()),
+  sellingPrice: numeric(z.number().min(0).nullable()),
+  stockQuantity: numeric(z.number().int().min(0)),
+}).openapi('ReplaceProductBody');
+
+// PUT /api/inventory takes the id of the product being replaced in the body
+export const ReplaceInventoryProductBody = ReplaceProductBody.extend({ id }).openapi('ReplaceInventoryProductBody');
+
+// Blank options and SKUs are saved as null
+const variantFields = {
+  sku: optionalText,
+  size: optionalText,
+  color: optionalText,
+  priceOverride: numeric(z.number().min(0).nullable().optional())
+    .openapi({ description: "Price of this variant; null uses the product's selling price" }),
+  stockQuantity: numeric(z.number().int().min(0).nullable().optional()),
+};
+
+export const CreateVariantBody = z.object(variantFields).refine(body => body.size || body.color, {
+  message: 'A variant needs a size or a color',
+  path: ['size'],
+}).openapi('CreateVariantBody');
+
+export const UpdateVariantBody = z.object({
+  ...variantFields,
+  isActive: z.boolean().optional(),
+}).openapi('UpdateVariantBody');
+
+// Sales
+
+const percentage = z.number().min(0).max(100);
+
+export const OrderDiscount = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('PERCENTAGE'), value: percentage }),
+  z.object({ type: z.literal('FIXED'), value: z.number().min(0).openapi({ description: 'Amount off' }) }),
+]).openapi('OrderDiscount');
+
+export const LineDiscount = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('PERCENTAGE'), value: percentage }),
+  z.object({ type: z.literal('FIXED'), value: z.number().min(0).openapi({ description: 'Amount off the whole line' }) }),
+  z.object({
+    type: z.literal('BUY_X_GET_Y'),
+    buy: z.number().int().positive(),
+    get: z.number().int().positive().openapi({ description: 'Free units for every buy units bought' }),
+  }),
+]).openapi('LineDiscount');
+
+const saleLines = {
+  items: z.array(z.object({
+    productId: id,
+    variantId: id.optional(),
+    quantity: z.number().int().positive(),
+    discount: LineDiscount.optional(),
+  }).openapi({ description: "Sold at the variant's price override or the product's selling price" }))
+    .min(1, 'At least one item is required'),
+  discount: OrderDiscount.optional().openapi({ description: 'Comes off after the line discounts' }),
+};
+
+export const CreateSaleBody = z.object({
+  ...saleLines,
+  paymentMethod: PaymentMethod,
+  totalAmount: z.number().min(0).openapi({
+    description: 'Must equal the total worked out on the server after discounts and tax, to the cent',
+  }),
+  customerId: id.optional(),
+  inventoryId: id.optional().openapi({ description: 'Location the goods leave from' }),
+  dueDate: isoDate.optional().openapi({ description: 'For INVOICE sales; defaults to 30 days after the sale' }),
+}).openapi('CreateSaleBody');
+
+export const CardPaymentIntent = z.object({
+  id: z.string(),
+  clientSecret: z.string().nullable().openapi({ description: 'For confirming the payment with Stripe.js' }),
+  accountId: z.string().nullable().openapi({ description: "The business's connected Stripe account" }),
+}).openapi('CardPaymentIntent');
+
+export const CreatedSale = Sale.extend({
+  paymentIntent: CardPaymentIntent.optional().openapi({
+    description: 'Only on card sales paid online, which stay PENDING until the card is charged',
+  }),
+}).openapi('CreatedSale');
+
+export const PendingCardPayment = z.object({
+  saleId: z.string(),
+  amount: z.number(),
+  paymentIntent: CardPaymentIntent,
+}).openapi('PendingCardPayment');
+
+export const SaleQuoteBody = z.object(saleLines).openapi('SaleQuoteBody');
+
+export const SaleTotals = z.object({
+  lines: z.array(z.object({
+    subtotal: z.number(),
+    discountAmount: z.number(),
+    taxRate: z.number(),
+    taxAmount: z.number(),
+    total: z.number(),
+  })),
+  subtotal: z.number(),
+  discountAmount: z.number(),
+  taxAmount: z.number(),
+  totalAmount: z.number(),
+}).openapi('SaleTotals');
+
+export const TaxRates = z.object({
+  defaultRate: percentage.openapi({ description: 'Percent charged on products whose category has no rate of its own' }),
+  categories: z.array(z.object({
+    category: z.string().trim().min(1, 'Name the category'),
+    rate: percentage,
+  })).refine(
+    rates => new Set(rates.map(rate => rate.category.toLowerCase())).size === rates.length,
+    'Each category can only have one rate'
+  ),
+}).openapi('TaxRates');
+
+export const UpdateSaleBody = z.object({
+  paymentMethod: PaymentMethod.optional(),
+  // Paid and refunded statuses follow from the sale's payments and returns, so they cannot be set
+  paymentStatus: PaymentStatus.exclude(['PAID', 'PARTIALLY_PAID', 'REFUNDED', 'PARTIALLY_REFUNDED']).optional().openapi({
+    description: 'PAID and PARTIALLY_PAID come from recording payments, REFUNDED and PARTIALLY_REFUNDED from returns',
+  }),
+  customerId: id.nullable().optional().openapi({ description: 'null detaches the customer' }),
+  dueDate: isoDate.optional().openapi({ description: "Sets the invoice's due date, issuing the invoice if it has none" }),
+}).openapi('UpdateSaleBody');
+
+// Payments and receivables
+
+export const Payment = z.object({
+  id: z.string(),
+  amount: z.number(),
+  method: z.string(),
+  reference: z.string().nullable(),
+  note: z.string().nullable(),
+  paidAt: dateTime,
+  saleId: z.string(),
+  createdById: z.string().nullable(),
+  createdAt: dateTime,
+}).openapi('Payment');
+
+export const RecordPaymentBody = z.object({
+  amount: z.number().positive().openapi({ description: 'No more than the balance still owed' }),
+  method: PaymentMethod,
+  paidAt: isoDate.optional().openapi({ description: 'Defaults to now' }),
+  reference: z.string().trim().max(200).optional().openapi({ description: 'Cheque number, transfer reference and the like' }),
+  note: z.string().trim().max(1000).optional(),
+}).openapi('RecordPaymentBody');
+
+export const SalePayments = z.object({
+  payments: z.array(Payment),
+  paymentStatus: PaymentStatus,
+  totalAmount: z.number(),
+  paidAmount: z.number(),
+  balanceDue: z.number(),
+  dueDate: dateTime.nullable().openapi({ description: 'Null for sales no longer waiting for payment' }),
+}).openapi('SalePayments');
+
+export const AgingReport = z.object({
+  asOf: dateTime,
+  totalOutstanding: z.number(),
+  totalOverdue: z.number(),
+  buckets: z.array(z.object({
+    label: z.enum(['0-30', '31-60', '61-90', '90+']).openapi({ description: 'Days since the sale' }),
+    count: z.number().int(),
+    amount: z.number(),
+  })),
+  sales: z.array(z.object({
+    saleId: z.string(),
+    invoiceNumber: z.string().nullable().openapi({ example: 'INV-00042' }),
+    customer: z.object({ id: z.string(), name: z.string(), email: z.string().nullable() }).nullable(),
+    date: dateTime,
+    dueDate: dateTime,
+    totalAmount: z.number(),
+    paidAmount: z.number(),
+    balanceDue: z.number(),
+    daysOld: z.number().int(),
+    daysOverdue: z.number().int(),
+    bucket: z.string(),
+  })),
+}).openapi('AgingReport');
+
+// Customers
+
+const customerFields = {
+  name: z.string().trim().min(1, 'Customer name is required'),
+  email: optionalText.openapi({ description: 'Unique within the business' }),
+  phone: optionalText,
+  address: optionalText,
+  notes: optionalText,
+};
+
+export const CreateCustomerBody = z.object(customerFields).openapi('CreateCustomerBody');
+
+export const UpdateCustomerBody = z.object({
+  ...customerFields,
+  isActive: z.boolean(),
+}).partial().openapi('UpdateCustomerBody');
+
+// Returns
+
+export const CreateReturnBody = z.object({
+  items: z.array(z.object({
+    saleItemId: id,
+    quantity: z.number().int().positive(),
+  })).min(1, 'At least one item to return is required'),
+  restock: z.boolean().default(true).openapi({ description: 'Put the returned units back in stock' }),
+  reason: z.string().optional(),
+}).openapi('CreateReturnBody');
+
+// Point of sale
+
+export const ScanLookupQuery = z.object({
+  code: z.string().trim().min(1, 'Scan or type a code').openapi({ description: 'A scanned barcode or a typed SKU' }),
+});
+
+export const ScannedItem = z.object({
+  productId: z.string(),
+  variantId: z.string().nullable(),
+  name: z.string(),
+  sku: z.string().nullable(),
+  price: z.number(),
+  stockQuantity: z.number().int(),
+  category: z.string().nullable(),
+}).openapi('ScannedItem');
+
+export const ScanResult = z.object({
+  item: ScannedItem.nullable(),
+  options: z.array(ScannedItem).openapi({ description: 'The variants to choose from when the code is a product with several' }),
+}).openapi('ScanResult');
+
+// Inventory
+
+export const AdjustInventoryBody = z.object({
+  productId: id,
+  variantId: id.optional(),
+  inventoryId: id.optional().openapi({ description: 'Adjust the stock at this location only' }),
+  quantity: z.number().int().positive(),
+  type: AdjustmentType,
+}).openapi('AdjustInventoryBody');
+
+export const AdjustInventoryResponse = z.object({
+  success: z.literal(true),
+  product: Product,
+  variant: ProductVariant.optional(),
+  stockLevel: StockLevel.optional(),
+  change: InventoryChange,
+}).openapi('AdjustInventoryResponse');
+
+export const TransferStockBody = z.object({
+  productId: id,
+  fromInventoryId: id,
+  toInventoryId: id,
+  quantity: z.number().int().positive(),
+  notes: z.string().optional(),
+}).refine(body => body.fromInventoryId !== body.toInventoryId, {
+  message: 'Source and destination locations must be different',
+  path: ['toInventoryId'],
+}).openapi('TransferStockBody');
+
+export const TransferStockResponse = z.object({
+  success: z.literal(true),
+  reference: z.string().openapi({ example: 'Transfer #1a2b3c4d' }),
+  fromLevel: StockLevel,
+  toLevel: StockLevel,
+  changes: z.array(InventoryChange),
+}).openapi('TransferStockResponse');
+
+// Locations
+
+const locationFields = {
+  name: z.string().trim().min(1, 'Location name is required').openapi({ description: 'Unique among active locations' }),
+  type: optionalText.openapi({ example: 'warehouse' }),
+  location: optionalText.openapi({ description: 'Address or description of where it is' }),
+};
+
+export const CreateLocationBody = z.object(locationFields).openapi('CreateLocationBody');
+
+export const UpdateLocationBody = z.object({
+  ...locationFields,
+  isActive: z.boolean(),
+}).partial().openapi('UpdateLocationBody');
+
+// Suppliers
+
+const supplierFields = {
+  name: z.string().trim().min(1, 'Supplier name is required'),
+  contactName: optionalText,
+  email: optionalText,
+  phone: optionalText,
+  address: optionalText,
+  leadTimeDays: numeric(z.number().int().min(0).nullable().optional()),
+  safetyStockDays: numeric(z.number().int().min(0).nullable().optional()),
+  notes: optionalText,
+};
+
+export const CreateSupplierBody = z.object(supplierFields).openapi('CreateSupplierBody');
+
+export const UpdateSupplierBody = z.object({
+  ...supplierFields,
+  isActive: z.boolean(),
+}).partial().openapi('UpdateSupplierBody');
+
+// Purchase orders
+
+const purchaseOrderLines = z.array(z.object({
+  productId: id,
+  variantId: id.nullable().optional().openapi({ description: 'Required for products with variants' }),
+  quantity: z.number().int().positive(),
+  unitCost: numeric(z.number().min(0).nullable().optional()),
+})).min(1, 'At least one line is required');
+
+export const CreatePurchaseOrderBody = z.object({
+  supplierId: id,
+  expectedAt: isoDate.nullable().optional(),
+  notes: optionalText,
+  lines: purchaseOrderLines,
+}).openapi('CreatePurchaseOrderBody');
+
+export const UpdatePurchaseOrderBody = z.object({
+  status: PurchaseOrderStatusName.optional(),
+  expectedAt: isoDate.nullable().optional().openapi({ description: 'null clears it' }),
+  notes: optionalText,
+  lines: purchaseOrderLines.optional().openapi({ description: 'Replaces every line; drafts only' }),
+}).openapi('UpdatePurchaseOrderBody');
+
+export const ReceivePurchaseOrderBody = z.object({
+  lines: z.array(z.object({
+    lineId: id,
+    quantity: z.number().int().positive(),
+  })).min(1, 'At least one receipt line is required'),
+  closeShort: z.boolean().optional().openapi({ description: 'Mark the order RECEIVED even if some lines are still short' }),
+  inventoryId: id.optional().openapi({ description: 'Location the goods are received into' }),
+}).openapi('ReceivePurchaseOrderBody');
+
+// Imports
+
+const conflictPolicy = z.enum(CONFLICT_POLICIES as [ConflictPolicy, ...ConflictPolicy[]]).default('skip').openapi({
+  description: 'Whether rows imported before are skipped or updated when their values changed',
+});
+
+export const SalesHistoryImportBody = z.object({
+  salesHistory: z.array(z.unknown()).optional().openapi({ description: 'Rows in the MerchX sales history format' }),
+  source: z.enum(PLATFORM_SOURCES as [PlatformSource, ...PlatformSource[]]).optional()
+    .openapi({ description: 'Read rows as an order export from this platform instead' }),
+  rows: z.array(z.record(z.unknown())).optional(),
+  dryRun: z.boolean().optional().openapi({ description: 'Keep the job as a preview to commit later' }),
+  onConflict: conflictPolicy,
+}).openapi('SalesHistoryImportBody');
+
+// A row of an inventory file, with its columns already mapped to our fields
+const InventoryImportRow = z.object({
+  sku: z.string().default('').openapi({ description: 'Left blank, a SKU is made up' }),
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  unitCost: numeric(z.number().min(0).nullable().optional()),
+  sellingPrice: numeric(z.number().min(0).nullable().optional()),
+  stockQuantity: numeric(z.number().int().min(0).nullable().optional()),
+  location: z.string().optional(),
+  size: optionalText,
+  color: optionalText,
+  images: z.array(z.string()).optional().openapi({ description: 'Image URLs' }),
+}).openapi('InventoryImportRow');
+
+export const InventoryImportBody = z.object({
+  inventoryItems: z.array(InventoryImportRow).optional(),
+  source: z.enum(PLATFORM_SOURCES as [PlatformSource, ...PlatformSource[]]).optional()
+    .openapi({ description: 'Read rows as a product export from this platform instead' }),
+  rows: z.array(z.record(z.unknown())).optional(),
+}).openapi('InventoryImportBody');
+
+export const CommitImportBody = z.object({
+  onConflict: conflictPolicy,
+}).openapi('CommitImportBody');
+
+export const SaveImportMappingBody = z.object({
+  type: z.enum(IMPORT_TYPES as [ImportType, ...ImportType[]]),
+  name: z.string().trim().min(1, 'Preset name is required').max(100, 'Preset names are up to 100 characters'),
+  dateFormat: z.enum(DATE_FORMATS as [DateFormat, ...DateFormat[]]).default('auto'),
+  mapping: z.record(z.string().nullable()).openapi({ description: 'The column read for each field, or null for none' }),
+}).openapi('SaveImportMappingBody');
+
+// Employees
+
+export const CreateInviteBody = z.object({
+  email: z.string().trim().toLowerCase().regex(/^\S+@\S+\.\S+$/, 'A valid email address is required'),
+  name: z.string().optional(),
+  role: z.enum(INVITABLE_ROLES as [Role, ...Role[]], {
+    errorMap: () => ({ message: `Employees can be invited as ${INVITABLE_ROLES.join(', ')}` }),
+  }).default('SALES_REP'),
+}).openapi('CreateInviteBody');
+
+export const AcceptInviteBody = z.object({
+  token: z.string().min(1, 'Invitation token is required').openapi({ description: 'The token from the invitation link' }),
+  name: z.string().trim().min(1, 'Name is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+}).openapi('AcceptInviteBody');
+
+export const RoleName = z.enum(Object.keys(ROLE_PERMISSIONS) as [Role, ...Role[]]).openapi('Role');
+
+export const UpdateEmployeeAccessBody = z.object({
+  employeeId: id,
+  role: RoleName.optional(),
+  permissions: z.array(PermissionScope).optional().openapi({
+    description: "Granted on top of the role's own, replacing those granted before",
+  }),
+}).refine(body => body.role || body.permissions, {
+  message: 'A role or permissions are required',
+  path: ['role'],
+}).openapi('UpdateEmployeeAccessBody');
+
+export const EmployeeAccess = z.object({
+  employeeId: z.string(),
+  name: z.string().nullable(),
+  email: z.string().nullable(),
+  role: RoleName,
+  permissions: z.array(PermissionScope),
+  effectivePermissions: z.array(PermissionScope),
+}).openapi('EmployeeAccess');
+
+// Settings
+
+export const BusinessProfileBody = z.object({
+  businessName: z.string().trim().min(1, 'Business name is required'),
+  industry: optionalText,
+  address: optionalText,
+  city: optionalText,
+  state: optionalText,
+  zipCode: optionalText,
+  country: optionalText,
+  phone: optionalText,
+  website: optionalText,
+  taxId: optionalText,
+  logo: optionalText,
+}).openapi('BusinessProfileBody');
+
+export const PaymentConfigBody = z.object({
+  acceptCash: z.boolean(),
+  acceptCardPayments: z.boolean(),
+  acceptInvoicePayments: z.boolean(),
+  stripeEnabled: z.boolean(),
+  stripeAccountId: optionalText,
+}).partial().openapi('PaymentConfigBody');
+
+// PUT /api/payment-config changes only the settings given
+export const PaymentSettingsBody = z.object({
+  acceptsCreditCards: z.boolean(),
+  acceptsPayPal: z.boolean(),
+  acceptsCash: z.boolean(),
+  acceptsInvoice: z.boolean(),
+  stripeConnected: z.boolean(),
+  paypalConnected: z.boolean(),
+  defaultPaymentMethod: PaymentMethod,
+  stripeAccountId: optionalText,
+  paypalAccountId: optionalText,
+}).partial().openapi('PaymentSettingsBody');
+
+export const AccountSetupBody = BusinessProfileBody.omit({ logo: true }).openapi('AccountSetupBody');
+
+// API keys
+
+export const CreateApiKeyBody = z.object({
+  name: z.string().trim().min(1, 'Key name is required').max(100),
+  scopes: z.array(PermissionScope).min(1, 'Choose at least one scope'),
+  expiresInDays: z.number().int().positive().nullable().optional()
+    .openapi({ description: 'Leave out or null for a key that does not expire' }),
+  rateLimitPerMinute: z.number().int().min(1).max(MAX_RATE_LIMIT_PER_MINUTE).optional(),
+}).openapi('CreateApiKeyBody');
+
+// Webhooks
+
+const webhookUrl = z.string().url('A valid URL is required').refine(
+  url => url.startsWith('https://') || url.startsWith('http://'),
+  'The URL must start with https:// or http://'
+).refine(
+  url => allowsPrivateTargets() || !isPrivateUrl(url),
+  'The URL must not point to a private or local network address'
+).transform(url => new URL(url).toString());
+
+const webhookEvents = z.array(WebhookEventName).min(1, 'Choose at least one event')
+  .transform(events => Array.from(new Set(events)));
+
+// Blank descriptions are saved as null; leaving the field out keeps the current one
+const webhookDescription = z.string().nullable().optional()
+  .transform(description => (description === undefined ? undefined : description?.trim() || null));
+
+export const CreateWebhookBody = z.object({
+  url: webhookUrl,
+  events: webhookEvents,
+  description: webhookDescription,
+}).openapi('CreateWebhookBody');
+
+export const UpdateWebhookBody = z.object({
+  url: webhookUrl.optional(),
+  events: webhookEvents.optional(),
+  description: webhookDescription,
+  isActive: z.boolean().optional(),
+}).openapi('UpdateWebhookBody');
+
+// Notifications
+
+export const NotificationsQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  unread: z.enum(['true', 'false']).optional().openapi({ description: 'true to list only unread notifications' }),
+});
+
+export const UpdateNotificationBody = z.object({
+  read: z.boolean(),
+}).openapi('UpdateNotificationBody');
+
+export const NotificationPreferencesBody = z.object({
+  emailNotifications: z.boolean(),
+  smsNotifications: z.boolean(),
+  pushNotifications: z.boolean(),
+  orderUpdates: z.boolean(),
+  inventoryAlerts: z.boolean(),
+  paymentNotifications: z.boolean(),
+  marketingEmails: z.boolean(),
+  digestFrequency: z.enum(['NONE', 'DAILY', 'WEEKLY']).openapi({ description: 'How often the summary email is sent' }),
+}).partial().openapi('NotificationPreferencesBody');
+
+// REST API (v1) queries
+
+const paginationQuery = {
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+};
+
+export const V1ProductsQuery = z.object({
+  ...paginationQuery,
+  sort: sortParam(['name', 'sku', 'sellingPrice', 'stockQuantity', 'createdAt', 'updatedAt']),
+  category: z.string().optional(),
+  status: z.enum(['in-stock', 'low-stock', 'out-of-stock']).optional(),
+  search: z.string().optional().openapi({ description: 'Matches the name or SKU' }),
+});
+
+export const V1SalesQuery = z.object({
+  ...paginationQuery,
+  sort: sortParam(['date', 'totalAmount', 'createdAt']),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  paymentStatus: z.string().optional(),
+  customerId: z.string().optional(),
+});
+
+export const V1InventoryChangesQuery = z.object({
+  ...paginationQuery,
+  productId: z.string().optional(),
+  type: z.string().optional().openapi({ description: 'add, remove, adjust, INCREASE, DECREASE or ADJUSTMENT' }),
+  since: isoDate.optional(),
+  until: isoDate.optional(),
+});
+
+export const V1AnalyticsSummaryQuery = z.object({
+  from: isoDate.optional().openapi({ description: 'Defaults to 30 days before to' }),
+  to: isoDate.optional().openapi({ description: 'Defaults to now' }),
+  top: z.coerce.number().int().min(0).max(50).default(5),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'from must be before to',
+  path: ['from'],
+});
@@ -0,0 +1,143 @@
+// Per-location stock rules.
+// Product.stockQuantity is the overall total and StockLevel rows allocate it to inventory
+// locations; whatever is left over is "unassigned" stock that has not been put anywhere yet.
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+export interface StockLevelState {
+  inventoryId: string;
+  quantity: number;
+}
+
+export interface TransferPlan {
+  fromInventoryId: string;
+  toInventoryId: string;
+  quantity: number;
+  fromQuantityAfter: number;
+  toQuantityAfter: number;
+}
+
+// Error class for invalid stock movements
+export class StockLevelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StockLevelError';
+  }
+}
+
+/**
+ * Stock of a product that is not allocated to any location
+ * @param totalStock Product.stockQuantity
+ * @param levels The product's stock levels
+ */
+export function unassignedStock(totalStock: number, levels: StockLevelState[]): number {
+  const allocated = levels.reduce((sum, level) => sum + level.quantity, 0);
+  return Math.max(0, totalStock - allocated);
+}
+
+/**
+ * Quantity held at one location, 0 when the product has never been stocked there
+ */
+export function quantityAt(levels: StockLevelState[], inventoryId: string): number {
+  return levels.find(level => level.inventoryId === inventoryId)?.quantity || 0;
+}
+
+/**
+ * Applies an INCREASE / DECREASE / ADJUSTMENT to a quantity the same way /api/inventory/adjust does
+ * @param current Quantity before the adjustment
+ * @param type Adjustment type
+ * @param quantity Units to add or remove, or the new absolute value for ADJUSTMENT
+ * @throws StockLevelError when a decrease would go below zero
+ */
+export function applyAdjustment(
+  current: number,
+  type: 'INCREASE' | 'DECREASE' | 'ADJUSTMENT',
+  quantity: number
+): number {
+  if (type === 'INCREASE') {
+    return current + quantity;
+  }
+
+  if (type === 'DECREASE') {
+    if (current < quantity) {
+      throw new StockLevelError('Insufficient stock available');
+    }
+    return current - quantity;
+  }
+
+  return quantity;
+}
+
+/**
+ * Validates a transfer between two locations and works out the resulting quantities.
+ * Transfers never change the product total.
+ * @param levels Current stock levels of the product
+ * @param fromInventoryId Location the stock leaves
+ * @param toInventoryId Location the stock arrives at
+ * @param quantity Units to move
+ * @throws StockLevelError when the transfer is invalid
+ */
+export function planTransfer(
+  levels: StockLevelState[],
+  fromInventoryId: string,
+  toInventoryId: string,
+  quantity: number
+): TransferPlan {
+  if (!fromInventoryId || !toInventoryId) {
+    throw new StockLevelError('Both a source and a destination location are required');
+  }
+
+  if (fromInventoryId === toInventoryId) {
+    throw new StockLevelError('Source and destination locations must be different');
+  }
+
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new StockLevelError('Transfer quantity must be a positive whole number');
+  }
+
+  const available = quantityAt(levels, fromInventoryId);
+  if (available < quantity) {
+    throw new StockLevelError(`Only ${available} available at the source location`);
+  }
+
+  return {
+    fromInventoryId,
+    toInventoryId,
+    quantity,
+    fromQuantityAfter: available - quantity,
+    toQuantityAfter: quantityAt(levels, toInventoryId) + quantity,
+  };
+}
+
+/**
+ * The location a sale's goods left from, read from the inventory changes the sale recorded
+ * @returns The location, or null when the goods were not taken from one
+ */
+export async function saleLocation(
+  client: PrismaClient | Prisma.TransactionClient,
+  saleId: string
+): Promise<string | null> {
+  const change = await client.inventoryChange.findFirst({
+    where: { reference: `Sale #${saleId}`, type: 'remove', inventoryId: { not: null } },
+    select: { inventoryId: true },
+  });
+  return change?.inventoryId || null;
+}
+
+/**
+ * Puts goods that came back, such as returns or the items of a sale that did not go through,
+ * back on the stock level of the location they left from
+ */
+export async function restockLocation(
+  client: PrismaClient | Prisma.TransactionClient,
+  productId: string,
+  inventoryId: string,
+  quantity: number
+): Promise<void> {
+  await client.stockLevel.upsert({
+    where: {
+      productId_inventoryId: { productId, inventoryId },
+    },
+    create: { productId, inventoryId, quantity },
+    update: { quantity: { increment: quantity } },
+  });
+}
@@ -0,0 +1,65 @@
+// Validates request bodies and query strings against the shared schemas in lib/schemas.ts.
+// Every validation failure is answered the same way: 400 with the field path of each problem.
+import { NextResponse } from 'next/server';
+import { z, ZodError } from 'zod';
+
+export interface ValidationIssue {
+  // Dotted path to the field, e.g. "items.0.quantity"; empty for the body as a whole
+  path: string;
+  message: string;
+}
+
+export function validationIssues(error: ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+export function validationErrorResponse(error: string, issues: ValidationIssue[]) {
+  return NextResponse.json({ error, issues }, { status: 400 });
+}
+
+/**
+ * Reads the JSON body and checks it against a schema
+ * @param options.optional Read a request without a body as {}, for bodies whose fields all have defaults
+ * @returns The parsed body, with defaults applied, or the 400 response to return
+ */
+export async function parseBody<Schema extends z.ZodTypeAny>(
+  req: Request,
+  schema: Schema,
+  options: { optional?: boolean } = {}
+): Promise<z.output<Schema> | NextResponse> {
+  let body: unknown;
+  try {
+    const text = await req.text();
+    body = options.optional && text.trim() === '' ? {} : JSON.parse(text);
+  } catch {
+    return validationErrorResponse('Invalid request body', [
+      { path: '', message: 'The request body must be valid JSON' },
+    ]);
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    return validationErrorResponse('Invalid request body', validationIssues(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Checks the query string against a schema. Parameters that appear once are passed as
+ * strings, so number and boolean fields should coerce.
+ * @returns The parsed query, with defaults applied, or the 400 response to return
+ */
+export function parseQuery<Schema extends z.ZodTypeAny>(
+  req: Request,
+  schema: Schema
+): z.output<Schema> | NextResponse {
+  const { searchParams } = new URL(req.url);
+  const result = schema.safeParse(Object.fromEntries(searchParams));
+  if (!result.success) {
+    return validationErrorResponse('Invalid query parameters', validationIssues(result.error));
+  }
+  return result.data;
+}
@@ -0,0 +1,151 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+// Helpers for products that come in several option combinations (size/color).
+
+export interface VariantOptions {
+  size?: string | null;
+  color?: string | null;
+}
+
+export interface VariantLike extends VariantOptions {
+  priceOverride?: number | null;
+  stockQuantity?: number | null;
+}
+
+export interface InventoryImportRow extends VariantOptions {
+  sku: string;
+  name: string;
+  description?: string;
+  category?: string;
+  // Blank numbers arrive as null from mapped files and platform exports
+  unitCost?: number | null;
+  sellingPrice?: number | null;
+  stockQuantity?: number | null;
+  location?: string;
+  images?: string[];
+}
+
+export interface InventoryImportGroup {
+  name: string;
+  category?: string;
+  // Rows that carry no size or color are imported as plain products
+  hasVariants: boolean;
+  rows: InventoryImportRow[];
+}
+
+/**
+ * Removes a trailing option suffix such as "(Black)" or "(M / Black)" from a product name
+ * when the suffix matches the row's own size or color. Names like "Cotton T-Shirt (Black)"
+ * then group under a single "Cotton T-Shirt" parent.
+ * @param name Product name as it appears in the import
+ * @param options Size and color of the row
+ */
+export function stripVariantSuffix(name: string, options: VariantOptions): string {
+  const match = name.trim().match(/^(.*\S)\s*\(([^)]+)\)$/);
+  if (!match) {
+    return name.trim();
+  }
+
+  const optionValues = [options.size, options.color]
+    .filter((value): value is string => Boolean(value))
+    .map(value => value.trim().toLowerCase());
+
+  const suffixParts = match[2].split(/[\/,]/).map(part => part.trim().toLowerCase());
+  const suffixIsOptions = suffixParts.length > 0 && suffixParts.every(part => optionValues.includes(part));
+
+  return suffixIsOptions ? match[1] : name.trim();
+}
+
+/**
+ * Groups inventory import rows under their parent product. Rows with a size or
+ * color become variants of the parent with the same base name and category.
+ * @param rows Parsed inventory rows
+ */
+export function groupInventoryRows(rows: InventoryImportRow[]): InventoryImportGroup[] {
+  const groups = new Map<string, InventoryImportGroup>();
+
+  for (const row of rows) {
+    if (!row.name) continue;
+
+    const hasOptions = Boolean(row.size || row.color);
+    const name = hasOptions ? stripVariantSuffix(row.name, row) : row.name.trim();
+    // plain products keep one group per row so existing SKU matching is unchanged
+    const key = hasOptions
+      ? `variant:${name.toLowerCase()}|${(row.category || '').toLowerCase()}`
+      : `plain:${groups.size}`;
+
+    const group = groups.get(key);
+    if (group) {
+      group.rows.push(row);
+    } else {
+      groups.set(key, {
+        name,
+        category: row.category,
+        hasVariants: hasOptions,
+        rows: [row],
+      });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Human readable label for a variant, e.g. "M / Black"
+ */
+export function variantLabel(variant: VariantOptions): string {
+  return [variant.size, variant.color].filter(Boolean).join(' / ') || 'Default';
+}
+
+/**
+ * Whether a variant has the given size and color (case-insensitive, blanks match blanks)
+ */
+export function matchesOptions(variant: VariantOptions, options: VariantOptions): boolean {
+  const normalize = (value?: string | null) => (value || '').trim().toLowerCase();
+  return normalize(variant.size) === normalize(options.size) &&
+    normalize(variant.color) === normalize(options.color);
+}
+
+/**
+ * Price a variant sells for: its override if set, otherwise the parent's selling price
+ */
+export function effectivePrice(
+  product: { sellingPrice?: number | null },
+  variant?: VariantLike | null
+): number {
+  if (variant?.priceOverride !== undefined && variant?.priceOverride !== null) {
+    return variant.priceOverride;
+  }
+  return product.sellingPrice || 0;
+}
+
+/**
+ * Total stock across variants, used to keep Product.stockQuantity in sync
+ */
+export function totalVariantStock(variants: VariantLike[]): number {
+  return variants.reduce((sum, variant) => sum + (variant.stockQuantity || 0), 0);
+}
+
+/**
+ * Recomputes Product.stockQuantity from its active variants. Products without variants are left alone.
+ * @param client Prisma client or the transaction client the caller is working in
+ * @param productId Parent product id
+ */
+export async function syncProductStock(
+  client: PrismaClient | Prisma.TransactionClient,
+  productId: string
+): Promise<void> {
+  const variants = await client.productVariant.findMany({
+    where: { productId, isActive: true },
+    select: { stockQuantity: true },
+  });
+
+  if (variants.length === 0) {
+    return;
+  }
+
+  await client.product.update({
+    where: { id: productId },
+    data: { stockQuantity: totalVariantStock(variants) },
+  });
+}
@@ -0,0 +1,391 @@
+// Outgoing webhooks: signing and delivery with retries. Subscription bodies are validated by lib/schemas.ts.
+// Routes emit events after their changes are saved; every attempt is recorded on a WebhookDelivery.
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { stockStatus } from '@/lib/analytics/replenishment';
+
+export const WEBHOOK_EVENTS = [
+  'sale.created',
+  'stock.low',
+  'stock.out',
+  'stock.restocked',
+  'product.created',
+  'product.updated',
+  'product.deleted',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Wait before each retry; a delivery is given up after the last one fails
+export const RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// How long a receiver has to answer, and how much of its answer is kept for the log
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+// A delivery being attempted is pushed this far ahead so another worker does not pick it up too
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+// Receivers should refuse signatures older than this, to stop old payloads being replayed at them
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Addresses on the server's own networks, which includes cloud metadata endpoints (169.254.169.254).
+// Webhooks may not be sent to them unless WEBHOOK_ALLOW_PRIVATE_TARGETS=true, e.g. in development.
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+// Fields of a subscription that are sent back after creation; the secret is only shown once
+export const WEBHOOK_SELECT = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export function createWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+export function allowsPrivateTargets(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true';
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public internet.
+ * IPv4 addresses written as IPv6 (::ffff:127.0.0.1) count as the IPv4 address.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// URL hostnames keep IPv6 brackets and may end in a dot
+function bareHostname(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+}
+
+/**
+ * Whether a URL names a local host or a private address outright. Names that only resolve
+ * to one are caught when the webhook is delivered.
+ * @returns false for anything that is not a URL
+ */
+export function isPrivateUrl(url: string): boolean {
+  let host: string;
+  try {
+    host = bareHostname(new URL(url));
+  } catch {
+    return false;
+  }
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+}
+
+/**
+ * Refuses to send to a URL whose host is, or currently resolves to, a private address
+ * @throws Error naming the address when it is not allowed
+ */
+async function checkWebhookTarget(url: string): Promise<void> {
+  if (allowsPrivateTargets()) {
+    return;
+  }
+  if (isPrivateUrl(url)) {
+    throw new Error('The webhook URL points to a private or local network address');
+  }
+
+  const addresses = await lookup(bareHostname(new URL(url)), { all: true });
+  const privateAddress = addresses.find(({ address }) => isPrivateAddress(address));
+  if (privateAddress) {
+    throw new Error(`The webhook URL resolves to a private or local network address (${privateAddress.address})`);
+  }
+}
+
+/**
+ * Signature header value for a payload: "t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">"
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Checks a signature header the way a receiver should: the HMAC must match and the
+ * timestamp must be recent
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null,
+  now: Date = new Date()
+): boolean {
+  const parts = new Map(
+    (header || '').split(',').map(part => part.split('=', 2) as [string, string])
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1]);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * @param attempts Attempts made so far, including the one that just failed
+ * @returns How long to wait before the next attempt, or null when the delivery should be given up
+ */
+export function retryDelay(attempts: number): number | null {
+  return attempts >= 1 && attempts < MAX_DELIVERY_ATTEMPTS ? RETRY_DELAYS_MS[attempts - 1] : null;
+}
+
+/**
+ * The stock event for a change in a product's stock, if it fell to its reorder point,
+ * ran out or came back above the reorder point
+ * @param reorderPoint The product's reorder point from the replenishment calculator
+ */
+export function stockThresholdEvent(
+  before: number,
+  after: number,
+  reorderPoint: number
+): WebhookEvent | null {
+  const statusBefore = stockStatus(before, reorderPoint);
+  const statusAfter = stockStatus(after, reorderPoint);
+
+  if (statusAfter === 'out_of_stock' && statusBefore !== 'out_of_stock') {
+    return 'stock.out';
+  }
+  if (statusAfter === 'reorder' && statusBefore === 'ok') {
+    return 'stock.low';
+  }
+  if (statusAfter === 'ok' && statusBefore !== 'ok') {
+    return 'stock.restocked';
+  }
+  return null;
+}
+
+/**
+ * Queues an event for every active subscription of the business that wants it, then sends
+ * the deliveries without waiting for them. Failures are logged and never fail the caller,
+ * since the change the event describes has already been saved.
+ */
+export async function emitWebhookEvent(
+  client: PrismaClient,
+  ownerId: string,
+  event: WebhookEvent,
+  data: unknown
+): Promise<void> {
+  try {
+    const subscriptions = await client.webhookSubscription.findMany({
+      where: {
+        userId: ownerId,
+        isActive: true,
+        events: { has: event },
+      },
+      select: { id: true },
+    });
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const eventId = randomUUID();
+    const now = new Date();
+    // Round-trip through JSON so dates are sent the way every receiver will read them
+    const payload = JSON.parse(JSON.stringify({ id: eventId, event, createdAt: now, data }));
+
+    const deliveries = await Promise.all(subscriptions.map(subscription =>
+      client.webhookDelivery.create({
+        data: {
+          eventId,
+          event,
+          payload,
+          nextAttemptAt: now,
+          subscriptionId: subscription.id,
+        },
+      })
+    ));
+
+    void Promise.all(deliveries.map(delivery => attemptDelivery(client, delivery.id)))
+      .catch(error => console.error(`Error delivering webhook event ${event}:`, error));
+  } catch (error) {
+    console.error(`Error emitting webhook event ${event}:`, error);
+  }
+}
+
+/**
+ * Sends a delivery once and records the outcome, scheduling a retry when it fails.
+ * Deliveries that are not due, or that another worker is already sending, are left alone.
+ * @returns The updated delivery, or null when it was not attempted
+ */
+export async function attemptDelivery(
+  client: PrismaClient,
+  deliveryId: string,
+  now: Date = new Date()
+) {
+  const claimed = await client.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: 'PENDING',
+      nextAttemptAt: { lte: now },
+    },
+    data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const delivery = await client.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { subscription: true },
+  });
+
+  const body = JSON.stringify(delivery.payload);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    await checkWebhookTarget(delivery.subscription.url);
+    const response = await fetch(delivery.subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'MerchX-Webhooks/1.0',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: signWebhookPayload(
+          delivery.subscription.secret,
+          body,
+          Math.floor(Date.now() / 1000)
+        ),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+    if (!response.ok) {
+      error = `Receiver answered ${response.status}`;
+    }
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  const finishedAt = new Date();
+  const data: Prisma.WebhookDeliveryUpdateInput = {
+    attempts,
+    lastAttemptAt: finishedAt,
+    responseStatus,
+    responseBody,
+    error,
+  };
+
+  if (!error) {
+    data.status = 'SUCCEEDED';
+    data.deliveredAt = finishedAt;
+    data.nextAttemptAt = null;
+  } else {
+    const delay = retryDelay(attempts);
+    data.status = delay === null ? 'FAILED' : 'PENDING';
+    data.nextAttemptAt = delay === null ? null : new Date(finishedAt.getTime() + delay);
+  }
+
+  return client.webhookDelivery.update({
+    where: { id: delivery.id },
+    data,
+  });
+}
+
+/**
+ * Attempts deliveries whose retry is due, oldest first. Run this regularly, e.g. from cron.
+ * @returns How many deliveries were attempted
+ */
+export async function retryDueDeliveries(
+  client: PrismaClient,
+  now: Date = new Date(),
+  limit: number = 50
+): Promise<number> {
+  const due = await client.webhookDelivery.findMany({
+    where: {
+      status: 'PENDING',
+      nextAttemptAt: { lte: now },
+    },
+    select: { id: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+  });
+
+  let attempted = 0;
+  for (const delivery of due) {
+    if (await attemptDelivery(client, delivery.id, now)) {
+      attempted++;
+    }
+  }
+  return attempted;
+}
+
+/**
+ * Sends an earlier delivery's payload again as a new delivery, so the log keeps both.
+ * The event id is unchanged, letting receivers recognise events they already handled.
+ */
+export async function replayDelivery(
+  client: PrismaClient,
+  delivery: { id: string; eventId: string; event: string; payload: Prisma.JsonValue; subscriptionId: string }
+) {
+  const replay = await client.webhookDelivery.create({
+    data: {
+      eventId: delivery.eventId,
+      event: delivery.event,
+      payload: delivery.payload as Prisma.InputJsonValue,
+      nextAttemptAt: new Date(),
+      subscriptionId: delivery.subscriptionId,
+      replayOfId: delivery.id,
+    },
+  });
+
+  return (await attemptDelivery(client, replay.id)) || replay;
+}
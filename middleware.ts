@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { getToken } from 'next-auth/jwt'
 import type { NextRequest } from 'next/server'
+import { hasPermission, permissionsForPath } from './lib/permissions'
 
 // Authentication-exempt paths
 const publicPaths = [
@@ -13,8 +14,18 @@ const publicPaths = [
   '/terms',
   '/privacy',
   '/contact',
+  '/invite',
   '/api/auth/register',
-  '/api/auth/[...nextauth]'
+  '/api/auth/invite',
+  '/api/auth/[...nextauth]',
+  // Authenticated by API key in the route handlers
+  '/api/v1',
+  // Authenticated by CRON_SECRET in the route handlers
+  '/api/cron',
+  // Authenticated by the payment gateway's signature in the route handler
+  '/api/payment/webhook',
+  // Describes the API for clients; holds no data
+  '/api/openapi.json'
 ]
 
 // Onboarding-exempt paths
@@ -26,32 +37,6 @@ const onboardingExemptPaths = [
   '/api/onboarding/complete'
 ]
 
-// Permission-restricted routes
-const restrictedRoutes: Record<string, string[]> = {
-  '/inventory-manager': ['MANAGE_INVENTORY'],
-  '/api/inventory': ['MANAGE_INVENTORY'],
-  '/sales-manager': ['MANAGE_SALES'],
-  '/api/sales': ['MANAGE_SALES'],
-  '/reports': ['VIEW_REPORTS'],
-  '/api/reports': ['VIEW_REPORTS'],
-  '/analytics': ['VIEW_ANALYTICS'],
-  '/api/analytics': ['VIEW_ANALYTICS'],
-  '/api/employees': ['MANAGE_EMPLOYEES'],
-  '/profile': ['MANAGE_SETTINGS'],
-  '/api/settings': ['MANAGE_SETTINGS'],
-}
-
-// Define which route requires which permission
-const routePermissionMapping: Record<string, string[]> = {
-  '/dashboard': ['VIEW_DASHBOARD'],
-  '/inventory-manager': ['VIEW_INVENTORY', 'MANAGE_INVENTORY'],
-  '/sales-manager': ['VIEW_SALES', 'PROCESS_SALES'],
-  '/reports': ['VIEW_REPORTS'],
-  '/analytics': ['VIEW_ANALYTICS'],
-  '/profile': ['MANAGE_SETTINGS'],
-  '/api/settings': ['MANAGE_SETTINGS'],
-};
-
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
 
@@ -107,19 +92,16 @@ export async function middleware(request: NextRequest) {
 
   // Permission check for restricted routes
   const userPermissions = token.permissions as string[] || []
-  const restrictedPath = Object.keys(restrictedRoutes).find(route => 
-    pathname.startsWith(route)
-  )
-
-  if (restrictedPath) {
-    const requiredPermissions = restrictedRoutes[restrictedPath]
-    const hasPermission = requiredPermissions.some((permission: string) => 
-      userPermissions.includes(permission)
-    )
-
-    if (!hasPermission) {
-      return NextResponse.redirect(new URL('/dashboard', request.url))
+  const requiredPermissions = permissionsForPath(pathname)
+
+  if (requiredPermissions && !hasPermission(userPermissions, requiredPermissions)) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to perform this action' },
+        { status: 403 }
+      )
     }
+    return NextResponse.redirect(new URL('/dashboard', request.url))
   }
 
   // Role-based access
@@ -3,6 +3,10 @@ const nextConfig = {
   reactStrictMode: false,
   swcMinify: true,
   output: 'standalone',
+  experimental: {
+    // PDFKit reads its font files from its own directory at runtime
+    serverComponentsExternalPackages: ['pdfkit'],
+  },
   // Temporarily disable TypeScript checking during build
   typescript: {
     ignoreBuildErrors: true,
@@ -0,0 +1,33 @@
+/**
+ * this script sends the daily digests, and the weekly ones on Mondays, by calling the
+ * running app's /api/cron/digests route. Schedule it once each morning.
+ * the digest calculators only run inside the app, so NEXTAUTH_URL must point at it and
+ * CRON_SECRET must match the app's
+ */
+async function sendDigests() {
+  const appUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    throw new Error('CRON_SECRET is not set');
+  }
+
+  console.log(`Sending digests through ${appUrl}...`);
+
+  const response = await fetch(new URL('/api/cron/digests', appUrl), {
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+  const result = await response.json() as { sent?: number; failed?: number; error?: string };
+
+  if (!response.ok) {
+    throw new Error(`Sending digests failed (${response.status}): ${result.error || 'unknown error'}`);
+  }
+
+  console.log(`Sent ${result.sent} digests, ${result.failed} failed`);
+}
+
+// run the function
+sendDigests()
+  .catch(e => {
+    console.error(e);
+    process.exit(1);
+  });